@@ -14,6 +14,7 @@ import RuntimeDemo from './components/RuntimeDemo';
 import PRDGenerator from './components/PRDGenerator';
 import IntentTester from './components/IntentTester';
 import ProblemFramingCanvas from './components/ProblemFramingCanvas';
+import MemoryExplorer from './components/MemoryExplorer';
 import { Auth } from './components/Auth';
 import { useWorkflow } from './context/WorkflowContext';
 import { useAuth } from './context/AuthContext';
@@ -48,7 +49,8 @@ import {
   Plug,
   DollarSign,
   Brain,
-  Lightbulb
+  Lightbulb,
+  Library
 } from 'lucide-react';
 
 function App() {
@@ -93,7 +95,7 @@ function App() {
   }
 
   // Navigation State
-  const [currentView, setCurrentView] = useState<'dashboard' | 'builder' | 'templates' | 'integrations' | 'history' | 'pricing' | 'runtime' | 'prd' | 'intent' | 'framing' | 'settings'>('dashboard');
+  const [currentView, setCurrentView] = useState<'dashboard' | 'builder' | 'templates' | 'integrations' | 'history' | 'pricing' | 'runtime' | 'prd' | 'intent' | 'framing' | 'memory' | 'settings'>('dashboard');
 
   const logEndRef = useRef<HTMLDivElement>(null);
   
@@ -262,6 +264,12 @@ ${documents.length > 0 ? '- **knowledge_base.json**: Exported RAG documents.' :
                   isActive={currentView === 'framing'}
                   onClick={() => setCurrentView('framing')}
                 />
+               <NavIcon
+                  icon={Library}
+                  label="Memory Explorer"
+                  isActive={currentView === 'memory'}
+                  onClick={() => setCurrentView('memory')}
+                />
           </div>
 
           <div className="mt-auto flex flex-col gap-4 w-full px-2">
@@ -319,6 +327,10 @@ ${documents.length > 0 ? '- **knowledge_base.json**: Exported RAG documents.' :
               <ProblemFramingCanvas />
           )}
 
+          {currentView === 'memory' && (
+              <MemoryExplorer />
+          )}
+
           {currentView === 'settings' && (
               <SettingsView />
           )}
@@ -6,6 +6,7 @@
  * - Expandable event details
  * - Real-time updates via event subscriptions
  * - Metrics dashboard (events count, latency)
+ * - Trace download (OTLP/JSON, for Jaeger, Tempo or an OpenTelemetry Collector)
  */
 
 import React, { useState, useEffect } from 'react';
@@ -21,9 +22,11 @@ import {
   Database,
   GitBranch,
   Shield,
-  TrendingUp
+  TrendingUp,
+  Download
 } from 'lucide-react';
 import { Event } from '../types/advanced';
+import { buildRunTrace } from '../services/runtime/traceExporter';
 
 interface EventTimelineProps {
   runId: string;
@@ -39,11 +42,13 @@ const eventConfig: Record<string, { icon: any; color: string; label: string }> =
   'run.failed': { icon: XCircle, color: 'red', label: 'Failed' },
   'run.paused': { icon: PauseCircle, color: 'yellow', label: 'Paused' },
   'run.cancelled': { icon: XCircle, color: 'gray', label: 'Cancelled' },
+  'run.resumed': { icon: PlayCircle, color: 'blue', label: 'Resumed' },
 
   'step.started': { icon: Activity, color: 'blue', label: 'Step Started' },
   'step.completed': { icon: CheckCircle, color: 'green', label: 'Step Completed' },
   'step.failed': { icon: XCircle, color: 'red', label: 'Step Failed' },
   'step.retrying': { icon: Clock, color: 'yellow', label: 'Retrying' },
+  'step.skipped': { icon: GitBranch, color: 'gray', label: 'Step Skipped' },
 
   'tool.called': { icon: Zap, color: 'purple', label: 'Tool Called' },
   'tool.completed': { icon: CheckCircle, color: 'green', label: 'Tool Completed' },
@@ -65,7 +70,10 @@ const eventConfig: Record<string, { icon: any; color: string; label: string }> =
 
   'policy.violation': { icon: AlertCircle, color: 'red', label: 'Policy Violation' },
   'cost.limit_warning': { icon: TrendingUp, color: 'yellow', label: 'Cost Warning' },
-  'replan.triggered': { icon: GitBranch, color: 'orange', label: 'Replanning' }
+  'circuit.opened': { icon: AlertCircle, color: 'red', label: 'Circuit Opened' },
+  'circuit.closed': { icon: CheckCircle, color: 'green', label: 'Circuit Closed' },
+  'replan.triggered': { icon: GitBranch, color: 'orange', label: 'Replanning' },
+  'snapshot.created': { icon: Database, color: 'gray', label: 'Snapshot' }
 };
 
 export default function EventTimeline({ runId, events, onRefresh }: EventTimelineProps) {
@@ -110,6 +118,18 @@ export default function EventTimeline({ runId, events, onRefresh }: EventTimelin
     });
   };
 
+  // Download the run as an OTLP/JSON trace
+  const downloadTrace = () => {
+    const trace = buildRunTrace(events);
+    const blob = new Blob([JSON.stringify(trace, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `aura-trace-${runId}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
   // Format duration
   const formatDuration = (ms: number) => {
     if (ms < 1000) return `${ms}ms`;
@@ -125,14 +145,24 @@ export default function EventTimeline({ runId, events, onRefresh }: EventTimelin
           <h2 className="text-xl font-semibold text-slate-900">Event Timeline</h2>
           <p className="text-slate-600 text-sm mt-1">Run ID: {runId}</p>
         </div>
-        {onRefresh && (
+        <div className="flex items-center gap-2">
           <button
-            onClick={onRefresh}
-            className="px-4 py-2 bg-white hover:bg-slate-50 border border-slate-300 text-slate-900 rounded-lg transition-colors text-sm font-medium"
+            onClick={downloadTrace}
+            disabled={events.length === 0}
+            className="flex items-center gap-2 px-4 py-2 bg-white hover:bg-slate-50 border border-slate-300 text-slate-900 rounded-lg transition-colors text-sm font-medium disabled:opacity-50"
           >
-            Refresh
+            <Download className="w-4 h-4" />
+            Export Trace
           </button>
-        )}
+          {onRefresh && (
+            <button
+              onClick={onRefresh}
+              className="px-4 py-2 bg-white hover:bg-slate-50 border border-slate-300 text-slate-900 rounded-lg transition-colors text-sm font-medium"
+            >
+              Refresh
+            </button>
+          )}
+        </div>
       </div>
 
       {/* Stats Grid */}
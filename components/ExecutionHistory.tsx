@@ -1,11 +1,14 @@
 import React, { useState, useEffect } from 'react';
 import { workflowEngine } from '../services/workflowEngine';
+import { replayService } from '../services/replayService';
 import { WorkflowExecution, ExecutionStepDetail } from '../types/advanced';
-import { Clock, CheckCircle, XCircle, Play, RefreshCw, ChevronDown, ChevronRight, AlertTriangle, Zap } from 'lucide-react';
+import { ReplayDiff, ReplayModification } from '../types/aura-os';
+import { Clock, CheckCircle, XCircle, Play, RefreshCw, ChevronDown, ChevronRight, AlertTriangle, Zap, GitBranch, Trash2 } from 'lucide-react';
 
 export const ExecutionHistory: React.FC = () => {
   const [executions, setExecutions] = useState<WorkflowExecution[]>([]);
   const [selectedExecution, setSelectedExecution] = useState<WorkflowExecution | null>(null);
+  const [replayTarget, setReplayTarget] = useState<WorkflowExecution | null>(null);
   const [filter, setFilter] = useState<'all' | 'completed' | 'failed' | 'running'>('all');
 
   useEffect(() => {
@@ -241,11 +244,20 @@ export const ExecutionHistory: React.FC = () => {
           execution={selectedExecution}
           onClose={() => setSelectedExecution(null)}
           onReplay={() => {
-            // TODO: Implement replay
-            alert('Replay functionality - would re-run the workflow with same input');
+            setReplayTarget(selectedExecution);
+            setSelectedExecution(null);
           }}
         />
       )}
+
+      {/* Replay Modal */}
+      {replayTarget && (
+        <ReplayModal
+          execution={replayTarget}
+          onClose={() => setReplayTarget(null)}
+          onReplayed={loadExecutions}
+        />
+      )}
     </div>
   );
 };
@@ -497,3 +509,261 @@ const StepDetail: React.FC<{
     </div>
   );
 };
+
+const MODIFICATION_TYPES: { type: ReplayModification['type']; label: string; placeholder: string }[] = [
+  { type: 'config_change', label: 'Change config', placeholder: '{"params": {"limit": 10}}' },
+  { type: 'decision_override', label: 'Override output', placeholder: '{"agentOutput": "approve"}' },
+  { type: 'skip_node', label: 'Skip node', placeholder: '' },
+  { type: 'force_branch', label: 'Force branch', placeholder: 'Target node id or edge label' }
+];
+
+// Replay Modal: fork from a checkpoint, modify nodes, compare outputs
+const ReplayModal: React.FC<{
+  execution: WorkflowExecution;
+  onClose: () => void;
+  onReplayed: () => void;
+}> = ({ execution, onClose, onReplayed }) => {
+  const [checkpointId, setCheckpointId] = useState('');
+  const [modifications, setModifications] = useState<ReplayModification[]>([]);
+  const [draftType, setDraftType] = useState<ReplayModification['type']>('decision_override');
+  const [draftNodeId, setDraftNodeId] = useState('');
+  const [draftValue, setDraftValue] = useState('');
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [diff, setDiff] = useState<ReplayDiff | null>(null);
+
+  const checkpoints = replayService.getCheckpoints(execution.id);
+  const nodes: { id: string; label: string }[] = execution.metadata.workflow?.nodes
+    || Array.from(new Map(execution.steps.map(step => [step.nodeId, { id: step.nodeId, label: step.nodeName }])).values());
+  const draftSpec = MODIFICATION_TYPES.find(spec => spec.type === draftType)!;
+
+  const addModification = () => {
+    if (!draftNodeId) return;
+
+    // Values are JSON when they parse, plain text otherwise
+    let newValue: any = draftValue.trim() || undefined;
+    if (newValue !== undefined) {
+      try {
+        newValue = JSON.parse(newValue);
+      } catch {
+        // Plain text (e.g., an edge label)
+      }
+    }
+
+    const label = nodes.find(node => node.id === draftNodeId)?.label || draftNodeId;
+    setModifications([...modifications, {
+      type: draftType,
+      nodeId: draftNodeId,
+      description: `${draftSpec.label}: ${label}`,
+      newValue
+    }]);
+    setDraftValue('');
+  };
+
+  const runReplay = async () => {
+    setRunning(true);
+    setError(null);
+    try {
+      const result = await replayService.replay(execution.id, modifications, {
+        fromCheckpointId: checkpointId || undefined
+      });
+      setDiff(result.diff);
+      onReplayed();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm flex items-center justify-center p-4 z-50">
+      <div className="bg-slate-900 border border-blue-500/30 rounded-xl max-w-6xl w-full max-h-[90vh] overflow-auto">
+        {/* Header */}
+        <div className="sticky top-0 bg-slate-900 border-b border-slate-800 p-6 flex items-start justify-between">
+          <div>
+            <div className="flex items-center gap-2 mb-2">
+              <GitBranch className="w-6 h-6 text-blue-400" />
+              <h2 className="text-3xl font-bold text-white">Replay {execution.workflowName}</h2>
+            </div>
+            <p className="text-gray-400">Steps before the fork reuse their original outputs; the rest run live.</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-white transition">✕</button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {!execution.metadata.workflow && (
+            <div className="p-3 bg-yellow-500/10 border border-yellow-500/30 rounded-lg flex items-start gap-2">
+              <AlertTriangle className="w-4 h-4 text-yellow-400 mt-0.5" />
+              <p className="text-sm text-yellow-300">
+                This execution was recorded without its workflow definition and can't be replayed.
+              </p>
+            </div>
+          )}
+
+          {/* Fork point */}
+          <div>
+            <h3 className="text-white font-semibold mb-3">Fork From</h3>
+            <select
+              value={checkpointId}
+              onChange={(e) => setCheckpointId(e.target.value)}
+              className="w-full px-3 py-2 bg-slate-800 border border-slate-700 rounded-lg text-white"
+            >
+              <option value="">First modified step (or the start)</option>
+              {checkpoints.map(checkpoint => (
+                <option key={checkpoint.id} value={checkpoint.id}>{checkpoint.label}</option>
+              ))}
+            </select>
+          </div>
+
+          {/* Modifications */}
+          <div>
+            <h3 className="text-white font-semibold mb-3">Modifications</h3>
+            <div className="space-y-2 mb-3">
+              {modifications.map((modification, idx) => (
+                <div key={idx} className="flex items-center justify-between bg-slate-800/50 border border-slate-700 rounded-lg px-4 py-2">
+                  <div className="text-sm">
+                    <span className="text-blue-400 font-mono mr-2">{modification.type}</span>
+                    <span className="text-white">{modification.description}</span>
+                    {modification.newValue !== undefined && (
+                      <span className="text-gray-400 font-mono ml-2">{JSON.stringify(modification.newValue)}</span>
+                    )}
+                  </div>
+                  <button
+                    onClick={() => setModifications(modifications.filter((_, i) => i !== idx))}
+                    className="text-gray-400 hover:text-red-400"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+            <div className="flex gap-2">
+              <select
+                value={draftType}
+                onChange={(e) => setDraftType(e.target.value as ReplayModification['type'])}
+                className="px-3 py-2 bg-slate-800 border border-slate-700 rounded-lg text-white"
+              >
+                {MODIFICATION_TYPES.map(spec => (
+                  <option key={spec.type} value={spec.type}>{spec.label}</option>
+                ))}
+              </select>
+              <select
+                value={draftNodeId}
+                onChange={(e) => setDraftNodeId(e.target.value)}
+                className="px-3 py-2 bg-slate-800 border border-slate-700 rounded-lg text-white"
+              >
+                <option value="">Node...</option>
+                {nodes.map(node => (
+                  <option key={node.id} value={node.id}>{node.label}</option>
+                ))}
+              </select>
+              <input
+                value={draftValue}
+                onChange={(e) => setDraftValue(e.target.value)}
+                placeholder={draftSpec.placeholder}
+                disabled={draftType === 'skip_node'}
+                className="flex-1 px-3 py-2 bg-slate-800 border border-slate-700 rounded-lg text-white font-mono text-sm disabled:opacity-50"
+              />
+              <button
+                onClick={addModification}
+                disabled={!draftNodeId}
+                className="px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg transition disabled:opacity-50"
+              >
+                Add
+              </button>
+            </div>
+          </div>
+
+          {error && (
+            <div className="p-3 bg-red-500/10 border border-red-500/20 rounded-lg flex items-start gap-2">
+              <AlertTriangle className="w-4 h-4 text-red-400 mt-0.5" />
+              <p className="text-sm text-red-400">{error}</p>
+            </div>
+          )}
+
+          {diff && <ReplayDiffView diff={diff} />}
+        </div>
+
+        {/* Footer */}
+        <div className="sticky bottom-0 bg-slate-900 border-t border-slate-800 p-6 flex gap-3">
+          <button
+            onClick={onClose}
+            className="flex-1 px-6 py-3 bg-slate-700 hover:bg-slate-600 text-white rounded-lg transition"
+          >
+            Close
+          </button>
+          <button
+            onClick={runReplay}
+            disabled={running || !execution.metadata.workflow}
+            className="flex-1 flex items-center justify-center gap-2 px-6 py-3 bg-blue-600 hover:bg-blue-500 text-white rounded-lg transition disabled:opacity-50"
+          >
+            <RefreshCw className={`w-4 h-4 ${running ? 'animate-spin' : ''}`} />
+            {running ? 'Replaying...' : 'Run Replay'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// Side-by-side comparison of the original and replayed execution
+const ReplayDiffView: React.FC<{ diff: ReplayDiff }> = ({ diff }) => {
+  const formatOutput = (output?: Record<string, any>) =>
+    output === undefined ? '—' : JSON.stringify(output, null, 2);
+
+  return (
+    <div>
+      <h3 className="text-white font-semibold mb-3">
+        Comparison
+        {diff.statusChanged && <span className="ml-2 text-xs text-yellow-400">status changed</span>}
+      </h3>
+
+      <div className="grid grid-cols-2 gap-2 mb-2 text-xs text-gray-400">
+        <p>Original ({diff.originalFlowRunId})</p>
+        <p>Replay ({diff.newFlowRunId})</p>
+      </div>
+
+      <div className="space-y-2">
+        {diff.steps.map((step, idx) => (
+          <div
+            key={idx}
+            className={`bg-slate-800/50 border rounded-lg p-3 ${step.changed ? 'border-yellow-500/40' : 'border-slate-700'}`}
+          >
+            <div className="flex items-center gap-2 mb-2 text-sm">
+              <span className="text-white font-medium">{step.nodeName}</span>
+              {step.reused && <span className="px-2 py-0.5 rounded text-xs bg-slate-700 text-gray-300">reused</span>}
+              {step.modification && <span className="px-2 py-0.5 rounded text-xs bg-blue-500/20 text-blue-400">{step.modification}</span>}
+              {step.changed && <span className="px-2 py-0.5 rounded text-xs bg-yellow-500/20 text-yellow-400">changed</span>}
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              {[step.original, step.replayed].map((side, sideIdx) => (
+                <div key={sideIdx}>
+                  <p className="text-xs text-gray-400 mb-1">{side ? side.status : 'not run'}</p>
+                  <pre className="bg-slate-900/50 rounded p-2 text-xs text-gray-300 overflow-x-auto max-h-40">
+                    {formatOutput(side?.output)}
+                  </pre>
+                </div>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {diff.outputChanges.length > 0 && (
+        <div className="mt-4">
+          <p className="text-xs text-gray-400 mb-1">Final output changes ({diff.outputChanges.length})</p>
+          <div className="bg-slate-900/50 rounded p-2 space-y-1 max-h-60 overflow-auto font-mono text-xs">
+            {diff.outputChanges.map((change, idx) => (
+              <div key={idx} className="grid grid-cols-3 gap-2">
+                <span className="text-gray-300">{change.path}</span>
+                <span className="text-red-300 truncate">{JSON.stringify(change.original)}</span>
+                <span className="text-green-300 truncate">{JSON.stringify(change.replayed)}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
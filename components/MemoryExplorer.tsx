@@ -0,0 +1,605 @@
+/**
+ * Memory Explorer - What the System Has Learned About You
+ *
+ * Browse factual, experiential and working memories with:
+ * - Filters by type, tag, confidence (facts) and importance (experiences)
+ * - Provenance: the run and events each memory was formed from
+ * - Version history for superseded facts
+ * - Pin, edit, downvote and forget, which feed back into confidence and
+ *   importance (see services/memory/feedback)
+ */
+
+import React, { useState, useEffect } from 'react';
+import {
+  Library,
+  Pin,
+  PinOff,
+  Pencil,
+  ThumbsDown,
+  Trash2,
+  RefreshCw,
+  ChevronDown,
+  ChevronRight,
+  History,
+  Tag,
+  Check,
+  X
+} from 'lucide-react';
+import { useAuth } from '../context/AuthContext';
+import {
+  factualMemoryStore,
+  experientialMemoryStore,
+  workingMemoryManager,
+  memoryFeedbackService,
+  feedbackOf,
+  FactualMemory,
+  ExperientialMemory,
+  WorkingMemory,
+  WorkingMemoryEntry
+} from '../services/memory';
+import { eventStore } from '../services/runtime/eventStore';
+import { Event } from '../types/advanced';
+
+type Tab = 'factual' | 'experiential' | 'working';
+
+const FACT_TYPES: FactualMemory['type'][] = ['fact', 'rule', 'entity', 'relation', 'preference'];
+const EXPERIENCE_TYPES: ExperientialMemory['type'][] = ['success', 'failure', 'pattern', 'lesson', 'optimization'];
+
+// Memories loaded per tab
+const PAGE_SIZE = 200;
+
+export default function MemoryExplorer() {
+  const { user } = useAuth();
+  const userId = user?.id;
+
+  const [tab, setTab] = useState<Tab>('factual');
+  const [facts, setFacts] = useState<FactualMemory[]>([]);
+  const [experiences, setExperiences] = useState<ExperientialMemory[]>([]);
+  const [sessions, setSessions] = useState<WorkingMemory[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Filters
+  const [type, setType] = useState('');
+  const [tag, setTag] = useState('');
+  const [minConfidence, setMinConfidence] = useState(0);
+  const [minImportance, setMinImportance] = useState(0);
+  const [showSuperseded, setShowSuperseded] = useState(false);
+
+  useEffect(() => {
+    loadMemories();
+  }, [userId, tab, type, tag, minConfidence, minImportance, showSuperseded]);
+
+  const loadMemories = async () => {
+    if (!userId) return;
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const tags = tag.trim() ? [tag.trim().toLowerCase()] : undefined;
+
+      if (tab === 'factual') {
+        setFacts(await factualMemoryStore.retrieve({
+          userId,
+          type: type || undefined,
+          tags,
+          minConfidence: minConfidence > 0 ? minConfidence : undefined,
+          includeSuperseded: showSuperseded,
+          limit: PAGE_SIZE
+        }));
+      } else if (tab === 'experiential') {
+        const loaded = await experientialMemoryStore.retrieve({
+          userId,
+          type: type || undefined,
+          minImportance: minImportance > 0 ? minImportance : undefined,
+          limit: PAGE_SIZE
+        });
+        // Experiences have no tags column; match learned skills and extracted tags instead
+        setExperiences(tags
+          ? loaded.filter(exp => [...exp.learnedSkills, ...(exp.metadata?.tags || [])]
+              .some((skill: string) => skill.toLowerCase() === tags[0]))
+          : loaded);
+      } else {
+        setSessions(workingMemoryManager.getActiveSessions()
+          .map(sessionId => workingMemoryManager.get(sessionId))
+          .filter((memory): memory is WorkingMemory => memory !== null && memory.userId === userId));
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load memories');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const runAction = async (action: () => Promise<unknown>) => {
+    setError(null);
+    try {
+      await action();
+      await loadMemories();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Action failed');
+    }
+  };
+
+  const switchTab = (next: Tab) => {
+    setTab(next);
+    setType('');
+  };
+
+  return (
+    <div className="h-full overflow-auto bg-gradient-to-br from-slate-950 to-blue-950 p-8">
+      <div className="max-w-6xl mx-auto">
+        {/* Header */}
+        <div className="mb-8 flex items-start justify-between">
+          <div>
+            <div className="flex items-center gap-3 mb-2">
+              <Library className="w-8 h-8 text-blue-400" />
+              <h1 className="text-4xl font-bold text-white">Memory Explorer</h1>
+            </div>
+            <p className="text-gray-400 text-lg">
+              See and correct what AURA has learned about you
+            </p>
+          </div>
+          <button
+            onClick={loadMemories}
+            disabled={loading}
+            className="flex items-center gap-2 px-4 py-2 bg-slate-800 hover:bg-slate-700 border border-slate-700 text-white rounded-lg transition"
+          >
+            <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </button>
+        </div>
+
+        {/* Tabs */}
+        <div className="mb-6 flex gap-2">
+          {([
+            ['factual', 'Facts'],
+            ['experiential', 'Experiences'],
+            ['working', 'Working Memory']
+          ] as const).map(([value, label]) => (
+            <button
+              key={value}
+              onClick={() => switchTab(value)}
+              className={`px-4 py-2 rounded-lg font-medium transition ${
+                tab === value
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-slate-800/50 text-gray-400 hover:bg-slate-800'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        {/* Filters */}
+        {tab !== 'working' && (
+          <div className="mb-6 bg-slate-800/50 border border-slate-700 rounded-xl p-4 flex flex-wrap items-center gap-4">
+            <select
+              value={type}
+              onChange={(e) => setType(e.target.value)}
+              className="bg-slate-900/50 border border-slate-700 rounded-lg px-3 py-2 text-white text-sm focus:outline-none focus:border-blue-500"
+            >
+              <option value="">All types</option>
+              {(tab === 'factual' ? FACT_TYPES : EXPERIENCE_TYPES).map(option => (
+                <option key={option} value={option}>{option}</option>
+              ))}
+            </select>
+
+            <div className="flex items-center gap-2">
+              <Tag className="w-4 h-4 text-gray-400" />
+              <input
+                value={tag}
+                onChange={(e) => setTag(e.target.value)}
+                placeholder={tab === 'factual' ? 'Tag' : 'Skill or tag'}
+                className="w-36 bg-slate-900/50 border border-slate-700 rounded-lg px-3 py-2 text-white text-sm focus:outline-none focus:border-blue-500"
+              />
+            </div>
+
+            {tab === 'factual' ? (
+              <>
+                <ScoreFilter label="Min confidence" value={minConfidence} onChange={setMinConfidence} />
+                <label className="flex items-center gap-2 text-sm text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={showSuperseded}
+                    onChange={(e) => setShowSuperseded(e.target.checked)}
+                  />
+                  Show superseded
+                </label>
+              </>
+            ) : (
+              <ScoreFilter label="Min importance" value={minImportance} onChange={setMinImportance} />
+            )}
+          </div>
+        )}
+
+        {error && (
+          <div className="mb-6 bg-red-900/30 border border-red-500/30 rounded-lg p-4 text-sm text-red-300">
+            {error}
+          </div>
+        )}
+
+        {/* Memories */}
+        <div className="space-y-3">
+          {tab === 'factual' && facts.map(fact => (
+            <MemoryCard
+              key={fact.id}
+              target="factual"
+              memory={fact}
+              text={fact.content}
+              type={fact.type}
+              tags={fact.tags}
+              scoreLabel="Confidence"
+              score={fact.confidence}
+              onAction={runAction}
+            />
+          ))}
+
+          {tab === 'experiential' && experiences.map(exp => (
+            <MemoryCard
+              key={exp.id}
+              target="experiential"
+              memory={exp}
+              text={exp.reflection}
+              detail={`${exp.context} — ${exp.outcome}`}
+              type={exp.type}
+              tags={exp.learnedSkills}
+              scoreLabel="Importance"
+              score={exp.importance}
+              onAction={runAction}
+            />
+          ))}
+
+          {tab === 'working' && sessions.map(session => (
+            <WorkingMemoryCard
+              key={session.sessionId}
+              session={session}
+              onForgetEntry={(entry) => runAction(() => memoryFeedbackService.forgetWorkingEntry(session.sessionId, entry))}
+              onClear={() => runAction(() => workingMemoryManager.clear(session.sessionId))}
+            />
+          ))}
+
+          {!loading && (tab === 'factual' ? facts : tab === 'experiential' ? experiences : sessions).length === 0 && (
+            <div className="text-center py-16 text-gray-500">
+              No {tab === 'working' ? 'active sessions' : 'memories match these filters'}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// ============================================================================
+// MEMORY CARD
+// ============================================================================
+
+interface MemoryCardProps {
+  target: 'factual' | 'experiential';
+  memory: FactualMemory | ExperientialMemory;
+  text: string;
+  detail?: string;
+  type: string;
+  tags: string[];
+  scoreLabel: string;
+  score: number;
+  onAction: (action: () => Promise<unknown>) => Promise<void>;
+}
+
+const MemoryCard: React.FC<MemoryCardProps> = ({ target, memory, text, detail, type, tags, scoreLabel, score, onAction }) => {
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState(text);
+  const [draftTags, setDraftTags] = useState(tags.join(', '));
+  const [showProvenance, setShowProvenance] = useState(false);
+
+  const feedback = feedbackOf(memory);
+  const fact = target === 'factual' ? memory as FactualMemory : null;
+
+  const saveEdit = async () => {
+    await onAction(() => memoryFeedbackService.edit(target, memory.id, {
+      content: draft.trim(),
+      tags: draftTags.split(',').map(t => t.trim()).filter(Boolean)
+    }));
+    setEditing(false);
+  };
+
+  const forget = () => {
+    if (confirm('Forget this memory? This cannot be undone.')) {
+      onAction(() => memoryFeedbackService.forget(target, memory.id));
+    }
+  };
+
+  return (
+    <div className={`bg-slate-800/50 border rounded-xl p-4 ${
+      fact?.supersededBy ? 'border-slate-700 opacity-60' : feedback.pinned ? 'border-amber-500/50' : 'border-slate-700'
+    }`}>
+      <div className="flex items-start justify-between gap-4">
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center gap-2 mb-2 text-xs">
+            <span className="px-2 py-0.5 rounded-full bg-blue-500/20 text-blue-300">{type}</span>
+            {feedback.pinned && <span className="flex items-center gap-1 text-amber-400"><Pin className="w-3 h-3" /> Pinned</span>}
+            {fact?.supersededBy && <span className="text-gray-400">Superseded</span>}
+            {fact && (fact.version ?? 1) > 1 && <span className="text-gray-400">v{fact.version}</span>}
+            {(feedback.downvotes || 0) > 0 && <span className="text-red-400">{feedback.downvotes} downvote(s)</span>}
+            <span className="text-gray-500">{memory.timestamp.toLocaleString()}</span>
+          </div>
+
+          {editing ? (
+            <div className="space-y-2">
+              <textarea
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                className="w-full h-20 bg-slate-900/50 border border-slate-700 rounded-lg px-3 py-2 text-white text-sm focus:outline-none focus:border-blue-500 resize-none"
+              />
+              <input
+                value={draftTags}
+                onChange={(e) => setDraftTags(e.target.value)}
+                placeholder={target === 'factual' ? 'Tags, comma separated' : 'Learned skills, comma separated'}
+                className="w-full bg-slate-900/50 border border-slate-700 rounded-lg px-3 py-2 text-white text-sm focus:outline-none focus:border-blue-500"
+              />
+              <div className="flex gap-2">
+                <button
+                  onClick={saveEdit}
+                  disabled={!draft.trim()}
+                  className="flex items-center gap-1 px-3 py-1.5 bg-blue-600 hover:bg-blue-500 disabled:bg-slate-700 text-white text-sm rounded-lg transition"
+                >
+                  <Check className="w-4 h-4" /> Save
+                </button>
+                <button
+                  onClick={() => { setEditing(false); setDraft(text); setDraftTags(tags.join(', ')); }}
+                  className="flex items-center gap-1 px-3 py-1.5 bg-slate-700 hover:bg-slate-600 text-white text-sm rounded-lg transition"
+                >
+                  <X className="w-4 h-4" /> Cancel
+                </button>
+              </div>
+            </div>
+          ) : (
+            <>
+              <p className="text-white">{text}</p>
+              {detail && <p className="text-sm text-gray-400 mt-1">{detail}</p>}
+            </>
+          )}
+
+          {!editing && tags.length > 0 && (
+            <div className="flex flex-wrap gap-1 mt-2">
+              {tags.map(t => (
+                <span key={t} className="px-2 py-0.5 rounded bg-slate-700 text-xs text-gray-300">{t}</span>
+              ))}
+            </div>
+          )}
+
+          <div className="mt-3 flex items-center gap-2">
+            <span className="text-xs text-gray-400 w-20">{scoreLabel}</span>
+            <div className="w-40 h-1.5 bg-slate-700 rounded-full overflow-hidden">
+              <div className="h-full bg-blue-500" style={{ width: `${Math.round(score * 100)}%` }} />
+            </div>
+            <span className="text-xs text-gray-300">{score.toFixed(2)}</span>
+          </div>
+        </div>
+
+        {/* Actions */}
+        {!editing && !fact?.supersededBy && (
+          <div className="flex gap-1 shrink-0">
+            <IconButton
+              title={feedback.pinned ? 'Unpin' : 'Pin'}
+              onClick={() => onAction(() => memoryFeedbackService.pin(target, memory.id, !feedback.pinned))}
+            >
+              {feedback.pinned ? <PinOff className="w-4 h-4" /> : <Pin className="w-4 h-4" />}
+            </IconButton>
+            <IconButton title="Edit" onClick={() => setEditing(true)}>
+              <Pencil className="w-4 h-4" />
+            </IconButton>
+            <IconButton title="Downvote" onClick={() => onAction(() => memoryFeedbackService.downvote(target, memory.id))}>
+              <ThumbsDown className="w-4 h-4" />
+            </IconButton>
+            <IconButton title="Forget" onClick={forget}>
+              <Trash2 className="w-4 h-4" />
+            </IconButton>
+          </div>
+        )}
+      </div>
+
+      <button
+        onClick={() => setShowProvenance(!showProvenance)}
+        className="mt-3 flex items-center gap-1 text-xs text-gray-400 hover:text-gray-200"
+      >
+        {showProvenance ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+        Provenance
+      </button>
+
+      {showProvenance && <Provenance memory={memory} fact={fact} />}
+    </div>
+  );
+};
+
+// ============================================================================
+// PROVENANCE
+// ============================================================================
+
+const Provenance: React.FC<{ memory: FactualMemory | ExperientialMemory; fact: FactualMemory | null }> = ({ memory, fact }) => {
+  const [events, setEvents] = useState<Event[] | null>(null);
+  const [history, setHistory] = useState<FactualMemory[]>([]);
+
+  const runId: string | undefined = memory.metadata?.runId ||
+    (fact?.source.startsWith('run:') ? fact.source.slice(4) : undefined);
+  const sourceEventIds: string[] = memory.metadata?.sourceEventIds || [];
+
+  useEffect(() => {
+    if (runId) {
+      eventStore.getRunEvents(runId)
+        .then(runEvents => setEvents(runEvents.filter(event => sourceEventIds.includes(event.id))))
+        .catch(() => setEvents([]));
+    }
+    if (fact && (fact.previousVersionId || fact.supersededBy)) {
+      factualMemoryStore.getHistory(fact.id).then(setHistory).catch(() => setHistory([]));
+    }
+  }, [memory.id]);
+
+  return (
+    <div className="mt-2 p-3 bg-slate-900/50 rounded-lg text-xs text-gray-300 space-y-2">
+      <div className="grid grid-cols-2 gap-2">
+        {fact && <p><span className="text-gray-500">Source:</span> {fact.source}</p>}
+        <p><span className="text-gray-500">Run:</span> {runId || 'none (recorded manually)'}</p>
+        {memory.metadata?.extractedBy && (
+          <p><span className="text-gray-500">Extracted by:</span> {memory.metadata.extractedBy}{memory.metadata.model ? ` (${memory.metadata.model})` : ''}</p>
+        )}
+        {memory.metadata?.confidence !== undefined && (
+          <p><span className="text-gray-500">Extraction confidence:</span> {Number(memory.metadata.confidence).toFixed(2)}</p>
+        )}
+      </div>
+
+      {sourceEventIds.length > 0 && (
+        <div>
+          <p className="text-gray-500 mb-1">Source events</p>
+          {events === null ? (
+            <p className="text-gray-500">Loading...</p>
+          ) : (
+            <ul className="space-y-1 font-mono">
+              {sourceEventIds.map(id => {
+                const event = events.find(e => e.id === id);
+                return (
+                  <li key={id}>
+                    {event
+                      ? `${new Date(event.timestamp).toLocaleString()}  ${event.type}  ${id}`
+                      : `${id} (not in the event store)`}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {history.length > 1 && (
+        <div>
+          <p className="flex items-center gap-1 text-gray-500 mb-1"><History className="w-3 h-3" /> Versions</p>
+          <ol className="space-y-1">
+            {history.map(version => (
+              <li key={version.id} className={version.id === memory.id ? 'text-white' : ''}>
+                v{version.version ?? 1}: {version.content}
+                <span className="text-gray-500"> ({version.timestamp.toLocaleDateString()}{version.supersededBy ? ', superseded' : ''})</span>
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+    </div>
+  );
+};
+
+// ============================================================================
+// WORKING MEMORY
+// ============================================================================
+
+interface WorkingMemoryCardProps {
+  session: WorkingMemory;
+  onForgetEntry: (entry: WorkingMemoryEntry) => void;
+  onClear: () => void;
+}
+
+const PLANNING_SECTIONS: Array<[keyof WorkingMemory['planningState'], string]> = [
+  ['hypothesis', 'Hypotheses'],
+  ['nextActions', 'Next actions'],
+  ['uncertainties', 'Uncertainties'],
+  ['blockers', 'Blockers']
+];
+
+const WorkingMemoryCard: React.FC<WorkingMemoryCardProps> = ({ session, onForgetEntry, onClear }) => {
+  const sections: Array<{ label: string; items: Array<{ text: string; entry: WorkingMemoryEntry }> }> = [
+    {
+      label: 'Context',
+      items: Array.from(session.activeContext.entries()).map(([key, value]) => ({
+        text: `${key}: ${truncate(JSON.stringify(value) ?? String(value), 80)}`,
+        entry: { section: 'context', key }
+      }))
+    },
+    {
+      label: 'Attention',
+      items: session.attention.map(item => ({ text: item, entry: { section: 'attention', item } }))
+    },
+    ...PLANNING_SECTIONS.map(([section, label]) => ({
+      label,
+      items: session.planningState[section].map(item => ({ text: item, entry: { section, item } as WorkingMemoryEntry }))
+    })),
+    {
+      label: 'Recent events',
+      items: session.recentEvents.map((event, index) => ({
+        text: `${event.type} at ${new Date(event.timestamp).toLocaleTimeString()}`,
+        entry: { section: 'recentEvents', index }
+      }))
+    }
+  ];
+
+  return (
+    <div className="bg-slate-800/50 border border-slate-700 rounded-xl p-4">
+      <div className="flex items-start justify-between gap-4">
+        <div className="flex-1 min-w-0 space-y-2">
+          <div className="flex items-center gap-2 text-xs">
+            <span className="px-2 py-0.5 rounded-full bg-purple-500/20 text-purple-300">session</span>
+            <span className="text-gray-500 font-mono">{session.sessionId}</span>
+            <span className="text-gray-500">{session.timestamp.toLocaleString()}</span>
+          </div>
+          <p className="text-white">{session.currentGoal}</p>
+          {sections.filter(({ items }) => items.length > 0).map(({ label, items }) => (
+            <div key={label} className="flex flex-wrap items-center gap-1 text-sm">
+              <span className="text-gray-500 mr-1">{label}:</span>
+              {items.map(({ text, entry }, i) => (
+                <span key={i} className="flex items-center gap-1 px-2 py-0.5 rounded bg-slate-700 text-xs text-gray-300">
+                  {text}
+                  <button
+                    title="Forget"
+                    onClick={() => onForgetEntry(entry)}
+                    className="text-gray-500 hover:text-white"
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </span>
+              ))}
+            </div>
+          ))}
+        </div>
+        <IconButton title="Clear session" onClick={onClear}>
+          <Trash2 className="w-4 h-4" />
+        </IconButton>
+      </div>
+    </div>
+  );
+};
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const ScoreFilter: React.FC<{ label: string; value: number; onChange: (value: number) => void }> = ({ label, value, onChange }) => {
+  return (
+    <label className="flex items-center gap-2 text-sm text-gray-300">
+      {label}
+      <input
+        type="range"
+        min={0}
+        max={1}
+        step={0.1}
+        value={value}
+        onChange={(e) => onChange(Number(e.target.value))}
+      />
+      <span className="w-8 text-gray-400">{value.toFixed(1)}</span>
+    </label>
+  );
+};
+
+const IconButton: React.FC<{ title: string; onClick: () => void; children: React.ReactNode }> = ({ title, onClick, children }) => {
+  return (
+    <button
+      title={title}
+      onClick={onClick}
+      className="p-2 rounded-lg text-gray-400 hover:text-white hover:bg-slate-700 transition"
+    >
+      {children}
+    </button>
+  );
+};
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max - 3)}...` : text;
+}
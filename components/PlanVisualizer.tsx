@@ -3,11 +3,13 @@
  *
  * Displays the execution plan generated by the Intent Engine
  * Shows: goal, steps, dependencies, agents, tools, estimated time
+ * and (when a cost estimate is passed) forecast cost against the budget
  * Allows users to review before execution
  */
 
 import React from 'react';
-import { Brain, Clock, Users, Wrench, CheckCircle2, ArrowRight, Play, Edit2, RefreshCw, AlertTriangle } from 'lucide-react';
+import { Brain, Clock, Users, Wrench, CheckCircle2, ArrowRight, Play, Edit2, RefreshCw, AlertTriangle, DollarSign } from 'lucide-react';
+import { CostEstimate, NodeCostEstimate, formatCents } from '../services/runtime/costEstimator';
 
 export interface TaskStep {
   id: string;
@@ -39,6 +41,7 @@ interface PlanVisualizerProps {
   onEdit: (editPrompt: string) => void;
   onRegenerate: () => void;
   isExecuting?: boolean;
+  costEstimate?: CostEstimate | null; // From costEstimator; node ids match step ids
 }
 
 const agentColors: { [key: string]: string } = {
@@ -66,7 +69,8 @@ export const PlanVisualizer: React.FC<PlanVisualizerProps> = ({
   onExecute,
   onEdit,
   onRegenerate,
-  isExecuting = false
+  isExecuting = false,
+  costEstimate
 }) => {
   const [editMode, setEditMode] = React.useState(false);
   const [editPrompt, setEditPrompt] = React.useState('');
@@ -90,12 +94,17 @@ export const PlanVisualizer: React.FC<PlanVisualizerProps> = ({
   };
 
   const formatTime = (seconds: number): string => {
+    seconds = Math.round(seconds);
     if (seconds < 60) return `${seconds}s`;
     const minutes = Math.floor(seconds / 60);
     const secs = seconds % 60;
     return secs > 0 ? `${minutes}m ${secs}s` : `${minutes}m`;
   };
 
+  // Forecast from history and price tables replaces the planner's guesses
+  const totalTime = costEstimate ? costEstimate.estimated_duration / 1000 : plan.estimatedTotalTime;
+  const nodeEstimates = new Map<string, NodeCostEstimate>((costEstimate?.nodes || []).map(node => [node.node_id, node]));
+
   return (
     <div className="bg-[#0f111a] border border-slate-800 rounded-xl overflow-hidden">
       {/* Header */}
@@ -144,7 +153,7 @@ export const PlanVisualizer: React.FC<PlanVisualizerProps> = ({
         </div>
 
         {/* Quick Stats */}
-        <div className="grid grid-cols-4 gap-3 mt-4">
+        <div className={`grid ${costEstimate ? 'grid-cols-5' : 'grid-cols-4'} gap-3 mt-4`}>
           <div className="bg-slate-900/50 border border-slate-800 rounded-lg p-3">
             <div className="flex items-center gap-2 mb-1">
               <CheckCircle2 size={14} className="text-blue-400" />
@@ -157,8 +166,20 @@ export const PlanVisualizer: React.FC<PlanVisualizerProps> = ({
               <Clock size={14} className="text-emerald-400" />
               <span className="text-[10px] text-slate-500 uppercase font-bold">Time</span>
             </div>
-            <div className="text-xl font-bold text-white">{formatTime(plan.estimatedTotalTime)}</div>
+            <div className="text-xl font-bold text-white">{formatTime(totalTime)}</div>
           </div>
+          {costEstimate && (
+            <div className={`bg-slate-900/50 border rounded-lg p-3 ${costEstimate.exceeds_budget ? 'border-red-500/50' : 'border-slate-800'}`}>
+              <div className="flex items-center gap-2 mb-1">
+                <DollarSign size={14} className="text-green-400" />
+                <span className="text-[10px] text-slate-500 uppercase font-bold">Cost</span>
+              </div>
+              <div className="text-xl font-bold text-white">{formatCents(costEstimate.expected_cost)}</div>
+              <div className="text-[10px] text-slate-500">
+                {formatCents(costEstimate.low_cost)}–{formatCents(costEstimate.high_cost)} · {Math.round(costEstimate.confidence * 100)}% from history
+              </div>
+            </div>
+          )}
           <div className="bg-slate-900/50 border border-slate-800 rounded-lg p-3">
             <div className="flex items-center gap-2 mb-1">
               <Users size={14} className="text-purple-400" />
@@ -176,6 +197,16 @@ export const PlanVisualizer: React.FC<PlanVisualizerProps> = ({
         </div>
       </div>
 
+      {/* Budget Warning */}
+      {costEstimate?.budget !== undefined && (costEstimate.exceeds_budget || costEstimate.may_exceed_budget) && (
+        <div className={`border-b border-slate-800 px-5 py-3 flex items-center gap-2 text-xs ${costEstimate.exceeds_budget ? 'bg-red-500/10 text-red-400' : 'bg-amber-500/10 text-amber-400'}`}>
+          <AlertTriangle size={14} className="shrink-0" />
+          {costEstimate.exceeds_budget
+            ? `Forecast exceeds the ${formatCents(costEstimate.budget)} budget — the run will wait for approval before starting`
+            : `Could exceed the ${formatCents(costEstimate.budget)} budget (up to ${formatCents(costEstimate.high_cost)})`}
+        </div>
+      )}
+
       {/* Edit Mode */}
       {editMode && (
         <div className="bg-slate-900/30 border-b border-slate-800 p-4">
@@ -217,6 +248,7 @@ export const PlanVisualizer: React.FC<PlanVisualizerProps> = ({
             const agentColor = agentColors[step.agent] || 'from-slate-600 to-slate-700';
             const agentIcon = agentIcons[step.agent] || '🤖';
             const hasDependencies = step.dependencies.length > 0;
+            const estimate = nodeEstimates.get(step.id);
 
             return (
               <div key={step.id} className="group">
@@ -240,8 +272,15 @@ export const PlanVisualizer: React.FC<PlanVisualizerProps> = ({
                           <span>{agentIcon}</span>
                           <span className="capitalize">{step.agent.replace('_', ' ')}</span>
                         </div>
-                        <span className="text-xs text-slate-500 flex items-center gap-1">
-                          <Clock size={12} /> {formatTime(step.estimatedTime)}
+                        <span className="text-xs text-slate-500 flex items-center gap-3">
+                          {estimate && (
+                            <span className="flex items-center gap-1" title={`${estimate.basis}${estimate.samples ? `, ${estimate.samples} past runs` : ''}`}>
+                              <DollarSign size={12} /> {formatCents(estimate.expected_cost)}
+                            </span>
+                          )}
+                          <span className="flex items-center gap-1">
+                            <Clock size={12} /> {formatTime(estimate ? estimate.expected_duration / 1000 : step.estimatedTime)}
+                          </span>
                         </span>
                       </div>
 
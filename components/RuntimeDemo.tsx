@@ -5,12 +5,12 @@
  * - Event Store with real-time updates
  * - Memory Service with 4-layer scoping
  * - Idempotency with caching
- * - Executor with retry logic
+ * - Executor with retry logic and run cancellation
  * - Event Timeline visualization
  */
 
 import React, { useState, useEffect } from 'react';
-import { Play, RotateCcw, Database, Zap, Activity } from 'lucide-react';
+import { Play, RotateCcw, Database, Zap, Activity, Square } from 'lucide-react';
 import EventTimeline from './EventTimeline';
 import {
   Run,
@@ -24,14 +24,48 @@ import {
 import { eventStore, calculateRunMetrics } from '../services/runtime/eventStore';
 import { memoryService, setUserPreference, getUserPreference } from '../services/runtime/memoryService';
 import { idempotencyService } from '../services/runtime/idempotency';
+import { DEFAULT_TENANT_ID } from '../services/runtime/tenants';
 import { executor } from '../services/runtime/executor';
+import { registerTool } from '../services/runtime/toolRegistry';
 import { v4 as uuidv4 } from 'uuid';
 
+// Simulated tools so the demo runs without network access or credentials
+const simulateLatency = () => new Promise(resolve => setTimeout(resolve, 100 + Math.random() * 200));
+
+registerTool({
+  name: 'demo.scrape',
+  description: 'Simulated web scrape',
+  source: 'custom',
+  input_schema: { type: 'object', properties: { url: { type: 'string' } }, required: ['url'] },
+  cost: 10,
+  idempotent: true,
+  timeout: 5000,
+  handler: async params => {
+    await simulateLatency();
+    return { url: params.url, status: 200, content: 'Competitors: Algolia, Elastic, Typesense' };
+  }
+});
+
+registerTool({
+  name: 'demo.create_page',
+  description: 'Simulated page creation',
+  source: 'custom',
+  input_schema: { type: 'object', properties: { title: { type: 'string' }, content: {} }, required: ['title'] },
+  cost: 10,
+  idempotent: false,
+  timeout: 5000,
+  handler: async params => {
+    await simulateLatency();
+    return { page_id: uuidv4(), title: params.title, content: params.content };
+  }
+});
+
 export default function RuntimeDemo() {
   const [events, setEvents] = useState<Event[]>([]);
   const [currentRun, setCurrentRun] = useState<Run | null>(null);
   const [isExecuting, setIsExecuting] = useState(false);
   const [metrics, setMetrics] = useState<any>(null);
+  const [idempotencyStats, setIdempotencyStats] = useState({ total_keys: 0, cache_size_bytes: 0 });
 
   // Subscribe to events
   useEffect(() => {
@@ -44,6 +78,11 @@ export default function RuntimeDemo() {
     return unsubscribe;
   }, [currentRun]);
 
+  // Refresh idempotency stats (stored asynchronously) after runs and resets
+  useEffect(() => {
+    idempotencyService.getStats().then(setIdempotencyStats);
+  }, [currentRun, isExecuting]);
+
   // Create a demo plan
   const createDemoPlan = (): { run: Run; plan: Plan } => {
     const runId = uuidv4();
@@ -78,7 +117,7 @@ export default function RuntimeDemo() {
       {
         id: 'step1',
         type: 'tool_call',
-        tool: 'web.scrape',
+        tool: 'demo.scrape',
         params: { url: 'https://example.com/competitors' },
         depends_on: [],
         retry_policy: retryConfig,
@@ -87,7 +126,7 @@ export default function RuntimeDemo() {
       {
         id: 'step2',
         type: 'llm_call',
-        tool: 'llm.gpt4',
+        tool: 'llm.llama',
         params: { prompt: 'Analyze competitive landscape', context: '$step1' },
         depends_on: ['step1'],
         retry_policy: retryConfig,
@@ -96,7 +135,7 @@ export default function RuntimeDemo() {
       {
         id: 'step3',
         type: 'tool_call',
-        tool: 'notion.create_page',
+        tool: 'demo.create_page',
         params: { title: 'PRD: AI Search', content: '$step2' },
         depends_on: ['step2'],
         retry_policy: retryConfig,
@@ -105,7 +144,7 @@ export default function RuntimeDemo() {
       {
         id: 'step4',
         type: 'verification',
-        params: { artifact_type: 'prd', min_score: 80 },
+        params: { artifact_type: 'prd', min_score: 80, on_failure: 'warn' },
         depends_on: ['step3'],
         retry_policy: retryConfig,
         timeout: 10000
@@ -136,6 +175,7 @@ export default function RuntimeDemo() {
 
     const run: Run = {
       id: runId,
+      tenant_id: DEFAULT_TENANT_ID,
       project_id: 'demo-project',
       user_id: 'demo-user',
       intent,
@@ -185,6 +225,12 @@ export default function RuntimeDemo() {
     }
   };
 
+  // Cancel the executing run (in-flight steps are aborted)
+  const cancelDemoRun = async () => {
+    if (!currentRun) return;
+    await executor.cancelRun(currentRun.id, 'demo-user', 'Cancelled from the demo');
+  };
+
   // Reset demo
   const resetDemo = () => {
     eventStore.clear();
@@ -198,7 +244,6 @@ export default function RuntimeDemo() {
   // Get service stats
   const eventStoreStats = eventStore.getMetrics();
   const memoryStats = memoryService.getStats();
-  const idempotencyStats = idempotencyService.getStats();
 
   return (
     <div className="min-h-screen bg-white p-8">
@@ -233,6 +278,17 @@ export default function RuntimeDemo() {
                   {isExecuting ? 'Executing...' : 'Execute Run'}
                 </span>
               </button>
+              {isExecuting && (
+                <button
+                  onClick={cancelDemoRun}
+                  className="px-5 py-2.5 bg-white hover:bg-slate-50 text-slate-900 border border-slate-300 rounded-lg font-medium transition-colors"
+                >
+                  <span className="flex items-center gap-2">
+                    <Square size={16} />
+                    Cancel
+                  </span>
+                </button>
+              )}
               <button
                 onClick={resetDemo}
                 disabled={isExecuting}
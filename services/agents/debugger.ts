@@ -15,6 +15,28 @@
 import { AgentState, AgentAction, AgentRole, Incident, Remediation, Playbook } from '../../types/aura-os';
 import { WorkflowNode } from '../../types';
 import { queryGroq } from '../llm';
+import { retryWithBackoff, calculateBackoff, isRetryable, BackoffPolicy } from '../runtime/resilience';
+import { DEFAULT_TENANT_ID } from '../runtime/tenants';
+import { executorAgent } from './executor';
+
+// Full-jitter backoff shared with the runtime executor
+const REMEDIATION_BACKOFF: BackoffPolicy = {
+  initial_delay: 1000, // 1 second
+  max_delay: 8000,
+  multiplier: 2
+};
+
+// Failures worth re-running a node for (CIRCUIT_OPEN isn't: the integration is down)
+const REMEDIATION_RETRYABLE = [
+  'RATE_LIMIT',
+  'TIMEOUT',
+  'NETWORK_ERROR',
+  'SERVICE_UNAVAILABLE',
+  'TEMPORARY_FAILURE',
+  'ETIMEDOUT',
+  'ECONNRESET',
+  'ECONNREFUSED'
+];
 
 export class DebuggerAgent {
   private agentRole: AgentRole = 'debugger';
@@ -48,7 +70,7 @@ export class DebuggerAgent {
     // Create incident
     const incident: Incident = {
       id: `incident-${Date.now()}`,
-      tenantId: 'default',
+      tenantId: state.tenantId || DEFAULT_TENANT_ID,
       flowRunId: state.flowRunId,
       nodeId: node.id,
       severity,
@@ -366,7 +388,10 @@ Analyze this error and provide a detailed root cause analysis.`;
   }
 
   /**
-   * Retry with exponential backoff
+   * Re-run the node through the executor agent, retrying transient failures
+   * with backoff (a Retry-After hint wins when longer). Tool nodes call
+   * their integration through its circuit breaker, so an open breaker ends
+   * the retries.
    */
   private async retryWithBackoff(
     node: WorkflowNode,
@@ -374,28 +399,24 @@ Analyze this error and provide a detailed root cause analysis.`;
     remediation: Remediation
   ): Promise<string> {
     const maxRetries = 3;
-    const initialDelay = 1000; // 1 second
 
-    for (let attempt = 1; attempt <= maxRetries; attempt++) {
-      const delay = initialDelay * Math.pow(2, attempt - 1);
-
-      console.log(`[DEBUGGER] Retry attempt ${attempt}/${maxRetries} after ${delay}ms delay`);
-
-      // Wait before retry
-      await new Promise(resolve => setTimeout(resolve, delay));
-
-      try {
-        // Attempt to re-execute (simplified - in production, would use ExecutorAgent)
-        return `Node ${node.label} succeeded after ${attempt} retry attempt(s)`;
-      } catch (error) {
-        if (attempt === maxRetries) {
-          throw error;
-        }
-        console.log(`[DEBUGGER] Retry ${attempt} failed, trying again...`);
+    // The failed execution was the first attempt; back off before retrying
+    const delay = calculateBackoff(1, REMEDIATION_BACKOFF);
+    console.log(`[DEBUGGER] Retry attempt 1/${maxRetries} after ${delay}ms delay`);
+    await new Promise(resolve => setTimeout(resolve, delay));
+
+    return retryWithBackoff(async attempt => {
+      const output = await executorAgent.runNode(node, state);
+      console.log(`[DEBUGGER] Node ${node.label} succeeded on retry attempt ${attempt}/${maxRetries}`);
+      return output;
+    }, {
+      ...REMEDIATION_BACKOFF,
+      max_attempts: maxRetries,
+      retryable: error => isRetryable(error, REMEDIATION_RETRYABLE),
+      onRetry: (attempt, nextDelay) => {
+        console.log(`[DEBUGGER] Retry ${attempt - 1} failed, retry attempt ${attempt}/${maxRetries} after ${nextDelay}ms delay`);
       }
-    }
-
-    throw new Error(`All ${maxRetries} retry attempts failed`);
+    });
   }
 
   /**
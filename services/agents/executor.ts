@@ -17,6 +17,8 @@ import { WorkflowNode, ExecutionStep } from '../../types';
 import { executeAgentStep } from '../llm';
 import { APIExecutor } from '../apiIntegrations';
 import { credentialManager } from '../credentialManager';
+import { DEFAULT_TENANT_ID } from '../runtime/tenants';
+import { errorCode, httpStatus, getRetryAfter } from '../runtime/resilience';
 
 export class ExecutorAgent {
   private agentRole: AgentRole = 'executor';
@@ -40,33 +42,7 @@ export class ExecutorAgent {
       // Log execution start
       console.log(`[EXECUTOR] Starting execution of node: ${node.label}`);
 
-      let output: string;
-
-      // Different execution strategies based on node type
-      switch (node.type) {
-        case 'agent':
-          output = await this.executeAgentNode(node, state, documents);
-          break;
-
-        case 'tool':
-          output = await this.executeToolNode(node, state);
-          break;
-
-        case 'router':
-          output = await this.executeRouterNode(node, state);
-          break;
-
-        case 'start':
-          output = 'Workflow started';
-          break;
-
-        case 'end':
-          output = 'Workflow completed';
-          break;
-
-        default:
-          output = `Executed ${node.type} node`;
-      }
+      const output = await this.runNode(node, state, documents);
 
       const duration = Date.now() - startTime;
 
@@ -129,7 +105,7 @@ export class ExecutorAgent {
           ...state.incidents,
           {
             id: `incident-${Date.now()}`,
-            tenantId: 'default',
+            tenantId: state.tenantId || DEFAULT_TENANT_ID,
             flowRunId: state.flowRunId,
             nodeId: node.id,
             severity: 'HIGH',
@@ -152,6 +128,34 @@ export class ExecutorAgent {
     }
   }
 
+  /**
+   * Run a node's work without recording it in state. Throws on failure;
+   * tool errors keep their code, HTTP status and retry hint for callers
+   * that retry (e.g. the debugger).
+   */
+  async runNode(node: WorkflowNode, state: AgentState, documents: any[] = []): Promise<string> {
+    // Different execution strategies based on node type
+    switch (node.type) {
+      case 'agent':
+        return this.executeAgentNode(node, state, documents);
+
+      case 'tool':
+        return this.executeToolNode(node, state);
+
+      case 'router':
+        return this.executeRouterNode(node, state);
+
+      case 'start':
+        return 'Workflow started';
+
+      case 'end':
+        return 'Workflow completed';
+
+      default:
+        return `Executed ${node.type} node`;
+    }
+  }
+
   /**
    * Execute an agent node (AI-powered)
    */
@@ -204,7 +208,11 @@ export class ExecutorAgent {
 
       return `Tool ${toolName} executed successfully. Result: ${JSON.stringify(result, null, 2)}`;
     } catch (error) {
-      throw new Error(`Tool execution failed: ${(error as Error).message}`);
+      throw Object.assign(new Error(`Tool execution failed: ${(error as Error).message}`), {
+        code: errorCode(error),
+        http_status: httpStatus(error),
+        retry_after_ms: getRetryAfter(error)
+      });
     }
   }
 
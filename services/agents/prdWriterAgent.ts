@@ -11,6 +11,7 @@
 
 import { callGroqLLM } from '../llm';
 import { AgentState, AgentAction } from '../../types/aura-os';
+import { DEFAULT_TENANT_ID } from '../runtime/tenants';
 
 export interface PRDSection {
   title: string;
@@ -460,7 +461,7 @@ Return as JSON: {"acceptanceCriteria": ["criteria 1", "criteria 2", ...]}`;
           ...state.incidents,
           {
             id: `incident-${Date.now()}`,
-            tenantId: 'default',
+            tenantId: state.tenantId || DEFAULT_TENANT_ID,
             flowRunId: state.flowRunId,
             nodeId: 'prd_writer',
             severity: 'HIGH',
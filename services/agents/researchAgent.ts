@@ -10,6 +10,7 @@
 
 import { callGroqLLM } from '../llm';
 import { AgentState, AgentAction } from '../../types/aura-os';
+import { DEFAULT_TENANT_ID } from '../runtime/tenants';
 
 export interface SearchResult {
   title: string;
@@ -324,7 +325,7 @@ Return as JSON:
           ...state.incidents,
           {
             id: `incident-${Date.now()}`,
-            tenantId: 'default',
+            tenantId: state.tenantId || DEFAULT_TENANT_ID,
             flowRunId: state.flowRunId,
             nodeId: 'research_agent',
             severity: 'HIGH',
@@ -1,5 +1,7 @@
 import { APIIntegration, APIAction, APITrigger, APICredential, RetryPolicy } from '../types/advanced';
-import { ShopifyClient, shopifyActions } from './integrations/shopify';
+import { ShopifyClient, shopifyActions, SHOPIFY_RATE_LIMITS } from './integrations/shopify';
+import { retryWithBackoff, isRetryable, withCircuitBreaker, parseRetryAfter } from './runtime/resilience';
+import { withRateLimit } from './runtime/rateLimiter';
 
 // ============= REAL API INTEGRATIONS =============
 
@@ -170,6 +172,7 @@ export const API_INTEGRATIONS: APIIntegration[] = [
     baseUrl: 'https://{shop_name}.myshopify.com/admin/api/2024-01',
     authType: 'oauth2',
     documentation: 'https://shopify.dev/docs/api/admin-rest',
+    rateLimits: SHOPIFY_RATE_LIMITS,
     actions: Object.values(shopifyActions),
     triggers: [
       {
@@ -220,6 +223,10 @@ export const API_INTEGRATIONS: APIIntegration[] = [
     baseUrl: 'https://api.hubapi.com',
     authType: 'oauth2',
     documentation: 'https://developers.hubspot.com/docs/api/overview',
+    rateLimits: {
+      requestsPerSecond: 10,
+      requestsPerDay: 250000
+    },
     actions: [
       {
         id: 'hubspot_create_contact',
@@ -297,6 +304,9 @@ export const API_INTEGRATIONS: APIIntegration[] = [
     baseUrl: 'https://api.notion.com/v1',
     authType: 'bearer_token',
     documentation: 'https://developers.notion.com/reference/intro',
+    rateLimits: {
+      requestsPerSecond: 3
+    },
     actions: [
       {
         id: 'notion_create_page',
@@ -335,6 +345,9 @@ export const API_INTEGRATIONS: APIIntegration[] = [
     baseUrl: 'https://api.airtable.com/v0',
     authType: 'bearer_token',
     documentation: 'https://airtable.com/developers/web/api/introduction',
+    rateLimits: {
+      requestsPerSecond: 5
+    },
     actions: [
       {
         id: 'airtable_create_record',
@@ -423,6 +436,12 @@ export const DEFAULT_RETRY_POLICY: RetryPolicy = {
 
 // ============= API EXECUTOR WITH RETRY LOGIC =============
 
+export interface APIExecuteOptions {
+  circuitBreaker?: boolean; // Default: true
+  signal?: AbortSignal; // Stops queueing and retrying
+  onQueued?: (queueTimeMs: number) => void; // Time each attempt waited on rate limits
+}
+
 export class APIExecutor {
   private credential: APICredential | null = null;
 
@@ -430,49 +449,48 @@ export class APIExecutor {
     this.credential = credential || null;
   }
 
+  /**
+   * Execute an action with retries (full-jitter backoff, Retry-After) through
+   * the integration's circuit breaker. Pass `circuitBreaker: false` when the
+   * caller already guards the integration. Every attempt waits its turn under
+   * the integration's rate limits; `onQueued` reports how long it waited.
+   */
   async execute(
     integration: APIIntegration,
     action: APIAction,
     params: Record<string, any>,
-    retryPolicy: RetryPolicy = DEFAULT_RETRY_POLICY
+    retryPolicy: RetryPolicy = DEFAULT_RETRY_POLICY,
+    options: APIExecuteOptions = {}
   ): Promise<any> {
-    let attempt = 0;
-    let lastError: Error | null = null;
+    const request = () => this.executeRequest(integration, action, params, retryPolicy.timeout, options);
 
-    while (attempt <= retryPolicy.maxRetries) {
-      try {
-        return await this.executeRequest(integration, action, params, retryPolicy.timeout);
-      } catch (error: any) {
-        lastError = error;
-
-        // Check if error is retryable
-        const isRetryable = this.isRetryableError(error, retryPolicy.retryableErrors);
-
-        if (!isRetryable || attempt >= retryPolicy.maxRetries) {
-          throw error;
+    return retryWithBackoff(
+      () => options.circuitBreaker === false ? request() : withCircuitBreaker(integration.id, request),
+      {
+        max_attempts: retryPolicy.maxRetries + 1,
+        initial_delay: retryPolicy.initialDelay,
+        max_delay: retryPolicy.maxDelay,
+        multiplier: retryPolicy.backoffMultiplier,
+        strategy: retryPolicy.backoffType,
+        retryable: error => isRetryable(error, retryPolicy.retryableErrors),
+        signal: options.signal,
+        onRetry: (attempt, delay) => {
+          console.log(`Retry attempt ${attempt - 1}/${retryPolicy.maxRetries} after ${delay}ms`);
         }
-
-        // Calculate delay with backoff
-        const delay = this.calculateBackoff(attempt, retryPolicy);
-        console.log(`Retry attempt ${attempt + 1}/${retryPolicy.maxRetries} after ${delay}ms`);
-
-        await this.sleep(delay);
-        attempt++;
       }
-    }
-
-    throw lastError || new Error('Unknown error during API execution');
+    );
   }
 
   private async executeRequest(
     integration: APIIntegration,
     action: APIAction,
     params: Record<string, any>,
-    timeout: number
+    timeout: number,
+    options: APIExecuteOptions
   ): Promise<any> {
-    // Special handling for Shopify using ShopifyClient
+    // Special handling for Shopify using ShopifyClient (which applies the limits itself)
     if (integration.id === 'shopify' && this.credential) {
-      return this.executeShopifyRequest(action, params);
+      return this.executeShopifyRequest(action, params, options);
     }
 
     const url = `${integration.baseUrl}${action.endpoint}`;
@@ -499,30 +517,47 @@ export class APIExecutor {
       }
     }
 
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), timeout);
+    // The timeout starts once the limiter admits the request
+    return withRateLimit(integration.id, async () => {
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), timeout);
 
-    try {
-      const response = await fetch(url, {
-        method: action.method,
-        headers,
-        body: action.method !== 'GET' ? JSON.stringify(params) : undefined,
-        signal: controller.signal
-      });
+      try {
+        const response = await fetch(url, {
+          method: action.method,
+          headers,
+          body: action.method !== 'GET' ? JSON.stringify(params) : undefined,
+          signal: controller.signal
+        });
+
+        if (!response.ok) {
+          const error: any = new Error(`API Error: ${response.status} ${response.statusText}`);
+          error.http_status = response.status;
+          error.retry_after_ms = parseRetryAfter(response.headers.get('retry-after'));
+          throw error;
+        }
 
-      if (!response.ok) {
-        throw new Error(`API Error: ${response.status} ${response.statusText}`);
+        return await response.json();
+      } catch (error: any) {
+        if (error.name === 'AbortError') {
+          error.code = 'ETIMEDOUT';
+        }
+        throw error;
+      } finally {
+        clearTimeout(timeoutId);
       }
-
-      return await response.json();
-    } finally {
-      clearTimeout(timeoutId);
-    }
+    }, {
+      credential_id: this.credential?.id,
+      limits: integration.rateLimits,
+      signal: options.signal,
+      onQueued: options.onQueued
+    });
   }
 
   private async executeShopifyRequest(
     action: APIAction,
-    params: Record<string, any>
+    params: Record<string, any>,
+    options: APIExecuteOptions
   ): Promise<any> {
     if (!this.credential) {
       throw new Error('Shopify credentials not found');
@@ -551,8 +586,9 @@ export class APIExecutor {
       apiKey: apiKey || '',
       apiSecret: apiSecret || '',
       accessToken,
-      scopes
-    });
+      scopes,
+      credentialId: this.credential.id
+    }, { signal: options.signal, onQueued: options.onQueued });
 
     // Map action ID to ShopifyClient method
     switch (action.id) {
@@ -608,40 +644,6 @@ export class APIExecutor {
         throw new Error(`Unknown Shopify action: ${action.id}`);
     }
   }
-
-  private isRetryableError(error: any, retryableErrors: string[]): boolean {
-    const errorCode = error.code || error.status?.toString() || '';
-    return retryableErrors.some(code => errorCode.includes(code));
-  }
-
-  private calculateBackoff(attempt: number, policy: RetryPolicy): number {
-    let delay: number;
-
-    switch (policy.backoffType) {
-      case 'exponential':
-        delay = Math.min(
-          policy.initialDelay * Math.pow(policy.backoffMultiplier, attempt),
-          policy.maxDelay
-        );
-        break;
-      case 'linear':
-        delay = Math.min(
-          policy.initialDelay * (attempt + 1),
-          policy.maxDelay
-        );
-        break;
-      case 'constant':
-      default:
-        delay = policy.initialDelay;
-    }
-
-    // Add jitter (randomness) to prevent thundering herd
-    return delay * (0.5 + Math.random() * 0.5);
-  }
-
-  private sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
-  }
 }
 
 // ============= HELPER FUNCTIONS =============
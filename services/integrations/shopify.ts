@@ -8,16 +8,31 @@
  * - Customer data
  * - Abandoned cart tracking
  * - Webhook support
+ * - Rate limiting per shop (requests queue instead of hitting 429s)
  */
 
+import { RateLimits } from '../../types/aura-os';
+import { rateLimiter, withRateLimit } from '../runtime/rateLimiter';
+
 export interface ShopifyConfig {
   apiKey: string;
   apiSecret: string;
   shop: string; // e.g., "your-store.myshopify.com"
   accessToken?: string;
   scopes: string[];
+  credentialId?: string; // Rate limit budget (default: per shop)
+}
+
+export interface ShopifyRequestOptions {
+  signal?: AbortSignal; // Leaves the rate limit queue
+  onQueued?: (queueTimeMs: number) => void; // Time each request waited on rate limits
 }
 
+// REST Admin API: 2 requests/second per store (leaky bucket of 40)
+export const SHOPIFY_RATE_LIMITS: RateLimits = {
+  requestsPerSecond: 2
+};
+
 export interface ShopifyOrder {
   id: number;
   email: string;
@@ -103,10 +118,12 @@ export interface ShopifyAbandonedCheckout {
  */
 export class ShopifyClient {
   private config: ShopifyConfig;
+  private options: ShopifyRequestOptions;
   private baseUrl: string;
 
-  constructor(config: ShopifyConfig) {
+  constructor(config: ShopifyConfig, options: ShopifyRequestOptions = {}) {
     this.config = config;
+    this.options = options;
     this.baseUrl = `https://${config.shop}/admin/api/2024-01`;
   }
 
@@ -162,7 +179,7 @@ export class ShopifyClient {
   }
 
   /**
-   * Make authenticated API request
+   * Make authenticated API request (queued under the shop's rate limits)
    */
   private async request<T>(
     endpoint: string,
@@ -175,13 +192,18 @@ export class ShopifyClient {
 
     const url = `${this.baseUrl}${endpoint}`;
 
-    const response = await fetch(url, {
+    const response = await withRateLimit('shopify', () => fetch(url, {
       method,
       headers: {
-        'X-Shopify-Access-Token': this.config.accessToken,
+        'X-Shopify-Access-Token': this.config.accessToken!,
         'Content-Type': 'application/json'
       },
       body: body ? JSON.stringify(body) : undefined
+    }), {
+      credential_id: this.config.credentialId || this.config.shop,
+      limits: SHOPIFY_RATE_LIMITS,
+      signal: this.options.signal,
+      onQueued: this.options.onQueued
     });
 
     // Handle rate limiting
@@ -190,7 +212,7 @@ export class ShopifyClient {
       const delay = retryAfter ? parseInt(retryAfter) * 1000 : 2000;
 
       console.log(`[Shopify] Rate limited, retrying after ${delay}ms`);
-      await new Promise(resolve => setTimeout(resolve, delay));
+      rateLimiter.pause('shopify', delay, this.config.credentialId || this.config.shop);
 
       return this.request<T>(endpoint, method, body);
     }
@@ -0,0 +1,227 @@
+/**
+ * Fact Conflict Detection
+ *
+ * Contradictions supersede the stale fact; compatible sibling facts
+ * ("uses TypeScript" / "uses React") both stay current.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { LLMConflictDetector, OverlapConflictDetector } from './conflicts';
+import { FACTUAL_MEMORY_TABLE, FactualMemoryStore } from './factualMemory';
+import { factualMemoryStore } from './index';
+import { LocalMemoryRepository } from './repository';
+import { FactualMemory } from './types';
+import { LLMProvider, LLMRequest, llmService } from '../runtime/llmProvider';
+
+let nextId = 0;
+
+function fact(content: string, tags: string[] = []): FactualMemory {
+  return {
+    id: `f${++nextId}`,
+    userId: 'u1',
+    type: 'fact',
+    content,
+    source: 'test',
+    confidence: 0.8,
+    timestamp: new Date(),
+    tags
+  };
+}
+
+describe('OverlapConflictDetector', () => {
+  const detector = new OverlapConflictDetector();
+
+  it('flags the same tagged claim with a different value', async () => {
+    const jira = fact('The team tracks work in Jira', ['issue-tracker']);
+    const linear = fact('The team tracks work in Linear', ['issue-tracker']);
+
+    expect(await detector.findConflicts(linear, [jira])).toEqual([jira.id]);
+  });
+
+  it('leaves untagged sibling facts alone', async () => {
+    const typescript = fact('The project uses TypeScript');
+    const react = fact('The project uses React');
+
+    expect(await detector.findConflicts(react, [typescript])).toEqual([]);
+  });
+
+  it('leaves sibling facts with a broad shared tag alone', async () => {
+    const typescript = fact('The project uses TypeScript', ['stack']);
+    const react = fact('The project uses React', ['stack']);
+
+    expect(await detector.findConflicts(react, [typescript])).toEqual([]);
+  });
+
+  it('leaves facts about different things alone', async () => {
+    const tracker = fact('The team tracks work in Jira', ['issue-tracker']);
+    const docs = fact('The team tracks work in Notion', ['docs']);
+
+    expect(await detector.findConflicts(docs, [tracker])).toEqual([]);
+  });
+
+  it('treats added detail as a refinement, not a conflict', async () => {
+    const general = fact('The team tracks work in Linear', ['issue-tracker']);
+    const detailed = fact('The team tracks work in Linear cycles', ['issue-tracker']);
+
+    expect(await detector.findConflicts(detailed, [general])).toEqual([]);
+  });
+});
+
+describe('LLMConflictDetector', () => {
+  const provider = llmService.getProvider();
+  let requests: LLMRequest[];
+  let answer: string;
+
+  beforeEach(() => {
+    requests = [];
+    const stub: LLMProvider = {
+      name: 'stub',
+      complete: async request => {
+        requests.push(request);
+        return { text: answer, model: request.model, prompt_tokens: 10, completion_tokens: 5 };
+      }
+    };
+    llmService.setProvider(stub);
+  });
+
+  afterEach(() => {
+    llmService.setProvider(provider);
+  });
+
+  it('returns the candidates the model names, ignoring out-of-range numbers', async () => {
+    const candidates = [fact('The project uses TypeScript'), fact('Deploys go out on Fridays')];
+    answer = 'Sure: {"contradicted": [2, 7]}';
+
+    expect(await new LLMConflictDetector().findConflicts(fact('Deploys go out on Tuesdays'), candidates))
+      .toEqual([candidates[1].id]);
+    expect(requests[0].messages[1].content).toContain('2. Deploys go out on Fridays');
+  });
+
+  it('skips the call when there are no candidates', async () => {
+    expect(await new LLMConflictDetector().findConflicts(fact('anything'), [])).toEqual([]);
+    expect(requests).toHaveLength(0);
+  });
+
+  it('rejects an answer without a list', async () => {
+    answer = 'No contradictions.';
+    await expect(new LLMConflictDetector().findConflicts(fact('a b'), [fact('a c')])).rejects.toThrow('returned no list');
+  });
+});
+
+describe('FactualMemoryStore conflict detection', () => {
+  let store: FactualMemoryStore;
+
+  beforeEach(() => {
+    store = new FactualMemoryStore(new LocalMemoryRepository(FACTUAL_MEMORY_TABLE));
+  });
+
+  async function storeFact(content: string, tags: string[] = []): Promise<FactualMemory> {
+    return store.store({ userId: 'u1', type: 'fact', content, source: 'test', confidence: 0.8, tags });
+  }
+
+  async function currentContents(): Promise<string[]> {
+    return (await store.retrieve({ userId: 'u1' })).map(memory => memory.content).sort();
+  }
+
+  it('is off by default, so nothing is superseded', async () => {
+    await storeFact('The team tracks work in Jira', ['issue-tracker']);
+    await storeFact('The team tracks work in Linear', ['issue-tracker']);
+
+    expect(await currentContents()).toEqual(['The team tracks work in Jira', 'The team tracks work in Linear']);
+  });
+
+  it('keeps sibling facts current with the overlap detector', async () => {
+    store.setConflictDetector(new OverlapConflictDetector());
+
+    await storeFact('The project uses TypeScript', ['stack']);
+    await storeFact('The project uses React', ['stack']);
+    await storeFact('The project uses Vite', ['stack']);
+
+    expect(await currentContents()).toEqual([
+      'The project uses React',
+      'The project uses TypeScript',
+      'The project uses Vite'
+    ]);
+  });
+
+  it('supersedes a contradicted fact with the overlap detector', async () => {
+    store.setConflictDetector(new OverlapConflictDetector());
+
+    const jira = await storeFact('The team tracks work in Jira', ['issue-tracker']);
+    const linear = await storeFact('The team tracks work in Linear', ['issue-tracker']);
+
+    expect(await currentContents()).toEqual(['The team tracks work in Linear']);
+    expect(linear.version).toBe(2);
+    expect(linear.previousVersionId).toBe(jira.id);
+
+    const old = await store.get(jira.id);
+    expect(old?.supersededBy).toBe(linear.id);
+    expect(old?.confidence).toBeCloseTo(0.4);
+  });
+
+  it('skips detection when the store is told to', async () => {
+    store.setConflictDetector(new OverlapConflictDetector());
+
+    await storeFact('The team tracks work in Jira', ['issue-tracker']);
+    await store.store(
+      { userId: 'u1', type: 'fact', content: 'The team tracks work in Linear', source: 'test', confidence: 0.8, tags: ['issue-tracker'] },
+      { detectConflicts: false }
+    );
+
+    expect(await currentContents()).toHaveLength(2);
+  });
+});
+
+describe('factualMemoryStore (memory system default)', () => {
+  const provider = llmService.getProvider();
+  let userId: string;
+
+  beforeEach(() => {
+    userId = `user-${++nextId}`;
+  });
+
+  afterEach(() => {
+    llmService.setProvider(provider);
+  });
+
+  async function storeFact(content: string, tags: string[] = []): Promise<FactualMemory> {
+    return factualMemoryStore.store({ userId, type: 'fact', content, source: 'test', confidence: 0.8, tags });
+  }
+
+  async function currentContents(): Promise<string[]> {
+    return (await factualMemoryStore.retrieve({ userId })).map(memory => memory.content).sort();
+  }
+
+  it('supersedes a contradicted fact with the overlap detector when no LLM is configured', async () => {
+    llmService.setProvider({ name: 'unconfigured', isConfigured: () => false, complete: async () => { throw new Error('no key'); } });
+
+    const jira = await storeFact('The team tracks work in Jira', ['issue-tracker']);
+    await storeFact('The team tracks work in Linear', ['issue-tracker']);
+    await storeFact('The project uses TypeScript', ['stack']);
+    await storeFact('The project uses React', ['stack']);
+
+    expect(await currentContents()).toEqual([
+      'The project uses React',
+      'The project uses TypeScript',
+      'The team tracks work in Linear'
+    ]);
+    expect((await factualMemoryStore.get(jira.id))?.supersededBy).toBeDefined();
+  });
+
+  it('asks the LLM when one is configured', async () => {
+    const prompts: string[] = [];
+    llmService.setProvider({
+      name: 'stub',
+      complete: async request => {
+        prompts.push(request.messages[1].content);
+        return { text: '{"contradicted": [1]}', model: request.model, prompt_tokens: 10, completion_tokens: 5 };
+      }
+    });
+
+    await storeFact('We deploy on Fridays');
+    await storeFact('We deploy on Tuesdays');
+
+    expect(prompts).toHaveLength(1);
+    expect(await currentContents()).toEqual(['We deploy on Tuesdays']);
+  });
+});
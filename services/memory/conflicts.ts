@@ -0,0 +1,128 @@
+/**
+ * Fact Conflict Detection
+ *
+ * Decides whether a newly stored fact contradicts facts the user already
+ * has, so the store can supersede the stale ones (e.g. "The team tracks
+ * work in Jira" -> "The team tracks work in Linear"):
+ * - LLMConflictDetector: asks the runtime LLM; tells contradictions from
+ *   compatible facts ("uses TypeScript" / "uses React")
+ * - OverlapConflictDetector: offline heuristic for facts tagged with the
+ *   single-valued thing they describe (e.g. 'issue-tracker')
+ * - DefaultConflictDetector: the LLM when one is configured, else overlap
+ *
+ * FactualMemoryStore instances start without a detector (a false positive
+ * retires a fact that was still true); the memory system installs the
+ * default one on factualMemoryStore.
+ *
+ * Candidates are the semantically closest current facts of the same type;
+ * detectors only decide which of them the new fact replaces.
+ */
+
+import { llmService } from '../runtime/llmProvider';
+import { cosineSimilarity, getEmbeddingProvider, tokenize } from './embeddings';
+import { FactualMemory } from './types';
+
+export interface ConflictDetector {
+  readonly name: string;
+  findConflicts(fact: FactualMemory, candidates: FactualMemory[]): Promise<string[]>; // Ids of candidates the fact replaces
+}
+
+// Share of the longer statement's words both must have in common
+const MIN_SHARED_WORDS = 0.6;
+
+// Embedding similarity both statements must reach
+const MIN_SIMILARITY = 0.7;
+
+/**
+ * Two statements conflict when they share a tag, most of their words and
+ * a high embedding similarity, but each has words the other lacks: the
+ * same claim with a different value.
+ *
+ * Word overlap alone can't tell a changed value from a second one ("The
+ * project uses TypeScript" / "The project uses React"), so untagged facts
+ * never conflict: the shared tag is what says the claim has one value.
+ * A statement that only adds detail to another isn't a conflict either.
+ */
+export class OverlapConflictDetector implements ConflictDetector {
+  readonly name = 'overlap';
+
+  async findConflicts(fact: FactualMemory, candidates: FactualMemory[]): Promise<string[]> {
+    const words = new Set(tokenize(fact.content));
+    if (words.size < 2) return [];
+
+    const similar = candidates.filter(candidate => {
+      if (!fact.tags.some(tag => candidate.tags.includes(tag))) return false;
+
+      const other = new Set(tokenize(candidate.content));
+      if (other.size < 2) return false;
+
+      const shared = Array.from(words).filter(word => other.has(word)).length;
+      const refinement = shared === words.size || shared === other.size;
+      return !refinement && shared / Math.max(words.size, other.size) >= MIN_SHARED_WORDS;
+    });
+    if (similar.length === 0) return [];
+
+    // Embedded together so both sides use the current model
+    const [factVector, ...vectors] = await getEmbeddingProvider()
+      .embed([fact.content, ...similar.map(candidate => candidate.content)]);
+
+    return similar
+      .filter((_, i) => cosineSimilarity(factVector, vectors[i]) >= MIN_SIMILARITY)
+      .map(candidate => candidate.id);
+  }
+}
+
+/**
+ * Ask the runtime LLM which existing facts the new one makes outdated
+ */
+export class LLMConflictDetector implements ConflictDetector {
+  readonly name = 'llm';
+
+  constructor(private model?: string) {}
+
+  async findConflicts(fact: FactualMemory, candidates: FactualMemory[]): Promise<string[]> {
+    if (candidates.length === 0) return [];
+
+    const { text } = await llmService.complete({
+      model: llmService.resolveModel(this.model),
+      temperature: 0,
+      max_tokens: 200,
+      messages: [{
+        role: 'system',
+        content: 'You maintain a user\'s long-term memory. Given a new fact and numbered existing facts, ' +
+          'list the existing facts the new one contradicts or makes outdated (not ones it merely adds to). ' +
+          'Respond with JSON only: {"contradicted": [<numbers>]}'
+      },
+      {
+        role: 'user',
+        content: `New fact: ${fact.content}\n\nExisting facts:\n` +
+          candidates.map((candidate, i) => `${i + 1}. ${candidate.content}`).join('\n')
+      }]
+    });
+
+    const match = text.match(/\{[\s\S]*\}/);
+    const parsed = match ? JSON.parse(match[0]) : null;
+    if (!parsed || !Array.isArray(parsed.contradicted)) {
+      throw new Error(`Conflict check (${this.name}) returned no list`);
+    }
+
+    return parsed.contradicted
+      .filter((n: any) => Number.isInteger(n) && n >= 1 && n <= candidates.length)
+      .map((n: number) => candidates[n - 1].id);
+  }
+}
+
+/**
+ * The LLM detector when the runtime LLM is configured, else the overlap
+ * heuristic. Decided per call, so an API key added later is picked up.
+ */
+export class DefaultConflictDetector implements ConflictDetector {
+  readonly name = 'default';
+  private llm = new LLMConflictDetector();
+  private overlap = new OverlapConflictDetector();
+
+  findConflicts(fact: FactualMemory, candidates: FactualMemory[]): Promise<string[]> {
+    const detector = llmService.isConfigured() ? this.llm : this.overlap;
+    return detector.findConflicts(fact, candidates);
+  }
+}
@@ -0,0 +1,152 @@
+/**
+ * Embedding Providers
+ *
+ * Turns memory text into vectors for semantic search:
+ * - EmbeddingProvider interface, so a hosted or local model can be plugged in
+ * - Offline default: hashed bag-of-words (unigrams + bigrams hashed into a
+ *   fixed number of signed buckets, L2-normalized). No network, no model
+ *   download, deterministic across processes.
+ *
+ * The default has as many dimensions as the `factual_memory.embedding`
+ * column (1536), so its vectors can be stored in Supabase as well.
+ * Vectors from different providers are not comparable; stored embeddings
+ * record which provider made them (metadata.embeddingModel).
+ */
+
+export interface EmbeddingProvider {
+  readonly model: string; // Recorded with each embedding
+  readonly dimensions: number;
+  readonly matchThreshold: number; // Cosine similarity below this is noise for this model
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+const DEFAULT_DIMENSIONS = 1536;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'did', 'do', 'does', 'for',
+  'from', 'has', 'have', 'how', 'in', 'is', 'it', 'its', 'me', 'my', 'of', 'on',
+  'or', 'our', 'that', 'the', 'their', 'this', 'to', 'us', 'was', 'we', 'were',
+  'what', 'when', 'where', 'which', 'who', 'will', 'with', 'you', 'your'
+]);
+
+/**
+ * Offline embedder: similar wording gives similar vectors
+ */
+export class HashedBagOfWordsEmbedder implements EmbeddingProvider {
+  readonly model: string;
+  readonly matchThreshold = 0.1;
+
+  constructor(readonly dimensions: number = DEFAULT_DIMENSIONS) {
+    this.model = `hashed-bow-${dimensions}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedOne(text));
+  }
+
+  private embedOne(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const tokens = tokenize(text);
+
+    const features = new Map<string, number>(); // Map<feature, count>
+    tokens.forEach((token, i) => {
+      features.set(token, (features.get(token) || 0) + 1);
+      if (i > 0) {
+        const bigram = `${tokens[i - 1]} ${token}`;
+        features.set(bigram, (features.get(bigram) || 0) + 0.5); // Word order counts, but less
+      }
+    });
+
+    for (const [feature, count] of features) {
+      const hash = fnv1a(feature);
+      const sign = (hash & 0x80000000) ? -1 : 1; // Signed buckets keep collisions from adding up
+      vector[hash % this.dimensions] += sign * Math.log1p(count);
+    }
+
+    return normalize(vector);
+  }
+}
+
+// ============================================================================
+// PROVIDER REGISTRY
+// ============================================================================
+
+let provider: EmbeddingProvider = new HashedBagOfWordsEmbedder();
+
+export function getEmbeddingProvider(): EmbeddingProvider {
+  return provider;
+}
+
+/**
+ * Use another model for new embeddings (existing ones keep their model tag)
+ */
+export function setEmbeddingProvider(next: EmbeddingProvider): void {
+  provider = next;
+  console.log(`[Embeddings] Using ${next.model} (${next.dimensions} dimensions)`);
+}
+
+/**
+ * Embed a single text with the current provider
+ */
+export async function embedText(text: string): Promise<number[]> {
+  const [vector] = await provider.embed([text]);
+  return vector;
+}
+
+/**
+ * Cosine similarity of two vectors (0 when either is empty or sizes differ)
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length === 0 || a.length !== b.length) return 0;
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Lowercased, stemmed content words (stop words dropped)
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(token => token.length > 1 && !STOP_WORDS.has(token))
+    .map(stem);
+}
+
+/**
+ * Crude suffix stripping so "tickets" matches "ticket" and "deployments" matches "deploy"
+ */
+function stem(token: string): string {
+  if (token.length > 3 && token.endsWith('s') && !token.endsWith('ss')) token = token.slice(0, -1);
+  if (token.length > 7 && token.endsWith('ment')) return token.slice(0, -4);
+  if (token.length > 5 && token.endsWith('ing')) return token.slice(0, -3);
+  if (token.length > 4 && token.endsWith('ed')) return token.slice(0, -2);
+  return token;
+}
+
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm > 0 ? vector.map(value => value / norm) : vector;
+}
@@ -3,91 +3,84 @@
  *
  * Learning from success and failure
  * Stores insights and skills accumulated through interaction
+ * (in Supabase, or locally when it isn't configured; see ./repository)
  */
 
-import { supabase } from '../../lib/supabase';
 import { ExperientialMemory, MemoryQuery } from './types';
+import { MemoryRepository, MemoryTable, createMemoryRepository, definedColumns } from './repository';
+
+export const EXPERIENTIAL_MEMORY_TABLE: MemoryTable<ExperientialMemory> = {
+  name: 'experiential_memory',
+  toRow: memory => definedColumns({
+    user_id: memory.userId,
+    type: memory.type,
+    context: memory.context,
+    action: memory.action,
+    outcome: memory.outcome,
+    reflection: memory.reflection,
+    learned_skills: memory.learnedSkills,
+    importance: memory.importance,
+    related_memories: memory.relatedMemories,
+    metadata: memory.metadata
+  }),
+  fromRow: row => ({
+    id: row.id,
+    userId: row.user_id,
+    type: row.type,
+    context: row.context,
+    action: row.action,
+    outcome: row.outcome,
+    reflection: row.reflection,
+    learnedSkills: row.learned_skills || [],
+    timestamp: new Date(row.created_at),
+    importance: row.importance,
+    relatedMemories: row.related_memories || [],
+    metadata: row.metadata || {}
+  }),
+  defaults: { learned_skills: [], related_memories: [], metadata: {} },
+  filterColumns: { importance: 'importance' },
+  orderBy: ['importance', 'created_at']
+};
 
 export class ExperientialMemoryStore {
+  constructor(
+    private repository: MemoryRepository<ExperientialMemory> = createMemoryRepository(EXPERIENTIAL_MEMORY_TABLE)
+  ) {}
+
   /**
    * Store a new experiential memory
    */
   async store(memory: Omit<ExperientialMemory, 'id' | 'timestamp'>): Promise<ExperientialMemory> {
-    if (!supabase) {
-      console.warn('Supabase not configured, skipping experiential memory storage');
-      return { ...memory, id: 'mock-id', timestamp: new Date() } as ExperientialMemory;
-    }
-
-    const { data, error } = await supabase
-      .from('experiential_memory')
-      .insert([{
-        user_id: memory.userId,
-        type: memory.type,
-        context: memory.context,
-        action: memory.action,
-        outcome: memory.outcome,
-        reflection: memory.reflection,
-        learned_skills: memory.learnedSkills,
-        importance: memory.importance,
-        related_memories: memory.relatedMemories || [],
-        metadata: memory.metadata || {}
-      }])
-      .select()
-      .single();
-
-    if (error) {
+    try {
+      return await this.repository.insert(memory);
+    } catch (error: any) {
       console.error('Error storing experiential memory:', error);
       throw new Error(`Failed to store experience: ${error.message}`);
     }
-
-    return this.mapFromDb(data);
   }
 
   /**
-   * Retrieve experiential memories by query
+   * Get one memory by id (null if it doesn't exist)
    */
-  async retrieve(query: MemoryQuery): Promise<ExperientialMemory[]> {
-    if (!supabase) {
-      console.warn('Supabase not configured, returning empty experiences');
-      return [];
+  async get(id: string): Promise<ExperientialMemory | null> {
+    try {
+      return await this.repository.get(id);
+    } catch (error: any) {
+      console.error('Error getting experience:', error);
+      throw new Error(`Failed to get experience: ${error.message}`);
     }
+  }
 
-    let q = supabase
-      .from('experiential_memory')
-      .select('*')
-      .eq('user_id', query.userId);
-
-    // Apply filters
-    if (query.type) {
-      q = q.eq('type', query.type);
-    }
-
-    if (query.minImportance !== undefined) {
-      q = q.gte('importance', query.minImportance);
-    }
-
-    if (query.timeRange) {
-      q = q.gte('created_at', query.timeRange.start.toISOString())
-        .lte('created_at', query.timeRange.end.toISOString());
-    }
-
-    // Pagination
-    const limit = query.limit || 50;
-    const offset = query.offset || 0;
-    q = q.range(offset, offset + limit - 1);
-
-    // Order by importance then timestamp
-    q = q.order('importance', { ascending: false })
-      .order('created_at', { ascending: false });
-
-    const { data, error } = await q;
-
-    if (error) {
+  /**
+   * Retrieve experiential memories by query (by importance, then newest first)
+   */
+  async retrieve(query: MemoryQuery): Promise<ExperientialMemory[]> {
+    try {
+      return await this.repository.query(query);
+    } catch (error: any) {
       console.error('Error retrieving experiences:', error);
       throw new Error(`Failed to retrieve experiences: ${error.message}`);
     }
-
-    return (data || []).map(d => this.mapFromDb(d));
   }
 
   /**
@@ -130,48 +123,64 @@ export class ExperientialMemoryStore {
    * Used during consolidation to adjust which memories to retain
    */
   async updateImportance(id: string, importance: number): Promise<void> {
-    if (!supabase) {
-      console.warn('Supabase not configured, skipping importance update');
-      return;
+    try {
+      await this.repository.update(id, { importance });
+    } catch (error: any) {
+      console.error('Error updating importance:', error);
+      throw new Error(`Failed to update importance: ${error.message}`);
     }
+  }
 
-    const { error } = await supabase
-      .from('experiential_memory')
-      .update({ importance })
-      .eq('id', id);
+  /**
+   * Update an existing memory in place
+   */
+  async update(
+    id: string,
+    updates: Partial<Omit<ExperientialMemory, 'id' | 'userId' | 'timestamp'>>
+  ): Promise<ExperientialMemory> {
+    let updated: ExperientialMemory | null;
+    try {
+      updated = await this.repository.update(id, updates);
+    } catch (error: any) {
+      console.error('Error updating experience:', error);
+      throw new Error(`Failed to update experience: ${error.message}`);
+    }
 
-    if (error) {
-      console.error('Error updating importance:', error);
-      throw new Error(`Failed to update importance: ${error.message}`);
+    if (!updated) {
+      throw new Error(`Failed to update experience: ${id} not found`);
     }
+    return updated;
   }
 
   /**
-   * Prune low-importance old memories (selective forgetting)
+   * Delete a memory
    */
-  async pruneOldMemories(userId: string, threshold: number = 0.3, maxAgeDays: number = 30): Promise<number> {
-    if (!supabase) {
-      console.warn('Supabase not configured, skipping memory pruning');
-      return 0;
+  async delete(id: string): Promise<void> {
+    try {
+      await this.repository.delete([id]);
+    } catch (error: any) {
+      console.error('Error deleting experience:', error);
+      throw new Error(`Failed to delete experience: ${error.message}`);
     }
+  }
 
+  /**
+   * Prune low-importance old memories (selective forgetting)
+   */
+  async pruneOldMemories(userId: string, threshold: number = 0.3, maxAgeDays: number = 30): Promise<number> {
     const cutoffDate = new Date();
     cutoffDate.setDate(cutoffDate.getDate() - maxAgeDays);
 
-    const { data, error } = await supabase
-      .from('experiential_memory')
-      .delete()
-      .eq('user_id', userId)
-      .lt('importance', threshold)
-      .lt('created_at', cutoffDate.toISOString())
-      .select('id');
-
-    if (error) {
+    let deletedCount: number;
+    try {
+      const stale = (await this.repository.list(userId))
+        .filter(memory => memory.importance < threshold && memory.timestamp < cutoffDate);
+      deletedCount = await this.repository.delete(stale.map(memory => memory.id));
+    } catch (error: any) {
       console.error('Error pruning memories:', error);
       throw new Error(`Failed to prune memories: ${error.message}`);
     }
 
-    const deletedCount = data?.length || 0;
     console.log(`Pruned ${deletedCount} low-importance old memories`);
     return deletedCount;
   }
@@ -180,26 +189,17 @@ export class ExperientialMemoryStore {
    * Get all unique skills learned
    */
   async getLearnedSkills(userId: string): Promise<string[]> {
-    if (!supabase) {
-      console.warn('Supabase not configured, returning empty skills');
-      return [];
-    }
-
-    const { data, error } = await supabase
-      .from('experiential_memory')
-      .select('learned_skills')
-      .eq('user_id', userId);
-
-    if (error || !data) {
+    let memories: ExperientialMemory[];
+    try {
+      memories = await this.repository.list(userId);
+    } catch (error) {
       console.error('Error getting learned skills:', error);
       return [];
     }
 
     const allSkills = new Set<string>();
-    for (const row of data) {
-      if (row.learned_skills) {
-        row.learned_skills.forEach((skill: string) => allSkills.add(skill));
-      }
+    for (const memory of memories) {
+      memory.learnedSkills.forEach(skill => allSkills.add(skill));
     }
 
     return Array.from(allSkills);
@@ -215,22 +215,10 @@ export class ExperientialMemoryStore {
     successRate: number;
     uniqueSkills: number;
   }> {
-    if (!supabase) {
-      return {
-        totalCount: 0,
-        byType: {},
-        avgImportance: 0,
-        successRate: 0,
-        uniqueSkills: 0
-      };
-    }
-
-    const { data, error } = await supabase
-      .from('experiential_memory')
-      .select('type, importance, learned_skills')
-      .eq('user_id', userId);
-
-    if (error || !data) {
+    let memories: ExperientialMemory[];
+    try {
+      memories = await this.repository.list(userId);
+    } catch (error) {
       console.error('Error getting stats:', error);
       return {
         totalCount: 0,
@@ -245,13 +233,10 @@ export class ExperientialMemoryStore {
     let totalImportance = 0;
     const skills = new Set<string>();
 
-    for (const row of data) {
-      byType[row.type] = (byType[row.type] || 0) + 1;
-      totalImportance += row.importance || 0;
-
-      if (row.learned_skills) {
-        row.learned_skills.forEach((skill: string) => skills.add(skill));
-      }
+    for (const memory of memories) {
+      byType[memory.type] = (byType[memory.type] || 0) + 1;
+      totalImportance += memory.importance || 0;
+      memory.learnedSkills.forEach(skill => skills.add(skill));
     }
 
     const successCount = byType['success'] || 0;
@@ -260,33 +245,13 @@ export class ExperientialMemoryStore {
     const successRate = totalAttempts > 0 ? successCount / totalAttempts : 0;
 
     return {
-      totalCount: data.length,
+      totalCount: memories.length,
       byType,
-      avgImportance: data.length > 0 ? totalImportance / data.length : 0,
+      avgImportance: memories.length > 0 ? totalImportance / memories.length : 0,
       successRate,
       uniqueSkills: skills.size
     };
   }
-
-  /**
-   * Map database row to ExperientialMemory type
-   */
-  private mapFromDb(row: any): ExperientialMemory {
-    return {
-      id: row.id,
-      userId: row.user_id,
-      type: row.type,
-      context: row.context,
-      action: row.action,
-      outcome: row.outcome,
-      reflection: row.reflection,
-      learnedSkills: row.learned_skills || [],
-      timestamp: new Date(row.created_at),
-      importance: row.importance,
-      relatedMemories: row.related_memories || [],
-      metadata: row.metadata || {}
-    };
-  }
 }
 
 // Singleton instance
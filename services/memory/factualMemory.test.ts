@@ -0,0 +1,70 @@
+/**
+ * Factual Memory Versions
+ *
+ * Deleting one version of a fact keeps the rest of its history linked,
+ * with exactly one current version.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { FACTUAL_MEMORY_TABLE, FactualMemoryStore } from './factualMemory';
+import { LocalMemoryRepository } from './repository';
+import { FactualMemory } from './types';
+
+describe('FactualMemoryStore.delete', () => {
+  let store: FactualMemoryStore;
+  let v1: FactualMemory;
+  let v2: FactualMemory;
+  let v3: FactualMemory;
+
+  beforeEach(async () => {
+    store = new FactualMemoryStore(new LocalMemoryRepository(FACTUAL_MEMORY_TABLE));
+    v1 = await store.store(fact('The team tracks work in Jira', 0.8));
+    v2 = await store.supersede(v1.id, fact('The team tracks work in Linear', 0.8));
+    v3 = await store.supersede(v2.id, fact('The team tracks work in GitHub Issues', 0.8));
+  });
+
+  function fact(content: string, confidence: number): Omit<FactualMemory, 'id' | 'timestamp'> {
+    return { userId: 'u1', type: 'fact', content, source: 'test', confidence, tags: ['issue-tracker'] };
+  }
+
+  async function current(): Promise<string[]> {
+    return (await store.retrieve({ userId: 'u1' })).map(memory => memory.content);
+  }
+
+  it('makes the previous version current again when the current one is deleted', async () => {
+    await store.delete(v3.id);
+
+    expect(await current()).toEqual(['The team tracks work in Linear']);
+
+    const restored = await store.get(v2.id);
+    expect(restored?.supersededBy).toBeUndefined();
+    expect(restored?.supersededAt).toBeUndefined();
+    expect(restored?.confidence).toBeCloseTo(0.8);
+    expect((await store.getHistory(v2.id)).map(memory => memory.id)).toEqual([v1.id, v2.id]);
+  });
+
+  it('links around a deleted middle version', async () => {
+    await store.delete(v2.id);
+
+    expect(await current()).toEqual(['The team tracks work in GitHub Issues']);
+    expect((await store.get(v1.id))?.supersededBy).toBe(v3.id);
+    expect((await store.get(v3.id))?.previousVersionId).toBe(v1.id);
+    expect((await store.getHistory(v3.id)).map(memory => memory.id)).toEqual([v1.id, v3.id]);
+  });
+
+  it('starts the history at the next version when the first one is deleted', async () => {
+    await store.delete(v1.id);
+
+    expect((await store.get(v2.id))?.previousVersionId).toBeUndefined();
+    expect((await store.getHistory(v3.id)).map(memory => memory.id)).toEqual([v2.id, v3.id]);
+  });
+
+  it('leaves unversioned facts alone', async () => {
+    const other = await store.store(fact('Deploys go out on Fridays', 0.6));
+
+    await store.delete(other.id);
+
+    expect(await store.get(other.id)).toBeNull();
+    expect(await current()).toEqual(['The team tracks work in GitHub Issues']);
+  });
+});
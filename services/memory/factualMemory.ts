@@ -2,107 +2,216 @@
  * Factual Memory Storage Service
  *
  * Token-level memory: Explicit facts, rules, preferences
- * Stored in Supabase with semantic search capabilities
+ * Stored in Supabase, or locally when it isn't configured (see ./repository),
+ * with semantic search capabilities
+ *
+ * Embeddings are computed on store (see ./embeddings) and kept in an
+ * in-process vector index, so semantic search also works without pgvector.
+ *
+ * Facts are versioned: with a conflict detector set (see ./conflicts), a
+ * new fact that contradicts current ones supersedes them. Superseded facts keep their row, lose
+ * confidence, link to their replacement, and are left out of queries and
+ * searches unless includeSuperseded is set.
  */
 
 import { supabase } from '../../lib/supabase';
 import { FactualMemory, MemoryQuery, MemorySearchResult } from './types';
+import { MemoryRepository, MemoryTable, createMemoryRepository, definedColumns } from './repository';
+import { embedText, getEmbeddingProvider } from './embeddings';
+import { VectorIndex } from './vectorIndex';
+import { ConflictDetector } from './conflicts';
+
+// Recent memories indexed before searching without the RPC
+const LOCAL_SEARCH_CANDIDATES = 500;
+
+// Closest current facts checked for conflicts with a new one
+const CONFLICT_CANDIDATES = 10;
+const CONFLICT_SIMILARITY = 0.3;
+
+// A superseded fact keeps this share of its confidence
+const SUPERSEDED_CONFIDENCE_FACTOR = 0.5;
+
+export const FACTUAL_MEMORY_TABLE: MemoryTable<FactualMemory> = {
+  name: 'factual_memory',
+  toRow: memory => definedColumns({
+    user_id: memory.userId,
+    type: memory.type,
+    content: memory.content,
+    source: memory.source,
+    confidence: memory.confidence,
+    tags: memory.tags,
+    embedding: memory.embedding,
+    metadata: memory.metadata,
+    version: memory.version,
+    previous_version_id: memory.previousVersionId,
+    superseded_by: memory.supersededBy,
+    superseded_at: memory.supersededAt === null ? null : memory.supersededAt?.toISOString() // null clears it
+  }),
+  fromRow: row => ({
+    id: row.id,
+    userId: row.user_id,
+    type: row.type,
+    content: row.content,
+    source: row.source,
+    confidence: row.confidence,
+    timestamp: new Date(row.created_at),
+    tags: row.tags || [],
+    // pgvector columns come back as '[0.1,0.2,...]' strings
+    embedding: typeof row.embedding === 'string' ? JSON.parse(row.embedding) : row.embedding ?? undefined,
+    metadata: row.metadata || {},
+    version: row.version ?? 1,
+    previousVersionId: row.previous_version_id ?? undefined,
+    supersededBy: row.superseded_by ?? undefined,
+    supersededAt: row.superseded_at ? new Date(row.superseded_at) : undefined
+  }),
+  defaults: { tags: [], metadata: {}, version: 1 },
+  filterColumns: { tags: 'tags', confidence: 'confidence', supersededBy: 'superseded_by' },
+  orderBy: ['created_at'],
+  // Stats don't need embeddings
+  listColumns: 'id, user_id, type, content, source, confidence, tags, metadata, created_at, ' +
+    'version, previous_version_id, superseded_by, superseded_at'
+};
 
 export class FactualMemoryStore {
+  private index = new VectorIndex<FactualMemory>();
+  private conflictDetector: ConflictDetector | null = null; // Off until set
+
+  constructor(private repository: MemoryRepository<FactualMemory> = createMemoryRepository(FACTUAL_MEMORY_TABLE)) {}
+
   /**
-   * Store a new factual memory
+   * Store a new factual memory (embedded first, unless it has an embedding).
+   * Current facts it contradicts are superseded by it, when a conflict
+   * detector is set and detectConflicts isn't false.
    */
-  async store(memory: Omit<FactualMemory, 'id' | 'timestamp'>): Promise<FactualMemory> {
-    if (!supabase) {
-      console.warn('Supabase not configured, skipping memory storage');
-      return { ...memory, id: 'mock-id', timestamp: new Date() } as FactualMemory;
+  async store(
+    memory: Omit<FactualMemory, 'id' | 'timestamp'>,
+    options: { detectConflicts?: boolean } = {}
+  ): Promise<FactualMemory> {
+    memory = await this.withEmbedding(memory);
+
+    let stored: FactualMemory;
+    try {
+      stored = await this.repository.insert(memory);
+    } catch (error: any) {
+      console.error('Error storing factual memory:', error);
+      throw new Error(`Failed to store memory: ${error.message}`);
     }
 
-    const { data, error } = await supabase
-      .from('factual_memory')
-      .insert([{
-        user_id: memory.userId,
-        type: memory.type,
-        content: memory.content,
-        source: memory.source,
-        confidence: memory.confidence,
-        tags: memory.tags,
-        embedding: memory.embedding,
-        metadata: memory.metadata || {}
-      }])
-      .select()
-      .single();
+    await this.indexMemory(stored);
 
-    if (error) {
-      console.error('Error storing factual memory:', error);
-      throw new Error(`Failed to store memory: ${error.message}`);
+    if (!this.conflictDetector || options.detectConflicts === false) {
+      return stored;
+    }
+
+    try {
+      const conflicts = await this.findConflicts(stored);
+      if (conflicts.length > 0) {
+        return await this.supersedeWith(conflicts, stored);
+      }
+    } catch (error) {
+      // The new fact is stored either way; the old ones just stay current
+      console.error('Error checking memory for conflicts:', error);
     }
 
-    return this.mapFromDb(data);
+    return stored;
   }
 
   /**
-   * Retrieve memories by query
+   * Get one memory by id (null if it doesn't exist)
    */
-  async retrieve(query: MemoryQuery): Promise<FactualMemory[]> {
-    if (!supabase) {
-      console.warn('Supabase not configured, returning empty memories');
-      return [];
+  async get(id: string): Promise<FactualMemory | null> {
+    try {
+      return await this.repository.get(id);
+    } catch (error: any) {
+      console.error('Error getting memory:', error);
+      throw new Error(`Failed to get memory: ${error.message}`);
     }
+  }
 
-    let q = supabase
-      .from('factual_memory')
-      .select('*')
-      .eq('user_id', query.userId);
-
-    // Apply filters
-    if (query.type) {
-      q = q.eq('type', query.type);
+  /**
+   * Replace a fact with a new version explicitly (no conflict detection)
+   */
+  async supersede(id: string, replacement: Omit<FactualMemory, 'id' | 'timestamp'>): Promise<FactualMemory> {
+    const existing = await this.repository.get(id);
+    if (!existing) {
+      throw new Error(`Failed to supersede memory: ${id} not found`);
     }
 
-    if (query.tags && query.tags.length > 0) {
-      q = q.contains('tags', query.tags);
-    }
+    const stored = await this.store(replacement, { detectConflicts: false });
+    return this.supersedeWith([existing], stored);
+  }
 
-    if (query.minConfidence !== undefined) {
-      q = q.gte('confidence', query.minConfidence);
+  /**
+   * Every version of a fact, oldest first
+   */
+  async getHistory(id: string): Promise<FactualMemory[]> {
+    const memory = await this.repository.get(id);
+    if (!memory) return [];
+
+    const history = [memory];
+    const seen = new Set([memory.id]); // Guards against a cycle in bad data
+
+    for (let previous = memory.previousVersionId; previous && !seen.has(previous);) {
+      const older = await this.repository.get(previous);
+      if (!older) break;
+      history.unshift(older);
+      seen.add(older.id);
+      previous = older.previousVersionId;
     }
 
-    if (query.timeRange) {
-      q = q.gte('created_at', query.timeRange.start.toISOString())
-        .lte('created_at', query.timeRange.end.toISOString());
+    for (let next = memory.supersededBy; next && !seen.has(next);) {
+      const newer = await this.repository.get(next);
+      if (!newer) break;
+      history.push(newer);
+      seen.add(newer.id);
+      next = newer.supersededBy;
     }
 
-    // Pagination
-    const limit = query.limit || 50;
-    const offset = query.offset || 0;
-    q = q.range(offset, offset + limit - 1);
-
-    // Order by timestamp (newest first)
-    q = q.order('created_at', { ascending: false });
+    return history;
+  }
 
-    const { data, error } = await q;
+  /**
+   * Decide which current facts new ones contradict (null turns detection off, the default)
+   */
+  setConflictDetector(detector: ConflictDetector | null): void {
+    this.conflictDetector = detector;
+    console.log(`Fact conflict detection: ${detector ? detector.name : 'off'}`);
+  }
 
-    if (error) {
+  /**
+   * Retrieve memories by query (newest first; current facts only unless includeSuperseded)
+   */
+  async retrieve(query: MemoryQuery): Promise<FactualMemory[]> {
+    let memories: FactualMemory[];
+    try {
+      memories = await this.repository.query(query);
+    } catch (error: any) {
       console.error('Error retrieving memories:', error);
       throw new Error(`Failed to retrieve memories: ${error.message}`);
     }
 
-    return (data || []).map(d => this.mapFromDb(d));
+    // Keep the local index warm for semantic search
+    await Promise.all(memories.map(memory => this.indexMemory(memory)));
+
+    return memories;
   }
 
   /**
    * Semantic search using vector embeddings
-   * Requires pgvector extension and embeddings to be generated
+   * Uses the pgvector RPC on the Supabase backend, otherwise (or if the
+   * RPC fails) the in-process index
    */
   async semanticSearch(
     userId: string,
     queryEmbedding: number[],
-    limit: number = 10
+    limit: number = 10,
+    matchThreshold: number = getEmbeddingProvider().matchThreshold,
+    includeSuperseded: boolean = false
   ): Promise<MemorySearchResult[]> {
-    if (!supabase) {
-      console.warn('Supabase not configured, returning empty results');
-      return [];
+    if (this.repository.backend !== 'supabase') {
+      // Stored memories from earlier sessions aren't indexed yet
+      await this.retrieve({ userId, limit: LOCAL_SEARCH_CANDIDATES, includeSuperseded });
+      return this.searchIndex(userId, queryEmbedding, limit, matchThreshold, includeSuperseded);
     }
 
     // Use RPC function for vector similarity search
@@ -110,30 +219,23 @@ export class FactualMemoryStore {
       .rpc('search_factual_memories', {
         query_user_id: userId,
         query_embedding: queryEmbedding,
-        match_threshold: 0.7,
-        match_count: limit
+        match_threshold: matchThreshold,
+        match_count: limit,
+        include_superseded: includeSuperseded
       });
 
     if (error) {
-      console.error('Error in semantic search:', error);
-      // Fall back to regular retrieval if vector search fails
-      const memories = await this.retrieve({ userId, limit });
-      return memories.map(m => ({
-        memory: {
-          id: m.id,
-          function: 'factual' as const,
-          data: m
-        },
-        relevanceScore: 0.5,
-        retrievalReason: 'fallback_retrieval'
-      }));
+      console.error('Error in semantic search, falling back to the local index:', error);
+      // Load the user's recent memories into the index, then search it
+      await this.retrieve({ userId, limit: LOCAL_SEARCH_CANDIDATES, includeSuperseded });
+      return this.searchIndex(userId, queryEmbedding, limit, matchThreshold, includeSuperseded);
     }
 
     return (data || []).map((d: any) => ({
       memory: {
         id: d.id,
         function: 'factual' as const,
-        data: this.mapFromDb(d)
+        data: FACTUAL_MEMORY_TABLE.fromRow(d)
       },
       relevanceScore: d.similarity,
       retrievalReason: 'semantic_match'
@@ -141,52 +243,69 @@ export class FactualMemoryStore {
   }
 
   /**
-   * Update an existing memory
+   * Semantic search for a text query (embedded with the current provider)
+   */
+  async searchSimilar(
+    userId: string,
+    query: string,
+    limit: number = 10,
+    includeSuperseded: boolean = false
+  ): Promise<MemorySearchResult[]> {
+    return this.semanticSearch(userId, await embedText(query), limit, undefined, includeSuperseded);
+  }
+
+  /**
+   * Update an existing memory in place (a correction; use supersede to
+   * record that a fact changed)
    */
   async update(id: string, updates: Partial<FactualMemory>): Promise<FactualMemory> {
-    if (!supabase) {
-      console.warn('Supabase not configured, skipping memory update');
-      return { id, ...updates } as FactualMemory;
-    }
+    // Changed text needs a new embedding
+    const reembed = updates.content !== undefined || updates.tags !== undefined;
 
-    const { data, error } = await supabase
-      .from('factual_memory')
-      .update({
+    let updated: FactualMemory | null;
+    try {
+      updated = await this.repository.update(id, {
         content: updates.content,
         confidence: updates.confidence,
         tags: updates.tags,
         metadata: updates.metadata
-      })
-      .eq('id', id)
-      .select()
-      .single();
+      });
 
-    if (error) {
+      if (updated && reembed) {
+        updated = await this.withEmbedding({ ...updated, embedding: undefined });
+        await this.repository.update(id, { embedding: updated.embedding, metadata: updated.metadata });
+      }
+    } catch (error: any) {
       console.error('Error updating memory:', error);
       throw new Error(`Failed to update memory: ${error.message}`);
     }
 
-    return this.mapFromDb(data);
+    if (!updated) {
+      throw new Error(`Failed to update memory: ${id} not found`);
+    }
+
+    await this.indexMemory(updated);
+    return updated;
   }
 
   /**
-   * Delete a memory
+   * Delete a memory. Its other versions stay linked: facts it superseded
+   * are superseded by its replacement instead, or become current again if
+   * it was the current version.
    */
   async delete(id: string): Promise<void> {
-    if (!supabase) {
-      console.warn('Supabase not configured, skipping memory deletion');
-      return;
-    }
-
-    const { error } = await supabase
-      .from('factual_memory')
-      .delete()
-      .eq('id', id);
-
-    if (error) {
+    try {
+      const memory = await this.repository.get(id);
+      if (memory) {
+        await this.unlinkVersion(memory);
+      }
+      await this.repository.delete([id]);
+    } catch (error: any) {
       console.error('Error deleting memory:', error);
       throw new Error(`Failed to delete memory: ${error.message}`);
     }
+
+    this.index.remove(id);
   }
 
   /**
@@ -198,21 +317,10 @@ export class FactualMemoryStore {
     avgConfidence: number;
     topTags: Array<{ tag: string; count: number }>;
   }> {
-    if (!supabase) {
-      return {
-        totalCount: 0,
-        byType: {},
-        avgConfidence: 0,
-        topTags: []
-      };
-    }
-
-    const { data, error } = await supabase
-      .from('factual_memory')
-      .select('type, confidence, tags')
-      .eq('user_id', userId);
-
-    if (error || !data) {
+    let memories: FactualMemory[];
+    try {
+      memories = await this.repository.list(userId);
+    } catch (error) {
       console.error('Error getting stats:', error);
       return {
         totalCount: 0,
@@ -226,18 +334,16 @@ export class FactualMemoryStore {
     const tagCounts: Record<string, number> = {};
     let totalConfidence = 0;
 
-    for (const row of data) {
+    for (const memory of memories) {
       // Count by type
-      byType[row.type] = (byType[row.type] || 0) + 1;
+      byType[memory.type] = (byType[memory.type] || 0) + 1;
 
       // Sum confidence
-      totalConfidence += row.confidence || 0;
+      totalConfidence += memory.confidence || 0;
 
       // Count tags
-      if (row.tags) {
-        for (const tag of row.tags) {
-          tagCounts[tag] = (tagCounts[tag] || 0) + 1;
-        }
+      for (const tag of memory.tags) {
+        tagCounts[tag] = (tagCounts[tag] || 0) + 1;
       }
     }
 
@@ -247,30 +353,138 @@ export class FactualMemoryStore {
       .slice(0, 10);
 
     return {
-      totalCount: data.length,
+      totalCount: memories.length,
       byType,
-      avgConfidence: data.length > 0 ? totalConfidence / data.length : 0,
+      avgConfidence: memories.length > 0 ? totalConfidence / memories.length : 0,
       topTags
     };
   }
 
   /**
-   * Map database row to FactualMemory type
+   * Fill in the embedding (content + tags) and record the model that made it
    */
-  private mapFromDb(row: any): FactualMemory {
+  private async withEmbedding<T extends Omit<FactualMemory, 'id' | 'timestamp'>>(memory: T): Promise<T> {
+    if (memory.embedding && memory.embedding.length > 0) {
+      return memory;
+    }
+
+    const provider = getEmbeddingProvider();
     return {
-      id: row.id,
-      userId: row.user_id,
-      type: row.type,
-      content: row.content,
-      source: row.source,
-      confidence: row.confidence,
-      timestamp: new Date(row.created_at),
-      tags: row.tags || [],
-      embedding: row.embedding,
-      metadata: row.metadata || {}
+      ...memory,
+      embedding: await embedText([memory.content, ...memory.tags].join('\n')),
+      metadata: { ...memory.metadata, embeddingModel: provider.model }
     };
   }
+
+  /**
+   * Add a memory to the local vector index, embedding it if needed
+   * (e.g., rows stored before embeddings existed; not written back)
+   */
+  private async indexMemory(memory: FactualMemory): Promise<void> {
+    const embedded = await this.withEmbedding(memory);
+    const model = embedded.metadata?.embeddingModel || getEmbeddingProvider().model;
+    this.index.upsert(embedded.userId, embedded.id, embedded.embedding!, model, embedded);
+  }
+
+  /**
+   * Current facts of the same type that the new fact contradicts
+   */
+  private async findConflicts(fact: FactualMemory): Promise<FactualMemory[]> {
+    const candidates = (await this.semanticSearch(fact.userId, fact.embedding!, CONFLICT_CANDIDATES + 1, CONFLICT_SIMILARITY))
+      .map(result => result.memory.data as FactualMemory)
+      .filter(candidate => candidate.id !== fact.id && candidate.type === fact.type);
+
+    if (!this.conflictDetector || candidates.length === 0) return [];
+
+    const ids = new Set(await this.conflictDetector.findConflicts(fact, candidates.slice(0, CONFLICT_CANDIDATES)));
+    return candidates.filter(candidate => ids.has(candidate.id));
+  }
+
+  /**
+   * Mark the old facts superseded by the new one and link the versions
+   */
+  private async supersedeWith(previous: FactualMemory[], replacement: FactualMemory): Promise<FactualMemory> {
+    const supersededAt = new Date();
+
+    for (const old of previous) {
+      const superseded = await this.repository.update(old.id, {
+        supersededBy: replacement.id,
+        supersededAt,
+        confidence: old.confidence * SUPERSEDED_CONFIDENCE_FACTOR
+      });
+      if (superseded) {
+        await this.indexMemory(superseded);
+      }
+    }
+
+    // The most recent fact replaced is this one's previous version
+    const latest = previous.reduce((a, b) => (b.timestamp > a.timestamp ? b : a));
+    const versioned = await this.repository.update(replacement.id, {
+      version: Math.max(...previous.map(old => old.version ?? 1)) + 1,
+      previousVersionId: latest.id
+    });
+
+    console.log(`Fact ${replacement.id} supersedes ${previous.map(old => old.id).join(', ')}`);
+
+    const current = versioned || replacement;
+    await this.indexMemory(current);
+    return current;
+  }
+
+  /**
+   * Take a fact out of its version chain before it's deleted
+   */
+  private async unlinkVersion(memory: FactualMemory): Promise<void> {
+    const next = memory.supersededBy ? await this.repository.get(memory.supersededBy) : null;
+    const replaced = memory.previousVersionId
+      ? (await this.repository.list(memory.userId)).filter(fact => fact.supersededBy === memory.id)
+      : [];
+
+    for (const older of replaced) {
+      const relinked = await this.repository.update(older.id, next
+        ? { supersededBy: next.id }
+        : {
+            supersededBy: null,
+            supersededAt: null,
+            confidence: Math.min(1, older.confidence / SUPERSEDED_CONFIDENCE_FACTOR)
+          });
+      if (relinked) {
+        await this.indexMemory(relinked);
+      }
+    }
+
+    if (next) {
+      const relinked = await this.repository.update(next.id, { previousVersionId: memory.previousVersionId ?? null });
+      if (relinked) {
+        await this.indexMemory(relinked);
+      }
+    }
+  }
+
+  private searchIndex(
+    userId: string,
+    queryEmbedding: number[],
+    limit: number,
+    matchThreshold: number,
+    includeSuperseded: boolean = false
+  ): MemorySearchResult[] {
+    const hits = this.index.search(userId, queryEmbedding, {
+      limit,
+      threshold: matchThreshold,
+      model: getEmbeddingProvider().model,
+      filter: includeSuperseded ? undefined : item => !item.supersededBy
+    });
+
+    return hits.map(hit => ({
+      memory: {
+        id: hit.id,
+        function: 'factual' as const,
+        data: hit.item
+      },
+      relevanceScore: hit.similarity,
+      retrievalReason: 'semantic_match'
+    }));
+  }
 }
 
 // Singleton instance
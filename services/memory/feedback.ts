@@ -0,0 +1,173 @@
+/**
+ * Memory Feedback
+ *
+ * User corrections from the Memory Explorer, fed back into the scores
+ * retrieval ranks by (confidence for facts, importance for experiences):
+ * - Pin: the user vouches for it; scored 1 (so never pruned) until unpinned
+ * - Edit: facts get a new version that supersedes the old one;
+ *   experiences are corrected in place
+ * - Downvote: lowers the score, and unpins
+ * - Forget: deletes it (a fact's other versions stay linked); for working
+ *   memory, one item of the session
+ *
+ * Each action is recorded in metadata.feedback.
+ */
+
+import { factualMemoryStore } from './factualMemory';
+import { experientialMemoryStore } from './experientialMemory';
+import { workingMemoryManager } from './workingMemory';
+import { ExperientialMemory, FactualMemory, WorkingMemoryEntry } from './types';
+
+export type FeedbackTarget = 'factual' | 'experiential';
+
+export interface MemoryFeedback {
+  pinned?: boolean;
+  scoreBeforePin?: number; // Restored on unpin
+  downvotes?: number;
+  editedAt?: string;
+  updatedAt: string;
+}
+
+export interface MemoryEdit {
+  content: string; // Fact content, or an experience's reflection
+  tags?: string[]; // Fact tags, or an experience's learned skills
+}
+
+// Score taken off per downvote
+const DOWNVOTE_PENALTY = 0.2;
+
+export class MemoryFeedbackService {
+  /**
+   * Pin or unpin a memory
+   */
+  async pin(target: FeedbackTarget, id: string, pinned: boolean = true): Promise<FactualMemory | ExperientialMemory> {
+    const memory = await this.require(target, id);
+    const feedback = feedbackOf(memory);
+    const current = score(target, memory);
+
+    if (pinned === !!feedback.pinned) {
+      return memory;
+    }
+
+    const next: MemoryFeedback = pinned
+      ? { ...feedback, pinned: true, scoreBeforePin: current, updatedAt: now() }
+      : { ...feedback, pinned: false, scoreBeforePin: undefined, updatedAt: now() };
+
+    return this.save(target, memory, pinned ? 1 : feedback.scoreBeforePin ?? current, next);
+  }
+
+  /**
+   * Lower a memory's score
+   */
+  async downvote(target: FeedbackTarget, id: string): Promise<FactualMemory | ExperientialMemory> {
+    const memory = await this.require(target, id);
+    const feedback = feedbackOf(memory);
+
+    // A pinned memory drops from where it was before the pin
+    const base = feedback.pinned ? feedback.scoreBeforePin ?? score(target, memory) : score(target, memory);
+
+    return this.save(target, memory, Math.max(0, base - DOWNVOTE_PENALTY), {
+      ...feedback,
+      pinned: false,
+      scoreBeforePin: undefined,
+      downvotes: (feedback.downvotes || 0) + 1,
+      updatedAt: now()
+    });
+  }
+
+  /**
+   * Correct a memory. A user-edited fact is a new version at full confidence.
+   */
+  async edit(target: FeedbackTarget, id: string, edit: MemoryEdit): Promise<FactualMemory | ExperientialMemory> {
+    const memory = await this.require(target, id);
+    const feedback: MemoryFeedback = { ...feedbackOf(memory), editedAt: now(), updatedAt: now() };
+
+    if (target === 'experiential') {
+      const experience = memory as ExperientialMemory;
+      return experientialMemoryStore.update(id, {
+        reflection: edit.content,
+        learnedSkills: edit.tags ?? experience.learnedSkills,
+        metadata: { ...experience.metadata, feedback }
+      });
+    }
+
+    const fact = memory as FactualMemory;
+    return factualMemoryStore.supersede(id, {
+      userId: fact.userId,
+      type: fact.type,
+      content: edit.content,
+      source: 'user_edit',
+      confidence: 1,
+      tags: edit.tags ?? fact.tags,
+      metadata: { ...fact.metadata, feedback } // Keeps the run provenance
+    });
+  }
+
+  /**
+   * Delete a memory
+   */
+  async forget(target: FeedbackTarget, id: string): Promise<void> {
+    if (target === 'factual') {
+      await factualMemoryStore.delete(id);
+    } else {
+      await experientialMemoryStore.delete(id);
+    }
+    console.log(`Forgot ${target} memory ${id}`);
+  }
+
+  /**
+   * Forget one item of a session's working memory; the rest of the session stays
+   */
+  async forgetWorkingEntry(sessionId: string, entry: WorkingMemoryEntry): Promise<void> {
+    if (!await workingMemoryManager.removeEntry(sessionId, entry)) {
+      throw new Error(`Working memory entry not found in session ${sessionId}`);
+    }
+    console.log(`Forgot ${entry.section} entry in session ${sessionId}`);
+  }
+
+  private async require(target: FeedbackTarget, id: string): Promise<FactualMemory | ExperientialMemory> {
+    const memory = target === 'factual'
+      ? await factualMemoryStore.get(id)
+      : await experientialMemoryStore.get(id);
+
+    if (!memory) {
+      throw new Error(`Memory ${id} not found`);
+    }
+    return memory;
+  }
+
+  private save(
+    target: FeedbackTarget,
+    memory: FactualMemory | ExperientialMemory,
+    newScore: number,
+    feedback: MemoryFeedback
+  ): Promise<FactualMemory | ExperientialMemory> {
+    const metadata = { ...memory.metadata, feedback };
+
+    return target === 'factual'
+      ? factualMemoryStore.update(memory.id, { confidence: newScore, metadata })
+      : experientialMemoryStore.update(memory.id, { importance: newScore, metadata });
+  }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+export function feedbackOf(memory: FactualMemory | ExperientialMemory): MemoryFeedback {
+  return memory.metadata?.feedback || { updatedAt: memory.timestamp.toISOString() };
+}
+
+/**
+ * The score feedback adjusts: confidence for facts, importance for experiences
+ */
+function score(target: FeedbackTarget, memory: FactualMemory | ExperientialMemory): number {
+  return target === 'factual' ? (memory as FactualMemory).confidence : (memory as ExperientialMemory).importance;
+}
+
+function now(): string {
+  return new Date().toISOString();
+}
+
+// Singleton instance
+export const memoryFeedbackService = new MemoryFeedbackService();
@@ -3,16 +3,89 @@
  *
  * Extracts and encodes memories from events
  * Implements the "Formation" dynamic from the paper
+ *
+ * Facts come from one of two modes over a run's typed event stream:
+ * - Rule-based (default): successful step outputs become facts
+ * - LLM (config.llmEnabled): the events of a finished run are summarized for
+ *   the runtime LLM, which proposes atomic facts, user preferences and
+ *   lessons, each with a confidence, an importance and the ids of the events
+ *   it is based on (kept in metadata.sourceEventIds)
+ *
+ * Memories below config.minImportance are not stored, nor are LLM
+ * extractions that restate an existing memory.
  */
 
-import { v4 as uuidv4 } from 'uuid';
-import { Event, eventStore } from '../runtime/eventStore';
+import {
+  Event,
+  RunStartedEvent,
+  RunCompletedEvent,
+  RunFailedEvent
+} from '../../types/advanced';
+import { eventStore } from '../runtime/eventStore';
+import { llmService } from '../runtime/llmProvider';
 import { factualMemoryStore } from './factualMemory';
 import { experientialMemoryStore } from './experientialMemory';
-import { workingMemoryManager } from './workingMemory';
-import { FactualMemory, ExperientialMemory } from './types';
+import { cosineSimilarity, embedText } from './embeddings';
+import { FactualMemory, ExperientialMemory, MemoryFormationConfig } from './types';
+
+/**
+ * A memory proposed by the LLM, before deduplication
+ */
+interface ExtractedMemory {
+  kind: 'fact' | 'preference' | 'lesson';
+  content: string;
+  confidence: number; // 0-1: how sure the events make it
+  importance: number; // 0-1: how useful it is for future runs
+  tags: string[];
+  eventIds: string[];
+}
+
+/**
+ * Memories the LLM extraction kept, not yet stored
+ */
+interface LLMExtraction {
+  factual: Array<Omit<FactualMemory, 'id' | 'timestamp'>>;
+  experiential: Array<Omit<ExperientialMemory, 'id' | 'timestamp'>>;
+}
+
+// Embeddings this similar (cosine) count as the same memory
+const DUPLICATE_SIMILARITY = 0.85;
+
+// Existing lessons compared against new ones
+const DUPLICATE_LESSON_CANDIDATES = 200;
+
+// Keep the prompt bounded on long runs
+const MAX_PROMPT_EVENTS = 150;
+const MAX_FIELD_CHARS = 400;
+
+// Events that say nothing worth remembering (snapshots are also large)
+const SKIPPED_EVENT_TYPES = new Set<Event['type']>([
+  'snapshot.created',
+  'memory.accessed',
+  'policy.evaluated',
+  'step.retrying'
+]);
+
+const TERMINAL_EVENT_TYPES = new Set<Event['type']>(['run.completed', 'run.failed', 'run.cancelled']);
+
+const EXTRACTION_PROMPT =
+  'You extract long-term memories from the event log of a finished agent run. ' +
+  'Respond with JSON only: {"memories": [{"kind": "fact" | "preference" | "lesson", ' +
+  '"content": "<one self-contained sentence>", "confidence": <0-1>, "importance": <0-1>, ' +
+  '"tags": ["<keyword>"], "event_ids": ["<ids of the events it is based on>"]}]}. ' +
+  'Facts are atomic statements about the user\'s domain or tools; preferences are what the user ' +
+  'wants and how; lessons are what to repeat or do differently next time. ' +
+  'Only include what would help future runs, and nothing the events don\'t support. ' +
+  'Return {"memories": []} if there is nothing worth remembering.';
 
 export class MemoryFormationEngine {
+  private config: MemoryFormationConfig = {
+    autoExtract: false,
+    extractionInterval: 60 * 60 * 1000, // 1 hour in ms
+    minImportance: 0.3,
+    llmEnabled: false
+  };
+
   /**
    * Extract memories from a completed run
    */
@@ -28,11 +101,31 @@ export class MemoryFormationEngine {
       return { factual: [], experiential: [] };
     }
 
-    // Extract factual memories
-    const factualMemories = await this.extractFactualMemories(events, userId, runId);
+    let factualMemories: FactualMemory[] = [];
+    let lessons: ExperientialMemory[] = [];
+
+    const finished = events.some(event => TERMINAL_EVENT_TYPES.has(event.type));
+    if (this.config.llmEnabled && finished) {
+      // Nothing is stored until extraction has succeeded, so falling back
+      // to rules can't leave a second set of memories for the run
+      let extraction: LLMExtraction | null = null;
+      try {
+        extraction = await this.extractWithLLM(events, userId, runId);
+      } catch (error) {
+        console.error(`LLM extraction failed for run ${runId}, using rules instead:`, error);
+        factualMemories = await this.extractFactualMemories(events, userId, runId);
+      }
+
+      if (extraction) {
+        ({ factual: factualMemories, experiential: lessons } = await this.storeExtraction(extraction));
+      }
+    } else {
+      // Extract factual memories
+      factualMemories = await this.extractFactualMemories(events, userId, runId);
+    }
 
     // Synthesize experiential memories
-    const experientialMemories = await this.synthesizeExperiences(events, userId, runId);
+    const experientialMemories = [...await this.synthesizeExperiences(events, userId, runId), ...lessons];
 
     console.log(`Extracted ${factualMemories.length} factual + ${experientialMemories.length} experiential memories from run ${runId}`);
 
@@ -44,7 +137,7 @@ export class MemoryFormationEngine {
 
   /**
    * Extract factual memories from events
-   * Simple rule-based extraction (can be enhanced with LLM later)
+   * Simple rule-based extraction (see extractWithLLM for the LLM mode)
    */
   private async extractFactualMemories(
     events: Event[],
@@ -54,48 +147,158 @@ export class MemoryFormationEngine {
     const memories: FactualMemory[] = [];
 
     for (const event of events) {
-      // Extract facts from specific event types
-      if (event.type === 'step.completed' && event.data?.output) {
-        // Store successful step outputs as facts
+      // Store successful step outputs as facts
+      if (event.type === 'step.completed' && !isEmpty(event.output)) {
         const memory: Omit<FactualMemory, 'id' | 'timestamp'> = {
           userId,
           type: 'fact',
-          content: `Step ${event.data.step_id}: ${event.data.output}`,
+          content: `Step ${event.step_id}: ${truncate(event.output)}`,
           source: `run:${source}`,
           confidence: 0.8,
-          tags: ['step_output', event.data.step_id],
+          tags: ['step_output', event.step_id],
           metadata: {
             runId: source,
-            stepId: event.data.step_id,
-            eventType: event.type
+            stepId: event.step_id,
+            eventType: event.type,
+            sourceEventIds: [event.id]
           }
         };
 
-        const stored = await factualMemoryStore.store(memory);
+        // Outputs of different runs don't replace each other
+        const stored = await factualMemoryStore.store(memory, { detectConflicts: false });
         memories.push(stored);
       }
+    }
 
-      // Extract user preferences from user input events
-      if (event.type === 'user.input' && event.data?.preference) {
-        const memory: Omit<FactualMemory, 'id' | 'timestamp'> = {
-          userId,
-          type: 'preference',
-          content: event.data.preference,
-          source: 'user_input',
-          confidence: 0.9,
-          tags: ['user_preference'],
-          metadata: {
-            runId: source,
-            eventType: event.type
-          }
-        };
+    return memories;
+  }
 
-        const stored = await factualMemoryStore.store(memory);
-        memories.push(stored);
+  /**
+   * Ask the LLM for facts, preferences and lessons in a finished run's events,
+   * and keep the ones that are important enough and not already known
+   * (storeExtraction stores them)
+   */
+  private async extractWithLLM(
+    events: Event[],
+    userId: string,
+    runId: string
+  ): Promise<LLMExtraction> {
+    const model = llmService.resolveModel();
+    const { text } = await llmService.complete({
+      model,
+      temperature: 0,
+      max_tokens: 1500,
+      messages: [
+        { role: 'system', content: EXTRACTION_PROMPT },
+        { role: 'user', content: describeRun(events, runId) }
+      ]
+    });
+
+    const extracted = parseExtraction(text, events)
+      .filter(memory => memory.importance >= this.config.minImportance);
+
+    const extraction: LLMExtraction = { factual: [], experiential: [] };
+    const accepted: number[][] = []; // Embeddings of this batch, so it doesn't repeat itself
+    const existingLessons = await this.embeddedLessons(userId, extracted);
+    let duplicates = 0;
+
+    const startEvent = events.find((e): e is RunStartedEvent => e.type === 'run.started');
+    const outcome = describeOutcome(events);
+
+    for (const memory of extracted) {
+      const embedding = await embedText(memory.content);
+      const known = memory.kind === 'lesson'
+        ? existingLessons.some(existing => cosineSimilarity(existing, embedding) >= DUPLICATE_SIMILARITY)
+        : await this.isKnownFact(userId, embedding);
+
+      if (known || accepted.some(other => cosineSimilarity(other, embedding) >= DUPLICATE_SIMILARITY)) {
+        duplicates++;
+        continue;
+      }
+      accepted.push(embedding);
+
+      const provenance = {
+        runId,
+        sourceEventIds: memory.eventIds,
+        extractedBy: 'llm',
+        model
+      };
+
+      if (memory.kind === 'lesson') {
+        extraction.experiential.push({
+          userId,
+          type: 'lesson',
+          context: `Run with intent: ${startEvent?.plan.intent?.raw || 'unknown'}`,
+          action: `Executed workflow with ${events.length} events`,
+          outcome,
+          reflection: memory.content,
+          learnedSkills: [],
+          importance: memory.importance,
+          relatedMemories: [],
+          metadata: { ...provenance, confidence: memory.confidence, tags: memory.tags }
+        });
+      } else {
+        extraction.factual.push({
+          userId,
+          type: memory.kind,
+          content: memory.content,
+          source: `run:${runId}`,
+          confidence: memory.confidence,
+          tags: memory.tags,
+          metadata: { ...provenance, importance: memory.importance }
+        });
       }
     }
 
-    return memories;
+    if (duplicates > 0) {
+      console.log(`Skipped ${duplicates} extracted memories already known for user ${userId}`);
+    }
+
+    return extraction;
+  }
+
+  /**
+   * Store what extractWithLLM kept
+   */
+  private async storeExtraction(extraction: LLMExtraction): Promise<{
+    factual: FactualMemory[];
+    experiential: ExperientialMemory[];
+  }> {
+    const factual: FactualMemory[] = [];
+    for (const memory of extraction.factual) {
+      factual.push(await factualMemoryStore.store(memory));
+    }
+
+    const experiential: ExperientialMemory[] = [];
+    for (const memory of extraction.experiential) {
+      experiential.push(await experientialMemoryStore.store(memory));
+    }
+
+    return { factual, experiential };
+  }
+
+  /**
+   * Whether a fact like this one is already stored
+   */
+  private async isKnownFact(userId: string, embedding: number[]): Promise<boolean> {
+    const matches = await factualMemoryStore.semanticSearch(userId, embedding, 1, DUPLICATE_SIMILARITY);
+    return matches.length > 0;
+  }
+
+  /**
+   * Embeddings of the user's recent lessons (only loaded if there are lessons to check)
+   */
+  private async embeddedLessons(userId: string, extracted: ExtractedMemory[]): Promise<number[][]> {
+    if (!extracted.some(memory => memory.kind === 'lesson')) {
+      return [];
+    }
+
+    const lessons = await experientialMemoryStore.retrieve({
+      userId,
+      type: 'lesson',
+      limit: DUPLICATE_LESSON_CANDIDATES
+    });
+    return Promise.all(lessons.map(lesson => embedText(lesson.reflection)));
   }
 
   /**
@@ -110,23 +313,25 @@ export class MemoryFormationEngine {
     const memories: ExperientialMemory[] = [];
 
     // Check if run was successful
-    const startEvent = events.find(e => e.type === 'run.started');
-    const completeEvent = events.find(e => e.type === 'run.completed');
-    const failEvent = events.find(e => e.type === 'run.failed');
+    const startEvent = events.find((e): e is RunStartedEvent => e.type === 'run.started');
+    const completeEvent = events.find((e): e is RunCompletedEvent => e.type === 'run.completed');
+    const failEvent = events.find((e): e is RunFailedEvent => e.type === 'run.failed');
 
     if (!startEvent) {
       return memories;
     }
 
+    const intent = startEvent.plan.intent?.raw || 'unknown';
+
     // Record run outcome as experience
     if (completeEvent) {
       // Success experience
       const memory: Omit<ExperientialMemory, 'id' | 'timestamp'> = {
         userId,
         type: 'success',
-        context: `Run with intent: ${startEvent.data?.intent || 'unknown'}`,
+        context: `Run with intent: ${intent}`,
         action: `Executed workflow with ${events.length} events`,
-        outcome: completeEvent.data?.result || 'Completed successfully',
+        outcome: describeOutcome(events),
         reflection: this.generateReflection(events, true),
         learnedSkills: this.extractSkills(events),
         importance: this.calculateImportance(events, true),
@@ -134,20 +339,22 @@ export class MemoryFormationEngine {
         metadata: {
           runId: source,
           eventCount: events.length,
-          duration: completeEvent.timestamp.getTime() - startEvent.timestamp.getTime()
+          duration: completeEvent.duration,
+          sourceEventIds: [startEvent.id, completeEvent.id]
         }
       };
 
-      const stored = await experientialMemoryStore.store(memory);
-      memories.push(stored);
+      if (memory.importance >= this.config.minImportance) {
+        memories.push(await experientialMemoryStore.store(memory));
+      }
     } else if (failEvent) {
       // Failure experience
       const memory: Omit<ExperientialMemory, 'id' | 'timestamp'> = {
         userId,
         type: 'failure',
-        context: `Run with intent: ${startEvent.data?.intent || 'unknown'}`,
+        context: `Run with intent: ${intent}`,
         action: `Attempted workflow execution`,
-        outcome: failEvent.data?.error || 'Failed with error',
+        outcome: describeOutcome(events),
         reflection: this.generateReflection(events, false),
         learnedSkills: [],
         importance: this.calculateImportance(events, false),
@@ -155,12 +362,14 @@ export class MemoryFormationEngine {
         metadata: {
           runId: source,
           eventCount: events.length,
-          error: failEvent.data?.error
+          error: failEvent.error.message,
+          sourceEventIds: [startEvent.id, failEvent.id]
         }
       };
 
-      const stored = await experientialMemoryStore.store(memory);
-      memories.push(stored);
+      if (memory.importance >= this.config.minImportance) {
+        memories.push(await experientialMemoryStore.store(memory));
+      }
     }
 
     return memories;
@@ -176,8 +385,8 @@ export class MemoryFormationEngine {
     if (success) {
       return `Successfully completed workflow with ${stepCount} steps. The sequential approach worked well. Consider similar patterns for future runs.`;
     } else {
-      const errorEvent = events.find(e => e.type === 'run.failed');
-      const errorMsg = errorEvent?.data?.error || 'Unknown error';
+      const errorEvent = events.find((e): e is RunFailedEvent => e.type === 'run.failed');
+      const errorMsg = errorEvent?.error.message || 'Unknown error';
       return `Workflow failed after ${stepCount} steps. Error: ${errorMsg}. Need to improve error handling and validation.`;
     }
   }
@@ -195,7 +404,7 @@ export class MemoryFormationEngine {
       skills.push('complex_workflow_execution');
     }
 
-    if (events.some(e => e.type === 'validation.passed')) {
+    if (events.some(e => e.type === 'verification.completed')) {
       skills.push('validation_implementation');
     }
 
@@ -285,7 +494,129 @@ export class MemoryFormationEngine {
 
     return await factualMemoryStore.store(memory);
   }
+
+  /**
+   * Update formation configuration
+   */
+  configure(config: Partial<MemoryFormationConfig>): void {
+    this.config = {
+      ...this.config,
+      ...config
+    };
+  }
 }
 
 // Singleton instance
 export const memoryFormationEngine = new MemoryFormationEngine();
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * The run as prompt text: its outcome, then one line per event, tagged with its id
+ */
+function describeRun(events: Event[], runId: string): string {
+  const startEvent = events.find((e): e is RunStartedEvent => e.type === 'run.started');
+  const lines = events
+    .filter(event => !SKIPPED_EVENT_TYPES.has(event.type))
+    .slice(-MAX_PROMPT_EVENTS)
+    .map(event => `[${event.id}] ${event.type} ${truncate(eventDetails(event))}`);
+
+  return [
+    `Run ${runId}: ${describeOutcome(events)}`,
+    `Intent: ${startEvent?.plan.intent?.raw || 'unknown'}`,
+    '',
+    'Events:',
+    ...lines
+  ].join('\n');
+}
+
+/**
+ * The fields of an event that say what happened
+ */
+function eventDetails(event: Event): any {
+  switch (event.type) {
+    case 'run.started':
+      return { goal: event.plan.intent?.parsed?.goal, nodes: event.plan.dag.nodes.map(node => `${node.id}:${node.tool || node.type}`) };
+    case 'step.completed':
+      return { step_id: event.step_id, output: event.output };
+    case 'step.failed':
+      return { step_id: event.step_id, error: event.error.message };
+    case 'tool.called':
+      return { tool: event.tool, params: event.params };
+    case 'tool.failed':
+      return { error: event.error.message };
+    case 'run.failed':
+      return { error: event.error.message };
+    default: {
+      const { id, run_id, tenant_id, type, timestamp, schema_version, metadata, ...rest } = event as any;
+      return rest;
+    }
+  }
+}
+
+function describeOutcome(events: Event[]): string {
+  for (const event of events) {
+    switch (event.type) {
+      case 'run.completed':
+        return `Completed in ${event.duration}ms with ${event.artifact_ids.length} artifact(s)`;
+      case 'run.failed':
+        return `Failed: ${event.error.message}`;
+      case 'run.cancelled':
+        return `Cancelled by ${event.cancelled_by}${event.reason ? `: ${event.reason}` : ''}`;
+    }
+  }
+  return 'Still running';
+}
+
+/**
+ * Validate the LLM's JSON; event ids it made up are dropped, and memories
+ * with no real source event are linked to the run's final event
+ */
+function parseExtraction(text: string, events: Event[]): ExtractedMemory[] {
+  const match = text.match(/\{[\s\S]*\}/);
+  const parsed = match ? JSON.parse(match[0]) : null;
+  if (!parsed || !Array.isArray(parsed.memories)) {
+    throw new Error('Extraction returned no memories array');
+  }
+
+  const eventIds = new Set(events.map(event => event.id));
+  const finalEvent = events.find(event => TERMINAL_EVENT_TYPES.has(event.type)) || events[events.length - 1];
+
+  return parsed.memories
+    .filter((memory: any) =>
+      ['fact', 'preference', 'lesson'].includes(memory?.kind) &&
+      typeof memory.content === 'string' && memory.content.trim().length > 0
+    )
+    .map((memory: any): ExtractedMemory => {
+      const sources = (Array.isArray(memory.event_ids) ? memory.event_ids : [])
+        .filter((id: any) => eventIds.has(id));
+
+      return {
+        kind: memory.kind,
+        content: memory.content.trim(),
+        confidence: clamp(memory.confidence),
+        importance: clamp(memory.importance),
+        tags: (Array.isArray(memory.tags) ? memory.tags : [])
+          .filter((tag: any) => typeof tag === 'string')
+          .map((tag: string) => tag.toLowerCase()),
+        eventIds: sources.length > 0 ? sources : [finalEvent.id]
+      };
+    });
+}
+
+function clamp(value: any): number {
+  return typeof value === 'number' && !isNaN(value) ? Math.min(1, Math.max(0, value)) : 0.5;
+}
+
+function isEmpty(value: any): boolean {
+  if (value === undefined || value === null) return true;
+  if (typeof value === 'string') return value.trim().length === 0;
+  return false;
+}
+
+function truncate(value: any): string {
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return text.length > MAX_FIELD_CHARS ? `${text.slice(0, MAX_FIELD_CHARS)}...` : text;
+}
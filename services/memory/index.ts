@@ -9,9 +9,37 @@
 export * from './types';
 
 // Storage Services
-export { factualMemoryStore, FactualMemoryStore } from './factualMemory';
-export { experientialMemoryStore, ExperientialMemoryStore } from './experientialMemory';
+export { factualMemoryStore, FactualMemoryStore, FACTUAL_MEMORY_TABLE } from './factualMemory';
+export { experientialMemoryStore, ExperientialMemoryStore, EXPERIENTIAL_MEMORY_TABLE } from './experientialMemory';
 export { workingMemoryManager, WorkingMemoryManager } from './workingMemory';
+export { memoryFeedbackService, MemoryFeedbackService, feedbackOf } from './feedback';
+export type { FeedbackTarget, MemoryFeedback, MemoryEdit } from './feedback';
+export {
+  SupabaseMemoryRepository,
+  LocalMemoryRepository,
+  createMemoryRepository,
+  getMemoryRepositoryConfig
+} from './repository';
+export type {
+  MemoryRepository,
+  MemoryRepositoryConfig,
+  MemoryRowStorage,
+  MemoryTable,
+  MemoryBackend
+} from './repository';
+
+// Embeddings
+export {
+  HashedBagOfWordsEmbedder,
+  getEmbeddingProvider,
+  setEmbeddingProvider,
+  embedText,
+  cosineSimilarity
+} from './embeddings';
+export type { EmbeddingProvider } from './embeddings';
+export { VectorIndex } from './vectorIndex';
+export { OverlapConflictDetector, LLMConflictDetector, DefaultConflictDetector } from './conflicts';
+export type { ConflictDetector } from './conflicts';
 
 // Dynamics
 export { memoryFormationEngine, MemoryFormationEngine } from './formation';
@@ -25,6 +53,10 @@ import { workingMemoryManager } from './workingMemory';
 import { memoryFormationEngine } from './formation';
 import { memoryConsolidationEngine } from './consolidation';
 import { memoryRetrievalEngine } from './retrieval';
+import { DefaultConflictDetector } from './conflicts';
+
+// Supersede facts that new ones contradict (e.g. Jira -> Linear)
+factualMemoryStore.setConflictDetector(new DefaultConflictDetector());
 
 /**
  * Initialize memory system for a user session
@@ -98,14 +130,15 @@ export async function consolidateMemories(userId: string) {
 export async function retrieveMemories(
   userId: string,
   query: string,
-  contextSessionId?: string
+  contextSessionId?: string,
+  options?: { includeHistory?: boolean } // Also return superseded facts
 ) {
   // Get current working memory context if session provided
   const context = contextSessionId
     ? await workingMemoryManager.get(contextSessionId)
     : undefined;
 
-  const results = await memoryRetrievalEngine.retrieve(userId, query, context);
+  const results = await memoryRetrievalEngine.retrieve(userId, query, context, options);
 
   console.log(`Retrieved ${results.length} relevant memories for query: "${query}"`);
 
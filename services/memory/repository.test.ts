@@ -0,0 +1,385 @@
+/**
+ * Memory Repository Contract
+ *
+ * One suite, run against every backend, so Supabase and local storage
+ * answer the same MemoryQuery the same way. The Supabase repository runs
+ * against a stub client that keeps rows in memory and applies the
+ * PostgREST filters the repository builds.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  LocalMemoryRepository,
+  MemoryRepository,
+  MemoryRow,
+  MemoryRowStorage,
+  MemoryTable,
+  StoredMemory,
+  SupabaseMemoryRepository,
+  createMemoryRepository
+} from './repository';
+import { FACTUAL_MEMORY_TABLE } from './factualMemory';
+import { EXPERIENTIAL_MEMORY_TABLE } from './experientialMemory';
+import { ExperientialMemory, FactualMemory } from './types';
+
+// ============================================================================
+// BACKENDS
+// ============================================================================
+
+interface Backend {
+  name: string;
+  create<T extends StoredMemory>(table: MemoryTable<T>): MemoryRepository<T>;
+}
+
+const BACKENDS: Backend[] = [
+  {
+    name: 'local',
+    create: table => new LocalMemoryRepository(table)
+  },
+  {
+    name: 'supabase (stub client)',
+    create: table => new SupabaseMemoryRepository(table, createStubClient())
+  }
+];
+
+for (const backend of BACKENDS) {
+  describe(`MemoryRepository contract: ${backend.name}`, () => {
+    let facts: MemoryRepository<FactualMemory>;
+    let experiences: MemoryRepository<ExperientialMemory>;
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+      facts = backend.create(FACTUAL_MEMORY_TABLE);
+      experiences = backend.create(EXPERIENTIAL_MEMORY_TABLE);
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    /**
+     * Insert one memory per minute, so created_at order is insertion order
+     */
+    async function insertFacts(memories: Array<Partial<FactualMemory>>): Promise<FactualMemory[]> {
+      const inserted: FactualMemory[] = [];
+      for (const memory of memories) {
+        vi.advanceTimersByTime(60_000);
+        inserted.push(await facts.insert(fact(memory)));
+      }
+      return inserted;
+    }
+
+    it('inserts and gets a memory with defaults applied', async () => {
+      const stored = await facts.insert({
+        userId: 'u1',
+        type: 'fact',
+        content: 'The team tracks work in Linear',
+        source: 'manual',
+        confidence: 0.8
+      } as any);
+
+      expect(stored.id).toBeTruthy();
+      expect(stored.timestamp).toBeInstanceOf(Date);
+      expect(stored.tags).toEqual([]);
+      expect(stored.metadata).toEqual({});
+      expect(stored.version).toBe(1);
+
+      expect(await facts.get(stored.id)).toEqual(stored);
+      expect(await facts.get('missing')).toBeNull();
+    });
+
+    it('only returns the user\'s memories of the requested type', async () => {
+      await insertFacts([
+        { content: 'a' },
+        { content: 'b', type: 'preference' },
+        { content: 'c', userId: 'u2' }
+      ]);
+
+      expect(contents(await facts.query({ userId: 'u1' }))).toEqual(['b', 'a']);
+      expect(contents(await facts.query({ userId: 'u1', type: 'preference' }))).toEqual(['b']);
+      expect(contents(await facts.query({ userId: 'u2' }))).toEqual(['c']);
+    });
+
+    it('requires every queried tag', async () => {
+      await insertFacts([
+        { content: 'a', tags: ['tools'] },
+        { content: 'b', tags: ['tools', 'team'] },
+        { content: 'c', tags: ['team'] }
+      ]);
+
+      expect(contents(await facts.query({ userId: 'u1', tags: ['tools'] }))).toEqual(['b', 'a']);
+      expect(contents(await facts.query({ userId: 'u1', tags: ['tools', 'team'] }))).toEqual(['b']);
+      expect(contents(await facts.query({ userId: 'u1', tags: [] }))).toEqual(['c', 'b', 'a']);
+    });
+
+    it('filters by minimum confidence, inclusive', async () => {
+      await insertFacts([
+        { content: 'low', confidence: 0.2 },
+        { content: 'edge', confidence: 0.5 },
+        { content: 'high', confidence: 0.9 }
+      ]);
+
+      expect(contents(await facts.query({ userId: 'u1', minConfidence: 0.5 }))).toEqual(['high', 'edge']);
+    });
+
+    it('filters by minimum importance and orders by importance, then newest', async () => {
+      for (const [reflection, importance] of [['a', 0.3], ['b', 0.9], ['c', 0.6], ['d', 0.9]] as const) {
+        vi.advanceTimersByTime(60_000);
+        await experiences.insert(experience({ reflection, importance }));
+      }
+
+      const all = await experiences.query({ userId: 'u1' });
+      expect(all.map(e => e.reflection)).toEqual(['d', 'b', 'c', 'a']);
+
+      const important = await experiences.query({ userId: 'u1', minImportance: 0.6 });
+      expect(important.map(e => e.reflection)).toEqual(['d', 'b', 'c']);
+    });
+
+    it('ignores filters on columns the table doesn\'t have', async () => {
+      await experiences.insert(experience({ reflection: 'a', importance: 0.5 }));
+
+      const results = await experiences.query({ userId: 'u1', tags: ['tools'], minConfidence: 0.9 });
+      expect(results.map(e => e.reflection)).toEqual(['a']);
+    });
+
+    it('filters by time range, inclusive at both ends', async () => {
+      const inserted = await insertFacts([{ content: 'a' }, { content: 'b' }, { content: 'c' }, { content: 'd' }]);
+
+      const results = await facts.query({
+        userId: 'u1',
+        timeRange: { start: inserted[1].timestamp, end: inserted[2].timestamp }
+      });
+      expect(contents(results)).toEqual(['c', 'b']);
+    });
+
+    it('paginates newest first with offset and limit, 50 by default', async () => {
+      await insertFacts(Array.from({ length: 55 }, (_, i) => ({ content: `f${i}` })));
+
+      expect(await facts.query({ userId: 'u1' })).toHaveLength(50);
+      expect(contents(await facts.query({ userId: 'u1', limit: 3 }))).toEqual(['f54', 'f53', 'f52']);
+      expect(contents(await facts.query({ userId: 'u1', limit: 3, offset: 3 }))).toEqual(['f51', 'f50', 'f49']);
+      expect(contents(await facts.query({ userId: 'u1', offset: 50 }))).toEqual(['f4', 'f3', 'f2', 'f1', 'f0']);
+    });
+
+    it('leaves superseded facts out unless asked for them', async () => {
+      const [old, current] = await insertFacts([{ content: 'old' }, { content: 'current' }]);
+      await facts.update(old.id, { supersededBy: current.id, supersededAt: new Date() });
+
+      expect(contents(await facts.query({ userId: 'u1' }))).toEqual(['current']);
+      expect(contents(await facts.query({ userId: 'u1', includeSuperseded: true }))).toEqual(['current', 'old']);
+    });
+
+    it('lists all of a user\'s memories in the table order, unpaginated', async () => {
+      await insertFacts([
+        ...Array.from({ length: 55 }, (_, i) => ({ content: `f${i}` })),
+        { content: 'other', userId: 'u2' }
+      ]);
+
+      const listed = await facts.list('u1');
+      expect(listed).toHaveLength(55);
+      expect(listed[0].content).toBe('f54');
+    });
+
+    it('updates only the given fields and keeps id and timestamp', async () => {
+      const [stored] = await insertFacts([{ content: 'a', tags: ['tools'], confidence: 0.5 }]);
+      vi.advanceTimersByTime(60_000);
+
+      const updated = await facts.update(stored.id, { confidence: 0.9 });
+
+      expect(updated).toEqual({ ...stored, confidence: 0.9 });
+      expect(await facts.get(stored.id)).toEqual(updated);
+      expect(await facts.update('missing', { confidence: 0.9 })).toBeNull();
+    });
+
+    it('deletes by id and counts what it removed', async () => {
+      const [a, b, c] = await insertFacts([{ content: 'a' }, { content: 'b' }, { content: 'c' }]);
+
+      expect(await facts.delete([a.id, c.id, 'missing'])).toBe(2);
+      expect(await facts.delete([])).toBe(0);
+      expect(contents(await facts.query({ userId: 'u1' }))).toEqual(['b']);
+      expect(await facts.get(a.id)).toBeNull();
+      expect(await facts.get(b.id)).not.toBeNull();
+    });
+
+    it('returns copies that callers can\'t use to change stored memories', async () => {
+      const [stored] = await insertFacts([{ content: 'a', tags: ['tools'] }]);
+
+      const [result] = await facts.query({ userId: 'u1' });
+      result.tags.push('changed');
+      result.metadata!.changed = true;
+
+      expect(await facts.get(stored.id)).toEqual(stored);
+    });
+  });
+}
+
+// ============================================================================
+// LOCAL PERSISTENCE
+// ============================================================================
+
+describe('LocalMemoryRepository storage', () => {
+  it('reloads what it saved', async () => {
+    let saved: MemoryRow[] = [];
+    const storage: MemoryRowStorage = {
+      load: async () => saved,
+      save: async rows => { saved = JSON.parse(JSON.stringify(rows)); }
+    };
+
+    const first = new LocalMemoryRepository(FACTUAL_MEMORY_TABLE, storage);
+    const stored = await first.insert(fact({ content: 'a' }));
+
+    const second = new LocalMemoryRepository(FACTUAL_MEMORY_TABLE, storage);
+    expect(await second.get(stored.id)).toEqual(stored);
+  });
+});
+
+describe('createMemoryRepository', () => {
+  it('creates the configured backend', () => {
+    expect(createMemoryRepository(FACTUAL_MEMORY_TABLE, { backend: 'local' }).backend).toBe('local');
+    expect(createMemoryRepository(FACTUAL_MEMORY_TABLE, { backend: 'supabase' }).backend).toBe('supabase');
+  });
+
+  it('rejects an unknown backend', () => {
+    expect(() => createMemoryRepository(FACTUAL_MEMORY_TABLE, { backend: 'redis' } as any))
+      .toThrow('Unknown memory backend: redis');
+  });
+});
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function fact(overrides: Partial<FactualMemory>): Omit<FactualMemory, 'id' | 'timestamp'> {
+  return {
+    userId: 'u1',
+    type: 'fact',
+    content: 'fact',
+    source: 'test',
+    confidence: 0.5,
+    tags: [],
+    metadata: {},
+    ...overrides
+  };
+}
+
+function experience(overrides: Partial<ExperientialMemory>): Omit<ExperientialMemory, 'id' | 'timestamp'> {
+  return {
+    userId: 'u1',
+    type: 'lesson',
+    context: 'context',
+    action: 'action',
+    outcome: 'outcome',
+    reflection: 'reflection',
+    learnedSkills: [],
+    importance: 0.5,
+    relatedMemories: [],
+    metadata: {},
+    ...overrides
+  };
+}
+
+function contents(memories: FactualMemory[]): string[] {
+  return memories.map(memory => memory.content);
+}
+
+/**
+ * The slice of the supabase-js query builder the repository uses, over
+ * in-memory tables. Like Postgres: created_at defaults to now, ordering is
+ * applied before the range, and DESC puts NULLs first.
+ */
+function createStubClient(): SupabaseClient {
+  const tables = new Map<string, MemoryRow[]>();
+
+  const from = (name: string) => {
+    if (!tables.has(name)) tables.set(name, []);
+    const rows = tables.get(name)!;
+
+    const filters: Array<(row: MemoryRow) => boolean> = [];
+    const orders: Array<{ column: string; ascending: boolean }> = [];
+    let operation: 'select' | 'insert' | 'update' | 'delete' = 'select';
+    let payload: any;
+    let range: [number, number] | null = null;
+
+    const execute = (): MemoryRow[] => {
+      switch (operation) {
+        case 'insert': {
+          const inserted = (payload as MemoryRow[]).map(row => ({
+            id: crypto.randomUUID(),
+            created_at: new Date().toISOString(),
+            ...row
+          }));
+          rows.push(...inserted);
+          return inserted;
+        }
+        case 'update': {
+          const matched = rows.filter(row => filters.every(f => f(row)));
+          matched.forEach(row => Object.assign(row, payload));
+          return matched;
+        }
+        case 'delete': {
+          const matched = rows.filter(row => filters.every(f => f(row)));
+          tables.set(name, rows.filter(row => !matched.includes(row)));
+          return matched;
+        }
+        default: {
+          const matched = rows.filter(row => filters.every(f => f(row)));
+          matched.sort((a, b) => {
+            for (const { column, ascending } of orders) {
+              const order = compareNullsFirst(a[column], b[column]);
+              if (order !== 0) return ascending ? -order : order;
+            }
+            return 0;
+          });
+          return range ? matched.slice(range[0], range[1] + 1) : matched;
+        }
+      }
+    };
+
+    const result = () => ({ data: JSON.parse(JSON.stringify(execute())), error: null });
+
+    const builder: any = {
+      select: () => builder,
+      insert: (values: MemoryRow[]) => { operation = 'insert'; payload = values; return builder; },
+      update: (values: MemoryRow) => { operation = 'update'; payload = values; return builder; },
+      delete: () => { operation = 'delete'; return builder; },
+      eq: (column: string, value: any) => { filters.push(row => row[column] === value); return builder; },
+      in: (column: string, values: any[]) => { filters.push(row => values.includes(row[column])); return builder; },
+      is: (column: string, value: null) => { filters.push(row => (row[column] ?? null) === value); return builder; },
+      gte: (column: string, value: any) => { filters.push(row => row[column] >= value); return builder; },
+      lte: (column: string, value: any) => { filters.push(row => row[column] <= value); return builder; },
+      contains: (column: string, values: any[]) => {
+        filters.push(row => values.every(value => (row[column] || []).includes(value)));
+        return builder;
+      },
+      order: (column: string, options: { ascending: boolean }) => {
+        orders.push({ column, ascending: options.ascending });
+        return builder;
+      },
+      range: (start: number, end: number) => { range = [start, end]; return builder; },
+      single: async () => {
+        const { data } = result();
+        return data.length === 1
+          ? { data: data[0], error: null }
+          : { data: null, error: { message: `Expected 1 row, got ${data.length}` } };
+      },
+      maybeSingle: async () => ({ data: result().data[0] ?? null, error: null }),
+      then: (resolve: any, reject: any) => Promise.resolve().then(result).then(resolve, reject)
+    };
+
+    return builder;
+  };
+
+  return { from } as unknown as SupabaseClient;
+}
+
+/**
+ * Descending comparison with NULLs first (Postgres DESC)
+ */
+function compareNullsFirst(a: any, b: any): number {
+  if (a === b) return 0;
+  if (a === null || a === undefined) return -1;
+  if (b === null || b === undefined) return 1;
+  return a > b ? -1 : 1;
+}
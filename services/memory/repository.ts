@@ -0,0 +1,486 @@
+/**
+ * Memory Repositories
+ *
+ * Storage for factual and experiential memories behind one interface:
+ * - SupabaseMemoryRepository: the `factual_memory` / `experiential_memory` tables
+ * - LocalMemoryRepository: the same rows held in process and persisted to a
+ *   JSON file per table (Node) or localStorage (browser), so formation,
+ *   consolidation and retrieval work offline, in dev and in CI
+ *
+ * Both backends apply the same MemoryQuery filters (type, tags,
+ * minConfidence, minImportance, timeRange, and current facts only unless
+ * includeSuperseded), the same ordering and the same pagination. Filters
+ * on a column the table doesn't have (e.g. tags on experiential memories)
+ * are ignored by both.
+ *
+ * Supabase is used when it's configured; otherwise the local backend.
+ * MEMORY_STORE_DIR=./aura-memory puts the local files there (Node only).
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '../../lib/supabase';
+import { MemoryQuery } from './types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type MemoryBackend = 'supabase' | 'local';
+
+export interface StoredMemory {
+  id: string;
+  userId: string;
+  timestamp: Date;
+}
+
+export type NewMemory<T extends StoredMemory> = Omit<T, 'id' | 'timestamp'>;
+
+export type MemoryRow = Record<string, any>;
+
+/**
+ * How a memory type maps onto its table
+ */
+export interface MemoryTable<T extends StoredMemory> {
+  name: string;
+  toRow(memory: Partial<NewMemory<T>>): MemoryRow; // Only the fields that are set
+  fromRow(row: MemoryRow): T;
+  defaults: MemoryRow; // Column values for inserts that leave them out
+  filterColumns: { tags?: string; confidence?: string; importance?: string; supersededBy?: string }; // Columns the query filters apply to
+  orderBy: string[]; // Sort columns, each descending
+  listColumns?: string; // Columns `list` selects (default: all)
+}
+
+export interface MemoryRepository<T extends StoredMemory> {
+  readonly backend: MemoryBackend;
+  insert(memory: NewMemory<T>): Promise<T>;
+  get(id: string): Promise<T | null>;
+  query(query: MemoryQuery): Promise<T[]>;
+  list(userId: string): Promise<T[]>; // All of a user's memories, unpaginated
+  update(id: string, changes: Partial<NewMemory<T>>): Promise<T | null>; // null if there is no such memory
+  delete(ids: string[]): Promise<number>;
+}
+
+export type MemoryRepositoryConfig =
+  | { backend: 'supabase' }
+  | { backend: 'local'; dir?: string }; // Without a dir: localStorage in the browser, else in process only
+
+const DEFAULT_LIMIT = 50;
+
+// ============================================================================
+// SUPABASE
+// ============================================================================
+
+export class SupabaseMemoryRepository<T extends StoredMemory> implements MemoryRepository<T> {
+  readonly backend = 'supabase' as const;
+
+  constructor(private table: MemoryTable<T>, private client: SupabaseClient = supabase) {}
+
+  async insert(memory: NewMemory<T>): Promise<T> {
+    const { data, error } = await this.client
+      .from(this.table.name)
+      .insert([{ ...this.table.defaults, ...this.table.toRow(memory) }])
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to insert into ${this.table.name}: ${error.message}`);
+    }
+
+    return this.table.fromRow(data);
+  }
+
+  async get(id: string): Promise<T | null> {
+    const { data, error } = await this.client
+      .from(this.table.name)
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to get from ${this.table.name}: ${error.message}`);
+    }
+
+    return data ? this.table.fromRow(data) : null;
+  }
+
+  async query(query: MemoryQuery): Promise<T[]> {
+    const { tags, confidence, importance, supersededBy } = this.table.filterColumns;
+
+    let q = this.client
+      .from(this.table.name)
+      .select('*')
+      .eq('user_id', query.userId);
+
+    if (query.type) {
+      q = q.eq('type', query.type);
+    }
+
+    if (tags && query.tags && query.tags.length > 0) {
+      q = q.contains(tags, query.tags);
+    }
+
+    if (confidence && query.minConfidence !== undefined) {
+      q = q.gte(confidence, query.minConfidence);
+    }
+
+    if (importance && query.minImportance !== undefined) {
+      q = q.gte(importance, query.minImportance);
+    }
+
+    if (supersededBy && !query.includeSuperseded) {
+      q = q.is(supersededBy, null);
+    }
+
+    if (query.timeRange) {
+      q = q.gte('created_at', query.timeRange.start.toISOString())
+        .lte('created_at', query.timeRange.end.toISOString());
+    }
+
+    const { offset, limit } = pageOf(query);
+    q = q.range(offset, offset + limit - 1);
+
+    for (const column of this.table.orderBy) {
+      q = q.order(column, { ascending: false });
+    }
+
+    const { data, error } = await q;
+
+    if (error) {
+      throw new Error(`Failed to query ${this.table.name}: ${error.message}`);
+    }
+
+    return (data || []).map((row: MemoryRow) => this.table.fromRow(row));
+  }
+
+  async list(userId: string): Promise<T[]> {
+    let q = this.client
+      .from(this.table.name)
+      .select(this.table.listColumns || '*')
+      .eq('user_id', userId);
+
+    for (const column of this.table.orderBy) {
+      q = q.order(column, { ascending: false });
+    }
+
+    const { data, error } = await q;
+
+    if (error) {
+      throw new Error(`Failed to list ${this.table.name}: ${error.message}`);
+    }
+
+    return (data || []).map((row: MemoryRow) => this.table.fromRow(row));
+  }
+
+  async update(id: string, changes: Partial<NewMemory<T>>): Promise<T | null> {
+    const { data, error } = await this.client
+      .from(this.table.name)
+      .update(this.table.toRow(changes))
+      .eq('id', id)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to update ${this.table.name}: ${error.message}`);
+    }
+
+    return data ? this.table.fromRow(data) : null;
+  }
+
+  async delete(ids: string[]): Promise<number> {
+    if (ids.length === 0) return 0;
+
+    const { data, error } = await this.client
+      .from(this.table.name)
+      .delete()
+      .in('id', ids)
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to delete from ${this.table.name}: ${error.message}`);
+    }
+
+    return data?.length || 0;
+  }
+}
+
+// ============================================================================
+// LOCAL
+// ============================================================================
+
+/**
+ * Where the local backend keeps a table's rows between sessions
+ */
+export interface MemoryRowStorage {
+  load(): Promise<MemoryRow[]>;
+  save(rows: MemoryRow[]): Promise<void>;
+}
+
+/**
+ * Rows in the same shape as the Supabase table (snake_case columns,
+ * created_at as an ISO string), filtered and sorted in process
+ */
+export class LocalMemoryRepository<T extends StoredMemory> implements MemoryRepository<T> {
+  readonly backend = 'local' as const;
+  private rows: Map<string, MemoryRow> = new Map(); // Map<id, row>
+  private loading: Promise<void> | null = null;
+  private writeChain: Promise<void> = Promise.resolve();
+
+  constructor(private table: MemoryTable<T>, private storage?: MemoryRowStorage) {}
+
+  async insert(memory: NewMemory<T>): Promise<T> {
+    await this.load();
+
+    const row: MemoryRow = {
+      ...this.table.defaults,
+      ...this.table.toRow(memory),
+      id: uuidv4(),
+      created_at: new Date().toISOString()
+    };
+
+    this.rows.set(row.id, row);
+    await this.save();
+    return this.table.fromRow(clone(row));
+  }
+
+  async get(id: string): Promise<T | null> {
+    await this.load();
+
+    const row = this.rows.get(id);
+    return row ? this.table.fromRow(clone(row)) : null;
+  }
+
+  async query(query: MemoryQuery): Promise<T[]> {
+    await this.load();
+
+    const { offset, limit } = pageOf(query);
+    return this.sorted(Array.from(this.rows.values()).filter(row => this.matches(row, query)))
+      .slice(offset, offset + limit)
+      .map(row => this.table.fromRow(clone(row)));
+  }
+
+  async list(userId: string): Promise<T[]> {
+    await this.load();
+
+    return this.sorted(Array.from(this.rows.values()).filter(row => row.user_id === userId))
+      .map(row => this.table.fromRow(clone(row)));
+  }
+
+  async update(id: string, changes: Partial<NewMemory<T>>): Promise<T | null> {
+    await this.load();
+
+    const existing = this.rows.get(id);
+    if (!existing) return null;
+
+    const row = { ...existing, ...this.table.toRow(changes), id, created_at: existing.created_at };
+    this.rows.set(id, row);
+    await this.save();
+    return this.table.fromRow(clone(row));
+  }
+
+  async delete(ids: string[]): Promise<number> {
+    await this.load();
+
+    const deleted = ids.filter(id => this.rows.delete(id)).length;
+    if (deleted > 0) {
+      await this.save();
+    }
+    return deleted;
+  }
+
+  /**
+   * The same filters the Supabase query applies
+   */
+  private matches(row: MemoryRow, query: MemoryQuery): boolean {
+    const { tags, confidence, importance, supersededBy } = this.table.filterColumns;
+
+    if (row.user_id !== query.userId) return false;
+    if (query.type && row.type !== query.type) return false;
+
+    if (tags && query.tags && query.tags.length > 0) {
+      const rowTags: string[] = row[tags] || [];
+      if (!query.tags.every(tag => rowTags.includes(tag))) return false;
+    }
+
+    if (confidence && query.minConfidence !== undefined && !(row[confidence] >= query.minConfidence)) return false;
+    if (importance && query.minImportance !== undefined && !(row[importance] >= query.minImportance)) return false;
+    if (supersededBy && !query.includeSuperseded && row[supersededBy] != null) return false;
+
+    if (query.timeRange) {
+      const created = Date.parse(row.created_at);
+      if (created < query.timeRange.start.getTime() || created > query.timeRange.end.getTime()) return false;
+    }
+
+    return true;
+  }
+
+  private sorted(rows: MemoryRow[]): MemoryRow[] {
+    return rows.sort((a, b) => {
+      for (const column of this.table.orderBy) {
+        const order = compareDescending(a[column], b[column]);
+        if (order !== 0) return order;
+      }
+      return 0;
+    });
+  }
+
+  /**
+   * Load the stored rows (once)
+   */
+  private load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = (async () => {
+        const rows = this.storage ? await this.storage.load() : [];
+        this.rows = new Map(rows.map(row => [row.id, row]));
+      })();
+    }
+    return this.loading;
+  }
+
+  /**
+   * Write the current rows, serialized so the last change always wins
+   */
+  private save(): Promise<void> {
+    if (!this.storage) return Promise.resolve();
+
+    const storage = this.storage;
+    const next = this.writeChain.then(() => storage.save(Array.from(this.rows.values())));
+    this.writeChain = next.catch(() => undefined);
+    return next;
+  }
+}
+
+/**
+ * One JSON file per table (an array of rows). Rewritten after every change
+ * via a temp file + rename. Node only (`fs` is loaded lazily so the browser
+ * bundle never pulls it in).
+ */
+class JsonFileRowStorage implements MemoryRowStorage {
+  constructor(private dir: string, private file: string) {}
+
+  async load(): Promise<MemoryRow[]> {
+    const fs = await import('node:fs/promises');
+
+    let contents = '';
+    try {
+      contents = await fs.readFile(this.path, 'utf8');
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') throw error;
+    }
+
+    return contents.trim() ? JSON.parse(contents) : [];
+  }
+
+  async save(rows: MemoryRow[]): Promise<void> {
+    const fs = await import('node:fs/promises');
+    const tempPath = `${this.path}.tmp`;
+    await fs.mkdir(this.dir, { recursive: true });
+    await fs.writeFile(tempPath, JSON.stringify(rows), 'utf8');
+    await fs.rename(tempPath, this.path);
+  }
+
+  private get path(): string {
+    return `${this.dir.replace(/\/+$/, '')}/${this.file}`;
+  }
+}
+
+/**
+ * Browser storage under one key per table
+ */
+class LocalStorageRowStorage implements MemoryRowStorage {
+  constructor(private key: string) {}
+
+  async load(): Promise<MemoryRow[]> {
+    try {
+      const stored = localStorage.getItem(this.key);
+      return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.error(`Failed to load ${this.key}:`, error);
+      return [];
+    }
+  }
+
+  async save(rows: MemoryRow[]): Promise<void> {
+    try {
+      localStorage.setItem(this.key, JSON.stringify(rows));
+    } catch (error) {
+      // Quota exceeded or storage disabled; the rows stay in memory for this session
+      console.error(`Failed to save ${this.key}:`, error);
+    }
+  }
+}
+
+// ============================================================================
+// FACTORY
+// ============================================================================
+
+/**
+ * Create the repository for a table from configuration
+ */
+export function createMemoryRepository<T extends StoredMemory>(
+  table: MemoryTable<T>,
+  config: MemoryRepositoryConfig = getMemoryRepositoryConfig()
+): MemoryRepository<T> {
+  switch (config.backend) {
+    case 'supabase':
+      return new SupabaseMemoryRepository(table);
+
+    case 'local':
+      if (config.dir) {
+        return new LocalMemoryRepository(table, new JsonFileRowStorage(config.dir, `${table.name}.json`));
+      }
+      if (typeof localStorage !== 'undefined') {
+        return new LocalMemoryRepository(table, new LocalStorageRowStorage(`aura_${table.name}`));
+      }
+      return new LocalMemoryRepository(table);
+
+    default: {
+      const unknown: never = config;
+      throw new Error(`Unknown memory backend: ${(unknown as MemoryRepositoryConfig).backend}`);
+    }
+  }
+}
+
+/**
+ * Supabase when configured, otherwise local (in MEMORY_STORE_DIR, if set)
+ */
+export function getMemoryRepositoryConfig(): MemoryRepositoryConfig {
+  if (supabase) {
+    return { backend: 'supabase' };
+  }
+
+  const env = typeof process !== 'undefined' ? process.env : undefined;
+  return { backend: 'local', dir: env?.MEMORY_STORE_DIR || undefined };
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Drop unset fields so updates leave those columns alone
+ */
+export function definedColumns(row: MemoryRow): MemoryRow {
+  return Object.fromEntries(Object.entries(row).filter(([, value]) => value !== undefined));
+}
+
+function pageOf(query: MemoryQuery): { offset: number; limit: number } {
+  return { offset: query.offset || 0, limit: query.limit || DEFAULT_LIMIT };
+}
+
+/**
+ * Postgres DESC order: larger first, NULLs first
+ */
+function compareDescending(a: any, b: any): number {
+  if (a === b) return 0;
+  if (a === null || a === undefined) return -1;
+  if (b === null || b === undefined) return 1;
+  return a > b ? -1 : 1;
+}
+
+/**
+ * Callers get their own copy, so mutating a result can't change stored rows
+ */
+function clone(row: MemoryRow): MemoryRow {
+  return JSON.parse(JSON.stringify(row));
+}
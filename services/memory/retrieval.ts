@@ -2,10 +2,11 @@
  * Memory Retrieval Engine
  *
  * Context-aware memory access with:
- * - Semantic search (when embeddings available)
+ * - Semantic search over fact embeddings (pgvector, or the local index)
  * - Temporal decay
  * - Importance weighting
  * - Context filtering
+ * - Current facts only, unless history (superseded facts) is asked for
  */
 
 import { factualMemoryStore } from './factualMemory';
@@ -21,7 +22,7 @@ import {
 
 export class MemoryRetrievalEngine {
   private config: MemoryRetrievalConfig = {
-    semanticSearchEnabled: false, // Enable when embeddings available
+    semanticSearchEnabled: true, // Facts are embedded on store; works offline via the local index
     temporalDecayEnabled: true,
     temporalHalfLife: 7 * 24 * 60 * 60 * 1000, // 7 days in ms
     maxResults: 10,
@@ -34,17 +35,22 @@ export class MemoryRetrievalEngine {
   async retrieve(
     userId: string,
     query: string,
-    context?: WorkingMemory
+    context?: WorkingMemory,
+    options: { includeHistory?: boolean } = {}
   ): Promise<MemorySearchResult[]> {
     const results: MemorySearchResult[] = [];
 
     // Step 1: Get candidate memories
-    const factualCandidates = await this.getFactualCandidates(userId, query);
+    const { candidates: factualCandidates, similarities } = await this.getFactualCandidates(
+      userId,
+      query,
+      options.includeHistory === true
+    );
     const experientialCandidates = await this.getExperientialCandidates(userId, query);
 
     // Step 2: Score each candidate
     for (const fact of factualCandidates) {
-      const score = this.scoreFactualMemory(fact, query, context);
+      const score = this.scoreFactualMemory(fact, query, context, similarities.get(fact.id));
       if (score >= this.config.minRelevanceScore) {
         results.push({
           memory: {
@@ -53,7 +59,7 @@ export class MemoryRetrievalEngine {
             data: fact
           },
           relevanceScore: score,
-          retrievalReason: this.explainScore(score)
+          retrievalReason: fact.supersededBy ? `${this.explainScore(score)} (superseded)` : this.explainScore(score)
         });
       }
     }
@@ -81,29 +87,51 @@ export class MemoryRetrievalEngine {
   }
 
   /**
-   * Get factual memory candidates
+   * Get factual memory candidates: keyword matches plus, when semantic
+   * search is enabled, the facts most similar to the query
    */
   private async getFactualCandidates(
     userId: string,
-    query: string
-  ): Promise<FactualMemory[]> {
+    query: string,
+    includeSuperseded: boolean
+  ): Promise<{ candidates: FactualMemory[]; similarities: Map<string, number> }> {
     // Extract keywords from query
     const keywords = this.extractKeywords(query);
 
     // Search by tags (simple keyword matching for now)
     const candidates = await factualMemoryStore.retrieve({
       userId,
+      includeSuperseded,
       limit: 50 // Get more candidates for scoring
     });
 
     // Filter by keyword overlap
-    return candidates.filter(fact => {
+    const keywordMatches = candidates.filter(fact => {
       const factKeywords = [
         ...this.extractKeywords(fact.content),
         ...fact.tags
       ];
       return this.hasKeywordOverlap(keywords, factKeywords);
     });
+
+    const similarities = new Map<string, number>(); // Map<memory_id, cosine similarity to the query>
+    if (!this.config.semanticSearchEnabled) {
+      return { candidates: keywordMatches, similarities };
+    }
+
+    const byId = new Map(keywordMatches.map(fact => [fact.id, fact]));
+    try {
+      for (const result of await factualMemoryStore.searchSimilar(userId, query, 50, includeSuperseded)) {
+        similarities.set(result.memory.id, result.relevanceScore);
+        if (!byId.has(result.memory.id)) {
+          byId.set(result.memory.id, result.memory.data as FactualMemory);
+        }
+      }
+    } catch (error) {
+      console.error('Semantic search failed, using keyword matches only:', error);
+    }
+
+    return { candidates: Array.from(byId.values()), similarities };
   }
 
   /**
@@ -136,7 +164,8 @@ export class MemoryRetrievalEngine {
   private scoreFactualMemory(
     fact: FactualMemory,
     query: string,
-    context?: WorkingMemory
+    context?: WorkingMemory,
+    similarity?: number
   ): number {
     let score = 0;
 
@@ -150,7 +179,9 @@ export class MemoryRetrievalEngine {
       ...fact.tags
     ];
     const overlapScore = this.calculateOverlapScore(queryKeywords, factKeywords);
-    score += overlapScore * 0.4;
+
+    // Semantic similarity counts as a match too (catches rewording)
+    score += Math.max(overlapScore, similarity ?? 0) * 0.4;
 
     // Context relevance (if attention items match)
     if (context) {
@@ -24,6 +24,11 @@ export interface FactualMemory {
   tags: string[];
   embedding?: number[]; // For semantic search
   metadata?: Record<string, any>;
+  // Version history: a newer fact that contradicts this one supersedes it
+  version?: number; // 1, or one more than the fact it superseded
+  previousVersionId?: string; // The fact this one superseded
+  supersededBy?: string; // Set once a newer fact replaces this one
+  supersededAt?: Date;
 }
 
 /**
@@ -69,6 +74,15 @@ export interface WorkingMemory {
   timestamp: Date;
 }
 
+/**
+ * One item in a session's working memory, e.g. to forget it
+ */
+export type WorkingMemoryEntry =
+  | { section: 'context'; key: string }
+  | { section: 'attention'; item: string }
+  | { section: keyof WorkingMemory['planningState']; item: string }
+  | { section: 'recentEvents'; index: number };
+
 // ============================================================================
 // FUNCTIONS: Purpose-based categorization
 // ============================================================================
@@ -195,6 +209,7 @@ export interface MemoryQuery {
     end: Date;
   };
   semanticQuery?: string; // For vector search
+  includeSuperseded?: boolean; // Also return superseded facts (default: current facts only)
   limit?: number;
   offset?: number;
 }
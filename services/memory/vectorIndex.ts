@@ -0,0 +1,105 @@
+/**
+ * In-Process Vector Index
+ *
+ * Brute-force cosine search over embeddings held in memory, partitioned by
+ * user. Backs semantic search in dev and tests (no pgvector needed) and
+ * whenever the Supabase search RPC is unavailable. Linear in the number of
+ * a user's memories, which is fine for the thousands a user accumulates.
+ */
+
+import { cosineSimilarity } from './embeddings';
+
+export interface VectorSearchHit<T> {
+  id: string;
+  item: T;
+  similarity: number; // Cosine similarity, -1 to 1
+}
+
+export interface VectorSearchOptions<T> {
+  limit?: number; // Default: 10
+  threshold?: number; // Minimum similarity (default: 0)
+  model?: string; // Only compare vectors from this embedding model
+  filter?: (item: T) => boolean;
+}
+
+interface IndexEntry<T> {
+  vector: number[];
+  model: string;
+  item: T;
+}
+
+export class VectorIndex<T> {
+  private partitions: Map<string, Map<string, IndexEntry<T>>> = new Map(); // Map<owner, Map<id, IndexEntry>>
+  private owners: Map<string, string> = new Map(); // Map<id, owner>
+
+  /**
+   * Add or replace an item's vector
+   */
+  upsert(owner: string, id: string, vector: number[], model: string, item: T): void {
+    const previousOwner = this.owners.get(id);
+    if (previousOwner !== undefined && previousOwner !== owner) {
+      this.remove(id);
+    }
+
+    if (!this.partitions.has(owner)) {
+      this.partitions.set(owner, new Map());
+    }
+    this.partitions.get(owner)!.set(id, { vector, model, item });
+    this.owners.set(id, owner);
+  }
+
+  get(id: string): T | undefined {
+    return this.entry(id)?.item;
+  }
+
+  has(id: string): boolean {
+    return this.owners.has(id);
+  }
+
+  remove(id: string): boolean {
+    const owner = this.owners.get(id);
+    if (owner === undefined) return false;
+
+    this.partitions.get(owner)?.delete(id);
+    this.owners.delete(id);
+    return true;
+  }
+
+  /**
+   * Most similar items of one owner, best first
+   */
+  search(owner: string, query: number[], options: VectorSearchOptions<T> = {}): VectorSearchHit<T>[] {
+    const entries = this.partitions.get(owner);
+    if (!entries) return [];
+
+    const threshold = options.threshold ?? 0;
+    const hits: VectorSearchHit<T>[] = [];
+
+    for (const [id, entry] of entries) {
+      if (options.model && entry.model !== options.model) continue;
+      if (options.filter && !options.filter(entry.item)) continue;
+
+      const similarity = cosineSimilarity(query, entry.vector);
+      if (similarity >= threshold) {
+        hits.push({ id, item: entry.item, similarity });
+      }
+    }
+
+    hits.sort((a, b) => b.similarity - a.similarity);
+    return hits.slice(0, options.limit ?? 10);
+  }
+
+  size(owner?: string): number {
+    return owner === undefined ? this.owners.size : this.partitions.get(owner)?.size || 0;
+  }
+
+  clear(): void {
+    this.partitions.clear();
+    this.owners.clear();
+  }
+
+  private entry(id: string): IndexEntry<T> | undefined {
+    const owner = this.owners.get(id);
+    return owner === undefined ? undefined : this.partitions.get(owner)?.get(id);
+  }
+}
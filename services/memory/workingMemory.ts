@@ -5,7 +5,7 @@
  * Short-lived, in-memory state (not persisted to database)
  */
 
-import { WorkingMemory } from './types';
+import { WorkingMemory, WorkingMemoryEntry } from './types';
 import { Event } from '../runtime/eventStore';
 
 export class WorkingMemoryManager {
@@ -203,6 +203,39 @@ export class WorkingMemoryManager {
     }
   }
 
+  /**
+   * Remove one item (context value, attention item, planning item or
+   * recent event). Returns false if the session or item doesn't exist.
+   */
+  async removeEntry(sessionId: string, entry: WorkingMemoryEntry): Promise<boolean> {
+    const memory = this.memories.get(sessionId);
+    if (!memory) return false;
+
+    let removed: boolean;
+    switch (entry.section) {
+      case 'context':
+        removed = memory.activeContext.delete(entry.key);
+        break;
+      case 'attention':
+        removed = memory.attention.includes(entry.item);
+        memory.attention = memory.attention.filter(a => a !== entry.item);
+        break;
+      case 'recentEvents':
+        removed = entry.index >= 0 && memory.recentEvents.splice(entry.index, 1).length > 0;
+        break;
+      default: {
+        const items = memory.planningState[entry.section];
+        removed = items.includes(entry.item);
+        memory.planningState[entry.section] = items.filter(i => i !== entry.item);
+      }
+    }
+
+    if (removed) {
+      memory.timestamp = new Date();
+    }
+    return removed;
+  }
+
   /**
    * Get summary of working memory for LLM context
    */
@@ -0,0 +1,490 @@
+/**
+ * Replay Service - Time-Travel Replays of Workflow Executions
+ *
+ * Provides debug replays with:
+ * - Forking an execution at a checkpoint (the boundary before any of its steps)
+ * - Reuse of the original outputs for steps before the fork, so tools and
+ *   agents aren't called again
+ * - Modifications applied to the live part: config_change, decision_override,
+ *   skip_node and force_branch
+ * - A side-by-side diff of the original and replayed steps and outputs
+ *
+ * Modifications only affect nodes run after the fork. Without an explicit
+ * checkpoint the fork is placed at the first step a modification touches.
+ */
+
+import {
+  ReplayDiff,
+  ReplayModification,
+  ReplaySession,
+  ReplayStepDiff,
+  ReplayStepSide,
+  ReplayValueChange
+} from '../types/aura-os';
+import { ExecutionStepDetail, WorkflowExecution } from '../types/advanced';
+import { WorkflowDefinition, WorkflowNode } from '../types';
+import { workflowEngine } from './workflowEngine';
+
+// ============= TYPES =============
+
+export interface ReplayOptions {
+  fromCheckpointId?: string; // Original step id to fork at (it and later steps run live)
+  createdBy?: string;
+  workflow?: WorkflowDefinition; // Default: the definition stored with the execution
+}
+
+export interface ReplayResult {
+  session: ReplaySession;
+  execution: WorkflowExecution;
+  diff: ReplayDiff;
+}
+
+export interface ReplayCheckpoint {
+  id: string; // Step id
+  index: number;
+  nodeId: string;
+  label: string;
+  timestamp: number;
+}
+
+// Largest number of output paths reported in a diff
+const MAX_OUTPUT_CHANGES = 200;
+
+// ============= REPLAY SERVICE =============
+
+class ReplayService {
+  private storageKey = 'aura_replay_sessions';
+  private sessions: Map<string, ReplaySession>; // Map<session_id, ReplaySession>
+  private diffs: Map<string, ReplayDiff>; // Map<session_id, ReplayDiff>
+
+  constructor() {
+    this.sessions = new Map();
+    this.diffs = new Map();
+    this.loadSessions();
+  }
+
+  /**
+   * Places an execution can be forked from: before each of its steps
+   */
+  getCheckpoints(executionId: string): ReplayCheckpoint[] {
+    const original = this.requireExecution(executionId);
+
+    return original.steps.map((step, index) => ({
+      id: step.id,
+      index,
+      nodeId: step.nodeId,
+      label: `Before #${index + 1} ${step.nodeName}`,
+      timestamp: step.startedAt
+    }));
+  }
+
+  /**
+   * Fork an execution, apply modifications and run the rest live
+   */
+  async replay(
+    executionId: string,
+    modifications: ReplayModification[] = [],
+    options: ReplayOptions = {}
+  ): Promise<ReplayResult> {
+    const original = this.requireExecution(executionId);
+    const definition: WorkflowDefinition = options.workflow || original.metadata.workflow;
+    if (!definition) {
+      throw new Error(`Execution ${executionId} has no stored workflow definition; pass options.workflow`);
+    }
+
+    const session: ReplaySession = {
+      id: `replay_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      originalFlowRunId: executionId,
+      fromCheckpointId: options.fromCheckpointId,
+      modifications: modifications.map(modification => ({ ...modification })),
+      status: 'PREPARING',
+      createdBy: options.createdBy || 'user',
+      createdAt: Date.now()
+    };
+    this.sessions.set(session.id, session);
+    this.saveSessions();
+
+    try {
+      const workflow = this.applyConfigChanges(definition, session.modifications);
+      this.validateModifications(workflow, session.modifications);
+      const forkIndex = this.resolveForkIndex(original, session);
+
+      console.log(`[ReplayService] Replaying ${executionId} from step ${forkIndex} with ${modifications.length} modification(s)`);
+
+      session.status = 'RUNNING';
+      this.saveSessions();
+
+      const reused = new Set<string>(); // Replayed step ids copied from the original
+      const applied = new Map<string, ReplayModification['type']>(); // Map<replayed step id, modification>
+      let live = false;
+
+      const execution = await workflowEngine.executeWorkflow(
+        workflow,
+        original.input,
+        { type: 'replay', source: `replay_of_${executionId}` },
+        {
+          parentExecutionId: executionId,
+          metadata: { replaySessionId: session.id },
+          interceptStep: (node, state, index) => {
+            const before = original.steps[index];
+            if (!live && index < forkIndex && before?.nodeId === node.id && before.status !== 'failed') {
+              const step = this.reuseStep(before, executionId);
+              reused.add(step.id);
+              return step;
+            }
+            live = true;
+
+            const modification = this.modificationFor(session.modifications, node.id, ['skip_node', 'decision_override']);
+            if (!modification) return undefined;
+
+            const step = this.modifiedStep(node, state, modification);
+            applied.set(step.id, modification.type);
+            return step;
+          },
+          routeFrom: node => {
+            const branch = this.modificationFor(session.modifications, node.id, ['force_branch']);
+            return live && branch ? this.branchTarget(workflow, branch) : undefined;
+          }
+        }
+      );
+
+      session.newFlowRunId = execution.id;
+      session.status = execution.status === 'completed' ? 'COMPLETED' : 'FAILED';
+
+      const diff = this.buildDiff(session, original, execution, reused, applied);
+      this.diffs.set(session.id, diff);
+      this.saveSessions();
+
+      return { session, execution, diff };
+
+    } catch (error) {
+      session.status = 'FAILED';
+      this.saveSessions();
+      throw error;
+    }
+  }
+
+  getSession(sessionId: string): ReplaySession | null {
+    return this.sessions.get(sessionId) || null;
+  }
+
+  /**
+   * Replay sessions, newest first, optionally for one original execution
+   */
+  listSessions(executionId?: string): ReplaySession[] {
+    return Array.from(this.sessions.values())
+      .filter(session => !executionId || session.originalFlowRunId === executionId)
+      .sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  /**
+   * Diff of a finished session (recomputed if it isn't cached)
+   */
+  getDiff(sessionId: string): ReplayDiff | null {
+    const cached = this.diffs.get(sessionId);
+    if (cached) return cached;
+
+    const session = this.sessions.get(sessionId);
+    const original = session && workflowEngine.getExecutionById(session.originalFlowRunId);
+    const replayed = session?.newFlowRunId && workflowEngine.getExecutionById(session.newFlowRunId);
+    if (!original || !replayed) return null;
+
+    // Reused and modified steps say so in their logs
+    const reused = new Set<string>();
+    const applied = new Map<string, ReplayModification['type']>();
+    replayed.steps.forEach(step => step.logs.forEach(log => {
+      if (log.data?.reusedFrom) reused.add(step.id);
+      if (log.data?.modification) applied.set(step.id, log.data.modification);
+    }));
+
+    const diff = this.buildDiff(session!, original, replayed, reused, applied);
+    this.diffs.set(sessionId, diff);
+    return diff;
+  }
+
+  clearSessions(): void {
+    this.sessions.clear();
+    this.diffs.clear();
+    localStorage.removeItem(this.storageKey);
+  }
+
+  // ============= MODIFICATIONS =============
+
+  /**
+   * Copy of the workflow with config_change modifications merged into node data
+   */
+  private applyConfigChanges(workflow: WorkflowDefinition, modifications: ReplayModification[]): WorkflowDefinition {
+    const nodes = workflow.nodes.map(node => ({ ...node, data: { ...node.data } }));
+
+    for (const modification of modifications.filter(m => m.type === 'config_change')) {
+      const node = nodes.find(n => n.id === modification.nodeId);
+      if (!node) continue; // Reported by validateModifications
+
+      if (!modification.newValue || typeof modification.newValue !== 'object') {
+        throw new Error(`config_change for ${modification.nodeId} needs newValue with node data fields`);
+      }
+      if (modification.oldValue === undefined) {
+        modification.oldValue = Object.fromEntries(
+          Object.keys(modification.newValue).map(key => [key, (node.data as Record<string, any>)[key]])
+        );
+      }
+      node.data = { ...node.data, ...modification.newValue };
+    }
+
+    return { ...workflow, nodes };
+  }
+
+  private validateModifications(workflow: WorkflowDefinition, modifications: ReplayModification[]): void {
+    for (const modification of modifications) {
+      if (!workflow.nodes.some(node => node.id === modification.nodeId)) {
+        throw new Error(`${modification.type} targets unknown node ${modification.nodeId}`);
+      }
+      if (modification.type === 'force_branch' && !this.branchTarget(workflow, modification)) {
+        throw new Error(`force_branch from ${modification.nodeId}: no edge to "${modification.newValue}"`);
+      }
+    }
+  }
+
+  /**
+   * Index of the first original step to run live
+   */
+  private resolveForkIndex(original: WorkflowExecution, session: ReplaySession): number {
+    if (session.fromCheckpointId) {
+      const index = original.steps.findIndex(step => step.id === session.fromCheckpointId);
+      if (index === -1) {
+        throw new Error(`Checkpoint ${session.fromCheckpointId} not found in execution ${original.id}`);
+      }
+      return index;
+    }
+
+    const modified = new Set(session.modifications.map(modification => modification.nodeId));
+    const index = original.steps.findIndex(step => modified.has(step.nodeId));
+    return index === -1 ? 0 : index;
+  }
+
+  private modificationFor(
+    modifications: ReplayModification[],
+    nodeId: string,
+    types: ReplayModification['type'][]
+  ): ReplayModification | undefined {
+    return modifications.find(modification => modification.nodeId === nodeId && types.includes(modification.type));
+  }
+
+  /**
+   * The finished step recorded for skip_node / decision_override
+   */
+  private modifiedStep(
+    node: WorkflowNode,
+    state: Record<string, any>,
+    modification: ReplayModification
+  ): ExecutionStepDetail {
+    const now = Date.now();
+    const skipped = modification.type === 'skip_node';
+    const output = skipped
+      ? undefined
+      : isRecord(modification.newValue) ? modification.newValue : { agentOutput: modification.newValue };
+
+    return {
+      id: `step_${now}_${Math.random().toString(36).substr(2, 9)}`,
+      nodeId: node.id,
+      nodeName: node.label,
+      nodeType: node.type,
+      status: skipped ? 'skipped' : 'completed',
+      startedAt: now,
+      completedAt: now,
+      duration: 0,
+      input: { ...state },
+      output,
+      retries: 0,
+      logs: [{
+        timestamp: now,
+        level: 'info',
+        message: `${skipped ? 'Skipped' : 'Output overridden'} by replay: ${modification.description}`,
+        data: { modification: modification.type }
+      }]
+    };
+  }
+
+  /**
+   * The original step, re-recorded without running the node
+   */
+  private reuseStep(step: ExecutionStepDetail, executionId: string): ExecutionStepDetail {
+    const now = Date.now();
+
+    return {
+      ...step,
+      id: `step_${now}_${Math.random().toString(36).substr(2, 9)}`,
+      startedAt: now,
+      completedAt: now,
+      duration: 0,
+      logs: [{
+        timestamp: now,
+        level: 'info',
+        message: `Reused output of ${step.nodeName} from execution ${executionId}`,
+        data: { reusedFrom: step.id }
+      }],
+      metrics: { ...step.metrics, apiCalls: 0, tokensUsed: 0 }
+    };
+  }
+
+  /**
+   * Node a force_branch modification points at (by node id or edge label)
+   */
+  private branchTarget(workflow: WorkflowDefinition, modification: ReplayModification): string | undefined {
+    const edges = workflow.edges.filter(edge => edge.source === modification.nodeId);
+    const wanted = String(modification.newValue ?? '').toLowerCase();
+
+    const edge = edges.find(e => e.target.toLowerCase() === wanted)
+      || edges.find(e => e.label?.toLowerCase() === wanted);
+    return edge?.target;
+  }
+
+  // ============= DIFF =============
+
+  private buildDiff(
+    session: ReplaySession,
+    original: WorkflowExecution,
+    replayed: WorkflowExecution,
+    reused: Set<string>,
+    applied: Map<string, ReplayModification['type']>
+  ): ReplayDiff {
+    // Pair steps by node and occurrence (a node can run more than once)
+    const originals = new Map<string, ExecutionStepDetail[]>(); // Map<node_id, unpaired original steps>
+    original.steps.forEach(step => {
+      if (!originals.has(step.nodeId)) originals.set(step.nodeId, []);
+      originals.get(step.nodeId)!.push(step);
+    });
+
+    const steps: ReplayStepDiff[] = replayed.steps.map(step => {
+      const before = originals.get(step.nodeId)?.shift();
+      const after = side(step);
+      const modification = applied.get(step.id)
+        || this.modificationFor(session.modifications, step.nodeId, ['config_change', 'force_branch'])?.type;
+
+      return {
+        nodeId: step.nodeId,
+        nodeName: step.nodeName,
+        original: before && side(before),
+        replayed: after,
+        reused: reused.has(step.id),
+        modification: reused.has(step.id) ? undefined : modification,
+        changed: !before || before.status !== step.status || !sameValue(before.output, step.output)
+      };
+    });
+
+    // Steps the replay never reached
+    original.steps
+      .filter(step => originals.get(step.nodeId)?.includes(step))
+      .forEach(step => steps.push({
+        nodeId: step.nodeId,
+        nodeName: step.nodeName,
+        original: side(step),
+        reused: false,
+        changed: true
+      }));
+
+    const firstLive = replayed.steps.find(step => !reused.has(step.id));
+
+    return {
+      sessionId: session.id,
+      originalFlowRunId: original.id,
+      newFlowRunId: replayed.id,
+      forkNodeId: firstLive?.nodeId,
+      steps,
+      outputChanges: diffValues(original.output, replayed.output),
+      statusChanged: original.status !== replayed.status
+    };
+  }
+
+  // ============= PERSISTENCE =============
+
+  private requireExecution(executionId: string): WorkflowExecution {
+    const execution = workflowEngine.getExecutionById(executionId);
+    if (!execution) {
+      throw new Error(`Execution ${executionId} not found`);
+    }
+    return execution;
+  }
+
+  private loadSessions(): void {
+    try {
+      const stored = localStorage.getItem(this.storageKey);
+      if (stored) {
+        const sessions: ReplaySession[] = JSON.parse(stored);
+        sessions.forEach(session => this.sessions.set(session.id, session));
+      }
+    } catch (error) {
+      console.error('Error loading replay sessions:', error);
+    }
+  }
+
+  private saveSessions(): void {
+    try {
+      // Keep only the last 50 sessions to avoid storage bloat
+      const recent = Array.from(this.sessions.values()).slice(-50);
+      localStorage.setItem(this.storageKey, JSON.stringify(recent));
+    } catch (error) {
+      console.error('Error saving replay sessions:', error);
+    }
+  }
+}
+
+// ============= SINGLETON INSTANCE =============
+
+export const replayService = new ReplayService();
+
+// ============= HELPER FUNCTIONS =============
+
+/**
+ * Replay an execution from a checkpoint with modifications
+ */
+export async function replayExecution(
+  executionId: string,
+  modifications: ReplayModification[] = [],
+  options?: ReplayOptions
+): Promise<ReplayResult> {
+  return replayService.replay(executionId, modifications, options);
+}
+
+/**
+ * Paths at which two values differ (objects and arrays are walked)
+ */
+export function diffValues(original: any, replayed: any): ReplayValueChange[] {
+  const changes: ReplayValueChange[] = [];
+
+  const walk = (a: any, b: any, at: string) => {
+    if (changes.length >= MAX_OUTPUT_CHANGES || sameValue(a, b)) return;
+
+    if (isContainer(a) && isContainer(b) && Array.isArray(a) === Array.isArray(b)) {
+      const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+      keys.forEach(key => walk(a[key], b[key], at ? `${at}.${key}` : key));
+      return;
+    }
+
+    changes.push({ path: at || '(root)', original: a, replayed: b });
+  };
+
+  walk(original, replayed, '');
+  return changes;
+}
+
+function side(step: ExecutionStepDetail): ReplayStepSide {
+  return { stepId: step.id, status: step.status, output: step.output, durationMs: step.duration };
+}
+
+function sameValue(a: any, b: any): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function isRecord(value: any): value is Record<string, any> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isContainer(value: any): boolean {
+  return value !== null && typeof value === 'object';
+}
+
+/**
+ * Export for testing
+ */
+export { ReplayService };
@@ -0,0 +1,344 @@
+/**
+ * Cost Estimator - Forecasts Run Cost and Duration Before Execution
+ *
+ * Provides plan estimates with:
+ * - Per-node prices from historical step costs in the event store
+ *   (matched by node type and tool, from the same tenant's runs), when
+ *   there are enough samples
+ * - Model price tables for LLM nodes without history (tokens estimated
+ *   from the prompt and max_tokens); a model the LLM provider doesn't
+ *   serve fails the estimate
+ * - Registered tool costs for tool nodes without history
+ * - A confidence band (low/high) around the expected cost
+ * - Duration along the DAG's critical path
+ * - A budget check the executor uses to hold runs for approval
+ *
+ * Cost units match Run.cost: US cents. The forecast assumes every node
+ * runs once; conditional branches and retries widen the real spread.
+ */
+
+import { Event, Plan, PlanNode } from '../../types/advanced';
+import { eventStore } from './eventStore';
+import { DEFAULT_TENANT_ID } from './tenants';
+import { llmService } from './llmProvider';
+import { toolRegistry } from './toolRegistry';
+
+// ============= TYPES =============
+
+export type CostBasis = 'history' | 'price_table' | 'tool_cost' | 'none';
+
+export interface NodeCostEstimate {
+  node_id: string;
+  type: PlanNode['type'];
+  tool?: string;
+  expected_cost: number; // US cents
+  low_cost: number;
+  high_cost: number;
+  expected_duration: number; // ms
+  basis: CostBasis;
+  samples: number; // Historical steps the estimate is based on
+}
+
+export interface CostEstimate {
+  plan_id: string;
+  expected_cost: number; // US cents
+  low_cost: number; // Confidence band (10th-90th percentile of history, or price-table bounds)
+  high_cost: number;
+  estimated_duration: number; // ms, critical path
+  confidence: number; // 0-1: share of expected cost priced from history
+  budget?: number;
+  exceeds_budget: boolean; // expected_cost > budget
+  may_exceed_budget: boolean; // high_cost > budget
+  nodes: NodeCostEstimate[];
+  estimated_at: number;
+}
+
+export interface EstimateOptions {
+  budget?: number; // US cents (default: the intent's budget constraint)
+  history_window?: number; // ms of history to learn from (default: 30 days)
+  tenant_id?: string; // Whose runs to learn from (default: the default tenant)
+}
+
+interface StepSample {
+  cost: number;
+  duration: number;
+}
+
+interface LoadedHistory {
+  samples: Map<string, StepSample[]>; // Map<node kind, samples>
+  loaded_at: number;
+  window: number;
+}
+
+// Fewer samples than this fall back to price tables
+const MIN_HISTORY_SAMPLES = 3;
+
+// Most recent samples kept per node kind
+const MAX_SAMPLES_PER_KIND = 50;
+
+const DEFAULT_HISTORY_WINDOW = 30 * 24 * 60 * 60 * 1000; // 30 days
+const HISTORY_TTL = 60 * 1000; // Reuse loaded history for a minute
+
+// Rough token count for text we haven't sent yet
+const CHARS_PER_TOKEN = 4;
+const EXPECTED_COMPLETION_TOKENS = 500;
+const DEFAULT_MAX_TOKENS = 2000; // Same default as the executor's LLM calls
+
+// Typical durations when there is no history (ms)
+const DEFAULT_DURATIONS: Record<PlanNode['type'], number> = {
+  tool_call: 1000,
+  llm_call: 5000,
+  verification: 500,
+  approval_gate: 0,
+  parallel_group: 0
+};
+
+// ============= COST ESTIMATOR =============
+
+class CostEstimator {
+  private history: Map<string, LoadedHistory> = new Map(); // Map<tenant_id, LoadedHistory>
+
+  /**
+   * Forecast a plan's cost and duration. Throws UNSUPPORTED_MODEL if an LLM
+   * node names a model the provider doesn't serve.
+   */
+  async estimate(plan: Plan, options: EstimateOptions = {}): Promise<CostEstimate> {
+    for (const node of plan.dag.nodes) {
+      if (node.type === 'llm_call') {
+        llmService.checkModel(node.params?.model || node.tool);
+      }
+    }
+
+    const history = await this.loadHistory(
+      options.tenant_id ?? DEFAULT_TENANT_ID,
+      options.history_window ?? DEFAULT_HISTORY_WINDOW
+    );
+    const nodes = plan.dag.nodes.map(node => this.estimateNode(node, history.get(nodeKind(node)) || []));
+
+    const expected = round(sum(nodes.map(node => node.expected_cost)));
+    const fromHistory = sum(nodes.filter(node => node.basis === 'history').map(node => node.expected_cost));
+    const budget = options.budget ?? plan.intent?.parsed?.constraints?.budget;
+    const high = round(sum(nodes.map(node => node.high_cost)));
+
+    return {
+      plan_id: plan.id,
+      expected_cost: expected,
+      low_cost: round(sum(nodes.map(node => node.low_cost))),
+      high_cost: high,
+      estimated_duration: criticalPath(plan.dag.nodes, nodes),
+      confidence: expected > 0
+        ? round(fromHistory / expected)
+        : nodes.length > 0 ? nodes.filter(node => node.basis === 'history').length / nodes.length : 1,
+      budget,
+      exceeds_budget: budget !== undefined && expected > budget,
+      may_exceed_budget: budget !== undefined && high > budget,
+      nodes,
+      estimated_at: Date.now()
+    };
+  }
+
+  /**
+   * Drop loaded history so the next estimate reads the event store again
+   */
+  invalidate(): void {
+    this.history.clear();
+  }
+
+  private estimateNode(node: PlanNode, samples: StepSample[]): NodeCostEstimate {
+    const base = { node_id: node.id, type: node.type, tool: node.tool };
+
+    if (samples.length >= MIN_HISTORY_SAMPLES) {
+      const costs = samples.map(sample => sample.cost).sort((a, b) => a - b);
+      return {
+        ...base,
+        expected_cost: round(mean(costs)),
+        low_cost: round(percentile(costs, 0.1)),
+        high_cost: round(percentile(costs, 0.9)),
+        expected_duration: Math.round(mean(samples.map(sample => sample.duration))),
+        basis: 'history',
+        samples: samples.length
+      };
+    }
+
+    const prior = this.priceNode(node);
+    return {
+      ...base,
+      ...prior,
+      expected_duration: samples.length > 0
+        ? Math.round(mean(samples.map(sample => sample.duration)))
+        : DEFAULT_DURATIONS[node.type] ?? 0,
+      samples: samples.length
+    };
+  }
+
+  /**
+   * Price a node from model prices or the tool's cost
+   */
+  private priceNode(node: PlanNode): Pick<NodeCostEstimate, 'expected_cost' | 'low_cost' | 'high_cost' | 'basis'> {
+    switch (node.type) {
+      case 'llm_call': {
+        const params = node.params || {};
+        const model = llmService.checkModel(params.model || node.tool);
+        const maxTokens = params.max_tokens ?? DEFAULT_MAX_TOKENS;
+        const promptTokens = Math.ceil(
+          [params.system, params.prompt, params.context]
+            .filter(part => part !== undefined)
+            .map(part => typeof part === 'string' ? part : JSON.stringify(part))
+            .join('\n').length / CHARS_PER_TOKEN
+        );
+
+        return {
+          expected_cost: llmService.calculateCost(model, promptTokens, Math.min(maxTokens, EXPECTED_COMPLETION_TOKENS)),
+          low_cost: llmService.calculateCost(model, promptTokens, 0),
+          high_cost: llmService.calculateCost(model, promptTokens, maxTokens),
+          basis: 'price_table'
+        };
+      }
+
+      case 'tool_call': {
+        const definition = node.tool ? toolRegistry.get(node.tool) : undefined;
+        if (!definition) {
+          return { expected_cost: 0, low_cost: 0, high_cost: 0, basis: 'none' };
+        }
+        // Cached calls are free, so a side-effecting tool may cost nothing
+        return {
+          expected_cost: definition.cost,
+          low_cost: definition.idempotent ? definition.cost : 0,
+          high_cost: definition.cost,
+          basis: 'tool_cost'
+        };
+      }
+
+      default:
+        // Verification may call an LLM judge; without history we can't tell
+        return { expected_cost: 0, low_cost: 0, high_cost: 0, basis: 'none' };
+    }
+  }
+
+  /**
+   * Step costs and durations from the tenant's recent runs, grouped by node kind
+   */
+  private async loadHistory(tenant_id: string, window: number): Promise<Map<string, StepSample[]>> {
+    const cached = this.history.get(tenant_id);
+    if (cached && Date.now() - cached.loaded_at < HISTORY_TTL && cached.window === window) {
+      return cached.samples;
+    }
+
+    const events = await eventStore.query({
+      tenant_id,
+      event_types: ['run.started', 'step.started', 'step.completed'],
+      start_time: Date.now() - window
+    });
+
+    const samples = collectSamples(events);
+    this.history.set(tenant_id, { samples, loaded_at: Date.now(), window });
+    return samples;
+  }
+}
+
+// ============= SINGLETON INSTANCE =============
+
+export const costEstimator = new CostEstimator();
+
+// ============= HELPER FUNCTIONS =============
+
+/**
+ * Forecast a plan's cost (US cents) and duration
+ */
+export async function estimatePlanCost(plan: Plan, options?: EstimateOptions): Promise<CostEstimate> {
+  return costEstimator.estimate(plan, options);
+}
+
+/**
+ * Format cents for display, e.g. 0.42 -> '$0.0042', 250 -> '$2.50'
+ */
+export function formatCents(cents: number): string {
+  const dollars = cents / 100;
+  return `$${dollars >= 0.01 || dollars === 0 ? dollars.toFixed(2) : dollars.toPrecision(2)}`;
+}
+
+// ============= UTILITIES =============
+
+/**
+ * Nodes are matched across plans by what they do, not by their ids
+ */
+function nodeKind(node: Pick<PlanNode, 'type' | 'tool'>): string {
+  return `${node.type}:${node.tool || ''}`;
+}
+
+function collectSamples(events: Event[]): Map<string, StepSample[]> {
+  const nodeKinds = new Map<string, Map<string, string>>(); // Map<run_id, Map<node_id, kind>>
+  const stepKinds = new Map<string, string>(); // Map<step_id, kind>
+  const samples = new Map<string, StepSample[]>();
+
+  for (const event of events) {
+    switch (event.type) {
+      case 'run.started':
+        nodeKinds.set(event.run_id, new Map(event.plan.dag.nodes.map(node => [node.id, nodeKind(node)])));
+        break;
+
+      case 'step.started': {
+        const kind = nodeKinds.get(event.run_id)?.get(event.node_id);
+        if (kind) stepKinds.set(event.step_id, kind);
+        break;
+      }
+
+      case 'step.completed': {
+        const kind = stepKinds.get(event.step_id);
+        if (!kind) break;
+        if (!samples.has(kind)) samples.set(kind, []);
+        samples.get(kind)!.push({ cost: event.cost || 0, duration: event.duration });
+        break;
+      }
+    }
+  }
+
+  samples.forEach((list, kind) => samples.set(kind, list.slice(-MAX_SAMPLES_PER_KIND)));
+  return samples;
+}
+
+/**
+ * Longest chain of expected durations through depends_on
+ */
+function criticalPath(nodes: PlanNode[], estimates: NodeCostEstimate[]): number {
+  const durations = new Map(estimates.map(estimate => [estimate.node_id, estimate.expected_duration]));
+  const byId = new Map(nodes.map(node => [node.id, node]));
+  const finish = new Map<string, number>(); // Map<node_id, earliest finish>
+
+  const visit = (id: string, path: Set<string>): number => {
+    if (finish.has(id)) return finish.get(id)!;
+    const node = byId.get(id);
+    if (!node || path.has(id)) return 0; // Unknown dependency or cycle
+
+    path.add(id);
+    const start = Math.max(0, ...node.depends_on.map(dep => visit(dep, path)));
+    path.delete(id);
+
+    const end = start + (durations.get(id) || 0);
+    finish.set(id, end);
+    return end;
+  };
+
+  return Math.max(0, ...nodes.map(node => visit(node.id, new Set())));
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? sum(values) / values.length : 0;
+}
+
+function percentile(sorted: number[], p: number): number {
+  return sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * p))];
+}
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000; // Cents, to 4 decimal places
+}
+
+/**
+ * Export for testing
+ */
+export { CostEstimator };
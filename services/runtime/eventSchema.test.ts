@@ -0,0 +1,89 @@
+/**
+ * Event Schema
+ *
+ * Every appended event is checked against its type's schema, and events
+ * written under older schema versions are migrated when read.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  assertValidEvent,
+  DEFAULT_TENANT_ID,
+  EVENT_SCHEMA_VERSION,
+  EventValidationError,
+  upcastEvent,
+  validateEvent
+} from './eventSchema';
+
+function event(fields: Record<string, any>): Record<string, any> {
+  return {
+    id: 'evt-1',
+    run_id: 'run-1',
+    tenant_id: 'acme',
+    timestamp: 1700000000000,
+    schema_version: EVENT_SCHEMA_VERSION,
+    ...fields
+  };
+}
+
+describe('assertValidEvent', () => {
+  it('accepts events matching their schema', () => {
+    expect(validateEvent(event({ type: 'run.paused', reason: 'approval_gate', node_id: 'gate-1' }))).toEqual([]);
+    expect(validateEvent(event({ type: 'approval.granted', approved_by: 'alice' }))).toEqual([]);
+  });
+
+  it('accepts a plan-level pause without a node', () => {
+    expect(() => assertValidEvent(event({ type: 'run.paused', reason: 'approval_gate' }))).not.toThrow();
+  });
+
+  it('rejects missing, empty and mistyped fields', () => {
+    const invalid = event({ type: 'run.paused', reason: 'coffee_break', node_id: '' });
+
+    expect(() => assertValidEvent(invalid)).toThrow(EventValidationError);
+    expect(() => assertValidEvent(invalid)).toThrow(expect.objectContaining({ code: 'INVALID_EVENT', event_type: 'run.paused' }));
+    expect(validateEvent(invalid)).toHaveLength(2);
+
+    expect(validateEvent(event({ type: 'approval.granted' }))).not.toEqual([]);
+    expect(validateEvent(event({ type: 'run.completed', duration: '5s', cost: 1, artifact_ids: [] }))).not.toEqual([]);
+  });
+
+  it('rejects events without an envelope field', () => {
+    const { tenant_id, ...withoutTenant } = event({ type: 'approval.granted', approved_by: 'alice' });
+
+    expect(validateEvent(withoutTenant)).not.toEqual([]);
+  });
+
+  it('rejects unknown event types', () => {
+    expect(() => assertValidEvent(event({ type: 'run.teleported' })))
+      .toThrow(expect.objectContaining({ code: 'UNKNOWN_EVENT_TYPE' }));
+  });
+});
+
+describe('upcastEvent', () => {
+  it('returns current events unchanged', () => {
+    const current = event({ type: 'run.paused', reason: 'approval_gate', node_id: 'gate-1' });
+
+    expect(upcastEvent(current)).toBe(current);
+  });
+
+  it('migrates unversioned run.paused events to node_id and the default tenant', () => {
+    const { schema_version, tenant_id, ...stored } = event({ type: 'run.paused', reason: 'approval_gate', pausedAt: 'gate-1' });
+
+    const migrated = upcastEvent(stored);
+
+    expect(migrated).toMatchObject({ node_id: 'gate-1', tenant_id: DEFAULT_TENANT_ID, schema_version: EVENT_SCHEMA_VERSION });
+    expect(migrated).not.toHaveProperty('pausedAt');
+    expect(validateEvent(migrated)).toEqual([]);
+  });
+
+  it('keeps the tenant of version 2 events that have one', () => {
+    const stored = event({ type: 'approval.granted', approved_by: 'alice', schema_version: 2 });
+
+    expect(upcastEvent(stored)).toMatchObject({ tenant_id: 'acme', schema_version: EVENT_SCHEMA_VERSION });
+  });
+
+  it('refuses versions newer than this build reads', () => {
+    expect(() => upcastEvent(event({ type: 'approval.granted', approved_by: 'alice', schema_version: EVENT_SCHEMA_VERSION + 1 })))
+      .toThrow(expect.objectContaining({ code: 'UNSUPPORTED_SCHEMA_VERSION' }));
+  });
+});
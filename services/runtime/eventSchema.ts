@@ -0,0 +1,280 @@
+/**
+ * Event Schema - Validation and Versioning for the Event Log
+ *
+ * Provides event contracts with:
+ * - A JSON schema per Event variant, checked on every append
+ * - schema_version stamped on each event
+ * - Upcasters that migrate events written under older versions when read
+ *
+ * Versions:
+ * - 1: events written before versioning (no schema_version field)
+ * - 2: run.paused names its node `node_id` (was `pausedAt`);
+ *      evidence.collected carries `evidence_type`
+ * - 3: every event carries `tenant_id` (older events belong to the
+ *      default tenant)
+ *
+ * To change an event's shape: bump EVENT_SCHEMA_VERSION, update its schema
+ * and register an upcaster from the previous version. Stored events are
+ * never rewritten; they are migrated each time they are read.
+ */
+
+import { Event, NewEvent } from '../../types/advanced';
+import { JSONSchema, validateSchema } from './jsonSchema';
+
+// ============= TYPES =============
+
+export class EventValidationError extends Error {
+  constructor(
+    message: string,
+    public event_type: string,
+    public errors: string[],
+    public code: 'UNKNOWN_EVENT_TYPE' | 'INVALID_EVENT' | 'UNSUPPORTED_SCHEMA_VERSION' = 'INVALID_EVENT'
+  ) {
+    super(message);
+    this.name = 'EventValidationError';
+  }
+}
+
+/**
+ * Migrates an event from `from_version` to `from_version + 1`
+ */
+export interface EventUpcaster {
+  from_version: number;
+  event_type?: string; // Only events of this type (default: all)
+  upcast: (event: Record<string, any>) => Record<string, any>;
+}
+
+export const EVENT_SCHEMA_VERSION = 3;
+
+// Tenant for events, runs and memories written without one
+export const DEFAULT_TENANT_ID = 'default';
+
+// Events without schema_version were written before versioning
+const UNVERSIONED = 1;
+
+// ============= SCHEMAS =============
+
+const STRING: JSONSchema = { type: 'string' };
+const ID: JSONSchema = { type: 'string', minLength: 1 };
+const NUMBER: JSONSchema = { type: 'number' };
+const INTEGER: JSONSchema = { type: 'integer' };
+const BOOLEAN: JSONSchema = { type: 'boolean' };
+const OBJECT: JSONSchema = { type: 'object' };
+const STRINGS: JSONSchema = { type: 'array', items: STRING };
+
+const POLICY_HOOK: JSONSchema = { type: 'string', enum: ['run.start', 'step.before', 'tool.before', 'step.after', 'artifact.created'] };
+const MEMORY_SCOPE: JSONSchema = { type: 'string', enum: ['user', 'org', 'project', 'run'] };
+
+const RUN_ERROR: JSONSchema = {
+  type: 'object',
+  properties: { code: STRING, message: STRING, recoverable: BOOLEAN, timestamp: NUMBER },
+  required: ['code', 'message']
+};
+
+const STEP_ERROR: JSONSchema = {
+  type: 'object',
+  properties: { code: STRING, message: STRING, retryable: BOOLEAN, timestamp: NUMBER },
+  required: ['code', 'message']
+};
+
+const TOOL_ERROR: JSONSchema = {
+  type: 'object',
+  properties: { code: STRING, message: STRING, http_status: INTEGER, retry_after_ms: NUMBER, timestamp: NUMBER },
+  required: ['code', 'message']
+};
+
+const PLAN: JSONSchema = {
+  type: 'object',
+  properties: {
+    id: ID,
+    dag: {
+      type: 'object',
+      properties: { nodes: { type: 'array', items: { type: 'object', properties: { id: ID, type: STRING }, required: ['id', 'type'] } }, edges: { type: 'array' } },
+      required: ['nodes', 'edges']
+    }
+  },
+  required: ['id', 'dag']
+};
+
+const SNAPSHOT: JSONSchema = {
+  type: 'object',
+  properties: { id: ID, run_id: ID, created_at: NUMBER, state: OBJECT },
+  required: ['id', 'run_id', 'created_at', 'state']
+};
+
+/**
+ * Fields each event type carries besides the BaseEvent envelope
+ */
+const EVENT_SCHEMAS: Record<Event['type'], JSONSchema> = {
+  'run.started': fields({ plan: PLAN }),
+  'run.approved': fields({ approved_by: STRING }),
+  'run.completed': fields({ duration: NUMBER, cost: NUMBER, artifact_ids: STRINGS }),
+  'run.failed': fields({ error: RUN_ERROR, final_status: STRING }),
+  'run.paused': fields({ reason: { type: 'string', enum: ['approval_gate', 'error', 'user_action'] } }, { node_id: ID }),
+  'run.cancelled': fields({ cancelled_by: STRING }, { reason: STRING }),
+  'run.resumed': fields({ snapshot_id: ID, pending_node_ids: STRINGS }),
+
+  // step.completed output is optional here: undefined doesn't survive JSON
+  'step.started': fields({ step_id: ID, node_id: ID, attempt: { type: 'integer', minimum: 1 } }),
+  'step.completed': fields({ step_id: ID, duration: NUMBER }, { cost: NUMBER, usage: OBJECT }),
+  'step.failed': fields({ step_id: ID, error: STEP_ERROR, will_retry: BOOLEAN }),
+  'step.retrying': fields({ step_id: ID, attempt: INTEGER, max_attempts: INTEGER, next_retry_at: NUMBER }),
+  'step.skipped': fields({ node_id: ID, reason: STRING }),
+
+  'tool.called': fields({ tool_call_id: ID, tool: ID, params: OBJECT }, { step_id: ID }),
+  'tool.completed': fields({ tool_call_id: ID, duration: NUMBER, cached: BOOLEAN }, { queue_time_ms: NUMBER }),
+  'tool.failed': fields({ tool_call_id: ID, error: TOOL_ERROR }),
+
+  'verification.started': fields({ artifact_id: ID, verifier_type: STRING }),
+  'verification.completed': fields({ artifact_id: ID, result: { type: 'object', properties: { status: STRING, score: NUMBER }, required: ['status', 'score'] } }),
+  'verification.failed': fields({ artifact_id: ID, checks_failed: STRINGS }),
+
+  'artifact.created': fields({ artifact_id: ID, artifact_type: STRING, hash: STRING }),
+  'artifact.verified': fields({ artifact_id: ID, verification_score: NUMBER }),
+  'evidence.collected': fields({ evidence_id: ID, source: STRING, evidence_type: STRING }),
+
+  'approval.requested': fields({ reason: STRING }, { artifact_id: ID, node_id: ID, approver: STRING, expires_at: NUMBER }),
+  'approval.granted': fields({ approved_by: STRING }, { node_id: ID }),
+  'approval.denied': fields({ denied_by: STRING, reason: STRING }, { node_id: ID }),
+
+  'memory.accessed': fields({ memory_id: ID, scope: MEMORY_SCOPE }),
+  'memory.created': fields({ memory_id: ID, scope: MEMORY_SCOPE, key: STRING }),
+
+  'policy.violation': fields({ policy_id: ID, rule: OBJECT, action_taken: STRING }, { hook: POLICY_HOOK, node_id: ID }),
+  'policy.evaluated': fields(
+    { hook: POLICY_HOOK, policy_ids: STRINGS, decision: { type: 'string', enum: ['allow', 'warn', 'require_approval', 'block'] }, violations: INTEGER },
+    { node_id: ID }
+  ),
+  'cost.limit_warning': fields({ current_cost: NUMBER, budget: NUMBER, percentage: NUMBER }),
+  'circuit.opened': fields({ integration: ID, failures: INTEGER, retry_at: NUMBER }),
+  'circuit.closed': fields({ integration: ID }),
+  'replan.triggered': fields({ reason: STRING, failed_node_id: ID }, { new_plan_id: ID }),
+  'snapshot.created': fields({ snapshot_id: ID, snapshot: SNAPSHOT })
+};
+
+const ENVELOPE: JSONSchema = {
+  type: 'object',
+  properties: {
+    id: ID,
+    run_id: ID,
+    tenant_id: ID,
+    type: STRING,
+    timestamp: NUMBER,
+    schema_version: INTEGER,
+    metadata: OBJECT
+  },
+  required: ['id', 'run_id', 'tenant_id', 'type', 'timestamp', 'schema_version']
+};
+
+function fields(required: Record<string, JSONSchema>, optional: Record<string, JSONSchema> = {}): JSONSchema {
+  return {
+    type: 'object',
+    properties: { ...required, ...optional },
+    required: Object.keys(required)
+  };
+}
+
+// ============= UPCASTERS =============
+
+const upcasters: EventUpcaster[] = [
+  {
+    from_version: 1,
+    event_type: 'run.paused',
+    upcast: ({ pausedAt, ...event }) => ({ ...event, node_id: event.node_id ?? pausedAt })
+  },
+  {
+    from_version: 2,
+    upcast: event => ({ ...event, tenant_id: event.tenant_id ?? DEFAULT_TENANT_ID })
+  }
+];
+
+/**
+ * Add a migration from one schema version to the next
+ */
+export function registerEventUpcaster(upcaster: EventUpcaster): void {
+  upcasters.push(upcaster);
+}
+
+/**
+ * Migrate a stored event to the current schema version. Events already at
+ * the current version are returned as-is.
+ */
+export function upcastEvent(stored: Record<string, any>): Event {
+  let version = stored.schema_version ?? UNVERSIONED;
+  if (version === EVENT_SCHEMA_VERSION) {
+    return stored as Event;
+  }
+
+  if (!Number.isInteger(version) || version < UNVERSIONED || version > EVENT_SCHEMA_VERSION) {
+    throw new EventValidationError(
+      `Event ${stored.id} has schema_version ${version}; this build reads versions ${UNVERSIONED}-${EVENT_SCHEMA_VERSION}`,
+      stored.type,
+      [],
+      'UNSUPPORTED_SCHEMA_VERSION'
+    );
+  }
+
+  let event = { ...stored };
+  for (; version < EVENT_SCHEMA_VERSION; version++) {
+    for (const upcaster of upcasters) {
+      if (upcaster.from_version === version && (!upcaster.event_type || upcaster.event_type === event.type)) {
+        event = upcaster.upcast(event);
+      }
+    }
+  }
+
+  event.schema_version = EVENT_SCHEMA_VERSION;
+  return event as Event;
+}
+
+// ============= VALIDATION =============
+
+/**
+ * Validate an event against its type's schema; returns an empty list when it conforms
+ */
+export function validateEvent(event: Record<string, any>): string[] {
+  const errors = validateSchema(event, ENVELOPE, 'event');
+  if (event === null || typeof event !== 'object' || Array.isArray(event)) {
+    return errors;
+  }
+
+  const schema = schemaFor(event.type);
+  if (!schema) {
+    return [...errors, `event.type: unknown event type "${event.type}"`];
+  }
+
+  return [...errors, ...validateSchema(event, schema, event.type)];
+}
+
+/**
+ * Validate an event, throwing EventValidationError if it is unknown or malformed
+ */
+export function assertValidEvent(event: NewEvent | Record<string, any>): asserts event is Event {
+  const errors = validateEvent(event);
+  if (errors.length === 0) return;
+
+  const type = String((event as any)?.type);
+  const unknown = !schemaFor(type);
+
+  throw new EventValidationError(
+    unknown
+      ? `Unknown event type "${type}" (run ${(event as any)?.run_id})`
+      : `Invalid ${type} event (run ${(event as any)?.run_id}): ${errors.join('; ')}`,
+    type,
+    errors,
+    unknown ? 'UNKNOWN_EVENT_TYPE' : 'INVALID_EVENT'
+  );
+}
+
+/**
+ * Event types with a registered schema
+ */
+export function getEventTypes(): string[] {
+  return Object.keys(EVENT_SCHEMAS);
+}
+
+function schemaFor(type: unknown): JSONSchema | undefined {
+  return typeof type === 'string' && Object.prototype.hasOwnProperty.call(EVENT_SCHEMAS, type)
+    ? EVENT_SCHEMAS[type as Event['type']]
+    : undefined;
+}
@@ -0,0 +1,402 @@
+/**
+ * Event Storage - Pluggable Backends for the Event Store
+ *
+ * The EventStore owns subscriptions and metrics; where events actually live
+ * is delegated to an EventStorageAdapter:
+ * - memory: in-process log (default, lost on reload/restart)
+ * - jsonl:  append-only JSON Lines file (Node/server only, durable)
+ *
+ * Every stored event gets a monotonically increasing sequence number. Reads
+ * return events in log (append) order, and `cursor` resumes a read right
+ * after the last event a previous page returned.
+ *
+ * The log is partitioned by tenant: a run belongs to the tenant of its first
+ * event, and reads that name a tenant only ever see that tenant's partition.
+ * SYSTEM_RUN_ID (events outside any run) is shared by every tenant.
+ */
+
+import { Event } from '../../types/advanced';
+import { DEFAULT_TENANT_ID } from './eventSchema';
+
+// ============= TYPES =============
+
+// run_id for events that belong to no run, e.g. org or project memory
+export const SYSTEM_RUN_ID = 'system';
+
+export interface EventQuery {
+  tenant_id?: string; // Only this tenant's events (default: all tenants)
+  run_id?: string;
+  event_types?: string[];
+  start_time?: number;
+  end_time?: number;
+  limit?: number;
+  offset?: number; // Skip N matching events
+  cursor?: string; // Resume after the last event of a previous page
+}
+
+export interface EventPage {
+  events: Event[];
+  next_cursor?: string; // Absent when there are no more matching events
+}
+
+export interface CompactionOptions {
+  before?: number; // Drop events with timestamp < before
+  run_ids?: string[]; // Drop all events for these runs
+  tenant_ids?: string[]; // Drop all events for these tenants
+}
+
+export interface CompactionResult {
+  events_before: number;
+  events_after: number;
+  events_removed: number;
+}
+
+export interface EventStorageAdapter {
+  readonly kind: EventStorageKind;
+  append(event: Event): Promise<number>; // Returns the event's sequence number
+  read(query: EventQuery): Promise<EventPage>;
+  compact(options: CompactionOptions): Promise<CompactionResult>;
+  count(): Promise<number>;
+  clear(): Promise<void>;
+}
+
+export type EventStorageKind = 'memory' | 'jsonl';
+
+export type EventStorageConfig =
+  | { adapter: 'memory' }
+  | { adapter: 'jsonl'; path: string };
+
+interface StoredEvent {
+  seq: number;
+  event: Event;
+}
+
+interface TenantPartition {
+  records: StoredEvent[];
+  byRun: Map<string, StoredEvent[]>; // Map<run_id, StoredEvent[]>
+}
+
+// ============= SHARED LOG LOGIC =============
+
+/**
+ * In-process event log with per-tenant partitions, each indexed by run_id.
+ * Both adapters keep one of these; the JSONL adapter additionally mirrors
+ * appends to disk.
+ */
+class EventLog {
+  private records: StoredEvent[] = [];
+  private partitions: Map<string, TenantPartition> = new Map(); // Map<tenant_id, TenantPartition>
+  private runTenants: Map<string, string> = new Map(); // Map<run_id, tenant_id>
+  private nextSeq = 1;
+
+  add(event: Event, seq?: number): StoredEvent {
+    const record: StoredEvent = { seq: seq ?? this.nextSeq, event };
+    this.nextSeq = Math.max(this.nextSeq, record.seq + 1);
+
+    const tenantId = tenantOf(event);
+    if (!this.partitions.has(tenantId)) {
+      this.partitions.set(tenantId, { records: [], byRun: new Map() });
+    }
+    const partition = this.partitions.get(tenantId)!;
+
+    this.records.push(record);
+    partition.records.push(record);
+    if (!partition.byRun.has(event.run_id)) {
+      partition.byRun.set(event.run_id, []);
+      if (event.run_id !== SYSTEM_RUN_ID && !this.runTenants.has(event.run_id)) {
+        this.runTenants.set(event.run_id, tenantId);
+      }
+    }
+    partition.byRun.get(event.run_id)!.push(record);
+
+    return record;
+  }
+
+  /**
+   * Reject an event for a run that belongs to another tenant
+   */
+  checkTenant(event: Event): void {
+    const owner = this.runTenants.get(event.run_id);
+    if (owner !== undefined && owner !== tenantOf(event)) {
+      const error: any = new Error(`Run ${event.run_id} belongs to another tenant`);
+      error.code = 'TENANT_MISMATCH';
+      throw error;
+    }
+  }
+
+  reserveSeq(): number {
+    return this.nextSeq++;
+  }
+
+  read(query: EventQuery): EventPage {
+    let candidates: StoredEvent[];
+    if (query.tenant_id !== undefined) {
+      const partition = this.partitions.get(query.tenant_id);
+      candidates = (query.run_id ? partition?.byRun.get(query.run_id) : partition?.records) || [];
+    } else if (query.run_id) {
+      const owner = this.runTenants.get(query.run_id);
+      candidates = owner !== undefined
+        ? this.partitions.get(owner)?.byRun.get(query.run_id) || []
+        : this.records.filter(({ event }) => event.run_id === query.run_id); // SYSTEM_RUN_ID, across tenants
+    } else {
+      candidates = this.records;
+    }
+
+    // Resume after cursor
+    if (query.cursor !== undefined) {
+      const after = parseCursor(query.cursor);
+      candidates = candidates.filter(r => r.seq > after);
+    }
+
+    const types = query.event_types && query.event_types.length > 0
+      ? new Set(query.event_types)
+      : null;
+
+    const matching = candidates.filter(({ event }) =>
+      (!types || types.has(event.type)) &&
+      (!query.start_time || event.timestamp >= query.start_time) &&
+      (!query.end_time || event.timestamp <= query.end_time)
+    );
+
+    // Pagination
+    const offset = query.offset || 0;
+    const limit = query.limit ?? matching.length;
+    const page = matching.slice(offset, offset + limit);
+    const hasMore = offset + page.length < matching.length;
+
+    return {
+      events: page.map(r => r.event),
+      next_cursor: hasMore && page.length > 0
+        ? String(page[page.length - 1].seq)
+        : undefined
+    };
+  }
+
+  compact(options: CompactionOptions): CompactionResult {
+    const before = this.records.length;
+    const runIds = new Set(options.run_ids || []);
+    const tenantIds = new Set(options.tenant_ids || []);
+
+    const kept = this.records.filter(({ event }) =>
+      !runIds.has(event.run_id) &&
+      !tenantIds.has(tenantOf(event)) &&
+      !(options.before && event.timestamp < options.before)
+    );
+
+    this.records = [];
+    this.partitions.clear();
+    this.runTenants.clear();
+    for (const record of kept) {
+      this.add(record.event, record.seq);
+    }
+
+    return {
+      events_before: before,
+      events_after: kept.length,
+      events_removed: before - kept.length
+    };
+  }
+
+  all(): StoredEvent[] {
+    return this.records;
+  }
+
+  size(): number {
+    return this.records.length;
+  }
+
+  clear(): void {
+    this.records = [];
+    this.partitions.clear();
+    this.runTenants.clear();
+    this.nextSeq = 1;
+  }
+}
+
+/**
+ * Stored events are kept as written; those from before tenancy have no tenant_id
+ */
+function tenantOf(event: Event): string {
+  return event.tenant_id ?? DEFAULT_TENANT_ID;
+}
+
+function parseCursor(cursor: string): number {
+  const seq = Number(cursor);
+  if (!Number.isInteger(seq) || seq < 0) {
+    throw new Error(`Invalid event cursor: ${cursor}`);
+  }
+  return seq;
+}
+
+// ============= IN-MEMORY ADAPTER =============
+
+export class InMemoryEventAdapter implements EventStorageAdapter {
+  readonly kind = 'memory' as const;
+  private log = new EventLog();
+
+  async append(event: Event): Promise<number> {
+    this.log.checkTenant(event);
+    return this.log.add(event).seq;
+  }
+
+  async read(query: EventQuery): Promise<EventPage> {
+    return this.log.read(query);
+  }
+
+  async compact(options: CompactionOptions): Promise<CompactionResult> {
+    return this.log.compact(options);
+  }
+
+  async count(): Promise<number> {
+    return this.log.size();
+  }
+
+  async clear(): Promise<void> {
+    this.log.clear();
+  }
+}
+
+// ============= JSONL FILE ADAPTER =============
+
+/**
+ * Append-only JSON Lines file: one `{"seq":N,"event":{...}}` record per line.
+ *
+ * The file is loaded into an in-process index on first use; reads are served
+ * from the index, appends are written through to the file in order.
+ * Compaction rewrites the file via a temp file + rename so a crash never
+ * leaves a half-written log. Node only (uses `fs`, loaded lazily so the
+ * browser bundle never pulls it in).
+ */
+export class JsonlFileEventAdapter implements EventStorageAdapter {
+  readonly kind = 'jsonl' as const;
+  private log = new EventLog();
+  private loading: Promise<void> | null = null;
+  private writeChain: Promise<void> = Promise.resolve();
+
+  constructor(private path: string) {}
+
+  async append(event: Event): Promise<number> {
+    await this.load();
+    this.log.checkTenant(event);
+
+    const seq = this.log.reserveSeq();
+    const line = JSON.stringify({ seq, event }) + '\n';
+
+    await this.enqueueWrite(async fs => {
+      await fs.appendFile(this.path, line, 'utf8');
+    });
+    this.log.add(event, seq);
+
+    return seq;
+  }
+
+  async read(query: EventQuery): Promise<EventPage> {
+    await this.load();
+    return this.log.read(query);
+  }
+
+  async compact(options: CompactionOptions): Promise<CompactionResult> {
+    await this.load();
+
+    let result: CompactionResult = { events_before: 0, events_after: 0, events_removed: 0 };
+    await this.enqueueWrite(async fs => {
+      result = this.log.compact(options);
+
+      const contents = this.log.all().map(record => JSON.stringify(record) + '\n').join('');
+      const tempPath = `${this.path}.compact`;
+      await fs.writeFile(tempPath, contents, 'utf8');
+      await fs.rename(tempPath, this.path);
+    });
+
+    console.log(`[EventStorage] Compacted ${this.path}: removed ${result.events_removed} events`);
+    return result;
+  }
+
+  async count(): Promise<number> {
+    await this.load();
+    return this.log.size();
+  }
+
+  async clear(): Promise<void> {
+    await this.load();
+    await this.enqueueWrite(async fs => {
+      this.log.clear();
+      await fs.writeFile(this.path, '', 'utf8');
+    });
+  }
+
+  /**
+   * Load the existing log file (once)
+   */
+  private load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = (async () => {
+        const fs = await import('node:fs/promises');
+
+        let contents = '';
+        try {
+          contents = await fs.readFile(this.path, 'utf8');
+        } catch (error: any) {
+          if (error.code !== 'ENOENT') throw error;
+        }
+
+        const lines = contents.split('\n');
+        lines.forEach((line, index) => {
+          if (!line.trim()) return;
+          try {
+            const record = JSON.parse(line) as StoredEvent;
+            this.log.add(record.event, record.seq);
+          } catch {
+            // A torn final line means the process died mid-append; skip it
+            console.warn(`[EventStorage] Skipping unreadable line ${index + 1} in ${this.path}`);
+          }
+        });
+      })();
+    }
+    return this.loading;
+  }
+
+  /**
+   * Serialize file writes so appends land in sequence order
+   */
+  private enqueueWrite(write: (fs: typeof import('node:fs/promises')) => Promise<void>): Promise<void> {
+    const next = this.writeChain.then(async () => {
+      const fs = await import('node:fs/promises');
+      await write(fs);
+    });
+    this.writeChain = next.catch(() => undefined);
+    return next;
+  }
+}
+
+// ============= FACTORY =============
+
+/**
+ * Create a storage adapter from configuration
+ */
+export function createEventStorageAdapter(config: EventStorageConfig): EventStorageAdapter {
+  switch (config.adapter) {
+    case 'memory':
+      return new InMemoryEventAdapter();
+
+    case 'jsonl':
+      return new JsonlFileEventAdapter(config.path);
+
+    default:
+      throw new Error(`Unknown event storage adapter: ${(config as any).adapter}`);
+  }
+}
+
+/**
+ * Read adapter configuration from the environment (Node only).
+ * EVENT_STORE_ADAPTER=jsonl EVENT_STORE_PATH=./data/events.jsonl
+ */
+export function getEventStorageConfigFromEnv(): EventStorageConfig {
+  const env = typeof process !== 'undefined' ? process.env : undefined;
+
+  if (env?.EVENT_STORE_ADAPTER === 'jsonl') {
+    return { adapter: 'jsonl', path: env.EVENT_STORE_PATH || './aura-events.jsonl' };
+  }
+
+  return { adapter: 'memory' };
+}
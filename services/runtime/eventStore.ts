@@ -3,27 +3,34 @@
  *
  * Provides production-grade event logging with:
  * - Append-only semantics (events are immutable)
- * - Fast queryability (by run_id, event type, time range)
+ * - Fast queryability (by run_id, event type, time range, cursor)
  * - Event emission for real-time updates
  * - Metrics instrumentation
+ * - Pluggable storage (in-memory by default, durable JSONL via configuration)
+ * - Schema validation on append and upcasting of older events on read
+ * - Run read models projected from events (live or as of any event)
+ * - Tenant partitions: reads scoped by tenant_id only see that tenant's runs
  *
  * Target: Sub-10ms write latency, supports 1000+ events/run
  */
 
-import { Event, Run, RunMetrics } from '../../types/advanced';
+import { Event, NewEvent, Run, RunMetrics } from '../../types/advanced';
+import {
+  EventQuery,
+  EventPage,
+  EventStorageAdapter,
+  EventStorageConfig,
+  CompactionOptions,
+  CompactionResult,
+  createEventStorageAdapter,
+  getEventStorageConfigFromEnv
+} from './eventStorage';
+import { EVENT_SCHEMA_VERSION, DEFAULT_TENANT_ID, assertValidEvent, upcastEvent } from './eventSchema';
+import { RunProjections, RunReadModel, projectRun } from './runProjection';
 import { v4 as uuidv4 } from 'uuid';
 
 // ============= EVENT STORE =============
 
-interface EventQuery {
-  run_id?: string;
-  event_types?: string[];
-  start_time?: number;
-  end_time?: number;
-  limit?: number;
-  offset?: number;
-}
-
 interface EventStoreMetrics {
   events_written: number;
   events_queried: number;
@@ -33,14 +40,12 @@ interface EventStoreMetrics {
 }
 
 class EventStore {
-  private events: Map<string, Event[]>; // Map<run_id, Event[]>
-  private eventsByType: Map<string, Event[]>; // Map<event_type, Event[]>
+  private adapter: EventStorageAdapter;
   private listeners: Map<string, ((event: Event) => void)[]>; // Event listeners
   private metrics: EventStoreMetrics;
 
-  constructor() {
-    this.events = new Map();
-    this.eventsByType = new Map();
+  constructor(adapter: EventStorageAdapter = createEventStorageAdapter({ adapter: 'memory' })) {
+    this.adapter = adapter;
     this.listeners = new Map();
     this.metrics = {
       events_written: 0,
@@ -52,27 +57,46 @@ class EventStore {
   }
 
   /**
-   * Append event to the log (immutable)
+   * Swap the storage backend (e.g., at server startup)
    */
-  async append(event: Event): Promise<void> {
-    const startTime = performance.now();
+  setAdapter(adapter: EventStorageAdapter): void {
+    this.adapter = adapter;
+    console.log(`[EventStore] Using ${adapter.kind} storage`);
+
+    // Durable backends may already hold events from earlier sessions
+    adapter.count()
+      .then(count => { this.metrics.total_events = count; })
+      .catch(err => console.error('[EventStore] Failed to count stored events:', err));
+  }
 
-    // Ensure event has ID
-    if (!event.id) {
-      event.id = uuidv4();
-    }
+  /**
+   * Current storage backend
+   */
+  getAdapter(): EventStorageAdapter {
+    return this.adapter;
+  }
 
-    // Add to run_id index
-    if (!this.events.has(event.run_id)) {
-      this.events.set(event.run_id, []);
-    }
-    this.events.get(event.run_id)!.push(event);
+  /**
+   * Validate an event and append it to the log (immutable). Missing id,
+   * timestamp and schema_version are filled in (tenant_id defaults to the
+   * default tenant); events at an older schema version are upcast first.
+   * Unknown or malformed events are rejected with an EventValidationError,
+   * and events for another tenant's run with TENANT_MISMATCH.
+   */
+  async append(input: NewEvent): Promise<Event> {
+    const startTime = performance.now();
 
-    // Add to event_type index
-    if (!this.eventsByType.has(event.type)) {
-      this.eventsByType.set(event.type, []);
-    }
-    this.eventsByType.get(event.type)!.push(event);
+    const event = upcastEvent({
+      ...input,
+      id: input.id || uuidv4(),
+      tenant_id: input.tenant_id ?? DEFAULT_TENANT_ID,
+      timestamp: input.timestamp ?? Date.now(),
+      schema_version: input.schema_version ?? EVENT_SCHEMA_VERSION
+    });
+    assertValidEvent(event);
+
+    // Persist before notifying, so subscribers can always query what they saw
+    await this.adapter.append(event);
 
     // Emit to listeners
     this.emit(event);
@@ -87,76 +111,68 @@ class EventStore {
     if (this.metrics.write_latency_ms.length > 1000) {
       this.metrics.write_latency_ms.shift();
     }
+
+    return event;
   }
 
   /**
-   * Query events with filters
+   * Query events with filters (log order)
    */
   async query(query: EventQuery): Promise<Event[]> {
-    const startTime = performance.now();
-
-    let results: Event[] = [];
-
-    // Filter by run_id
-    if (query.run_id) {
-      results = this.events.get(query.run_id) || [];
-    } else {
-      // Get all events
-      results = Array.from(this.events.values()).flat();
-    }
-
-    // Filter by event types
-    if (query.event_types && query.event_types.length > 0) {
-      results = results.filter(e => query.event_types!.includes(e.type));
-    }
-
-    // Filter by time range
-    if (query.start_time) {
-      results = results.filter(e => e.timestamp >= query.start_time!);
-    }
-    if (query.end_time) {
-      results = results.filter(e => e.timestamp <= query.end_time!);
-    }
+    return (await this.queryPage(query)).events;
+  }
 
-    // Sort by timestamp (ascending)
-    results.sort((a, b) => a.timestamp - b.timestamp);
+  /**
+   * Query one page of events; pass `next_cursor` back as `cursor` to continue.
+   * Events stored under older schema versions come back upcast.
+   */
+  async queryPage(query: EventQuery): Promise<EventPage> {
+    const startTime = performance.now();
 
-    // Pagination
-    const offset = query.offset || 0;
-    const limit = query.limit || results.length;
-    results = results.slice(offset, offset + limit);
+    const stored = await this.adapter.read(query);
+    const page: EventPage = { ...stored, events: stored.events.map(upcastEvent) };
 
     // Track metrics
     const latency = performance.now() - startTime;
     this.metrics.query_latency_ms.push(latency);
-    this.metrics.events_queried += results.length;
+    this.metrics.events_queried += page.events.length;
 
     if (this.metrics.query_latency_ms.length > 1000) {
       this.metrics.query_latency_ms.shift();
     }
 
-    return results;
+    return page;
   }
 
   /**
-   * Get all events for a run (chronological order)
+   * Drop old or unwanted events from storage
    */
-  async getRunEvents(run_id: string): Promise<Event[]> {
-    return this.query({ run_id });
+  async compact(options: CompactionOptions): Promise<CompactionResult> {
+    const result = await this.adapter.compact(options);
+    this.metrics.total_events = result.events_after;
+    return result;
   }
 
   /**
-   * Get events by type across all runs
+   * Get all events for a run (chronological order). With a tenant_id, a run
+   * owned by another tenant has no events.
    */
-  async getEventsByType(event_type: string): Promise<Event[]> {
-    return this.eventsByType.get(event_type) || [];
+  async getRunEvents(run_id: string, tenant_id?: string): Promise<Event[]> {
+    return this.query({ run_id, tenant_id });
+  }
+
+  /**
+   * Get events by type across all runs (of one tenant, if given)
+   */
+  async getEventsByType(event_type: string, tenant_id?: string): Promise<Event[]> {
+    return this.query({ event_types: [event_type], tenant_id });
   }
 
   /**
    * Get latest N events for a run
    */
-  async getLatestEvents(run_id: string, limit: number): Promise<Event[]> {
-    const events = await this.getRunEvents(run_id);
+  async getLatestEvents(run_id: string, limit: number, tenant_id?: string): Promise<Event[]> {
+    const events = await this.getRunEvents(run_id, tenant_id);
     return events.slice(-limit);
   }
 
@@ -242,12 +258,11 @@ class EventStore {
   }
 
   /**
-   * Clear all events (for testing)
+   * Clear all events and metrics (for testing). Subscriptions are kept:
+   * long-lived subscribers (trace export, run projections) hold them and
+   * can't tell they were dropped.
    */
-  clear(): void {
-    this.events.clear();
-    this.eventsByType.clear();
-    this.listeners.clear();
+  async clear(): Promise<void> {
     this.metrics = {
       events_written: 0,
       events_queried: 0,
@@ -255,130 +270,84 @@ class EventStore {
       query_latency_ms: [],
       total_events: 0
     };
+    await this.adapter.clear();
   }
 
   /**
-   * Reconstruct Run state from events (for replay)
+   * Reconstruct Run state from events (for replay); see runProjection for
+   * steps, tool calls and point-in-time views
    */
-  async reconstructRun(run_id: string): Promise<Partial<Run> | null> {
-    const events = await this.getRunEvents(run_id);
+  async reconstructRun(run_id: string, tenant_id?: string): Promise<Run | null> {
+    const events = await this.getRunEvents(run_id, tenant_id);
     if (events.length === 0) return null;
 
-    const reconstruction: Partial<Run> = {
-      id: run_id,
-      events: events,
-      status: 'pending',
-      cost: 0,
-      artifacts: []
-    };
-
-    // Replay events to reconstruct state
-    for (const event of events) {
-      switch (event.type) {
-        case 'run.started':
-          reconstruction.status = 'running';
-          reconstruction.started_at = event.timestamp;
-          reconstruction.plan = (event as any).plan;
-          break;
-
-        case 'run.approved':
-          reconstruction.status = 'approved';
-          break;
-
-        case 'run.completed':
-          reconstruction.status = 'completed';
-          reconstruction.completed_at = event.timestamp;
-          reconstruction.cost = (event as any).cost;
-          break;
-
-        case 'run.failed':
-          reconstruction.status = 'failed';
-          reconstruction.error = (event as any).error;
-          break;
-
-        case 'run.paused':
-          reconstruction.status = 'paused';
-          reconstruction.paused_at = event.timestamp;
-          break;
-
-        case 'run.cancelled':
-          reconstruction.status = 'cancelled';
-          break;
-
-        case 'artifact.created':
-          // Would fetch artifact details from artifact store
-          break;
-      }
-    }
-
-    return reconstruction;
+    return projectRun(events).run;
   }
 }
 
 // ============= SINGLETON INSTANCE =============
 
-export const eventStore = new EventStore();
+export const eventStore = new EventStore(createEventStorageAdapter(getEventStorageConfigFromEnv()));
+
+// Read models for watched runs, kept current from the store's events
+export const runProjections = new RunProjections(eventStore);
 
 // ============= HELPER FUNCTIONS =============
 
+/**
+ * Choose the event storage backend, e.g. `{ adapter: 'jsonl', path: './data/events.jsonl' }`
+ */
+export function configureEventStore(config: EventStorageConfig): void {
+  eventStore.setAdapter(createEventStorageAdapter(config));
+}
+
 /**
  * Emit a run event
  */
-export async function emitRunEvent(event: Event): Promise<void> {
+export async function emitRunEvent(event: NewEvent): Promise<void> {
   await eventStore.append(event);
 }
 
 /**
  * Get run timeline (all events for a run)
  */
-export async function getRunTimeline(run_id: string): Promise<Event[]> {
-  return eventStore.getRunEvents(run_id);
+export async function getRunTimeline(run_id: string, tenant_id?: string): Promise<Event[]> {
+  return eventStore.getRunEvents(run_id, tenant_id);
 }
 
 /**
  * Calculate run metrics from events
  */
-export async function calculateRunMetrics(run_id: string): Promise<RunMetrics | null> {
-  const events = await getRunTimeline(run_id);
+export async function calculateRunMetrics(run_id: string, tenant_id?: string): Promise<RunMetrics | null> {
+  const events = await getRunTimeline(run_id, tenant_id);
   if (events.length === 0) return null;
 
-  const stepEvents = events.filter(e => e.type.startsWith('step.'));
-  const completedSteps = stepEvents.filter(e => e.type === 'step.completed');
-  const failedSteps = stepEvents.filter(e => e.type === 'step.failed');
-  const retryEvents = stepEvents.filter(e => e.type === 'step.retrying');
-
-  const runStarted = events.find(e => e.type === 'run.started');
-  const runCompleted = events.find(e => e.type === 'run.completed' || e.type === 'run.failed');
-
-  const duration = runStarted && runCompleted
-    ? runCompleted.timestamp - runStarted.timestamp
-    : 0;
-
-  const totalCost = events
-    .filter(e => e.type === 'run.completed')
-    .reduce((sum, e) => sum + ((e as any).cost || 0), 0);
-
-  const toolCalls = events.filter(e => e.type === 'tool.called');
-  const cachedCalls = events.filter(e => e.type === 'tool.completed' && (e as any).cached);
-
-  const cacheHitRate = toolCalls.length > 0
-    ? cachedCalls.length / toolCalls.length
-    : 0;
-
-  return {
-    run_id,
-    total_steps: stepEvents.filter(e => e.type === 'step.started').length,
-    completed_steps: completedSteps.length,
-    failed_steps: failedSteps.length,
-    total_duration: duration,
-    total_cost: totalCost,
-    retry_count: retryEvents.length,
-    cache_hit_rate: cacheHitRate,
-    events_emitted: events.length
-  };
+  return projectRun(events).metrics;
+}
+
+/**
+ * Run, steps, tool calls and artifacts as of the latest event (kept live)
+ */
+export async function getRunProjection(run_id: string, tenant_id?: string): Promise<RunReadModel | null> {
+  return ownedBy(await runProjections.get(run_id), tenant_id);
+}
+
+/**
+ * Run, steps, tool calls and artifacts as of the run's Nth event
+ */
+export async function getRunStateAt(run_id: string, position: number, tenant_id?: string): Promise<RunReadModel | null> {
+  return ownedBy(await runProjections.at(run_id, { position }), tenant_id);
+}
+
+/**
+ * Hide another tenant's run
+ */
+function ownedBy(view: RunReadModel | null, tenant_id?: string): RunReadModel | null {
+  return view && tenant_id && view.run.tenant_id !== tenant_id ? null : view;
 }
 
 /**
  * Export for testing and debugging
  */
 export { EventStore };
+export type { EventQuery, EventPage, EventStorageConfig };
@@ -0,0 +1,173 @@
+/**
+ * Executor Scheduling and Budget
+ *
+ * Independent nodes run concurrently up to max_concurrency. Steps reserve
+ * their estimated cost while in flight, so overlapping steps can't spend
+ * past the budget; estimates only hold steps back, and the run fails on
+ * actual spend.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { executor } from './executor';
+import { costEstimator, CostEstimate } from './costEstimator';
+import { toolRegistry } from './toolRegistry';
+import { Plan, PlanNode, RetryConfig, Run } from '../../types/advanced';
+
+const NO_RETRY: RetryConfig = { max_attempts: 1, initial_delay: 1, max_delay: 1, backoff_multiplier: 2, retryable_errors: [] };
+
+let nextRun = 0;
+let running: number;
+let peak: number;
+let order: string[];
+
+function registerWork(name: string, cost: number): void {
+  toolRegistry.register({
+    name,
+    description: 'Test work',
+    source: 'custom',
+    input_schema: { type: 'object' },
+    cost,
+    idempotent: true,
+    timeout: 1000,
+    handler: async (params: Record<string, any>) => {
+      running++;
+      peak = Math.max(peak, running);
+      await new Promise(resolve => setTimeout(resolve, 20));
+      running--;
+      order.push(params.label);
+      return { done: params.label };
+    }
+  });
+}
+
+function node(id: string, tool: string, depends_on: string[] = []): PlanNode {
+  return { id, type: 'tool_call', tool, params: { label: id }, depends_on, retry_policy: NO_RETRY, timeout: 1000 };
+}
+
+function makeRun(nodes: PlanNode[], budget?: number, plan: Partial<Plan> = {}): Run {
+  const id = `exec-test-${++nextRun}`;
+  const intent = { raw: 'test', parsed: { type: 'custom' as const, goal: 'test', entities: {}, constraints: { budget } }, confidence: 1, timestamp: 0 };
+
+  return {
+    id,
+    tenant_id: 'default',
+    project_id: 'p1',
+    user_id: 'u1',
+    intent,
+    plan: {
+      id: `plan-${id}`,
+      run_id: id,
+      intent,
+      dag: { nodes, edges: [], entry_node_id: nodes[0].id, exit_node_ids: [] },
+      estimated_cost: 0,
+      estimated_duration: 0,
+      requires_approval: false,
+      created_at: 0,
+      ...plan
+    },
+    status: 'pending',
+    started_at: 0,
+    cost: 0,
+    artifacts: [],
+    events: [],
+    metadata: { source: 'api' }
+  };
+}
+
+beforeEach(() => {
+  running = 0;
+  peak = 0;
+  order = [];
+  registerWork('test.work', 10);
+  registerWork('test.pricey', 40);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('executor scheduling', () => {
+  it('runs independent nodes concurrently up to max_concurrency', async () => {
+    const nodes = ['a', 'b', 'c', 'd'].map(id => node(id, 'test.work'));
+
+    const run = await executor.executeRun(makeRun(nodes), { max_concurrency: 2, enforce_cost_forecast: false });
+
+    expect(run.status).toBe('completed');
+    expect(run.cost).toBe(40);
+    expect(peak).toBe(2);
+  });
+
+  it('starts a node only after its dependencies complete', async () => {
+    const nodes = [node('fetch', 'test.work'), node('analyze', 'test.work', ['fetch']), node('report', 'test.work', ['analyze'])];
+
+    const run = await executor.executeRun(makeRun(nodes), { enforce_cost_forecast: false });
+
+    expect(run.status).toBe('completed');
+    expect(order).toEqual(['fetch', 'analyze', 'report']);
+    expect(peak).toBe(1);
+  });
+});
+
+describe('executor budget', () => {
+  it('runs steps together when their estimates fit the budget', async () => {
+    const nodes = ['a', 'b', 'c'].map(id => node(id, 'test.pricey'));
+
+    const run = await executor.executeRun(makeRun(nodes, 150), { enforce_cost_forecast: false });
+
+    expect(run.status).toBe('completed');
+    expect(peak).toBe(3);
+  });
+
+  it('holds back a step that would overspend alongside in-flight ones, then fails on actual spend', async () => {
+    const nodes = ['a', 'b', 'c'].map(id => node(id, 'test.pricey'));
+
+    const run = await executor.executeRun(makeRun(nodes, 100), { enforce_cost_forecast: false });
+
+    expect(peak).toBe(2);
+    expect(run.status).toBe('failed');
+    expect(run.cost).toBe(120);
+    expect(run.error?.code).toBe('BUDGET_EXHAUSTED');
+  });
+
+  it('does not fail a run on estimates alone', async () => {
+    overestimate(200);
+    const nodes = ['a', 'b'].map(id => node(id, 'test.work'));
+
+    const run = await executor.executeRun(makeRun(nodes, 100), { enforce_cost_forecast: false });
+
+    expect(run.status).toBe('completed');
+    expect(run.cost).toBe(20);
+    expect(peak).toBe(1);
+  });
+
+  it('pauses a run forecast over budget and finishes it once approved', async () => {
+    overestimate(200);
+    const nodes = ['a', 'b', 'c'].map(id => node(id, 'test.work'));
+
+    const paused = await executor.executeRun(makeRun(nodes, 100));
+    expect(paused.status).toBe('paused');
+    expect(paused.cost).toBe(0);
+
+    const approved = await executor.approveStep(paused.id, 'alice');
+    expect(approved.status).toBe('completed');
+    expect(approved.cost).toBe(30);
+    expect(peak).toBe(3);
+  });
+});
+
+/**
+ * Make the estimator price every node well above its real cost
+ */
+function overestimate(perNode: number): void {
+  const estimate = costEstimator.estimate.bind(costEstimator);
+  vi.spyOn(costEstimator, 'estimate').mockImplementation(async (plan, options) => {
+    const forecast: CostEstimate = await estimate(plan, options);
+    const expected = perNode * plan.dag.nodes.length;
+    return {
+      ...forecast,
+      expected_cost: expected,
+      exceeds_budget: forecast.budget !== undefined && expected > forecast.budget,
+      nodes: forecast.nodes.map(estimateOf => ({ ...estimateOf, expected_cost: perNode, high_cost: perNode }))
+    };
+  });
+}
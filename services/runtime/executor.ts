@@ -2,28 +2,57 @@
  * Executor - Step Execution Engine for AURA OS
  *
  * Provides production-grade execution with:
- * - Linear step execution (DAG traversal)
+ * - Parallel DAG scheduling (ready nodes run concurrently, bounded per run)
  * - Event emission on state transitions
- * - Automatic retry with exponential backoff
- * - Integration with idempotency service
- * - Cost tracking and budget limits
- *
- * Week 1: Linear execution only (no parallelism)
- * Week 5: Will add parallel execution
+ * - Automatic retry with full-jitter backoff and server retry hints
+ * - Circuit breaker state changes recorded on the run (circuit.opened/closed)
+ * - Tool calls through the tool registry (validated params, per-tool timeout)
+ * - Integration with idempotency service (per node, or cross-run plan keys)
+ * - LLM calls through the configured provider, with token/cost accounting
+ * - Cost tracking, budget warnings and budget limits
+ * - A cost forecast before the first step; runs forecast over budget wait for approval
+ * - Snapshots at step boundaries, and resuming failed/paused runs from them
+ * - Per-step timeouts and run cancellation (AbortSignal into tool/LLM calls)
+ * - Human-in-the-loop approval gates (plan-level and per node) that pause the run
+ * - Policy enforcement at run/step/tool hooks (block, warn, require approval, notify)
+ * - Artifact verification (schema, LLM quality, policy) at verification nodes
+ * - Tenant isolation: runs start only within their tenant's quota, and their
+ *   events, memories and idempotency keys stay in the tenant's partition
  */
 
 import {
   Run,
   Step,
+  StepStatus,
   PlanNode,
+  PlanEdge,
   ToolCall,
   RetryConfig,
   StepError,
-  RunError
+  RunError,
+  Snapshot,
+  SnapshotCreatedEvent,
+  ApprovalRequestedEvent,
+  ApprovalGrantedEvent,
+  PolicyHook,
+  Artifact,
+  MemoryScope,
+  EventBody
 } from '../../types/advanced';
+import { NodeRunMetrics } from '../../types/aura-os';
 import { eventStore } from './eventStore';
 import { memoryService } from './memoryService';
-import { idempotencyService } from './idempotency';
+import { idempotencyService, hashContent } from './idempotency';
+import { evaluateCondition } from './expressions';
+import { resolveTemplates, loadSecrets, redactSecrets, TemplateScope } from './templates';
+import { retryWithBackoff, errorCode, httpStatus, getRetryAfter, CircuitChange } from './resilience';
+import { policyEngine, PolicyDecision, POLICY_ACTION_SEVERITY } from './policyEngine';
+import { verificationService, VERIFIER_VERSION } from './verification';
+import { toolRegistry } from './toolRegistry';
+import { llmService, LLMMessage } from './llmProvider';
+import { costEstimator, CostEstimate, formatCents } from './costEstimator';
+import { tenantService, DEFAULT_TENANT_ID } from './tenants';
+import './traceExporter'; // Exports finished runs' traces when TRACE_EXPORT_TARGET is set
 import { v4 as uuidv4 } from 'uuid';
 
 // ============= EXECUTION CONTEXT =============
@@ -32,17 +61,61 @@ interface ExecutionContext {
   run: Run;
   current_step_index: number;
   variables: Record<string, any>;
+  budget: number; // Total cost budget for the run (US cents)
   budget_remaining: number;
+  budget_reserved: number; // Estimated cost of in-flight steps, held against budget_remaining
+  node_estimates?: Map<string, number>; // Map<node_id, expected cost>, what a starting step reserves
+  budget_warning_thresholds: number[]; // Fractions of the budget that trigger cost.limit_warning
+  budget_warnings: Set<number>; // Thresholds already warned about
   start_time: number;
+  max_concurrency: number;
+  node_status: Map<string, StepStatus>; // Map<node_id, StepStatus>
+  incoming_edges: Map<string, PlanEdge[]>; // Map<node_id, edges into node>
+  taken_edges: Set<PlanEdge>; // Edges whose condition held when their source settled
+  event_chain: Promise<void>; // Serializes event appends across concurrent steps
+  events_count: number; // Events recorded for the run so far
+  approved_nodes: Map<string, string>; // Map<node_id, approved_by> for granted approval gates
+  pause_for?: PlanNode; // Approval gate the scheduler is draining toward
+  pause_reason?: string; // Why the node needs approval, if not an explicit gate
+  abort: AbortController; // Run-level cancel token; aborting stops in-flight steps
+  cancellation?: { cancelled_by: string; reason: string };
+  forecast?: CostEstimate; // Cost forecast taken when the run started
+  options: ExecuteRunOptions; // What the run was started or resumed with (reused when an approval resumes it)
+}
+
+export interface PendingApproval {
+  run_id: string;
+  tenant_id: string;
+  node_id?: string; // Absent for plan-level approval
+  approver?: string;
+  reason: string;
+  requested_at: number;
+  expires_at?: number;
+}
+
+type NodeDecision =
+  | { action: 'wait' }
+  | { action: 'run' }
+  | { action: 'skip'; reason: string };
+
+export interface ExecuteRunOptions {
+  max_concurrency?: number; // Max steps running at the same time (default: 4)
+  budget_warning_thresholds?: number[]; // Fractions of the budget to warn at (default: 0.5, 0.8, 0.9)
+  enforce_cost_forecast?: boolean; // Hold runs forecast over budget for approval (default: true)
+  tenant_id?: string; // Caller's tenant when resuming; another tenant's run is reported as not found
 }
 
+const DEFAULT_MAX_CONCURRENCY = 4;
+const DEFAULT_BUDGET = 10000; // US cents
+const DEFAULT_BUDGET_WARNING_THRESHOLDS = [0.5, 0.8, 0.9];
+
 // ============= DEFAULT RETRY CONFIG =============
 
 const DEFAULT_RETRY_CONFIG: RetryConfig = {
   max_attempts: 3,
   initial_delay: 2000, // 2 seconds
   max_delay: 16000, // 16 seconds
-  backoff_multiplier: 2.0, // Exponential backoff
+  backoff_multiplier: 2.0, // Exponential backoff (full jitter)
   retryable_errors: [
     'RATE_LIMIT',
     'TIMEOUT',
@@ -55,59 +128,312 @@ const DEFAULT_RETRY_CONFIG: RetryConfig = {
 // ============= EXECUTOR =============
 
 class Executor {
+  private runs: Map<string, Run> = new Map(); // Map<run_id, Run> for runs started in this process
+  private pendingApprovals: Map<string, PendingApproval & { timer?: ReturnType<typeof setTimeout>; options?: ExecuteRunOptions }> = new Map(); // Map<run_id, PendingApproval>
+  private activeRuns: Map<string, { context: ExecutionContext; done: Promise<Run> }> = new Map(); // Map<run_id, executing run>
+
   /**
-   * Execute a run (linear execution of plan)
+   * Execute a run (parallel DAG execution of plan). Throws before anything
+   * is recorded if the tenant is unknown or suspended, a QuotaExceededError
+   * if it has used up its monthly executions, or UNSUPPORTED_MODEL if an LLM
+   * node names a model the provider doesn't serve.
    */
-  async executeRun(run: Run): Promise<Run> {
-    console.log(`[Executor] Starting run ${run.id}`);
+  async executeRun(run: Run, options: ExecuteRunOptions = {}): Promise<Run> {
+    run.tenant_id = run.tenant_id || DEFAULT_TENANT_ID;
+    await tenantService.admitRun(run.tenant_id);
 
-    // Emit run.started event
-    await eventStore.append({
-      id: uuidv4(),
-      run_id: run.id,
-      type: 'run.started',
-      timestamp: Date.now(),
-      plan: run.plan
-    } as any);
+    console.log(`[Executor] Starting run ${run.id} (tenant ${run.tenant_id})`);
 
     // Initialize execution context
-    const context: ExecutionContext = {
-      run,
-      current_step_index: 0,
-      variables: {},
-      budget_remaining: run.intent.parsed.constraints?.budget || 10000,
-      start_time: Date.now()
-    };
+    const context = this.createContext(run, options);
+
+    try {
+      for (const node of run.plan.dag.nodes) {
+        if (node.type === 'llm_call') {
+          llmService.checkModel(node.params?.model || node.tool);
+        }
+      }
+
+      // Record the forecast on the plan before run.started captures it
+      if (options.enforce_cost_forecast !== false) {
+        context.forecast = await this.forecastCost(context);
+      }
+
+      // Emit run.started event
+      await this.emit(context, {
+        type: 'run.started',
+        plan: run.plan,
+        metadata: {
+          project_id: run.project_id,
+          user_id: run.user_id,
+          source: run.metadata.source
+        }
+      });
+    } catch (error) {
+      // The run never started (e.g., its id belongs to another tenant)
+      tenantService.releaseRun(run.tenant_id);
+      throw error;
+    }
+    this.runs.set(run.id, run);
 
     // Update run status
     run.status = 'running';
     run.started_at = Date.now();
 
-    try {
-      // Execute plan sequentially
-      const nodes = this.topologicalSort(run.plan.dag.nodes);
+    return this.driveRun(context);
+  }
+
+  /**
+   * Resume a failed or paused run from a snapshot (latest by default).
+   *
+   * Completed steps are not re-run: their outputs come back from the
+   * snapshot's variables, and scheduling carries on from the first pending
+   * node. Steps that were in flight when the snapshot was taken run again.
+   */
+  async resumeRun(runId: string, snapshotId?: string, options: ExecuteRunOptions = {}): Promise<Run> {
+    const run = await this.findRun(runId, options.tenant_id);
+    if (!run) {
+      throw new Error(`Run ${runId} not found`);
+    }
 
-      for (let i = 0; i < nodes.length; i++) {
-        context.current_step_index = i;
-        const node = nodes[i];
+    const snapshot = await this.findSnapshot(runId, snapshotId);
+    if (!snapshot) {
+      throw new Error(snapshotId
+        ? `Snapshot ${snapshotId} not found for run ${runId}`
+        : `No snapshot found for run ${runId}`);
+    }
 
-        console.log(`[Executor] Executing step ${i + 1}/${nodes.length}: ${node.tool || node.type}`);
+    if (run.status !== 'failed' && run.status !== 'paused') {
+      throw new Error(`Cannot resume run ${runId} with status ${run.status}`);
+    }
 
-        // Execute step
-        const step = await this.executeStep(context, node);
+    console.log(`[Executor] Resuming run ${runId} from snapshot ${snapshot.id}`);
 
-        // Store output in variables
-        if (step.output) {
-          context.variables[node.id] = step.output;
-        }
+    const context = this.createContext(run, options);
+    this.restoreSnapshot(context, snapshot);
+    const events = await eventStore.getRunEvents(runId);
+    context.events_count = events.length;
+    this.restoreApprovals(context, events as ApprovalGrantedEvent[]);
+    this.runs.set(run.id, run);
 
-        // Update budget
-        context.budget_remaining -= step.cost;
+    await this.restoreRunMemory(run, snapshot);
 
-        // Check budget limit
-        if (context.budget_remaining <= 0) {
-          throw new Error('Budget exhausted');
-        }
+    run.status = 'running';
+    run.error = undefined;
+    run.paused_at = undefined;
+    run.current_snapshot = snapshot;
+
+    // Emit run.resumed event
+    await this.emit(context, {
+      type: 'run.resumed',
+      snapshot_id: snapshot.id,
+      pending_node_ids: snapshot.state.pending_steps
+    });
+
+    return this.driveRun(context);
+  }
+
+  /**
+   * List snapshots recorded for a run (oldest first)
+   */
+  async getSnapshots(runId: string, tenantId?: string): Promise<Snapshot[]> {
+    const events = await eventStore.query({ run_id: runId, tenant_id: tenantId, event_types: ['snapshot.created'] });
+    return events.map(event => (event as SnapshotCreatedEvent).snapshot);
+  }
+
+  /**
+   * Approve the run's pending approval (plan-level or approval gate) and
+   * resume it with the options it was running with. If `nodeId` is given
+   * it must match the gate being waited on.
+   */
+  async approveStep(runId: string, approvedBy: string, nodeId?: string, tenantId?: string): Promise<Run> {
+    const { run, approval } = await this.getPendingDecision(runId, approvedBy, nodeId, tenantId);
+    const context = this.createContext(run, {});
+    const options = this.pendingApprovals.get(runId)?.options; // Unknown if the approval was recovered from events
+
+    if (approval.expires_at && Date.now() > approval.expires_at) {
+      await this.denyStep(runId, 'system', 'Approval timed out', approval.node_id, tenantId);
+      throw new Error(`Approval for run ${runId} timed out`);
+    }
+
+    this.clearPendingApproval(runId);
+
+    // Emit approval.granted event
+    await this.emit(context, {
+      type: 'approval.granted',
+      node_id: approval.node_id,
+      approved_by: approvedBy
+    });
+
+    if (!approval.node_id) {
+      run.plan.approved_at = Date.now();
+      run.plan.approved_by = approvedBy;
+
+      // Emit run.approved event
+      await this.emit(context, {
+        type: 'run.approved',
+        approved_by: approvedBy
+      });
+    }
+
+    console.log(`[Executor] ${approval.node_id ? `Gate ${approval.node_id}` : 'Plan'} approved by ${approvedBy} for run ${runId}`);
+
+    return this.resumeRun(runId, undefined, { ...options, tenant_id: run.tenant_id });
+  }
+
+  /**
+   * Deny the run's pending approval; the run fails and cannot be resumed
+   */
+  async denyStep(runId: string, deniedBy: string, reason: string, nodeId?: string, tenantId?: string): Promise<Run> {
+    const { run, approval } = await this.getPendingDecision(runId, deniedBy, nodeId, tenantId);
+    const context = this.createContext(run, {});
+
+    this.clearPendingApproval(runId);
+
+    // Emit approval.denied event
+    await this.emit(context, {
+      type: 'approval.denied',
+      node_id: approval.node_id,
+      denied_by: deniedBy,
+      reason
+    });
+
+    run.status = 'failed';
+    run.error = {
+      code: 'APPROVAL_DENIED',
+      message: `Approval denied by ${deniedBy}: ${reason}`,
+      failed_at_node: approval.node_id,
+      recoverable: false,
+      timestamp: Date.now()
+    };
+
+    // Emit run.failed event
+    await this.emit(context, {
+      type: 'run.failed',
+      error: run.error,
+      final_status: 'failed'
+    });
+
+    console.log(`[Executor] Run ${runId} denied by ${deniedBy}: ${reason}`);
+
+    return run;
+  }
+
+  /**
+   * Cancel a run. An executing run has its in-flight tool and LLM calls
+   * aborted and settles as cancelled; a paused run is cancelled directly.
+   * Either way run.cancelled is emitted after a final snapshot.
+   */
+  async cancelRun(runId: string, cancelledBy: string, reason: string, tenantId?: string): Promise<Run> {
+    const active = this.activeRuns.get(runId);
+    if (active && (!tenantId || active.context.run.tenant_id === tenantId)) {
+      if (!active.context.cancellation) {
+        console.log(`[Executor] Cancelling run ${runId} (${cancelledBy}: ${reason})`);
+        active.context.cancellation = { cancelled_by: cancelledBy, reason };
+        active.context.abort.abort(
+          Object.assign(new Error(`Run cancelled by ${cancelledBy}: ${reason}`), { code: 'CANCELLED' })
+        );
+      }
+      return active.done;
+    }
+
+    const run = await this.findRun(runId, tenantId);
+    if (!run) {
+      throw new Error(`Run ${runId} not found`);
+    }
+    if (run.status !== 'paused' && run.status !== 'pending' && run.status !== 'approved') {
+      throw new Error(`Cannot cancel run ${runId} with status ${run.status}`);
+    }
+
+    this.clearPendingApproval(runId);
+
+    const context = this.createContext(run, {});
+    context.cancellation = { cancelled_by: cancelledBy, reason };
+    const snapshot = await this.findSnapshot(runId);
+    if (snapshot) {
+      this.restoreSnapshot(context, snapshot);
+    }
+    context.events_count = (await eventStore.getRunEvents(runId)).length;
+
+    await this.finishCancelled(context);
+    return run;
+  }
+
+  /**
+   * Approvals currently blocking runs in this process (of one tenant, if given)
+   */
+  getPendingApprovals(tenantId?: string): PendingApproval[] {
+    return Array.from(this.pendingApprovals.values())
+      .filter(approval => !tenantId || approval.tenant_id === tenantId)
+      .map(({ timer, options, ...approval }) => approval);
+  }
+
+  /**
+   * Build the execution context for a run
+   */
+  private createContext(run: Run, options: ExecuteRunOptions): ExecutionContext {
+    const budget = run.intent.parsed.constraints?.budget || DEFAULT_BUDGET;
+
+    return {
+      run,
+      current_step_index: 0,
+      variables: {},
+      budget,
+      budget_remaining: budget,
+      budget_reserved: 0,
+      budget_warning_thresholds: [...(options.budget_warning_thresholds || DEFAULT_BUDGET_WARNING_THRESHOLDS)].sort((a, b) => a - b),
+      budget_warnings: new Set(),
+      start_time: Date.now(),
+      max_concurrency: Math.max(1, options.max_concurrency || DEFAULT_MAX_CONCURRENCY),
+      node_status: new Map(run.plan.dag.nodes.map(node => [node.id, 'pending' as StepStatus])),
+      incoming_edges: this.indexIncomingEdges(run.plan.dag.edges || []),
+      taken_edges: new Set(),
+      event_chain: Promise.resolve(),
+      events_count: 0,
+      approved_nodes: new Map(),
+      abort: new AbortController(),
+      options
+    };
+  }
+
+  /**
+   * Drive the run, tracking it as active so cancelRun can reach it
+   */
+  private driveRun(context: ExecutionContext): Promise<Run> {
+    const done = this.runToCompletion(context).finally(() => {
+      this.activeRuns.delete(context.run.id);
+    });
+    this.activeRuns.set(context.run.id, { context, done });
+    return done;
+  }
+
+  /**
+   * Run the scheduler to the end and record the final run status
+   */
+  private async runToCompletion(context: ExecutionContext): Promise<Run> {
+    const run = context.run;
+
+    try {
+      const verdict = await this.enforcePolicies(context, 'run.start');
+      if (verdict.action === 'block') {
+        throw this.policyError(verdict);
+      }
+
+      // Plan-level approval must be granted before the first step runs
+      const overBudget = context.forecast?.exceeds_budget;
+      const needsApproval = run.plan.requires_approval || verdict.action === 'require_approval' || overBudget;
+      if (needsApproval && !run.plan.approved_at) {
+        const reason = this.policyReason(verdict) || (overBudget ? this.forecastReason(context) : undefined);
+        await this.pauseForApproval(context, undefined, reason);
+        return run;
+      }
+
+      // Execute plan, running independent nodes concurrently
+      await this.scheduleNodes(context);
+
+      if (context.pause_for) {
+        await this.pauseForApproval(context, context.pause_for, context.pause_reason);
+        return run;
       }
 
       // Mark run as completed
@@ -115,38 +441,37 @@ class Executor {
       run.completed_at = Date.now();
 
       // Emit run.completed event
-      await eventStore.append({
-        id: uuidv4(),
-        run_id: run.id,
+      await this.emit(context, {
         type: 'run.completed',
-        timestamp: Date.now(),
         duration: run.completed_at - run.started_at,
         cost: run.cost,
         artifact_ids: run.artifacts.map(a => a.id)
-      } as any);
+      });
 
       console.log(`[Executor] Run ${run.id} completed successfully`);
 
     } catch (error: any) {
+      if (context.cancellation) {
+        await this.finishCancelled(context);
+        return run;
+      }
+
       // Mark run as failed
       run.status = 'failed';
       run.error = {
-        code: 'EXECUTION_FAILED',
+        code: error.code || 'EXECUTION_FAILED',
         message: error.message,
-        recoverable: false,
+        recoverable: Boolean(run.current_snapshot),
         timestamp: Date.now(),
         stack_trace: error.stack
       };
 
       // Emit run.failed event
-      await eventStore.append({
-        id: uuidv4(),
-        run_id: run.id,
+      await this.emit(context, {
         type: 'run.failed',
-        timestamp: Date.now(),
         error: run.error,
         final_status: 'failed'
-      } as any);
+      });
 
       console.error(`[Executor] Run ${run.id} failed:`, error.message);
     }
@@ -154,6 +479,376 @@ class Executor {
     return run;
   }
 
+  /**
+   * Record a cancelled run: final snapshot, then run.cancelled
+   */
+  private async finishCancelled(context: ExecutionContext): Promise<void> {
+    const run = context.run;
+    const { cancelled_by, reason } = context.cancellation!;
+    const cancelledNode = run.plan.dag.nodes.find(node => context.node_status.get(node.id) === 'cancelled');
+
+    run.status = 'cancelled';
+    run.completed_at = Date.now();
+    run.error = {
+      code: 'CANCELLED',
+      message: `Cancelled by ${cancelled_by}: ${reason}`,
+      failed_at_node: cancelledNode?.id,
+      recoverable: false,
+      timestamp: Date.now()
+    };
+
+    await this.createSnapshot(context, cancelledNode?.id || run.current_snapshot?.state.current_node_id || '');
+
+    // Emit run.cancelled event
+    await this.emit(context, {
+      type: 'run.cancelled',
+      cancelled_by,
+      reason
+    });
+
+    console.log(`[Executor] Run ${run.id} cancelled by ${cancelled_by}: ${reason}`);
+  }
+
+  /**
+   * Schedule DAG nodes: start every ready node up to the run's concurrency
+   * limit, and keep going until the DAG drains.
+   *
+   * A node is ready once all its dependencies and edge sources have settled.
+   * Failures with an outgoing `failure` edge are routed to the fallback node;
+   * any other failure stops new nodes from starting, and in-flight steps are
+   * allowed to settle before the error is rethrown.
+   *
+   * Reaching an approval gate that hasn't been granted works the same way:
+   * no new nodes start, in-flight steps settle, and `context.pause_for` is
+   * left set for the caller to pause the run.
+   *
+   * Cancelling the run aborts in-flight steps (marked cancelled) and stops
+   * new ones from starting.
+   *
+   * A starting step reserves its estimated cost until it settles, and only
+   * starts alongside others if that fits in the budget left after their
+   * reservations. One that doesn't fit waits for in-flight steps to settle
+   * and then runs alone: estimates only hold steps back, and the run fails
+   * on actual spend (see checkBudget).
+   */
+  private async scheduleNodes(context: ExecutionContext): Promise<void> {
+    const nodes = this.topologicalSort(context.run.plan.dag.nodes, context.run.plan.dag.edges || []);
+    const inFlight = new Map<string, Promise<void>>(); // Map<node_id, settled promise>
+    let failure: Error | null = null;
+
+    const estimates = await this.loadNodeEstimates(context);
+
+    while (true) {
+      if (context.abort.signal.aborted) {
+        failure = failure || context.abort.signal.reason;
+      }
+
+      if (!failure && !context.pause_for) {
+        for (const node of await this.resolveReadyNodes(context, nodes)) {
+          if (inFlight.size >= context.max_concurrency) break;
+
+          // Stop at approval gates nobody has signed off yet
+          if (node.type === 'approval_gate' && !context.approved_nodes.has(node.id)) {
+            context.pause_for = node;
+            break;
+          }
+
+          const verdict = await this.checkNodePolicies(context, node);
+          if (verdict.action === 'block') {
+            context.node_status.set(node.id, 'failed');
+            failure = this.policyError(verdict);
+            break;
+          }
+          if (verdict.action === 'require_approval' && !context.approved_nodes.has(node.id)) {
+            context.pause_for = node;
+            context.pause_reason = this.policyReason(verdict);
+            break;
+          }
+
+          if (context.budget_remaining <= 0) {
+            failure = Object.assign(new Error('Budget exhausted'), { code: 'BUDGET_EXHAUSTED' });
+            break;
+          }
+
+          // Don't overlap steps the budget can't cover once in-flight steps are paid for
+          const available = context.budget_remaining - context.budget_reserved;
+          const estimate = estimates.get(node.id) || 0;
+          if (inFlight.size > 0 && estimate > available) break;
+          const reservation = Math.min(estimate, available);
+
+          context.budget_reserved += reservation;
+          context.current_step_index++;
+          context.node_status.set(node.id, 'running');
+          console.log(`[Executor] Executing step ${context.current_step_index}/${nodes.length}: ${node.tool || node.type}`);
+
+          const task = this.executeStep(context, node)
+            .then(async step => {
+              this.completeNode(context, node, step);
+              await this.checkBudget(context);
+              const after = await this.enforcePolicies(context, 'step.after', node, { output: step.output });
+              await this.createSnapshot(context, node.id);
+
+              if (after.action === 'block') {
+                throw this.policyError(after);
+              }
+            })
+            .catch(async (error: Error) => {
+              if (context.node_status.get(node.id) === 'running' && context.abort.signal.aborted) {
+                context.node_status.set(node.id, 'cancelled');
+              } else if (context.node_status.get(node.id) === 'running') {
+                context.node_status.set(node.id, 'failed');
+                if (this.routeFailure(context, node, error)) {
+                  await this.createSnapshot(context, node.id);
+                  return;
+                }
+              }
+              failure = failure || error;
+            })
+            .finally(() => {
+              context.budget_reserved -= reservation;
+              inFlight.delete(node.id);
+            });
+
+          inFlight.set(node.id, task);
+        }
+      }
+
+      if (inFlight.size === 0) break;
+
+      // Wait for any in-flight step to settle, then reschedule
+      await Promise.race(inFlight.values());
+    }
+
+    if (failure) {
+      throw failure;
+    }
+
+    if (context.pause_for) {
+      return;
+    }
+
+    const unfinished = nodes.filter(node => context.node_status.get(node.id) === 'pending');
+    if (unfinished.length > 0) {
+      throw new Error(`Plan has unreachable nodes (cycle or missing dependency): ${unfinished.map(n => n.id).join(', ')}`);
+    }
+  }
+
+  /**
+   * Decide pending nodes whose prerequisites have settled. Returns the nodes
+   * that should run (in topological order) and marks the rest skipped,
+   * cascading until no more nodes can be decided.
+   */
+  private async resolveReadyNodes(context: ExecutionContext, nodes: PlanNode[]): Promise<PlanNode[]> {
+    const ready = new Set<PlanNode>();
+    let changed = true;
+
+    while (changed) {
+      changed = false;
+
+      for (const node of nodes) {
+        if (context.node_status.get(node.id) !== 'pending' || ready.has(node)) continue;
+
+        const decision = this.decideNode(context, node);
+        if (decision.action === 'wait') continue;
+
+        if (decision.action === 'run') {
+          ready.add(node);
+          continue;
+        }
+
+        context.node_status.set(node.id, 'skipped');
+        changed = true;
+
+        // Emit step.skipped event
+        await this.emit(context, {
+          type: 'step.skipped',
+          node_id: node.id,
+          reason: decision.reason
+        });
+
+        console.log(`[Executor] Skipping step ${node.id}: ${decision.reason}`);
+      }
+    }
+
+    return nodes.filter(node => ready.has(node));
+  }
+
+  /**
+   * Decide whether a pending node can run yet.
+   *
+   * Dependencies that are also edge sources are governed by the edge
+   * condition; plain dependencies must have completed. A node with incoming
+   * edges runs only if at least one of them was taken.
+   */
+  private decideNode(
+    context: ExecutionContext,
+    node: PlanNode
+  ): NodeDecision {
+    const incoming = context.incoming_edges.get(node.id) || [];
+    const edgeSources = new Set(incoming.map(edge => edge.from));
+    const prerequisites = [...node.depends_on, ...edgeSources].filter(id => context.node_status.has(id));
+
+    const unsettled = prerequisites.some(id => {
+      const status = context.node_status.get(id);
+      return status === 'pending' || status === 'running';
+    });
+    if (unsettled) {
+      return { action: 'wait' };
+    }
+
+    for (const depId of node.depends_on) {
+      if (!context.node_status.has(depId) || edgeSources.has(depId)) continue;
+
+      const status = context.node_status.get(depId);
+      if (status !== 'completed') {
+        return { action: 'skip', reason: `Dependency ${depId} was ${status}` };
+      }
+    }
+
+    if (incoming.length > 0 && !incoming.some(edge => context.taken_edges.has(edge))) {
+      return { action: 'skip', reason: 'No incoming edge was taken' };
+    }
+
+    return { action: 'run' };
+  }
+
+  /**
+   * Record a finished step: store its output, evaluate its outgoing edges
+   * and charge the run budget (see checkBudget for the limit)
+   */
+  private completeNode(context: ExecutionContext, node: PlanNode, step: Step): void {
+    context.node_status.set(node.id, 'completed');
+
+    // Store output in variables
+    if (step.output) {
+      context.variables[node.id] = step.output;
+    }
+
+    // Charge the actual cost; the step's reservation is released as it settles
+    context.budget_remaining -= step.cost;
+
+    this.evaluateEdges(context, node, step.output);
+  }
+
+  /**
+   * Expected cost of each node, from the run's forecast or (when the run
+   * started without one, or is resuming) a fresh estimate. Nodes without
+   * an estimate reserve nothing, and nor does any node of a plan approved
+   * despite a forecast over budget.
+   */
+  private async loadNodeEstimates(context: ExecutionContext): Promise<Map<string, number>> {
+    if (!context.node_estimates) {
+      let forecast = context.forecast;
+      if (!forecast) {
+        try {
+          forecast = await costEstimator.estimate(context.run.plan, { budget: context.budget, tenant_id: context.run.tenant_id });
+        } catch (error) {
+          console.warn(`[Executor] Cost estimate failed for run ${context.run.id}; steps reserve no budget:`, error);
+        }
+      }
+      const approvedOverBudget = forecast?.exceeds_budget && context.run.plan.approved_at;
+      context.node_estimates = approvedOverBudget
+        ? new Map()
+        : new Map((forecast?.nodes || []).map(node => [node.node_id, node.expected_cost]));
+    }
+    return context.node_estimates;
+  }
+
+  /**
+   * Emit cost.limit_warning for each newly crossed threshold, and fail the
+   * run once the budget is exhausted
+   */
+  private async checkBudget(context: ExecutionContext): Promise<void> {
+    const spent = context.budget - context.budget_remaining;
+
+    for (const threshold of context.budget_warning_thresholds) {
+      if (context.budget_warnings.has(threshold) || spent < context.budget * threshold) continue;
+      context.budget_warnings.add(threshold);
+
+      console.warn(`[Executor] Run ${context.run.id} has used ${Math.round(threshold * 100)}% of its budget`);
+
+      // Emit cost.limit_warning event
+      await this.emit(context, {
+        type: 'cost.limit_warning',
+        current_cost: context.run.cost,
+        budget: context.budget,
+        percentage: Math.round((spent / context.budget) * 100)
+      });
+    }
+
+    if (context.budget_remaining <= 0) {
+      throw Object.assign(new Error('Budget exhausted'), { code: 'BUDGET_EXHAUSTED' });
+    }
+  }
+
+  /**
+   * Route a failed step along its `failure` edges. Returns false when the
+   * node has no failure edge, in which case the failure fails the run.
+   */
+  private routeFailure(context: ExecutionContext, node: PlanNode, error: Error): boolean {
+    if (!this.hasFailureEdge(context, node.id)) {
+      return false;
+    }
+
+    console.log(`[Executor] Step ${node.id} failed, routing along failure edges: ${error.message}`);
+    this.evaluateEdges(context, node);
+    return true;
+  }
+
+  /**
+   * Evaluate the outgoing edges of a settled node and remember which were taken
+   */
+  private evaluateEdges(context: ExecutionContext, node: PlanNode, output?: any): void {
+    const status = context.node_status.get(node.id);
+
+    for (const edge of context.run.plan.dag.edges || []) {
+      if (edge.from !== node.id) continue;
+
+      let taken: boolean;
+      switch (edge.condition?.type) {
+        case 'failure':
+          taken = status === 'failed';
+          break;
+
+        case 'custom':
+          taken = status === 'completed' && evaluateCondition(edge.condition.expression || 'false', {
+            ...context.variables,
+            variables: context.variables,
+            output,
+            run: {
+              id: context.run.id,
+              cost: context.run.cost,
+              status: context.run.status,
+              intent: context.run.intent
+            }
+          });
+          break;
+
+        case 'success':
+        default:
+          taken = status === 'completed';
+      }
+
+      if (taken) {
+        context.taken_edges.add(edge);
+      }
+    }
+  }
+
+  /**
+   * Index edges by target node
+   */
+  private indexIncomingEdges(edges: PlanEdge[]): Map<string, PlanEdge[]> {
+    const index = new Map<string, PlanEdge[]>();
+    for (const edge of edges) {
+      if (!index.has(edge.to)) {
+        index.set(edge.to, []);
+      }
+      index.get(edge.to)!.push(edge);
+    }
+    return index;
+  }
+
   /**
    * Execute a single step with retry logic
    */
@@ -170,112 +865,105 @@ class Executor {
     };
 
     // Emit step.started event
-    await eventStore.append({
-      id: uuidv4(),
-      run_id: context.run.id,
+    await this.emit(context, {
       type: 'step.started',
-      timestamp: Date.now(),
       step_id: step.id,
       node_id: node.id,
       attempt: 1
-    } as any);
+    });
 
     step.status = 'running';
     step.started_at = Date.now();
 
-    // Retry loop
+    // Retry loop (full-jitter backoff, honoring server retry hints)
     const retryConfig = node.retry_policy || DEFAULT_RETRY_CONFIG;
-    let lastError: StepError | null = null;
-
-    for (let attempt = 1; attempt <= step.max_attempts; attempt++) {
-      step.attempt = attempt;
-
-      try {
-        // Execute node based on type
-        const result = await this.executeNode(context, node, step);
-
-        // Success!
-        step.status = 'completed';
-        step.completed_at = Date.now();
-        step.output = result.output;
-        step.cost = result.cost;
-
-        // Emit step.completed event
-        await eventStore.append({
-          id: uuidv4(),
-          run_id: context.run.id,
-          type: 'step.completed',
-          timestamp: Date.now(),
-          step_id: step.id,
-          duration: step.completed_at - step.started_at!,
-          output: step.output
-        } as any);
-
-        // Update run cost
-        context.run.cost += step.cost;
-
-        return step;
-
-      } catch (error: any) {
-        lastError = {
-          code: error.code || 'UNKNOWN_ERROR',
-          message: error.message,
-          details: error.details,
-          timestamp: Date.now(),
-          retryable: this.isRetryableError(error.code, retryConfig)
-        };
-
-        // Emit step.failed event
-        await eventStore.append({
-          id: uuidv4(),
-          run_id: context.run.id,
-          type: 'step.failed',
-          timestamp: Date.now(),
-          step_id: step.id,
-          error: lastError,
-          will_retry: lastError.retryable && attempt < step.max_attempts
-        } as any);
-
-        // Check if retryable
-        if (!lastError.retryable || attempt >= step.max_attempts) {
-          break; // Don't retry
-        }
+    let result: { output: any; cost: number };
 
-        // Calculate backoff delay
-        const delay = Math.min(
-          retryConfig.initial_delay * Math.pow(retryConfig.backoff_multiplier, attempt - 1),
-          retryConfig.max_delay
-        );
+    try {
+      result = await retryWithBackoff(async attempt => {
+        step.attempt = attempt;
+
+        // Aborted by the node's timeout or by cancelling the run
+        const { signal, dispose } = this.createStepSignal(context, node);
+        try {
+          // Execute node based on type
+          return await this.raceSignal(this.executeNode(context, node, step, signal), signal);
+        } finally {
+          dispose();
+        }
+      }, {
+        max_attempts: step.max_attempts,
+        initial_delay: retryConfig.initial_delay,
+        max_delay: retryConfig.max_delay,
+        multiplier: retryConfig.backoff_multiplier,
+        jitter: retryConfig.jitter,
+        retryable: error => this.isRetryableError(errorCode(error), retryConfig),
+        signal: context.abort.signal,
+        onFailure: async (error, attempt, willRetry) => {
+          // Emit step.failed event
+          await this.emit(context, {
+            type: 'step.failed',
+            step_id: step.id,
+            error: this.toStepError(context, error, retryConfig),
+            will_retry: willRetry
+          });
+        },
+        onRetry: async (nextAttempt, delay) => {
+          console.log(`[Executor] Step failed, retrying in ${delay}ms (attempt ${nextAttempt - 1}/${step.max_attempts})`);
+
+          // Emit step.retrying event
+          await this.emit(context, {
+            type: 'step.retrying',
+            step_id: step.id,
+            attempt: nextAttempt,
+            max_attempts: step.max_attempts,
+            next_retry_at: Date.now() + delay
+          });
+        }
+      });
+    } catch (error: any) {
+      // All retries exhausted (or not retryable)
+      step.status = 'failed';
+      step.error = this.toStepError(context, error, retryConfig);
 
-        console.log(`[Executor] Step failed, retrying in ${delay}ms (attempt ${attempt}/${step.max_attempts})`);
-
-        // Emit step.retrying event
-        await eventStore.append({
-          id: uuidv4(),
-          run_id: context.run.id,
-          type: 'step.retrying',
-          timestamp: Date.now(),
-          step_id: step.id,
-          attempt: attempt + 1,
-          max_attempts: step.max_attempts,
-          next_retry_at: Date.now() + delay
-        } as any);
-
-        // Wait before retry
-        await this.sleep(delay);
-      }
+      throw new Error(`Step ${node.id} failed after ${step.max_attempts} attempts: ${step.error.message}`);
     }
 
-    // All retries exhausted
-    step.status = 'failed';
-    step.error = lastError || {
-      code: 'UNKNOWN_ERROR',
-      message: 'Step failed with unknown error',
+    // Success!
+    step.status = 'completed';
+    step.completed_at = Date.now();
+    step.output = result.output;
+    step.cost = result.cost;
+
+    // Emit step.completed event
+    await this.emit(context, {
+      type: 'step.completed',
+      step_id: step.id,
+      duration: step.completed_at - step.started_at!,
+      output: step.output,
+      cost: step.cost,
+      usage: step.usage
+    });
+
+    // Update run cost
+    context.run.cost += step.cost;
+
+    return step;
+  }
+
+  /**
+   * Describe a failed attempt (code from the error or its HTTP status)
+   */
+  private toStepError(context: ExecutionContext, error: any, retryConfig: RetryConfig): StepError {
+    const code = errorCode(error);
+
+    return {
+      code,
+      message: error.message,
+      details: error.details,
       timestamp: Date.now(),
-      retryable: false
+      retryable: !context.abort.signal.aborted && this.isRetryableError(code, retryConfig)
     };
-
-    throw new Error(`Step ${node.id} failed after ${step.max_attempts} attempts: ${step.error.message}`);
   }
 
   /**
@@ -284,14 +972,15 @@ class Executor {
   private async executeNode(
     context: ExecutionContext,
     node: PlanNode,
-    step: Step
+    step: Step,
+    signal: AbortSignal
   ): Promise<{ output: any; cost: number }> {
     switch (node.type) {
       case 'tool_call':
-        return await this.executeToolCall(context, node, step);
+        return await this.executeToolCall(context, node, step, signal);
 
       case 'llm_call':
-        return await this.executeLLMCall(context, node, step);
+        return await this.executeLLMCall(context, node, step, signal);
 
       case 'verification':
         return await this.executeVerification(context, node, step);
@@ -299,28 +988,32 @@ class Executor {
       case 'approval_gate':
         return await this.executeApprovalGate(context, node, step);
 
+      case 'parallel_group':
+        return this.executeParallelGroup(context, node);
+
       default:
         throw new Error(`Unknown node type: ${node.type}`);
     }
   }
 
   /**
-   * Execute tool call with idempotency
+   * Execute tool call through the tool registry, with idempotency
    */
   private async executeToolCall(
     context: ExecutionContext,
     node: PlanNode,
-    step: Step
+    step: Step,
+    signal: AbortSignal
   ): Promise<{ output: any; cost: number }> {
     const tool = node.tool!;
-    const params = this.resolveParams(node.params, context.variables);
+    const { params, redacted } = await this.resolveParams(context, node);
 
-    // Create tool call
+    // Create tool call (secrets stay out of recorded params)
     const toolCall: ToolCall = {
       id: uuidv4(),
       step_id: step.id,
       tool,
-      params,
+      params: redacted,
       started_at: Date.now(),
       cached: false
     };
@@ -328,156 +1021,354 @@ class Executor {
     step.tool_calls.push(toolCall);
 
     // Emit tool.called event
-    await eventStore.append({
-      id: uuidv4(),
-      run_id: context.run.id,
+    await this.emit(context, {
       type: 'tool.called',
-      timestamp: Date.now(),
       tool_call_id: toolCall.id,
+      step_id: step.id,
       tool,
-      params
-    } as any);
+      params: redacted
+    });
+
+    // Requests the tool sent, and how long they waited on rate limits
+    const metrics: NodeRunMetrics = { durationMs: 0, apiCalls: 0, bytesSent: 0, bytesReceived: 0, queueTimeMs: 0 };
+    toolCall.metrics = metrics;
 
     try {
-      // Execute with idempotency
-      const { result, cached } = await idempotencyService.execute(
-        context.run.id,
-        step.id,
-        tool,
-        params,
-        async () => {
-          // Mock tool execution (replace with actual tool registry)
-          return await this.mockToolExecution(tool, params);
+      const definition = toolRegistry.require(tool);
+      const run = () => toolRegistry.execute(tool, params, {
+        run_id: context.run.id,
+        step_id: step.id,
+        timeout: node.timeout,
+        signal,
+        onCircuitChange: change => this.recordCircuitChange(context, change),
+        onQueued: queueTimeMs => {
+          metrics.apiCalls++;
+          metrics.queueTimeMs! += queueTimeMs;
         }
-      );
-
+      });
+
+      // A plan-supplied key (may use templates) holds across runs
+      const idempotencyKey = node.idempotency_key
+        ? String(await resolveTemplates(node.idempotency_key, this.templateScope(context, [])))
+        : undefined;
+
+      // Side-effecting tools are deduplicated per node; idempotent ones just run
+      const { result, cached, key } = definition.idempotent && !idempotencyKey
+        ? { result: await run(), cached: false, key: undefined }
+        : await idempotencyService.execute(context.run.id, step.id, tool, params, run, {
+            key: idempotencyKey,
+            node_id: node.id,
+            tenant_id: context.run.tenant_id
+          });
+
+      step.idempotency_key = key;
       toolCall.cached = cached;
       toolCall.response = result;
       toolCall.completed_at = Date.now();
+      this.finishToolMetrics(toolCall, params, result);
 
       // Emit tool.completed event
-      await eventStore.append({
-        id: uuidv4(),
-        run_id: context.run.id,
+      await this.emit(context, {
         type: 'tool.completed',
-        timestamp: Date.now(),
         tool_call_id: toolCall.id,
-        duration: toolCall.completed_at - toolCall.started_at,
+        duration: metrics.durationMs,
+        queue_time_ms: metrics.queueTimeMs,
         cached
-      } as any);
+      });
 
       return {
         output: result,
-        cost: cached ? 0 : 10 // Mock cost
+        cost: cached ? 0 : definition.cost
       };
 
     } catch (error: any) {
+      toolCall.completed_at = Date.now();
+      this.finishToolMetrics(toolCall, params);
       toolCall.error = {
         code: error.code || 'TOOL_ERROR',
         message: error.message,
+        http_status: httpStatus(error),
+        retry_after_ms: getRetryAfter(error),
         timestamp: Date.now()
       };
 
       // Emit tool.failed event
-      await eventStore.append({
-        id: uuidv4(),
-        run_id: context.run.id,
+      await this.emit(context, {
         type: 'tool.failed',
-        timestamp: Date.now(),
         tool_call_id: toolCall.id,
         error: toolCall.error
-      } as any);
+      });
 
       throw error;
     }
   }
 
   /**
-   * Execute LLM call (placeholder)
+   * Execute LLM call through the configured provider
+   *
+   * Params: prompt and system (templates like {{ step1.content }} are
+   * resolved first), context, model (defaults to the node's tool, e.g. 'llm.llama'),
+   * temperature and max_tokens. Token usage is priced per model.
    */
   private async executeLLMCall(
     context: ExecutionContext,
     node: PlanNode,
-    step: Step
+    step: Step,
+    signal: AbortSignal
   ): Promise<{ output: any; cost: number }> {
-    // Mock LLM call
+    const { params } = await this.resolveParams(context, node);
+    if (typeof params.prompt !== 'string' || !params.prompt.trim()) {
+      const error: any = new Error(`LLM node ${node.id} requires a prompt`);
+      error.code = 'INVALID_PARAMS';
+      throw error;
+    }
+
+    let prompt: string = params.prompt;
+    if (params.context !== undefined) {
+      prompt += `\n\nContext:\n${typeof params.context === 'string' ? params.context : JSON.stringify(params.context, null, 2)}`;
+    }
+
+    const messages: LLMMessage[] = [];
+    if (params.system) {
+      messages.push({ role: 'system', content: params.system });
+    }
+    messages.push({ role: 'user', content: prompt });
+
+    const response = await llmService.complete({
+      model: params.model || node.tool,
+      messages,
+      temperature: params.temperature ?? 0.7,
+      max_tokens: params.max_tokens ?? 2000,
+      signal
+    });
+
+    step.usage = response.usage;
+
     return {
-      output: { text: 'Mock LLM response' },
-      cost: 100
+      output: { text: response.text, model: response.usage.model, usage: response.usage },
+      cost: response.cost
     };
   }
 
   /**
-   * Execute verification (placeholder)
+   * Execute verification: build the artifact from the node's input, run the
+   * registered verifier for its type and record the result.
+   *
+   * Params: artifact_type, min_score (overrides the verifier threshold),
+   * artifact (defaults to the dependency outputs) and on_failure
+   * ('fail' | 'warn', default 'fail').
    */
   private async executeVerification(
     context: ExecutionContext,
     node: PlanNode,
     step: Step
   ): Promise<{ output: any; cost: number }> {
+    const { params } = await this.resolveParams(context, node);
+    const content = params.artifact !== undefined
+      ? params.artifact
+      : node.depends_on.length === 1
+        ? context.variables[node.depends_on[0]]
+        : Object.fromEntries(node.depends_on.map(depId => [depId, context.variables[depId]]));
+
+    const artifact: Artifact = {
+      id: uuidv4(),
+      run_id: context.run.id,
+      type: params.artifact_type || 'custom',
+      content,
+      hash: hashContent(content ?? null),
+      verification: {
+        status: 'warning',
+        score: 0,
+        checks: [],
+        verified_at: 0,
+        verifier_version: VERIFIER_VERSION
+      },
+      provenance: {
+        evidence_ids: [],
+        tool_calls: [],
+        input_artifact_ids: [],
+        memory_context: []
+      },
+      created_at: Date.now()
+    };
+
+    // Emit artifact.created event
+    await this.emit(context, {
+      type: 'artifact.created',
+      artifact_id: artifact.id,
+      artifact_type: artifact.type,
+      hash: artifact.hash
+    });
+
+    // Emit verification.started event
+    await this.emit(context, {
+      type: 'verification.started',
+      artifact_id: artifact.id,
+      verifier_type: artifact.type
+    });
+
+    let decision: PolicyDecision | undefined;
+    const result = await verificationService.verify(artifact, {
+      threshold: params.min_score,
+      evaluatePolicies: async candidate => {
+        decision = await this.enforcePolicies(context, 'artifact.created', node, { artifact: candidate });
+        return decision;
+      }
+    });
+
+    artifact.verification = result;
+    context.run.artifacts.push(artifact);
+
+    if (result.status === 'failed') {
+      // Emit verification.failed event
+      await this.emit(context, {
+        type: 'verification.failed',
+        artifact_id: artifact.id,
+        checks_failed: result.checks.filter(check => !check.passed).map(check => check.name)
+      });
+    } else {
+      // Emit verification.completed event
+      await this.emit(context, {
+        type: 'verification.completed',
+        artifact_id: artifact.id,
+        result
+      });
+
+      // Emit artifact.verified event
+      await this.emit(context, {
+        type: 'artifact.verified',
+        artifact_id: artifact.id,
+        verification_score: result.score
+      });
+    }
+
+    if (decision?.action === 'block') {
+      throw this.policyError(decision);
+    }
+
+    if (result.status === 'failed' && params.on_failure !== 'warn') {
+      const error: any = new Error(
+        `Verification of ${artifact.type} failed (score ${result.score}): ` +
+        result.checks.filter(check => !check.passed).map(check => check.message || check.name).join('; ')
+      );
+      error.code = 'VERIFICATION_FAILED';
+      error.details = { artifact_id: artifact.id, score: result.score };
+      throw error;
+    }
+
     return {
-      output: { verified: true, score: 85 },
-      cost: 0
+      output: {
+        artifact_id: artifact.id,
+        verified: result.status !== 'failed',
+        status: result.status,
+        score: result.score,
+        checks: result.checks
+      },
+      cost: result.checks.reduce((sum, check) => sum + (check.details?.cost || 0), 0) // LLM judge calls
     };
   }
 
   /**
-   * Execute approval gate (placeholder)
+   * Execute approval gate. The scheduler only starts a gate once it has been
+   * approved (see pauseForApproval), so this just records the decision.
    */
   private async executeApprovalGate(
     context: ExecutionContext,
     node: PlanNode,
     step: Step
   ): Promise<{ output: any; cost: number }> {
-    // Emit approval.requested event
-    await eventStore.append({
-      id: uuidv4(),
-      run_id: context.run.id,
-      type: 'approval.requested',
-      timestamp: Date.now(),
-      reason: 'Manual approval required'
-    } as any);
+    const approvedBy = context.approved_nodes.get(node.id);
+    if (!approvedBy) {
+      throw new Error(`Approval gate ${node.id} has not been approved`);
+    }
 
     return {
-      output: { approved: true },
+      output: { approved: true, approved_by: approvedBy },
       cost: 0
     };
   }
 
   /**
-   * Mock tool execution (replace with actual tool registry)
+   * Execute parallel group (join point for a fan-out)
+   *
+   * The group's members are its dependencies; the scheduler has already run
+   * them concurrently, so the group just collects their outputs by node ID.
    */
-  private async mockToolExecution(tool: string, params: Record<string, any>): Promise<any> {
-    console.log(`[Executor] Executing tool: ${tool}`, params);
+  private executeParallelGroup(
+    context: ExecutionContext,
+    node: PlanNode
+  ): { output: any; cost: number } {
+    const output: Record<string, any> = {};
+    for (const depId of node.depends_on) {
+      output[depId] = context.variables[depId];
+    }
+
+    return { output, cost: 0 };
+  }
+
+  /**
+   * Resolve templates in a node's params (see ./templates). Scope: step
+   * outputs by node ID (also under `steps`), `run`, and on demand `memory`
+   * (user/project/run values by key) and `secrets`.
+   *
+   * `redacted` has secret values masked, for events and policy checks.
+   */
+  private async resolveParams(
+    context: ExecutionContext,
+    node: PlanNode
+  ): Promise<{ params: Record<string, any>; redacted: Record<string, any> }> {
+    const secretValues: string[] = [];
+    const params = await resolveTemplates(node.params, this.templateScope(context, secretValues));
 
-    // Simulate network delay
-    await this.sleep(100 + Math.random() * 200);
+    return { params, redacted: redactSecrets(params, secretValues) };
+  }
+
+  /**
+   * Template scope for a run; secret values that get loaded are appended
+   * to `secretValues` for redaction
+   */
+  private templateScope(context: ExecutionContext, secretValues: string[]): TemplateScope {
+    const run = context.run;
 
     return {
-      tool,
-      params,
-      result: 'success',
-      timestamp: Date.now()
+      values: {
+        ...context.variables,
+        steps: context.variables,
+        run: {
+          id: run.id,
+          project_id: run.project_id,
+          user_id: run.user_id,
+          intent: run.intent,
+          cost: run.cost,
+          status: run.status
+        }
+      },
+      loaders: {
+        memory: () => this.loadMemoryScope(run),
+        secrets: async expressions => {
+          const secrets = await loadSecrets(expressions);
+          secretValues.push(...Object.values(secrets));
+          return secrets;
+        }
+      }
     };
   }
 
   /**
-   * Resolve params with variable substitution
+   * Memory visible to templates: { user, project, run } maps of key → value
    */
-  private resolveParams(params: Record<string, any>, variables: Record<string, any>): Record<string, any> {
-    const resolved: Record<string, any> = {};
-
-    for (const [key, value] of Object.entries(params)) {
-      if (typeof value === 'string' && value.startsWith('$')) {
-        // Variable reference
-        const varName = value.substring(1);
-        resolved[key] = variables[varName];
-      } else {
-        resolved[key] = value;
+  private async loadMemoryScope(run: Run): Promise<Record<string, Record<string, any>>> {
+    const scopes: Array<[MemoryScope, string]> = [['user', run.user_id], ['project', run.project_id], ['run', run.id]];
+    const memory: Record<string, Record<string, any>> = {};
+
+    for (const [scope, scopeId] of scopes) {
+      memory[scope] = {};
+      for (const entry of await memoryService.query({ tenant_id: run.tenant_id, scope, scope_id: scopeId })) {
+        memory[scope][entry.key] = entry.value;
       }
     }
 
-    return resolved;
+    return memory;
   }
 
   /**
@@ -488,25 +1379,30 @@ class Executor {
   }
 
   /**
-   * Topological sort of DAG nodes (for linear execution)
+   * Topological sort of DAG nodes (scheduling order for ready nodes).
+   * Edge sources count as dependencies of the edge target.
    */
-  private topologicalSort(nodes: PlanNode[]): PlanNode[] {
+  private topologicalSort(nodes: PlanNode[], edges: PlanEdge[] = []): PlanNode[] {
     // Simple topological sort (assumes acyclic graph)
     const sorted: PlanNode[] = [];
     const visited = new Set<string>();
 
     const visit = (node: PlanNode) => {
       if (visited.has(node.id)) return;
+      visited.add(node.id);
 
       // Visit dependencies first
-      for (const depId of node.depends_on) {
+      const depIds = [
+        ...node.depends_on,
+        ...edges.filter(edge => edge.to === node.id).map(edge => edge.from)
+      ];
+      for (const depId of depIds) {
         const depNode = nodes.find(n => n.id === depId);
         if (depNode) {
           visit(depNode);
         }
       }
 
-      visited.add(node.id);
       sorted.push(node);
     };
 
@@ -518,10 +1414,491 @@ class Executor {
   }
 
   /**
-   * Sleep utility
+   * Pause the run until someone approves the plan (no node) or an approval gate.
+   *
+   * Gate params: `reason`, `approver` (only they may decide) and
+   * `approval_timeout` (ms, after which the request is auto-denied).
+   */
+  private async pauseForApproval(context: ExecutionContext, node?: PlanNode, reason?: string): Promise<void> {
+    const run = context.run;
+    const timeout: number | undefined = node?.params.approval_timeout;
+
+    const approval: PendingApproval = {
+      run_id: run.id,
+      tenant_id: run.tenant_id,
+      node_id: node?.id,
+      approver: node?.params.approver,
+      reason: reason || node?.params.reason || (node ? 'Manual approval required' : 'Plan requires approval'),
+      requested_at: Date.now(),
+      expires_at: timeout ? Date.now() + timeout : undefined
+    };
+
+    // Emit approval.requested event
+    await this.emit(context, {
+      type: 'approval.requested',
+      node_id: approval.node_id,
+      approver: approval.approver,
+      expires_at: approval.expires_at,
+      reason: approval.reason
+    });
+
+    run.status = 'paused';
+    run.paused_at = Date.now();
+    await this.createSnapshot(context, node?.id || run.plan.dag.entry_node_id);
+
+    // Emit run.paused event (no node_id for plan-level approval)
+    await this.emit(context, {
+      type: 'run.paused',
+      reason: 'approval_gate',
+      node_id: node?.id
+    });
+
+    // A request left over from an earlier pause (resumed directly) must not expire this one
+    this.clearPendingApproval(run.id);
+
+    const timer = timeout
+      ? setTimeout(() => {
+          this.denyStep(run.id, 'system', 'Approval timed out', approval.node_id)
+            .catch(err => console.error(`[Executor] Failed to expire approval for run ${run.id}:`, err));
+        }, timeout)
+      : undefined;
+
+    this.pendingApprovals.set(run.id, { ...approval, timer, options: context.options });
+
+    console.log(`[Executor] Run ${run.id} paused for ${node ? `approval at ${node.id}` : 'plan approval'}`);
+  }
+
+  /**
+   * Look up the run and the approval it is waiting on, and check the decider
+   */
+  private async getPendingDecision(
+    runId: string,
+    decidedBy: string,
+    nodeId?: string,
+    tenantId?: string
+  ): Promise<{ run: Run; approval: PendingApproval }> {
+    const run = await this.findRun(runId, tenantId);
+    if (!run) {
+      throw new Error(`Run ${runId} not found`);
+    }
+    if (run.status !== 'paused') {
+      throw new Error(`Run ${runId} is not awaiting approval (status: ${run.status})`);
+    }
+    this.runs.set(run.id, run);
+
+    const approval = this.pendingApprovals.get(runId) || await this.findPendingApproval(runId);
+    if (!approval) {
+      throw new Error(`Run ${runId} has no pending approval`);
+    }
+    if (nodeId && approval.node_id !== nodeId) {
+      throw new Error(`Run ${runId} is waiting on ${approval.node_id || 'plan approval'}, not ${nodeId}`);
+    }
+    if (approval.approver && decidedBy !== 'system' && approval.approver !== decidedBy) {
+      throw new Error(`Only ${approval.approver} can decide this approval`);
+    }
+
+    return { run, approval };
+  }
+
+  /**
+   * Recover the outstanding approval request from events (e.g., after a restart)
+   */
+  private async findPendingApproval(runId: string): Promise<PendingApproval | null> {
+    const events = await eventStore.query({
+      run_id: runId,
+      event_types: ['approval.requested', 'approval.granted', 'approval.denied']
+    });
+
+    const last = events[events.length - 1];
+    if (!last || last.type !== 'approval.requested') return null;
+
+    const request = last as ApprovalRequestedEvent;
+    return {
+      run_id: runId,
+      tenant_id: request.tenant_id,
+      node_id: request.node_id,
+      approver: request.approver,
+      reason: request.reason,
+      requested_at: request.timestamp,
+      expires_at: request.expires_at
+    };
+  }
+
+  private clearPendingApproval(runId: string): void {
+    const pending = this.pendingApprovals.get(runId);
+    if (pending?.timer) {
+      clearTimeout(pending.timer);
+    }
+    this.pendingApprovals.delete(runId);
+  }
+
+  /**
+   * Load granted approvals from the run's events into the context
+   */
+  private restoreApprovals(context: ExecutionContext, events: ApprovalGrantedEvent[]): void {
+    for (const event of events) {
+      if (event.type !== 'approval.granted') continue;
+
+      if (event.node_id) {
+        context.approved_nodes.set(event.node_id, event.approved_by);
+      } else if (!context.run.plan.approved_at) {
+        context.run.plan.approved_at = event.timestamp;
+        context.run.plan.approved_by = event.approved_by;
+      }
+    }
+  }
+
+  /**
+   * Evaluate policies for a node about to start (step.before, plus
+   * tool.before for tool calls) and return the stronger decision
+   */
+  private async checkNodePolicies(context: ExecutionContext, node: PlanNode): Promise<PolicyDecision> {
+    const stepDecision = await this.enforcePolicies(context, 'step.before', node);
+    if (node.type !== 'tool_call' || stepDecision.action === 'block') {
+      return stepDecision;
+    }
+
+    const toolDecision = await this.enforcePolicies(context, 'tool.before', node);
+    return POLICY_ACTION_SEVERITY[toolDecision.action] >= POLICY_ACTION_SEVERITY[stepDecision.action]
+      ? toolDecision
+      : stepDecision;
+  }
+
+  /**
+   * Evaluate policies at a hook, record the decision as events and
+   * dispatch notifications. Enforcement is up to the caller.
+   */
+  private async enforcePolicies(
+    context: ExecutionContext,
+    hook: PolicyHook,
+    node?: PlanNode,
+    extra: Record<string, any> = {}
+  ): Promise<PolicyDecision> {
+    const run = context.run;
+    // Unresolvable params fail the step itself; policies see them unresolved
+    const params = node
+      ? await this.resolveParams(context, node).then(resolved => resolved.redacted, () => node.params)
+      : undefined;
+
+    const decision = policyEngine.evaluate(hook, run, {
+      run: {
+        id: run.id,
+        project_id: run.project_id,
+        user_id: run.user_id,
+        status: run.status,
+        cost: run.cost,
+        budget_remaining: context.budget_remaining,
+        intent: run.intent,
+        source: run.metadata.source
+      },
+      step: node ? { node_id: node.id, type: node.type, tool: node.tool, params } : undefined,
+      tool: node?.type === 'tool_call' ? { name: node.tool, params } : undefined,
+      ...extra
+    });
+
+    if (decision.policy_ids.length === 0) {
+      return decision;
+    }
+
+    for (const violation of decision.violations) {
+      // Emit policy.violation event
+      await this.emit(context, {
+        type: 'policy.violation',
+        policy_id: violation.policy.id,
+        rule: violation.rule,
+        action_taken: violation.rule.action,
+        hook,
+        node_id: node?.id,
+        metadata: violation.error ? { condition_error: violation.error } : undefined
+      });
+    }
+
+    // Emit policy.evaluated event
+    await this.emit(context, {
+      type: 'policy.evaluated',
+      hook,
+      node_id: node?.id,
+      policy_ids: decision.policy_ids,
+      decision: decision.action,
+      violations: decision.violations.length
+    });
+
+    policyEngine.dispatchNotifications(run.id, decision);
+
+    return decision;
+  }
+
+  /**
+   * Error for a blocking policy decision
+   */
+  private policyError(decision: PolicyDecision): Error {
+    const blocking = decision.violations.find(v => v.rule.action === 'block')!;
+    const error: any = new Error(`Blocked by policy "${blocking.policy.name}": ${blocking.rule.message}`);
+    error.code = 'POLICY_BLOCKED';
+    return error;
+  }
+
+  /**
+   * Estimate the run's cost from history and price tables. A failed
+   * estimate doesn't stop the run.
+   */
+  private async forecastCost(context: ExecutionContext): Promise<CostEstimate | undefined> {
+    const plan = context.run.plan;
+
+    try {
+      const forecast = await costEstimator.estimate(plan, { budget: context.budget, tenant_id: context.run.tenant_id });
+      plan.estimated_cost = forecast.expected_cost;
+      plan.estimated_duration = forecast.estimated_duration;
+      return forecast;
+    } catch (error) {
+      console.warn(`[Executor] Cost forecast failed for run ${context.run.id}:`, error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Approval reason when the forecast exceeds the budget
+   */
+  private forecastReason(context: ExecutionContext): string {
+    const forecast = context.forecast!;
+    return `Forecast cost ${formatCents(forecast.expected_cost)} ` +
+      `(${formatCents(forecast.low_cost)}-${formatCents(forecast.high_cost)}) exceeds budget ${formatCents(context.budget)}`;
+  }
+
+  /**
+   * Approval reason from a require_approval decision
+   */
+  private policyReason(decision: PolicyDecision): string | undefined {
+    const rule = decision.violations.find(v => v.rule.action === 'require_approval');
+    return rule ? `Policy "${rule.policy.name}": ${rule.rule.message}` : undefined;
+  }
+
+  /**
+   * Capture run state at a step boundary and record it as an event
+   */
+  private async createSnapshot(context: ExecutionContext, currentNodeId: string): Promise<Snapshot> {
+    const nodes = context.run.plan.dag.nodes;
+    const edges = context.run.plan.dag.edges || [];
+    const withStatus = (...statuses: StepStatus[]) =>
+      nodes.filter(node => statuses.includes(context.node_status.get(node.id)!)).map(node => node.id);
+
+    // Routed failures are settled; unrouted ones must run again on resume
+    const routedFailures = withStatus('failed').filter(id => this.hasFailureEdge(context, id));
+    const settled = new Set([...withStatus('completed', 'skipped'), ...routedFailures]);
+
+    const snapshot: Snapshot = {
+      id: uuidv4(),
+      run_id: context.run.id,
+      created_at: Date.now(),
+      state: {
+        current_node_id: currentNodeId,
+        completed_steps: withStatus('completed'),
+        pending_steps: nodes.filter(node => !settled.has(node.id)).map(node => node.id),
+        variables: { ...context.variables },
+        memory_snapshot: await memoryService.query({ tenant_id: context.run.tenant_id, scope: 'run', scope_id: context.run.id }),
+        events_count: context.events_count,
+        skipped_steps: withStatus('skipped'),
+        failed_steps: routedFailures,
+        taken_edges: edges.map((edge, index) => context.taken_edges.has(edge) ? index : -1).filter(i => i >= 0),
+        cost: context.run.cost,
+        budget_remaining: context.budget_remaining
+      }
+    };
+
+    context.run.current_snapshot = snapshot;
+
+    // Emit snapshot.created event
+    await this.emit(context, {
+      type: 'snapshot.created',
+      snapshot_id: snapshot.id,
+      snapshot
+    });
+
+    return snapshot;
+  }
+
+  /**
+   * Load node statuses, variables, edges and budget from a snapshot
+   */
+  private restoreSnapshot(context: ExecutionContext, snapshot: Snapshot): void {
+    const { state } = snapshot;
+    const edges = context.run.plan.dag.edges || [];
+
+    for (const nodeId of state.completed_steps) context.node_status.set(nodeId, 'completed');
+    for (const nodeId of state.skipped_steps || []) context.node_status.set(nodeId, 'skipped');
+    for (const nodeId of state.failed_steps || []) context.node_status.set(nodeId, 'failed');
+    for (const index of state.taken_edges || []) {
+      if (edges[index]) context.taken_edges.add(edges[index]);
+    }
+
+    context.variables = { ...state.variables };
+    context.run.cost = state.cost ?? context.run.cost;
+    context.budget_remaining = state.budget_remaining ?? context.budget_remaining - context.run.cost;
+    context.current_step_index = state.completed_steps.length;
+
+    // Thresholds crossed before the snapshot were already warned about
+    const spent = context.budget - context.budget_remaining;
+    for (const threshold of context.budget_warning_thresholds) {
+      if (spent >= context.budget * threshold) context.budget_warnings.add(threshold);
+    }
+  }
+
+  /**
+   * Put back run-scoped memories that are no longer held in-process
+   */
+  private async restoreRunMemory(run: Run, snapshot: Snapshot): Promise<void> {
+    for (const memory of snapshot.state.memory_snapshot) {
+      const existing = await memoryService.query({ tenant_id: run.tenant_id, scope: 'run', scope_id: run.id, key: memory.key });
+      if (existing.length === 0) {
+        await memoryService.set('run', run.id, memory.key, memory.value, memory.type, memory.ttl, run.tenant_id);
+      }
+    }
+  }
+
+  /**
+   * Find a snapshot by ID, or the latest one for the run
+   */
+  private async findSnapshot(runId: string, snapshotId?: string): Promise<Snapshot | null> {
+    const snapshots = await this.getSnapshots(runId);
+    if (snapshotId) {
+      return snapshots.find(snapshot => snapshot.id === snapshotId) || null;
+    }
+    return snapshots[snapshots.length - 1] || null;
+  }
+
+  /**
+   * Look up a run started here or rebuilt from its events. With a tenant,
+   * another tenant's run is treated as missing.
+   */
+  private async findRun(runId: string, tenantId?: string): Promise<Run | null> {
+    const run = this.runs.get(runId) || await this.rebuildRun(runId);
+    return run && tenantId && run.tenant_id !== tenantId ? null : run;
+  }
+
+  /**
+   * Rebuild a Run from its events (e.g., after a restart with durable storage)
    */
-  private sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  private async rebuildRun(runId: string): Promise<Run | null> {
+    const run = await eventStore.reconstructRun(runId);
+    if (!run || !run.plan) return null;
+
+    return { ...run, events: [] };
+  }
+
+  private hasFailureEdge(context: ExecutionContext, nodeId: string): boolean {
+    return (context.run.plan.dag.edges || []).some(
+      edge => edge.from === nodeId && edge.condition?.type === 'failure'
+    );
+  }
+
+  /**
+   * Append an event for the run. Appends are chained so events from
+   * concurrent steps land in the store in the order they were emitted.
+   */
+  private emit(context: ExecutionContext, event: EventBody): Promise<void> {
+    const append = context.event_chain.then(() => eventStore.append({
+      id: uuidv4(),
+      run_id: context.run.id,
+      tenant_id: context.run.tenant_id,
+      timestamp: Date.now(),
+      ...event
+    })).then(() => undefined);
+
+    context.event_chain = append.catch(() => undefined);
+    context.events_count++;
+    return append;
+  }
+
+  /**
+   * Record a breaker opening or closing on the run that caused it
+   */
+  private recordCircuitChange(context: ExecutionContext, change: CircuitChange): void {
+    let recorded: Promise<void> | undefined;
+    if (change.to === 'open') {
+      recorded = this.emit(context, {
+        type: 'circuit.opened',
+        integration: change.name,
+        failures: change.failures,
+        retry_at: change.retry_at
+      });
+    } else if (change.to === 'closed') {
+      recorded = this.emit(context, {
+        type: 'circuit.closed',
+        integration: change.name
+      });
+    }
+
+    // Nothing awaits the breaker listener, so a failed append is only logged
+    recorded?.catch(err => console.error(`[Executor] Failed to record circuit change for run ${context.run.id}:`, err));
+  }
+
+  /**
+   * Fill in a finished tool call's timings and payload sizes. Execution
+   * time excludes time spent queued behind rate limits.
+   */
+  private finishToolMetrics(toolCall: ToolCall, params: Record<string, any>, response?: any): void {
+    const metrics = toolCall.metrics!;
+    metrics.durationMs = toolCall.completed_at! - toolCall.started_at;
+    metrics.executionTimeMs = Math.max(0, metrics.durationMs - (metrics.queueTimeMs || 0));
+    if (metrics.apiCalls > 0) {
+      metrics.bytesSent = byteLength(params);
+      metrics.bytesReceived = byteLength(response);
+    }
+  }
+
+  /**
+   * Signal for one step attempt: aborts with TIMEOUT after node.timeout
+   * (when set) or with the run's CANCELLED error
+   */
+  private createStepSignal(context: ExecutionContext, node: PlanNode): { signal: AbortSignal; dispose: () => void } {
+    const controller = new AbortController();
+    const runSignal = context.abort.signal;
+
+    const onCancel = () => controller.abort(runSignal.reason);
+    if (runSignal.aborted) onCancel();
+    else runSignal.addEventListener('abort', onCancel, { once: true });
+
+    const timer = node.timeout > 0
+      ? setTimeout(() => controller.abort(
+          Object.assign(new Error(`Step ${node.id} timed out after ${node.timeout}ms`), { code: 'TIMEOUT' })
+        ), node.timeout)
+      : undefined;
+
+    return {
+      signal: controller.signal,
+      dispose: () => {
+        clearTimeout(timer);
+        runSignal.removeEventListener('abort', onCancel);
+      }
+    };
+  }
+
+  /**
+   * Settle with the promise, or reject with the signal's reason as soon as
+   * it aborts (for work that doesn't watch the signal itself)
+   */
+  private raceSignal<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+    if (signal.aborted) return Promise.reject(signal.reason);
+
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => reject(signal.reason);
+      signal.addEventListener('abort', onAbort, { once: true });
+      promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+    });
+  }
+}
+
+// ============= UTILITIES =============
+
+/**
+ * UTF-8 size of a value serialized as JSON
+ */
+function byteLength(value: any): number {
+  if (value === undefined) return 0;
+  try {
+    return new TextEncoder().encode(JSON.stringify(value)).length;
+  } catch {
+    return 0; // Not serializable (e.g., circular)
   }
 }
 
@@ -534,8 +1911,42 @@ export const executor = new Executor();
 /**
  * Execute a run
  */
-export async function executeRun(run: Run): Promise<Run> {
-  return executor.executeRun(run);
+export async function executeRun(run: Run, options?: ExecuteRunOptions): Promise<Run> {
+  return executor.executeRun(run, options);
+}
+
+/**
+ * Resume a failed or paused run from a snapshot
+ */
+export async function resumeRun(runId: string, snapshotId?: string, options?: ExecuteRunOptions): Promise<Run> {
+  return executor.resumeRun(runId, snapshotId, options);
+}
+
+/**
+ * Cancel an executing or paused run
+ */
+export async function cancelRun(runId: string, cancelledBy: string, reason: string, tenantId?: string): Promise<Run> {
+  return executor.cancelRun(runId, cancelledBy, reason, tenantId);
+}
+
+/**
+ * Approve a paused run's pending approval and resume it
+ */
+export async function approveStep(runId: string, approvedBy: string, nodeId?: string, tenantId?: string): Promise<Run> {
+  return executor.approveStep(runId, approvedBy, nodeId, tenantId);
+}
+
+/**
+ * Deny a paused run's pending approval (fails the run)
+ */
+export async function denyStep(
+  runId: string,
+  deniedBy: string,
+  reason: string,
+  nodeId?: string,
+  tenantId?: string
+): Promise<Run> {
+  return executor.denyStep(runId, deniedBy, reason, nodeId, tenantId);
 }
 
 /**
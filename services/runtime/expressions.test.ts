@@ -0,0 +1,68 @@
+/**
+ * Safe Expressions
+ *
+ * Edge conditions, policy rules and templates evaluate untrusted text, so
+ * the evaluator must reject anything beyond data access and the listed
+ * operators and methods.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { evaluateCondition, evaluateExpression, ExpressionError } from './expressions';
+
+const scope = {
+  run: { cost: 250, tags: ['urgent', 'prd'] },
+  research: { findings: [{ title: 'Pricing', verified: true }, { title: 'Churn', verified: false }] },
+  output: { score: 0.82, status: 'Passed ' }
+};
+
+describe('evaluateExpression', () => {
+  it('reads paths, indexes and lengths', () => {
+    expect(evaluateExpression('research.findings[0].title', scope)).toBe('Pricing');
+    expect(evaluateExpression("output['score']", scope)).toBe(0.82);
+    expect(evaluateExpression('research.findings.length', scope)).toBe(2);
+  });
+
+  it('applies operators with precedence, short-circuiting and ternaries', () => {
+    expect(evaluateExpression('run.cost + 50 * 2', scope)).toBe(350);
+    expect(evaluateExpression('(run.cost + 50) * 2', scope)).toBe(600);
+    expect(evaluateExpression('missing.value ?? "fallback"', scope)).toBe('fallback');
+    expect(evaluateExpression('output.score >= 0.8 ? "pass" : "fail"', scope)).toBe('pass');
+    expect(evaluateCondition('run.cost > 100 && !output.missing', scope)).toBe(true);
+  });
+
+  it('calls whitelisted methods', () => {
+    expect(evaluateExpression("run.tags.includes('urgent')", scope)).toBe(true);
+    expect(evaluateExpression('output.status.trim().toLowerCase()', scope)).toBe('passed');
+    expect(evaluateExpression("research.findings.some('verified')", scope)).toBe(true);
+    expect(evaluateExpression("research.findings.every('verified')", scope)).toBe(false);
+  });
+
+  it('resolves unknown identifiers to undefined instead of globals', () => {
+    expect(evaluateExpression('process.env.HOME', scope)).toBeUndefined();
+    expect(evaluateExpression('globalThis', scope)).toBeUndefined();
+    expect(evaluateExpression('missing.deep.path', scope)).toBeUndefined();
+    expect(evaluateExpression('run.toString', scope)).toBeUndefined();
+  });
+
+  it.each([
+    ['run.constructor', "Access to 'constructor' is not allowed"],
+    ["run['__proto__']", "Access to '__proto__' is not allowed"],
+    ["'a'.constructor.constructor('return process')()", "Unexpected token '('"],
+    ['run.tags.map(x)', "Method 'map' is not allowed"],
+    ['run.toString()', "Method 'toString' is not allowed"],
+    ["eval('1')", "Unexpected token '('"],
+    ['new Date()', "Unexpected token 'Date'"],
+    ['run.cost = 0', "Unexpected character '='"],
+    ['run.cost; process.exit()', "Unexpected character ';'"],
+    ['`${run.cost}`', "Unexpected character '`'"]
+  ])('rejects %s', (expression, message) => {
+    expect(() => evaluateExpression(expression, scope)).toThrow(ExpressionError);
+    expect(() => evaluateExpression(expression, scope)).toThrow(message);
+  });
+
+  it('reports malformed expressions', () => {
+    expect(() => evaluateExpression('(run.cost', scope)).toThrow("Expected ')'");
+    expect(() => evaluateExpression('run.cost +', scope)).toThrow('Unexpected end of expression');
+    expect(() => evaluateExpression("'unterminated", scope)).toThrow('Unterminated string');
+  });
+});
@@ -0,0 +1,404 @@
+/**
+ * Expressions - Safe Expression Evaluator for AURA OS
+ *
+ * Evaluates small JavaScript-like expressions against a plain data scope
+ * without `eval` or `new Function`:
+ * - Literals: numbers, 'strings', "strings", true, false, null, undefined
+ * - Paths: run.cost, research.findings[0].title, output['score']
+ * - Operators: ! && || ?? === !== == != < <= > >= + - * / % and ( )
+ * - Ternary: cond ? a : b
+ * - Whitelisted methods: includes, startsWith, endsWith, toLowerCase,
+ *   toUpperCase, trim, join, some(field), every(field)
+ *
+ * Used by the executor for custom edge conditions, by the policy engine
+ * for rule conditions and by ./templates for parameter placeholders.
+ */
+
+// ============= TYPES =============
+
+type Token =
+  | { kind: 'number'; value: number }
+  | { kind: 'string'; value: string }
+  | { kind: 'ident'; value: string }
+  | { kind: 'op'; value: string };
+
+type Node =
+  | { kind: 'literal'; value: any }
+  | { kind: 'ident'; name: string }
+  | { kind: 'member'; object: Node; property: Node; computed: boolean }
+  | { kind: 'call'; object: Node; method: string; args: Node[] }
+  | { kind: 'unary'; op: string; operand: Node }
+  | { kind: 'binary'; op: string; left: Node; right: Node }
+  | { kind: 'conditional'; test: Node; consequent: Node; alternate: Node };
+
+export class ExpressionError extends Error {
+  code = 'EXPRESSION_ERROR';
+
+  constructor(message: string, public expression: string) {
+    super(`${message} in expression "${expression}"`);
+    this.name = 'ExpressionError';
+  }
+}
+
+// ============= CONSTANTS =============
+
+const OPERATORS = ['===', '!==', '==', '!=', '<=', '>=', '&&', '||', '??', '<', '>', '+', '-', '*', '/', '%', '!', '(', ')', '[', ']', '.', ',', '?', ':'];
+
+const BINARY_PRECEDENCE: Record<string, number> = {
+  '??': 1,
+  '||': 2,
+  '&&': 3,
+  '===': 4, '!==': 4, '==': 4, '!=': 4,
+  '<': 5, '<=': 5, '>': 5, '>=': 5,
+  '+': 6, '-': 6,
+  '*': 7, '/': 7, '%': 7
+};
+
+const KEYWORDS: Record<string, any> = {
+  true: true,
+  false: false,
+  null: null,
+  undefined: undefined
+};
+
+const ALLOWED_METHODS = new Set([
+  'includes',
+  'startsWith',
+  'endsWith',
+  'toLowerCase',
+  'toUpperCase',
+  'trim',
+  'join',
+  'some',
+  'every'
+]);
+
+const BLOCKED_PROPERTIES = new Set(['__proto__', 'prototype', 'constructor']);
+
+// Compiled expressions, keyed by source text
+const cache = new Map<string, Node>();
+
+// ============= TOKENIZER =============
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const ch = source[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    if (/[0-9]/.test(ch)) {
+      const match = source.slice(i).match(/^[0-9]+(\.[0-9]+)?/)!;
+      tokens.push({ kind: 'number', value: parseFloat(match[0]) });
+      i += match[0].length;
+      continue;
+    }
+
+    if (ch === '"' || ch === "'") {
+      let value = '';
+      let j = i + 1;
+      while (j < source.length && source[j] !== ch) {
+        if (source[j] === '\\' && j + 1 < source.length) {
+          j++;
+        }
+        value += source[j];
+        j++;
+      }
+      if (j >= source.length) {
+        throw new ExpressionError('Unterminated string', source);
+      }
+      tokens.push({ kind: 'string', value });
+      i = j + 1;
+      continue;
+    }
+
+    if (/[A-Za-z_$]/.test(ch)) {
+      const match = source.slice(i).match(/^[A-Za-z_$][A-Za-z0-9_$]*/)!;
+      tokens.push({ kind: 'ident', value: match[0] });
+      i += match[0].length;
+      continue;
+    }
+
+    const op = OPERATORS.find(candidate => source.startsWith(candidate, i));
+    if (!op) {
+      throw new ExpressionError(`Unexpected character '${ch}' at position ${i}`, source);
+    }
+    tokens.push({ kind: 'op', value: op });
+    i += op.length;
+  }
+
+  return tokens;
+}
+
+// ============= PARSER =============
+
+class Parser {
+  private position = 0;
+
+  constructor(private tokens: Token[], private source: string) {}
+
+  parse(): Node {
+    const node = this.parseConditional();
+    if (this.position < this.tokens.length) {
+      throw this.error(`Unexpected token '${this.tokens[this.position].value}'`);
+    }
+    return node;
+  }
+
+  private parseConditional(): Node {
+    const test = this.parseBinary(0);
+    if (!this.matchOp('?')) return test;
+
+    const consequent = this.parseConditional();
+    this.expectOp(':');
+    const alternate = this.parseConditional();
+    return { kind: 'conditional', test, consequent, alternate };
+  }
+
+  private parseBinary(minPrecedence: number): Node {
+    let left = this.parseUnary();
+
+    while (true) {
+      const token = this.peek();
+      if (!token || token.kind !== 'op') break;
+      const precedence = BINARY_PRECEDENCE[token.value];
+      if (precedence === undefined || precedence <= minPrecedence) break;
+
+      this.position++;
+      const right = this.parseBinary(precedence);
+      left = { kind: 'binary', op: token.value, left, right };
+    }
+
+    return left;
+  }
+
+  private parseUnary(): Node {
+    if (this.matchOp('!')) {
+      return { kind: 'unary', op: '!', operand: this.parseUnary() };
+    }
+    if (this.matchOp('-')) {
+      return { kind: 'unary', op: '-', operand: this.parseUnary() };
+    }
+    return this.parsePostfix(this.parsePrimary());
+  }
+
+  private parsePostfix(node: Node): Node {
+    while (true) {
+      if (this.matchOp('.')) {
+        const token = this.next();
+        if (!token || token.kind !== 'ident') {
+          throw this.error('Expected property name after "."');
+        }
+
+        if (this.matchOp('(')) {
+          node = { kind: 'call', object: node, method: token.value, args: this.parseArguments() };
+        } else {
+          node = { kind: 'member', object: node, property: { kind: 'literal', value: token.value }, computed: false };
+        }
+      } else if (this.matchOp('[')) {
+        const property = this.parseConditional();
+        this.expectOp(']');
+        node = { kind: 'member', object: node, property, computed: true };
+      } else {
+        return node;
+      }
+    }
+  }
+
+  private parseArguments(): Node[] {
+    const args: Node[] = [];
+    if (this.matchOp(')')) return args;
+
+    do {
+      args.push(this.parseConditional());
+    } while (this.matchOp(','));
+
+    this.expectOp(')');
+    return args;
+  }
+
+  private parsePrimary(): Node {
+    const token = this.next();
+    if (!token) {
+      throw this.error('Unexpected end of expression');
+    }
+
+    switch (token.kind) {
+      case 'number':
+      case 'string':
+        return { kind: 'literal', value: token.value };
+
+      case 'ident':
+        if (Object.prototype.hasOwnProperty.call(KEYWORDS, token.value)) {
+          return { kind: 'literal', value: KEYWORDS[token.value] };
+        }
+        return { kind: 'ident', name: token.value };
+
+      case 'op':
+        if (token.value === '(') {
+          const node = this.parseConditional();
+          this.expectOp(')');
+          return node;
+        }
+        throw this.error(`Unexpected token '${token.value}'`);
+    }
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.position];
+  }
+
+  private next(): Token | undefined {
+    return this.tokens[this.position++];
+  }
+
+  private matchOp(op: string): boolean {
+    const token = this.peek();
+    if (token && token.kind === 'op' && token.value === op) {
+      this.position++;
+      return true;
+    }
+    return false;
+  }
+
+  private expectOp(op: string): void {
+    if (!this.matchOp(op)) {
+      throw this.error(`Expected '${op}'`);
+    }
+  }
+
+  private error(message: string): ExpressionError {
+    return new ExpressionError(message, this.source);
+  }
+}
+
+// ============= EVALUATOR =============
+
+function evaluateNode(node: Node, scope: Record<string, any>, source: string): any {
+  switch (node.kind) {
+    case 'literal':
+      return node.value;
+
+    case 'ident':
+      return Object.prototype.hasOwnProperty.call(scope, node.name) ? scope[node.name] : undefined;
+
+    case 'member': {
+      const object = evaluateNode(node.object, scope, source);
+      const property = evaluateNode(node.property, scope, source);
+      if (object === null || object === undefined) return undefined;
+      if (BLOCKED_PROPERTIES.has(String(property))) {
+        throw new ExpressionError(`Access to '${property}' is not allowed`, source);
+      }
+      if (property === 'length' && (typeof object === 'string' || Array.isArray(object))) {
+        return object.length;
+      }
+      return Object.prototype.hasOwnProperty.call(object, property) ? object[property] : undefined;
+    }
+
+    case 'call': {
+      if (!ALLOWED_METHODS.has(node.method)) {
+        throw new ExpressionError(`Method '${node.method}' is not allowed`, source);
+      }
+      const object = evaluateNode(node.object, scope, source);
+      const args = node.args.map(arg => evaluateNode(arg, scope, source));
+      return callMethod(object, node.method, args, source);
+    }
+
+    case 'unary': {
+      const operand = evaluateNode(node.operand, scope, source);
+      return node.op === '!' ? !operand : -operand;
+    }
+
+    case 'binary': {
+      // Short-circuit operators
+      if (node.op === '&&') {
+        return evaluateNode(node.left, scope, source) && evaluateNode(node.right, scope, source);
+      }
+      if (node.op === '||') {
+        return evaluateNode(node.left, scope, source) || evaluateNode(node.right, scope, source);
+      }
+      if (node.op === '??') {
+        return evaluateNode(node.left, scope, source) ?? evaluateNode(node.right, scope, source);
+      }
+
+      const left = evaluateNode(node.left, scope, source);
+      const right = evaluateNode(node.right, scope, source);
+
+      switch (node.op) {
+        case '===': return left === right;
+        case '!==': return left !== right;
+        case '==': return left == right;
+        case '!=': return left != right;
+        case '<': return left < right;
+        case '<=': return left <= right;
+        case '>': return left > right;
+        case '>=': return left >= right;
+        case '+': return left + right;
+        case '-': return left - right;
+        case '*': return left * right;
+        case '/': return left / right;
+        case '%': return left % right;
+      }
+      throw new ExpressionError(`Unknown operator '${node.op}'`, source);
+    }
+
+    case 'conditional':
+      return evaluateNode(node.test, scope, source)
+        ? evaluateNode(node.consequent, scope, source)
+        : evaluateNode(node.alternate, scope, source);
+  }
+}
+
+function callMethod(object: any, method: string, args: any[], source: string): any {
+  if (object === null || object === undefined) return undefined;
+
+  // some/every take a field name (or nothing) instead of a callback
+  if (method === 'some' || method === 'every') {
+    if (!Array.isArray(object)) {
+      throw new ExpressionError(`'${method}' requires an array`, source);
+    }
+    const field = args[0];
+    const test = (item: any) => Boolean(field === undefined ? item : item?.[field]);
+    return method === 'some' ? object.some(test) : object.every(test);
+  }
+
+  if (typeof object !== 'string' && !Array.isArray(object)) {
+    throw new ExpressionError(`'${method}' requires a string or array`, source);
+  }
+
+  const fn = (object as any)[method];
+  if (typeof fn !== 'function') {
+    throw new ExpressionError(`'${method}' is not available on ${Array.isArray(object) ? 'arrays' : 'strings'}`, source);
+  }
+  return fn.apply(object, args);
+}
+
+// ============= PUBLIC API =============
+
+/**
+ * Evaluate an expression against a scope of plain data
+ */
+export function evaluateExpression(expression: string, scope: Record<string, any>): any {
+  return evaluateNode(parse(expression), scope, expression);
+}
+
+/**
+ * Evaluate an expression and coerce the result to a boolean
+ */
+export function evaluateCondition(expression: string, scope: Record<string, any>): boolean {
+  return Boolean(evaluateExpression(expression, scope));
+}
+
+function parse(expression: string): Node {
+  let node = cache.get(expression);
+  if (!node) {
+    node = new Parser(tokenize(expression), expression).parse();
+    cache.set(expression, node);
+  }
+  return node;
+}
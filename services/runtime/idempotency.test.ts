@@ -0,0 +1,91 @@
+/**
+ * Idempotency
+ *
+ * Repeated calls with the same key run the operation once; a user-supplied
+ * key reused with different params is a conflict, whether the first call
+ * has finished or is still running. Keys never match across tenants.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { IdempotencyService } from './idempotency';
+import { createIdempotencyStorageAdapter } from './idempotencyStorage';
+
+describe('IdempotencyService.execute', () => {
+  let service: IdempotencyService;
+  let calls: number;
+
+  beforeEach(() => {
+    service = new IdempotencyService(createIdempotencyStorageAdapter({ adapter: 'memory' }));
+    calls = 0;
+  });
+
+  function send(text: string, delay = 0) {
+    return async () => {
+      calls++;
+      await new Promise(resolve => setTimeout(resolve, delay));
+      return { sent: text };
+    };
+  }
+
+  it('runs concurrent calls with the same params once', async () => {
+    const [first, second] = await Promise.all([
+      service.execute('r1', 's1', 'slack.send', { text: 'hi' }, send('hi', 10), { key: 'welcome' }),
+      service.execute('r2', 's1', 'slack.send', { text: 'hi' }, send('hi', 10), { key: 'welcome' })
+    ]);
+
+    expect(calls).toBe(1);
+    expect(first).toMatchObject({ result: { sent: 'hi' }, cached: false });
+    expect(second).toMatchObject({ result: { sent: 'hi' }, cached: true });
+  });
+
+  it('rejects an in-flight user key reused with different params', async () => {
+    const first = service.execute('r1', 's1', 'slack.send', { text: 'hi' }, send('hi', 10), { key: 'welcome' });
+    const second = service.execute('r2', 's1', 'slack.send', { text: 'bye' }, send('bye', 10), { key: 'welcome' });
+
+    await expect(second).rejects.toMatchObject({ code: 'IDEMPOTENCY_CONFLICT' });
+    await expect(first).resolves.toMatchObject({ result: { sent: 'hi' } });
+    expect(calls).toBe(1);
+  });
+
+  it('returns the stored result for a repeated call', async () => {
+    await service.execute('r1', 'step-a', 'slack.send', { text: 'hi' }, send('hi'), { node_id: 'notify' });
+    const repeat = await service.execute('r1', 'step-b', 'slack.send', { text: 'hi' }, send('hi'), { node_id: 'notify' });
+
+    expect(calls).toBe(1);
+    expect(repeat).toMatchObject({ result: { sent: 'hi' }, cached: true });
+  });
+
+  it('runs again when the params change without a user key', async () => {
+    await service.execute('r1', 's1', 'slack.send', { text: 'hi' }, send('hi'));
+    const changed = await service.execute('r1', 's1', 'slack.send', { text: 'bye' }, send('bye'));
+
+    expect(calls).toBe(2);
+    expect(changed.cached).toBe(false);
+  });
+
+  it('rejects a stored user key reused with different params', async () => {
+    await service.execute('r1', 's1', 'slack.send', { text: 'hi' }, send('hi'), { key: 'welcome' });
+
+    await expect(service.execute('r2', 's1', 'slack.send', { text: 'bye' }, send('bye'), { key: 'welcome' }))
+      .rejects.toMatchObject({ code: 'IDEMPOTENCY_CONFLICT', message: expect.stringContaining('(run r1)') });
+    expect(calls).toBe(1);
+  });
+
+  it('keeps user keys apart across tenants', async () => {
+    await service.execute('r1', 's1', 'slack.send', { text: 'hi' }, send('hi'), { key: 'welcome', tenant_id: 'acme' });
+    const other = await service.execute('r2', 's1', 'slack.send', { text: 'bye' }, send('bye'), { key: 'welcome', tenant_id: 'globex' });
+
+    expect(calls).toBe(2);
+    expect(other).toMatchObject({ result: { sent: 'bye' }, cached: false });
+    expect(await service.getStats('acme')).toMatchObject({ total_keys: 1 });
+  });
+
+  it('runs again once the stored result expires', async () => {
+    await service.execute('r1', 's1', 'slack.send', { text: 'hi' }, send('hi'), { key: 'welcome', ttl: 1 });
+    await new Promise(resolve => setTimeout(resolve, 5));
+    const again = await service.execute('r2', 's1', 'slack.send', { text: 'bye' }, send('bye'), { key: 'welcome' });
+
+    expect(calls).toBe(2);
+    expect(again.cached).toBe(false);
+  });
+});
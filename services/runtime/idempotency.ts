@@ -2,51 +2,117 @@
  * Idempotency Service - Deduplication and Replay Protection
  *
  * Provides production-grade idempotency with:
- * - Deterministic key generation (hash of tool + params)
+ * - Deterministic key generation (hash of run + node + tool + params)
+ * - User-supplied keys (PlanNode.idempotency_key) that hold across runs
+ * - In-flight locking: concurrent calls with one key share the first result
  * - 24-hour TTL for idempotency keys
- * - Automatic deduplication of identical requests
- * - Support for "at-least-once" semantics
+ * - Pluggable storage (in-memory by default, durable file via configuration)
+ * - Listing and purging keys per tool
+ * - Keys partitioned by tenant (a user-supplied key never matches across tenants)
  *
  * Use Cases:
  * - Prevent duplicate Jira tickets on retry
- * - Cache expensive LLM calls
+ * - Don't re-send a Slack message when a run is resumed or replayed
  * - Ensure exactly-once delivery of notifications
+ *
+ * Locking is per process; a shared store only deduplicates completed calls.
  */
 
-import { IdempotencyKey, ToolCall } from '../../types/advanced';
-import { v4 as uuidv4 } from 'uuid';
+import { IdempotencyKey } from '../../types/advanced';
+import { DEFAULT_TENANT_ID } from './eventSchema';
+import {
+  IdempotencyStorageAdapter,
+  IdempotencyStorageConfig,
+  IdempotencyKeyFilter,
+  createIdempotencyStorageAdapter,
+  getIdempotencyStorageConfigFromEnv
+} from './idempotencyStorage';
+
+// ============= TYPES =============
+
+export interface IdempotencyOptions {
+  key?: string; // User-supplied key; replaces the run/node-scoped default
+  node_id?: string; // Scopes the default key (defaults to step_id)
+  ttl?: number;
+  tenant_id?: string; // Owning tenant (default: the default tenant)
+}
+
+export interface IdempotentResult<T> {
+  result: T;
+  cached: boolean;
+  key: string;
+}
+
+interface InFlightOperation {
+  promise: Promise<{ result: any; cached: boolean }>;
+  run_id: string;
+  params_hash: string;
+}
 
 // ============= IDEMPOTENCY SERVICE =============
 
 class IdempotencyService {
-  private keys: Map<string, IdempotencyKey>; // Map<key, IdempotencyKey>
+  private adapter: IdempotencyStorageAdapter;
+  private inFlight: Map<string, InFlightOperation>; // Map<key, pending operation>
   private readonly DEFAULT_TTL = 24 * 60 * 60 * 1000; // 24 hours
 
-  constructor() {
-    this.keys = new Map();
+  constructor(adapter: IdempotencyStorageAdapter = createIdempotencyStorageAdapter({ adapter: 'memory' })) {
+    this.adapter = adapter;
+    this.inFlight = new Map();
 
     // Start cleanup interval (every 5 minutes)
-    setInterval(() => this.cleanupExpiredKeys(), 5 * 60 * 1000);
+    setInterval(() => {
+      this.cleanupExpiredKeys().catch(err => console.error('[Idempotency] Cleanup failed:', err));
+    }, 5 * 60 * 1000);
+  }
+
+  /**
+   * Swap the storage backend (e.g., at server startup)
+   */
+  setAdapter(adapter: IdempotencyStorageAdapter): void {
+    this.adapter = adapter;
+    console.log(`[Idempotency] Using ${adapter.kind} storage`);
+  }
+
+  /**
+   * Current storage backend
+   */
+  getAdapter(): IdempotencyStorageAdapter {
+    return this.adapter;
   }
 
   /**
-   * Generate idempotency key for a tool call
+   * Generate idempotency key for a tool call. Pass the plan node ID as
+   * step_id so a resumed run (new step, same node) finds the earlier result.
    */
-  generateKey(run_id: string, step_id: string, tool: string, params: Record<string, any>): string {
+  generateKey(
+    run_id: string,
+    step_id: string,
+    tool: string,
+    params: Record<string, any>,
+    tenant_id: string = DEFAULT_TENANT_ID
+  ): string {
     // Create deterministic hash of params
     const paramsHash = this.hashParams(params);
 
     // Combine components
     const key = `${run_id}:${step_id}:${tool}:${paramsHash}`;
 
-    return key;
+    return this.tenantKey(tenant_id, key);
+  }
+
+  /**
+   * Key for a user-supplied idempotency key (shared by every run of the tenant)
+   */
+  generateUserKey(tool: string, userKey: string, tenant_id: string = DEFAULT_TENANT_ID): string {
+    return this.tenantKey(tenant_id, `${tool}:key:${userKey}`);
   }
 
   /**
    * Check if operation is duplicate (returns cached response if exists)
    */
-  async checkDuplicate(key: string): Promise<{ isDuplicate: boolean; response?: any }> {
-    const idempotencyKey = this.keys.get(key);
+  async checkDuplicate(key: string): Promise<{ isDuplicate: boolean; response?: any; record?: IdempotencyKey }> {
+    const idempotencyKey = await this.adapter.get(key);
 
     if (!idempotencyKey) {
       return { isDuplicate: false };
@@ -54,14 +120,15 @@ class IdempotencyService {
 
     // Check if expired
     if (Date.now() > idempotencyKey.expires_at) {
-      this.keys.delete(key);
+      await this.adapter.delete([key]);
       return { isDuplicate: false };
     }
 
     // Return cached response
     return {
       isDuplicate: true,
-      response: idempotencyKey.response
+      response: idempotencyKey.response,
+      record: idempotencyKey
     };
   }
 
@@ -75,13 +142,15 @@ class IdempotencyService {
     tool: string,
     params: Record<string, any>,
     response: any,
-    ttl?: number
+    ttl?: number,
+    tenant_id: string = DEFAULT_TENANT_ID
   ): Promise<void> {
     const paramsHash = this.hashParams(params);
     const expiresAt = Date.now() + (ttl || this.DEFAULT_TTL);
 
     const idempotencyKey: IdempotencyKey = {
       key,
+      tenant_id,
       run_id,
       step_id,
       tool,
@@ -91,11 +160,16 @@ class IdempotencyService {
       expires_at: expiresAt
     };
 
-    this.keys.set(key, idempotencyKey);
+    await this.adapter.set(idempotencyKey);
   }
 
   /**
    * Execute operation with idempotency protection
+   *
+   * A second call with a key that is still executing waits for the first
+   * and returns its result. Reusing a user-supplied key with different
+   * params (stored or still executing) throws IDEMPOTENCY_CONFLICT instead
+   * of returning the other call's result.
    */
   async execute<T>(
     run_id: string,
@@ -103,33 +177,81 @@ class IdempotencyService {
     tool: string,
     params: Record<string, any>,
     operation: () => Promise<T>,
-    ttl?: number
-  ): Promise<{ result: T; cached: boolean }> {
+    options: IdempotencyOptions = {}
+  ): Promise<IdempotentResult<T>> {
     // Generate key
-    const key = this.generateKey(run_id, step_id, tool, params);
+    const key = options.key
+      ? this.generateUserKey(tool, options.key, options.tenant_id)
+      : this.generateKey(run_id, options.node_id || step_id, tool, params, options.tenant_id);
 
-    // Check for duplicate
-    const { isDuplicate, response } = await this.checkDuplicate(key);
+    const paramsHash = this.hashParams(params);
 
-    if (isDuplicate) {
-      console.log(`[Idempotency] Cache hit for ${tool} (${key})`);
-      return { result: response as T, cached: true };
+    // Wait for an identical call already in progress
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      if (options.key && pending.params_hash !== paramsHash) {
+        throw this.conflictError(options.key, tool, pending.run_id);
+      }
+
+      console.log(`[Idempotency] Waiting for in-flight ${tool} (${key})`);
+      const { result } = await pending.promise;
+      return { result: result as T, cached: true, key };
     }
 
-    // Execute operation
-    console.log(`[Idempotency] Cache miss for ${tool}, executing...`);
-    const result = await operation();
+    const attempt = (async () => {
+      // Check for duplicate
+      const { isDuplicate, response, record } = await this.checkDuplicate(key);
 
-    // Store result
-    await this.store(key, run_id, step_id, tool, params, result, ttl);
+      if (isDuplicate) {
+        if (options.key && record && record.params_hash !== paramsHash) {
+          throw this.conflictError(options.key, tool, record.run_id);
+        }
+
+        console.log(`[Idempotency] Cache hit for ${tool} (${key})`);
+        return { result: response, cached: true };
+      }
+
+      // Execute operation
+      console.log(`[Idempotency] Cache miss for ${tool}, executing...`);
+      const result = await operation();
+
+      // Store result
+      await this.store(key, run_id, step_id, tool, params, result, options.ttl, options.tenant_id);
+
+      return { result, cached: false };
+    })();
+
+    this.inFlight.set(key, { promise: attempt, run_id, params_hash: paramsHash });
+    try {
+      const { result, cached } = await attempt;
+      return { result: result as T, cached, key };
+    } finally {
+      this.inFlight.delete(key);
+    }
+  }
+
+  /**
+   * A user-supplied key reused with different params
+   */
+  private conflictError(userKey: string, tool: string, run_id: string): Error {
+    const error: any = new Error(
+      `Idempotency key "${userKey}" was already used for ${tool} with different params (run ${run_id})`
+    );
+    error.code = 'IDEMPOTENCY_CONFLICT';
+    return error;
+  }
 
-    return { result, cached: false };
+  /**
+   * Deterministic content hash (same algorithm as idempotency keys)
+   */
+  hashContent(content: any): string {
+    return this.hashParams(content);
   }
 
   /**
    * Hash params to create deterministic key (browser-compatible)
    */
-  private hashParams(params: Record<string, any>): string {
+  private hashParams(params: any): string {
     // Sort keys to ensure deterministic hash
     const sortedParams = this.sortObject(params);
 
@@ -153,6 +275,14 @@ class IdempotencyService {
     return hashHex + lengthHex;
   }
 
+  /**
+   * Prefix a key with its tenant. Default-tenant keys keep their plain form,
+   * so keys stored before tenancy still deduplicate.
+   */
+  private tenantKey(tenant_id: string, key: string): string {
+    return tenant_id === DEFAULT_TENANT_ID ? key : `tenant:${tenant_id}:${key}`;
+  }
+
   /**
    * Recursively sort object keys for deterministic hashing
    */
@@ -176,16 +306,13 @@ class IdempotencyService {
   /**
    * Cleanup expired keys
    */
-  private cleanupExpiredKeys(): void {
+  private async cleanupExpiredKeys(): Promise<void> {
     const now = Date.now();
-    let cleanedCount = 0;
+    const expired = (await this.adapter.list())
+      .filter(idempotencyKey => now > idempotencyKey.expires_at)
+      .map(idempotencyKey => idempotencyKey.key);
 
-    for (const [key, idempotencyKey] of this.keys.entries()) {
-      if (now > idempotencyKey.expires_at) {
-        this.keys.delete(key);
-        cleanedCount++;
-      }
-    }
+    const cleanedCount = expired.length > 0 ? await this.adapter.delete(expired) : 0;
 
     if (cleanedCount > 0) {
       console.log(`[Idempotency] Cleaned up ${cleanedCount} expired keys`);
@@ -196,40 +323,53 @@ class IdempotencyService {
    * Invalidate specific key
    */
   async invalidate(key: string): Promise<boolean> {
-    return this.keys.delete(key);
+    return (await this.adapter.delete([key])) > 0;
   }
 
   /**
    * Invalidate all keys for a run
    */
   async invalidateRun(run_id: string): Promise<number> {
-    let invalidatedCount = 0;
+    return this.purge({ run_id });
+  }
 
-    for (const [key, idempotencyKey] of this.keys.entries()) {
-      if (idempotencyKey.run_id === run_id) {
-        this.keys.delete(key);
-        invalidatedCount++;
-      }
-    }
+  /**
+   * List stored keys, newest first (e.g., all keys for one tool)
+   */
+  async listKeys(filter?: IdempotencyKeyFilter): Promise<IdempotencyKey[]> {
+    const keys = await this.adapter.list(filter);
+    return keys.sort((a, b) => b.created_at - a.created_at);
+  }
 
-    return invalidatedCount;
+  /**
+   * Delete stored keys matching a filter (tenant, tool and/or run); returns the count
+   */
+  async purge(filter: IdempotencyKeyFilter): Promise<number> {
+    const keys = (await this.adapter.list(filter)).map(idempotencyKey => idempotencyKey.key);
+    const purgedCount = keys.length > 0 ? await this.adapter.delete(keys) : 0;
+
+    console.log(`[Idempotency] Purged ${purgedCount} keys (${JSON.stringify(filter)})`);
+    return purgedCount;
   }
 
   /**
-   * Get statistics
+   * Get statistics (for one tenant, or all)
    */
-  getStats(): {
+  async getStats(tenant_id?: string): Promise<{
     total_keys: number;
     by_tool: Record<string, number>;
     cache_size_bytes: number;
-  } {
+    in_flight: number;
+  }> {
+    const keys = await this.adapter.list({ tenant_id });
     const stats = {
-      total_keys: this.keys.size,
+      total_keys: keys.length,
       by_tool: {} as Record<string, number>,
-      cache_size_bytes: 0
+      cache_size_bytes: 0,
+      in_flight: this.inFlight.size
     };
 
-    for (const idempotencyKey of this.keys.values()) {
+    for (const idempotencyKey of keys) {
       // Count by tool
       if (!stats.by_tool[idempotencyKey.tool]) {
         stats.by_tool[idempotencyKey.tool] = 0;
@@ -237,7 +377,7 @@ class IdempotencyService {
       stats.by_tool[idempotencyKey.tool]++;
 
       // Calculate size
-      stats.cache_size_bytes += JSON.stringify(idempotencyKey.response).length;
+      stats.cache_size_bytes += JSON.stringify(idempotencyKey.response ?? null).length;
     }
 
     return stats;
@@ -246,17 +386,27 @@ class IdempotencyService {
   /**
    * Clear all keys (for testing)
    */
-  clear(): void {
-    this.keys.clear();
+  async clear(): Promise<void> {
+    this.inFlight.clear();
+    await this.adapter.clear();
   }
 }
 
 // ============= SINGLETON INSTANCE =============
 
-export const idempotencyService = new IdempotencyService();
+export const idempotencyService = new IdempotencyService(
+  createIdempotencyStorageAdapter(getIdempotencyStorageConfigFromEnv())
+);
 
 // ============= HELPER FUNCTIONS =============
 
+/**
+ * Choose the idempotency storage backend, e.g. `{ adapter: 'file', path: './data/idempotency.json' }`
+ */
+export function configureIdempotencyStore(config: IdempotencyStorageConfig): void {
+  idempotencyService.setAdapter(createIdempotencyStorageAdapter(config));
+}
+
 /**
  * Execute tool call with idempotency protection
  */
@@ -266,9 +416,9 @@ export async function executeIdempotent<T>(
   tool: string,
   params: Record<string, any>,
   operation: () => Promise<T>,
-  ttl?: number
-): Promise<{ result: T; cached: boolean }> {
-  return idempotencyService.execute(run_id, step_id, tool, params, operation, ttl);
+  options?: IdempotencyOptions
+): Promise<IdempotentResult<T>> {
+  return idempotencyService.execute(run_id, step_id, tool, params, operation, options);
 }
 
 /**
@@ -297,7 +447,29 @@ export async function invalidateCache(key: string): Promise<boolean> {
   return idempotencyService.invalidate(key);
 }
 
+/**
+ * List stored keys for a tool
+ */
+export async function listIdempotencyKeys(tool: string): Promise<IdempotencyKey[]> {
+  return idempotencyService.listKeys({ tool });
+}
+
+/**
+ * Purge stored keys for a tool (e.g., after fixing a bad integration)
+ */
+export async function purgeIdempotencyKeys(tool: string): Promise<number> {
+  return idempotencyService.purge({ tool });
+}
+
+/**
+ * Deterministic hash of JSON content (e.g., artifact deduplication)
+ */
+export function hashContent(content: any): string {
+  return idempotencyService.hashContent(content);
+}
+
 /**
  * Export for testing
  */
 export { IdempotencyService };
+export type { IdempotencyKeyFilter, IdempotencyStorageConfig };
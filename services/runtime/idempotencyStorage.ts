@@ -0,0 +1,187 @@
+/**
+ * Idempotency Storage - Pluggable Backends for Idempotency Keys
+ *
+ * The IdempotencyService owns key generation, TTLs and in-flight locking;
+ * where recorded responses live is delegated to an IdempotencyStorageAdapter:
+ * - memory: in-process map (default, lost on reload/restart)
+ * - file:   JSON file (Node/server only, survives restarts so replayed runs
+ *           don't repeat external side effects)
+ */
+
+import { IdempotencyKey } from '../../types/advanced';
+import { DEFAULT_TENANT_ID } from './eventSchema';
+
+// ============= TYPES =============
+
+export interface IdempotencyKeyFilter {
+  tenant_id?: string;
+  tool?: string;
+  run_id?: string;
+}
+
+export interface IdempotencyStorageAdapter {
+  readonly kind: IdempotencyStorageKind;
+  get(key: string): Promise<IdempotencyKey | undefined>;
+  set(record: IdempotencyKey): Promise<void>;
+  delete(keys: string[]): Promise<number>; // Returns how many existed
+  list(filter?: IdempotencyKeyFilter): Promise<IdempotencyKey[]>;
+  clear(): Promise<void>;
+}
+
+export type IdempotencyStorageKind = 'memory' | 'file';
+
+export type IdempotencyStorageConfig =
+  | { adapter: 'memory' }
+  | { adapter: 'file'; path: string };
+
+function matches(record: IdempotencyKey, filter: IdempotencyKeyFilter = {}): boolean {
+  return (!filter.tenant_id || (record.tenant_id ?? DEFAULT_TENANT_ID) === filter.tenant_id) &&
+    (!filter.tool || record.tool === filter.tool) &&
+    (!filter.run_id || record.run_id === filter.run_id);
+}
+
+// ============= IN-MEMORY ADAPTER =============
+
+export class InMemoryIdempotencyAdapter implements IdempotencyStorageAdapter {
+  readonly kind = 'memory' as const;
+  private records: Map<string, IdempotencyKey> = new Map(); // Map<key, IdempotencyKey>
+
+  async get(key: string): Promise<IdempotencyKey | undefined> {
+    return this.records.get(key);
+  }
+
+  async set(record: IdempotencyKey): Promise<void> {
+    this.records.set(record.key, record);
+  }
+
+  async delete(keys: string[]): Promise<number> {
+    return keys.filter(key => this.records.delete(key)).length;
+  }
+
+  async list(filter?: IdempotencyKeyFilter): Promise<IdempotencyKey[]> {
+    return Array.from(this.records.values()).filter(record => matches(record, filter));
+  }
+
+  async clear(): Promise<void> {
+    this.records.clear();
+  }
+}
+
+// ============= JSON FILE ADAPTER =============
+
+/**
+ * All keys in one JSON file (`{ "<key>": IdempotencyKey, ... }`).
+ *
+ * The file is loaded on first use and rewritten after every change via a
+ * temp file + rename, so a crash never leaves a half-written store. Node
+ * only (uses `fs`, loaded lazily so the browser bundle never pulls it in).
+ */
+export class JsonFileIdempotencyAdapter implements IdempotencyStorageAdapter {
+  readonly kind = 'file' as const;
+  private records: Map<string, IdempotencyKey> = new Map(); // Map<key, IdempotencyKey>
+  private loading: Promise<void> | null = null;
+  private writeChain: Promise<void> = Promise.resolve();
+
+  constructor(private path: string) {}
+
+  async get(key: string): Promise<IdempotencyKey | undefined> {
+    await this.load();
+    return this.records.get(key);
+  }
+
+  async set(record: IdempotencyKey): Promise<void> {
+    await this.load();
+    this.records.set(record.key, record);
+    await this.save();
+  }
+
+  async delete(keys: string[]): Promise<number> {
+    await this.load();
+    const deleted = keys.filter(key => this.records.delete(key)).length;
+    if (deleted > 0) {
+      await this.save();
+    }
+    return deleted;
+  }
+
+  async list(filter?: IdempotencyKeyFilter): Promise<IdempotencyKey[]> {
+    await this.load();
+    return Array.from(this.records.values()).filter(record => matches(record, filter));
+  }
+
+  async clear(): Promise<void> {
+    await this.load();
+    this.records.clear();
+    await this.save();
+  }
+
+  /**
+   * Load the existing store file (once)
+   */
+  private load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = (async () => {
+        const fs = await import('node:fs/promises');
+
+        let contents = '';
+        try {
+          contents = await fs.readFile(this.path, 'utf8');
+        } catch (error: any) {
+          if (error.code !== 'ENOENT') throw error;
+        }
+
+        if (contents.trim()) {
+          const stored = JSON.parse(contents) as Record<string, IdempotencyKey>;
+          this.records = new Map(Object.entries(stored));
+        }
+      })();
+    }
+    return this.loading;
+  }
+
+  /**
+   * Write the current keys, serialized so the last change always wins
+   */
+  private save(): Promise<void> {
+    const next = this.writeChain.then(async () => {
+      const fs = await import('node:fs/promises');
+      const tempPath = `${this.path}.tmp`;
+      await fs.writeFile(tempPath, JSON.stringify(Object.fromEntries(this.records)), 'utf8');
+      await fs.rename(tempPath, this.path);
+    });
+    this.writeChain = next.catch(() => undefined);
+    return next;
+  }
+}
+
+// ============= FACTORY =============
+
+/**
+ * Create a storage adapter from configuration
+ */
+export function createIdempotencyStorageAdapter(config: IdempotencyStorageConfig): IdempotencyStorageAdapter {
+  switch (config.adapter) {
+    case 'memory':
+      return new InMemoryIdempotencyAdapter();
+
+    case 'file':
+      return new JsonFileIdempotencyAdapter(config.path);
+
+    default:
+      throw new Error(`Unknown idempotency storage adapter: ${(config as any).adapter}`);
+  }
+}
+
+/**
+ * Read adapter configuration from the environment (Node only).
+ * IDEMPOTENCY_STORE_ADAPTER=file IDEMPOTENCY_STORE_PATH=./data/idempotency.json
+ */
+export function getIdempotencyStorageConfigFromEnv(): IdempotencyStorageConfig {
+  const env = typeof process !== 'undefined' ? process.env : undefined;
+
+  if (env?.IDEMPOTENCY_STORE_ADAPTER === 'file') {
+    return { adapter: 'file', path: env.IDEMPOTENCY_STORE_PATH || './aura-idempotency.json' };
+  }
+
+  return { adapter: 'memory' };
+}
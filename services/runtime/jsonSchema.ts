@@ -0,0 +1,140 @@
+/**
+ * JSON Schema - Minimal Validator for Runtime Contracts
+ *
+ * Validates plain JSON values against the subset of JSON Schema the runtime
+ * uses for tool inputs/outputs:
+ * - type (string, number, integer, boolean, object, array, null, or a list)
+ * - properties, required, additionalProperties: false
+ * - items, enum, minimum, maximum, minLength, maxLength, pattern
+ *
+ * Returns human-readable errors ("params.channel: expected string, got
+ * number") instead of throwing, so callers decide how to fail.
+ */
+
+// ============= TYPES =============
+
+export type JSONSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+export interface JSONSchema {
+  type?: JSONSchemaType | JSONSchemaType[];
+  description?: string;
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JSONSchema;
+  enum?: any[];
+  default?: any;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+}
+
+// ============= VALIDATION =============
+
+/**
+ * Validate a value; returns an empty list when it conforms
+ */
+export function validateSchema(value: any, schema: JSONSchema, path = 'value'): string[] {
+  const errors: string[] = [];
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => matchesType(value, type))) {
+      errors.push(`${path}: expected ${types.join(' | ')}, got ${typeOf(value)}`);
+      return errors;
+    }
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    errors.push(`${path}: must be one of ${schema.enum.map(v => JSON.stringify(v)).join(', ')}`);
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(`${path}: must be >= ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(`${path}: must be <= ${schema.maximum}`);
+    }
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push(`${path}: must be at least ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push(`${path}: must be at most ${schema.maxLength} characters`);
+    }
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+      errors.push(`${path}: must match ${schema.pattern}`);
+    }
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, index) => {
+      errors.push(...validateSchema(item, schema.items!, `${path}[${index}]`));
+    });
+  }
+
+  if (isPlainObject(value)) {
+    for (const field of schema.required || []) {
+      if (value[field] === undefined) {
+        errors.push(`${path}.${field}: is required`);
+      }
+    }
+
+    for (const [field, fieldValue] of Object.entries(value)) {
+      const fieldSchema = schema.properties?.[field];
+      if (fieldSchema) {
+        if (fieldValue !== undefined) {
+          errors.push(...validateSchema(fieldValue, fieldSchema, `${path}.${field}`));
+        }
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${field}: is not allowed`);
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Fill top-level defaults declared in `properties` (does not mutate)
+ */
+export function applySchemaDefaults(value: Record<string, any>, schema: JSONSchema): Record<string, any> {
+  const result = { ...value };
+
+  for (const [field, fieldSchema] of Object.entries(schema.properties || {})) {
+    if (result[field] === undefined && fieldSchema.default !== undefined) {
+      result[field] = fieldSchema.default;
+    }
+  }
+
+  return result;
+}
+
+// ============= UTILITIES =============
+
+function matchesType(value: any, type: JSONSchemaType): boolean {
+  switch (type) {
+    case 'string': return typeof value === 'string';
+    case 'number': return typeof value === 'number' && !Number.isNaN(value);
+    case 'integer': return Number.isInteger(value);
+    case 'boolean': return typeof value === 'boolean';
+    case 'object': return isPlainObject(value);
+    case 'array': return Array.isArray(value);
+    case 'null': return value === null;
+  }
+}
+
+function typeOf(value: any): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function isPlainObject(value: any): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,59 @@
+/**
+ * LLM Models
+ *
+ * Plans may only name models the configured provider serves; anything
+ * else fails with UNSUPPORTED_MODEL before a call is made.
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { DEFAULT_MODEL, GroqProvider, LLMProvider, llmService } from './llmProvider';
+import { costEstimator } from './costEstimator';
+import { Plan } from '../../types/advanced';
+
+describe('llmService.checkModel', () => {
+  const provider = llmService.getProvider();
+
+  afterEach(() => {
+    llmService.setProvider(provider);
+  });
+
+  it('resolves aliases to models Groq serves', () => {
+    llmService.setProvider(new GroqProvider('test-key'));
+
+    expect(llmService.checkModel('llm.llama')).toBe(DEFAULT_MODEL);
+    expect(llmService.checkModel()).toBe(DEFAULT_MODEL);
+    expect(llmService.checkModel('llama-3.1-8b-instant')).toBe('llama-3.1-8b-instant');
+  });
+
+  it('rejects models Groq does not serve', () => {
+    llmService.setProvider(new GroqProvider('test-key'));
+
+    expect(() => llmService.checkModel('llm.gpt4')).toThrow('Model gpt4 is not served by the groq provider');
+    expect(() => llmService.checkModel('gpt-4o')).toThrow(expect.objectContaining({ code: 'UNSUPPORTED_MODEL' }));
+  });
+
+  it('accepts any model from a provider that does not list its models', () => {
+    const stub: LLMProvider = {
+      name: 'stub',
+      complete: async request => ({ text: '', model: request.model, prompt_tokens: 0, completion_tokens: 0 })
+    };
+    llmService.setProvider(stub);
+
+    expect(llmService.checkModel('gpt-4o')).toBe('gpt-4o');
+  });
+
+  it('fails the estimate of a plan naming an unserved model', async () => {
+    llmService.setProvider(new GroqProvider('test-key'));
+    const plan = {
+      id: 'plan-1',
+      dag: {
+        nodes: [{ id: 'n1', type: 'llm_call', tool: 'llm.gpt4', params: { prompt: 'Hi' }, depends_on: [] }],
+        edges: [],
+        entry_node_id: 'n1',
+        exit_node_ids: ['n1']
+      }
+    } as unknown as Plan;
+
+    await expect(costEstimator.estimate(plan)).rejects.toThrow(expect.objectContaining({ code: 'UNSUPPORTED_MODEL' }));
+  });
+});
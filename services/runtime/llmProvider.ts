@@ -0,0 +1,247 @@
+/**
+ * LLM Provider - Metered Model Calls for the Runtime
+ *
+ * Provides LLM access with:
+ * - A pluggable provider (Groq by default)
+ * - Prompt/completion token accounting per call
+ * - Per-model price table converting tokens to run cost
+ * - A check that the provider serves a plan's model, so runs that name
+ *   one it can't (UNSUPPORTED_MODEL) fail before they start
+ *
+ * Cost units match Run.cost: US cents. Prices are listed per million tokens
+ * in USD, the way providers publish them.
+ */
+
+import Groq from 'groq-sdk';
+import { TokenUsage } from '../../types/advanced';
+
+// ============= TYPES =============
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMRequest {
+  model: string;
+  messages: LLMMessage[];
+  temperature?: number;
+  max_tokens?: number;
+  signal?: AbortSignal;
+}
+
+export interface LLMProviderResponse {
+  text: string;
+  model: string;
+  prompt_tokens: number;
+  completion_tokens: number;
+}
+
+export interface LLMProvider {
+  name: string;
+  models?: string[]; // Model IDs the provider serves (any if omitted)
+  isConfigured?(): boolean; // False when calls can't succeed (e.g., no API key); ready if omitted
+  complete(request: LLMRequest): Promise<LLMProviderResponse>;
+}
+
+export interface LLMResponse {
+  text: string;
+  usage: TokenUsage;
+  cost: number; // US cents
+}
+
+export interface ModelPrice {
+  input: number; // USD per 1M prompt tokens
+  output: number; // USD per 1M completion tokens
+}
+
+export const DEFAULT_MODEL = 'llama-3.3-70b-versatile';
+
+export const MODEL_PRICES: Record<string, ModelPrice> = {
+  'llama-3.3-70b-versatile': { input: 0.59, output: 0.79 },
+  'llama-3.1-8b-instant': { input: 0.05, output: 0.08 }
+};
+
+// Model aliases used in plans (PlanNode.tool, e.g., 'llm.llama')
+const MODEL_ALIASES: Record<string, string> = {
+  llama: DEFAULT_MODEL
+};
+
+// ============= GROQ PROVIDER =============
+
+/**
+ * Groq chat completions. The API key comes from the browser override
+ * (same as services/llm.ts) or GROQ_API_KEY/API_KEY.
+ */
+export class GroqProvider implements LLMProvider {
+  readonly name = 'groq';
+  readonly models = ['llama-3.3-70b-versatile', 'llama-3.1-8b-instant'];
+
+  constructor(private apiKey?: string) {}
+
+  isConfigured(): boolean {
+    return Boolean(this.apiKey || getGroqApiKey());
+  }
+
+  async complete(request: LLMRequest): Promise<LLMProviderResponse> {
+    const groq = new Groq({
+      apiKey: this.apiKey || getGroqApiKey(),
+      dangerouslyAllowBrowser: true
+    });
+
+    const response = await groq.chat.completions.create({
+      model: request.model,
+      messages: request.messages,
+      temperature: request.temperature,
+      max_tokens: request.max_tokens
+    }, { signal: request.signal });
+
+    return {
+      text: response.choices[0]?.message?.content || '',
+      model: response.model || request.model,
+      prompt_tokens: response.usage?.prompt_tokens || 0,
+      completion_tokens: response.usage?.completion_tokens || 0
+    };
+  }
+}
+
+function getGroqApiKey(): string {
+  const override = typeof localStorage !== 'undefined'
+    ? localStorage.getItem('aura_api_key_override')
+    : null;
+  const env = typeof process !== 'undefined' ? process.env : undefined;
+  return override || env?.GROQ_API_KEY || env?.API_KEY || '';
+}
+
+// ============= LLM SERVICE =============
+
+class LLMService {
+  private provider: LLMProvider;
+  private prices: Map<string, ModelPrice>; // Map<model, ModelPrice>
+
+  constructor() {
+    this.provider = new GroqProvider();
+    this.prices = new Map(Object.entries(MODEL_PRICES));
+  }
+
+  /**
+   * Replace the provider used for all runtime LLM calls
+   */
+  setProvider(provider: LLMProvider): void {
+    this.provider = provider;
+    console.log(`[LLM] Provider set to ${provider.name}`);
+  }
+
+  /**
+   * Get the configured provider
+   */
+  getProvider(): LLMProvider {
+    return this.provider;
+  }
+
+  /**
+   * Whether the provider can make calls (e.g., has an API key)
+   */
+  isConfigured(): boolean {
+    return this.provider.isConfigured?.() ?? true;
+  }
+
+  /**
+   * Add or replace a model's price
+   */
+  setPrice(model: string, price: ModelPrice): void {
+    this.prices.set(model, price);
+  }
+
+  /**
+   * Resolve a plan's model name or alias (e.g., 'llm.gpt4') to a model ID
+   */
+  resolveModel(model?: string): string {
+    if (!model) return DEFAULT_MODEL;
+    const name = model.startsWith('llm.') ? model.slice(4) : model;
+    return MODEL_ALIASES[name] || name;
+  }
+
+  /**
+   * Resolve a plan's model like resolveModel, throwing UNSUPPORTED_MODEL if
+   * the configured provider doesn't serve it
+   */
+  checkModel(model?: string): string {
+    const resolved = this.resolveModel(model);
+    const served = this.provider.models;
+    if (served && !served.includes(resolved)) {
+      throw Object.assign(
+        new Error(`Model ${resolved} is not served by the ${this.provider.name} provider (available: ${served.join(', ')})`),
+        { code: 'UNSUPPORTED_MODEL' }
+      );
+    }
+    return resolved;
+  }
+
+  /**
+   * Cost in US cents for a number of tokens on a model
+   */
+  calculateCost(model: string, promptTokens: number, completionTokens: number): number {
+    let price = this.prices.get(model);
+    if (!price) {
+      console.warn(`[LLM] No price for model ${model}, using ${DEFAULT_MODEL} pricing`);
+      price = this.prices.get(DEFAULT_MODEL) || MODEL_PRICES[DEFAULT_MODEL];
+    }
+
+    const dollars = (promptTokens * price.input + completionTokens * price.output) / 1_000_000;
+    return Math.round(dollars * 100 * 10000) / 10000; // Cents, to 4 decimal places
+  }
+
+  /**
+   * Call the provider and meter the result
+   */
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const model = this.checkModel(request.model);
+
+    let response: LLMProviderResponse;
+    try {
+      response = await this.provider.complete({ ...request, model });
+    } catch (error: any) {
+      // Map HTTP failures to the executor's retryable error codes
+      const code =
+        error.status === 429 ? 'RATE_LIMIT' :
+        error.status === 408 || error instanceof Groq.APIConnectionTimeoutError ? 'TIMEOUT' :
+        error.status >= 500 ? 'SERVICE_UNAVAILABLE' :
+        error instanceof Groq.APIConnectionError ? 'NETWORK_ERROR' :
+        undefined;
+      if (code) error.code = code;
+      throw error;
+    }
+
+    const usage: TokenUsage = {
+      model,
+      prompt_tokens: response.prompt_tokens,
+      completion_tokens: response.completion_tokens,
+      total_tokens: response.prompt_tokens + response.completion_tokens
+    };
+
+    return {
+      text: response.text,
+      usage,
+      cost: this.calculateCost(model, usage.prompt_tokens, usage.completion_tokens)
+    };
+  }
+}
+
+// ============= SINGLETON INSTANCE =============
+
+export const llmService = new LLMService();
+
+// ============= HELPER FUNCTIONS =============
+
+/**
+ * Configure the provider for runtime LLM calls
+ */
+export function setLLMProvider(provider: LLMProvider): void {
+  llmService.setProvider(provider);
+}
+
+/**
+ * Export for testing
+ */
+export { LLMService };
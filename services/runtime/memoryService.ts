@@ -6,6 +6,8 @@
  * - Automatic TTL expiration
  * - Access tracking and analytics
  * - Fast retrieval with relevance scoring
+ * - Tenant isolation: every memory belongs to a tenant, and reads and
+ *   indexes never cross tenants (calls without one use the default tenant)
  *
  * Memory Hierarchy:
  * - User: Personal preferences, PM style, templates used
@@ -16,11 +18,14 @@
 
 import { Memory, MemoryScope, MemoryType, MemoryContext } from '../../types/advanced';
 import { eventStore } from './eventStore';
+import { SYSTEM_RUN_ID } from './eventStorage';
+import { DEFAULT_TENANT_ID } from './tenants';
 import { v4 as uuidv4 } from 'uuid';
 
 // ============= MEMORY RETRIEVAL OPTIONS =============
 
 interface MemoryQuery {
+  tenant_id?: string; // Default: the default tenant
   scope?: MemoryScope | MemoryScope[];
   scope_id?: string | string[];
   key?: string;
@@ -30,18 +35,23 @@ interface MemoryQuery {
 }
 
 interface RetrievalOptions {
+  tenant_id?: string; // Default: the default tenant
   scopes: MemoryScope[];
   scope_ids: Record<MemoryScope, string>; // e.g., { user: 'user123', project: 'proj456' }
   query?: string; // Semantic search query
   limit?: number;
 }
 
+function scopeIndexKey(tenant_id: string, scope: MemoryScope, scope_id: string): string {
+  return `${tenant_id}:${scope}:${scope_id}`;
+}
+
 // ============= MEMORY SERVICE =============
 
 class MemoryService {
   private memories: Map<string, Memory>; // Map<memory_id, Memory>
-  private indexByScope: Map<string, Set<string>>; // Map<scope:scope_id, Set<memory_id>>
-  private indexByKey: Map<string, Set<string>>; // Map<key, Set<memory_id>>
+  private indexByScope: Map<string, Set<string>>; // Map<tenant_id:scope:scope_id, Set<memory_id>>
+  private indexByKey: Map<string, Set<string>>; // Map<tenant_id:key, Set<memory_id>>
 
   constructor() {
     this.memories = new Map();
@@ -61,10 +71,12 @@ class MemoryService {
     key: string,
     value: any,
     type: MemoryType = 'custom',
-    ttl?: number
+    ttl?: number,
+    tenant_id: string = DEFAULT_TENANT_ID
   ): Promise<Memory> {
     const memory: Memory = {
       id: uuidv4(),
+      tenant_id,
       scope,
       scope_id,
       key,
@@ -81,28 +93,30 @@ class MemoryService {
     this.memories.set(memory.id, memory);
 
     // Index by scope
-    const scopeKey = `${scope}:${scope_id}`;
+    const scopeKey = scopeIndexKey(tenant_id, scope, scope_id);
     if (!this.indexByScope.has(scopeKey)) {
       this.indexByScope.set(scopeKey, new Set());
     }
     this.indexByScope.get(scopeKey)!.add(memory.id);
 
     // Index by key
-    if (!this.indexByKey.has(key)) {
-      this.indexByKey.set(key, new Set());
+    const keyIndexKey = `${tenant_id}:${key}`;
+    if (!this.indexByKey.has(keyIndexKey)) {
+      this.indexByKey.set(keyIndexKey, new Set());
     }
-    this.indexByKey.get(key)!.add(memory.id);
+    this.indexByKey.get(keyIndexKey)!.add(memory.id);
 
     // Emit event
     await eventStore.append({
       id: uuidv4(),
-      run_id: scope === 'run' ? scope_id : 'system',
+      run_id: scope === 'run' ? scope_id : SYSTEM_RUN_ID,
+      tenant_id,
       type: 'memory.created',
       timestamp: Date.now(),
       memory_id: memory.id,
       scope,
       key
-    } as any);
+    });
 
     return memory;
   }
@@ -110,8 +124,13 @@ class MemoryService {
   /**
    * Get memory by exact key from specific scope
    */
-  async get(scope: MemoryScope, scope_id: string, key: string): Promise<Memory | null> {
-    const scopeKey = `${scope}:${scope_id}`;
+  async get(
+    scope: MemoryScope,
+    scope_id: string,
+    key: string,
+    tenant_id: string = DEFAULT_TENANT_ID
+  ): Promise<Memory | null> {
+    const scopeKey = scopeIndexKey(tenant_id, scope, scope_id);
     const memoryIds = this.indexByScope.get(scopeKey);
     if (!memoryIds) return null;
 
@@ -130,6 +149,7 @@ class MemoryService {
    * Query memories with filters
    */
   async query(query: MemoryQuery): Promise<Memory[]> {
+    const tenantId = query.tenant_id ?? DEFAULT_TENANT_ID;
     let results: Memory[] = [];
 
     // Filter by scope
@@ -142,7 +162,7 @@ class MemoryService {
       for (const scope of scopes) {
         if (scopeIds) {
           for (const scopeId of scopeIds) {
-            const scopeKey = `${scope}:${scopeId}`;
+            const scopeKey = scopeIndexKey(tenantId, scope, scopeId);
             const memoryIds = this.indexByScope.get(scopeKey) || new Set();
             for (const memoryId of memoryIds) {
               const memory = this.memories.get(memoryId);
@@ -152,12 +172,12 @@ class MemoryService {
             }
           }
         } else {
-          // Get all memories for this scope (across all scope_ids)
+          // Get all of the tenant's memories for this scope (across all scope_ids)
           for (const [scopeKey, memoryIds] of this.indexByScope.entries()) {
-            if (scopeKey.startsWith(`${scope}:`)) {
+            if (scopeKey.startsWith(`${tenantId}:${scope}:`)) {
               for (const memoryId of memoryIds) {
                 const memory = this.memories.get(memoryId);
-                if (memory && !this.isExpired(memory)) {
+                if (memory && memory.tenant_id === tenantId && !this.isExpired(memory)) {
                   results.push(memory);
                 }
               }
@@ -166,8 +186,8 @@ class MemoryService {
         }
       }
     } else {
-      // Get all memories
-      results = Array.from(this.memories.values()).filter(m => !this.isExpired(m));
+      // Get all of the tenant's memories
+      results = Array.from(this.memories.values()).filter(m => m.tenant_id === tenantId && !this.isExpired(m));
     }
 
     // Filter by key
@@ -208,7 +228,7 @@ class MemoryService {
       const scopeId = options.scope_ids[scope];
       if (!scopeId) continue;
 
-      const scopeKey = `${scope}:${scopeId}`;
+      const scopeKey = scopeIndexKey(options.tenant_id ?? DEFAULT_TENANT_ID, scope, scopeId);
       const memoryIds = this.indexByScope.get(scopeKey) || new Set();
 
       for (const memoryId of memoryIds) {
@@ -281,9 +301,9 @@ class MemoryService {
     if (!memory) return false;
 
     // Remove from indexes
-    const scopeKey = `${memory.scope}:${memory.scope_id}`;
+    const scopeKey = scopeIndexKey(memory.tenant_id, memory.scope, memory.scope_id);
     this.indexByScope.get(scopeKey)?.delete(memory_id);
-    this.indexByKey.get(memory.key)?.delete(memory_id);
+    this.indexByKey.get(`${memory.tenant_id}:${memory.key}`)?.delete(memory_id);
 
     // Remove memory
     this.memories.delete(memory_id);
@@ -294,8 +314,8 @@ class MemoryService {
   /**
    * Delete all memories in a scope
    */
-  async deleteScope(scope: MemoryScope, scope_id: string): Promise<number> {
-    const scopeKey = `${scope}:${scope_id}`;
+  async deleteScope(scope: MemoryScope, scope_id: string, tenant_id: string = DEFAULT_TENANT_ID): Promise<number> {
+    const scopeKey = scopeIndexKey(tenant_id, scope, scope_id);
     const memoryIds = this.indexByScope.get(scopeKey);
     if (!memoryIds) return 0;
 
@@ -328,12 +348,13 @@ class MemoryService {
     // Emit event
     eventStore.append({
       id: uuidv4(),
-      run_id: memory.scope === 'run' ? memory.scope_id : 'system',
+      run_id: memory.scope === 'run' ? memory.scope_id : SYSTEM_RUN_ID,
+      tenant_id: memory.tenant_id,
       type: 'memory.accessed',
       timestamp: Date.now(),
       memory_id: memory.id,
       scope: memory.scope
-    } as any);
+    });
   }
 
   /**
@@ -354,23 +375,24 @@ class MemoryService {
   }
 
   /**
-   * Get memory statistics
+   * Get memory statistics (for one tenant, or all)
    */
-  getStats(): {
+  getStats(tenant_id?: string): {
     total_memories: number;
     by_scope: Record<MemoryScope, number>;
     by_type: Record<MemoryType, number>;
     total_size_bytes: number;
   } {
     const stats = {
-      total_memories: this.memories.size,
+      total_memories: 0,
       by_scope: { user: 0, org: 0, project: 0, run: 0 },
       by_type: { preference: 0, context: 0, learning: 0, cache: 0, session: 0, custom: 0 },
       total_size_bytes: 0
     };
 
     for (const memory of this.memories.values()) {
-      if (!this.isExpired(memory)) {
+      if (!this.isExpired(memory) && (!tenant_id || memory.tenant_id === tenant_id)) {
+        stats.total_memories++;
         stats.by_scope[memory.scope]++;
         stats.by_type[memory.type]++;
         stats.total_size_bytes += JSON.stringify(memory.value).length;
@@ -399,45 +421,61 @@ export const memoryService = new MemoryService();
 /**
  * Store user preference
  */
-export async function setUserPreference(user_id: string, key: string, value: any): Promise<Memory> {
-  return memoryService.set('user', user_id, key, value, 'preference');
+export async function setUserPreference(
+  user_id: string,
+  key: string,
+  value: any,
+  tenant_id?: string
+): Promise<Memory> {
+  return memoryService.set('user', user_id, key, value, 'preference', undefined, tenant_id);
 }
 
 /**
  * Get user preference
  */
-export async function getUserPreference(user_id: string, key: string): Promise<any> {
-  const memory = await memoryService.get('user', user_id, key);
+export async function getUserPreference(user_id: string, key: string, tenant_id?: string): Promise<any> {
+  const memory = await memoryService.get('user', user_id, key, tenant_id);
   return memory?.value;
 }
 
 /**
  * Store project context
  */
-export async function setProjectContext(project_id: string, key: string, value: any): Promise<Memory> {
-  return memoryService.set('project', project_id, key, value, 'context');
+export async function setProjectContext(
+  project_id: string,
+  key: string,
+  value: any,
+  tenant_id?: string
+): Promise<Memory> {
+  return memoryService.set('project', project_id, key, value, 'context', undefined, tenant_id);
 }
 
 /**
  * Get project context
  */
-export async function getProjectContext(project_id: string, key: string): Promise<any> {
-  const memory = await memoryService.get('project', project_id, key);
+export async function getProjectContext(project_id: string, key: string, tenant_id?: string): Promise<any> {
+  const memory = await memoryService.get('project', project_id, key, tenant_id);
   return memory?.value;
 }
 
 /**
  * Store run session data
  */
-export async function setRunSession(run_id: string, key: string, value: any, ttl?: number): Promise<Memory> {
-  return memoryService.set('run', run_id, key, value, 'session', ttl);
+export async function setRunSession(
+  run_id: string,
+  key: string,
+  value: any,
+  ttl?: number,
+  tenant_id?: string
+): Promise<Memory> {
+  return memoryService.set('run', run_id, key, value, 'session', ttl, tenant_id);
 }
 
 /**
  * Get run session data
  */
-export async function getRunSession(run_id: string, key: string): Promise<any> {
-  const memory = await memoryService.get('run', run_id, key);
+export async function getRunSession(run_id: string, key: string, tenant_id?: string): Promise<any> {
+  const memory = await memoryService.get('run', run_id, key, tenant_id);
   return memory?.value;
 }
 
@@ -449,16 +487,22 @@ export async function cacheResult(
   scope_id: string,
   key: string,
   value: any,
-  ttl: number = 3600000 // 1 hour default
+  ttl: number = 3600000, // 1 hour default
+  tenant_id?: string
 ): Promise<Memory> {
-  return memoryService.set(scope, scope_id, key, value, 'cache', ttl);
+  return memoryService.set(scope, scope_id, key, value, 'cache', ttl, tenant_id);
 }
 
 /**
  * Get cached result
  */
-export async function getCachedResult(scope: MemoryScope, scope_id: string, key: string): Promise<any> {
-  const memory = await memoryService.get(scope, scope_id, key);
+export async function getCachedResult(
+  scope: MemoryScope,
+  scope_id: string,
+  key: string,
+  tenant_id?: string
+): Promise<any> {
+  const memory = await memoryService.get(scope, scope_id, key, tenant_id);
   return memory?.value;
 }
 
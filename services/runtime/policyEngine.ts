@@ -0,0 +1,209 @@
+/**
+ * Policy Engine - Rule Evaluation for AURA OS Runs
+ *
+ * Evaluates Policy/PolicyRule definitions against run, step, tool call and
+ * artifact context at the executor's hook points:
+ * - run.start:        before the first step
+ * - step.before:      before any node starts
+ * - tool.before:      before a tool call node starts
+ * - step.after:       after a node completes
+ * - artifact.created: when an artifact is produced
+ *
+ * Conditions use the safe expression evaluator (no eval), e.g.
+ *   "run.cost > 5000"
+ *   "tool.name.startsWith('slack.')"
+ *   "artifact.type === 'prd' && artifact.verification.score < 70"
+ *
+ * The engine only decides; the executor records every decision as events and
+ * enforces it (block fails the run, require_approval pauses it for sign-off).
+ */
+
+import { Policy, PolicyRule, PolicyHook, Run } from '../../types/advanced';
+import { evaluateCondition } from './expressions';
+
+// ============= TYPES =============
+
+export type PolicyAction = 'allow' | 'warn' | 'require_approval' | 'block';
+
+export interface PolicyViolation {
+  policy: Policy;
+  rule: PolicyRule;
+  error?: string; // Set when the condition itself failed to evaluate
+}
+
+export interface PolicyDecision {
+  hook: PolicyHook;
+  action: PolicyAction; // Strongest action among matched rules
+  policy_ids: string[]; // Policies that applied at this hook
+  violations: PolicyViolation[];
+}
+
+export type PolicyNotificationHandler = (run_id: string, violation: PolicyViolation) => void;
+
+// Strongest wins: block > require_approval > warn (notify doesn't change the outcome)
+export const POLICY_ACTION_SEVERITY: Record<PolicyAction, number> = {
+  allow: 0,
+  warn: 1,
+  require_approval: 2,
+  block: 3
+};
+
+// ============= POLICY ENGINE =============
+
+class PolicyEngine {
+  private policies: Map<string, Policy>; // Map<policy_id, Policy>
+  private notificationHandlers: PolicyNotificationHandler[];
+
+  constructor() {
+    this.policies = new Map();
+    this.notificationHandlers = [];
+  }
+
+  /**
+   * Add or replace a policy
+   */
+  registerPolicy(policy: Policy): void {
+    this.policies.set(policy.id, policy);
+  }
+
+  /**
+   * Remove a policy
+   */
+  removePolicy(policy_id: string): boolean {
+    return this.policies.delete(policy_id);
+  }
+
+  /**
+   * List all registered policies
+   */
+  listPolicies(): Policy[] {
+    return Array.from(this.policies.values());
+  }
+
+  /**
+   * Enabled policies in scope for a run (global, its project, its user)
+   */
+  getApplicablePolicies(run: Pick<Run, 'project_id' | 'user_id'>): Policy[] {
+    return this.listPolicies().filter(policy => {
+      if (!policy.enabled) return false;
+
+      switch (policy.scope) {
+        case 'global':
+          return true;
+        case 'project':
+          return policy.scope_id === run.project_id;
+        case 'user':
+          return policy.scope_id === run.user_id;
+        default:
+          return false;
+      }
+    });
+  }
+
+  /**
+   * Evaluate applicable policies at a hook.
+   *
+   * A condition that fails to evaluate counts as matched (fail closed), so a
+   * typo in a blocking rule never silently lets an action through.
+   */
+  evaluate(
+    hook: PolicyHook,
+    run: Pick<Run, 'project_id' | 'user_id'>,
+    scope: Record<string, any>
+  ): PolicyDecision {
+    const decision: PolicyDecision = {
+      hook,
+      action: 'allow',
+      policy_ids: [],
+      violations: []
+    };
+
+    for (const policy of this.getApplicablePolicies(run)) {
+      const rules = policy.rules.filter(rule => !rule.hooks || rule.hooks.includes(hook));
+      if (rules.length === 0) continue;
+
+      decision.policy_ids.push(policy.id);
+
+      for (const rule of rules) {
+        let matched: boolean;
+        let error: string | undefined;
+
+        try {
+          matched = evaluateCondition(rule.condition, scope);
+        } catch (err: any) {
+          matched = true;
+          error = err.message;
+          console.error(`[PolicyEngine] Policy ${policy.id} condition failed, treating as matched:`, err.message);
+        }
+
+        if (!matched) continue;
+
+        decision.violations.push({ policy, rule, error });
+
+        const action: PolicyAction = rule.action === 'notify' ? 'allow' : rule.action;
+        if (POLICY_ACTION_SEVERITY[action] > POLICY_ACTION_SEVERITY[decision.action]) {
+          decision.action = action;
+        }
+      }
+    }
+
+    return decision;
+  }
+
+  /**
+   * Subscribe to `notify` rule matches (e.g., send to Slack or email)
+   */
+  onNotify(handler: PolicyNotificationHandler): () => void {
+    this.notificationHandlers.push(handler);
+
+    return () => {
+      const index = this.notificationHandlers.indexOf(handler);
+      if (index > -1) {
+        this.notificationHandlers.splice(index, 1);
+      }
+    };
+  }
+
+  /**
+   * Deliver `notify` matches from a decision to subscribers
+   */
+  dispatchNotifications(run_id: string, decision: PolicyDecision): void {
+    for (const violation of decision.violations) {
+      if (violation.rule.action !== 'notify') continue;
+
+      this.notificationHandlers.forEach(handler => {
+        try {
+          handler(run_id, violation);
+        } catch (err) {
+          console.error('[PolicyEngine] Notification handler error:', err);
+        }
+      });
+    }
+  }
+
+  /**
+   * Clear all policies (for testing)
+   */
+  clear(): void {
+    this.policies.clear();
+    this.notificationHandlers = [];
+  }
+}
+
+// ============= SINGLETON INSTANCE =============
+
+export const policyEngine = new PolicyEngine();
+
+// ============= HELPER FUNCTIONS =============
+
+/**
+ * Register a policy with the shared engine
+ */
+export function registerPolicy(policy: Policy): void {
+  policyEngine.registerPolicy(policy);
+}
+
+/**
+ * Export for testing
+ */
+export { PolicyEngine };
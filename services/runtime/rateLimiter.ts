@@ -0,0 +1,405 @@
+/**
+ * Rate Limiter - Per-Integration Request Limits
+ *
+ * Provides request scheduling for APIExecutor, ShopifyClient and the tool
+ * registry with:
+ * - Token buckets per declared window (RateLimits: per second/minute/hour/day)
+ * - A concurrent request cap
+ * - One limiter per integration and credential, so two accounts on the same
+ *   integration don't share a budget
+ * - FIFO queueing: requests over the limit wait instead of failing with 429
+ * - Pausing after a 429 that carries a Retry-After hint
+ * - Queue time per request (reported as NodeRunMetrics.queueTimeMs)
+ * - Limiter state for dashboards
+ *
+ * Each bucket holds up to its window's limit and refills continuously, so a
+ * quiet integration can burst up to the limit and then settles at the
+ * declared rate.
+ */
+
+import { RateLimits } from '../../types/aura-os';
+import { errorCode, getRetryAfter } from './resilience';
+
+// ============= TYPES =============
+
+export type RateLimitWindow = 'second' | 'minute' | 'hour' | 'day';
+
+export interface RateLimitOptions {
+  credential_id?: string; // Separate budget per credential (default: shared)
+  limits?: RateLimits; // Declared limits; a configure() override wins
+  signal?: AbortSignal; // Leaves the queue (the signal's reason is thrown)
+  onQueued?: (queueTimeMs: number) => void; // Called when the request is admitted
+}
+
+export interface RateLimiterState {
+  key: string; // '<integration>:<credential>'
+  integration: string;
+  credential_id?: string;
+  limits: RateLimits;
+  available: Partial<Record<RateLimitWindow, number>>; // Whole tokens left per window
+  in_flight: number;
+  queued: number;
+  paused_until?: number; // Set after a 429 with a retry hint
+  total_requests: number;
+  total_queue_time_ms: number;
+  max_queue_time_ms: number;
+  last_request_at?: number;
+}
+
+interface Bucket {
+  window: RateLimitWindow;
+  capacity: number;
+  tokens: number;
+  refill_per_ms: number;
+}
+
+interface Waiter {
+  enqueued_at: number;
+  resolve: (queueTimeMs: number) => void;
+  reject: (reason: any) => void;
+  cleanup: () => void;
+}
+
+const WINDOW_MS: Record<RateLimitWindow, number> = {
+  second: 1000,
+  minute: 60 * 1000,
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000
+};
+
+const WINDOW_LIMITS: Record<RateLimitWindow, keyof RateLimits> = {
+  second: 'requestsPerSecond',
+  minute: 'requestsPerMinute',
+  hour: 'requestsPerHour',
+  day: 'requestsPerDay'
+};
+
+// ============= RATE LIMITER =============
+
+/**
+ * Token buckets and a concurrency cap for one integration + credential
+ */
+class RateLimiter {
+  private buckets: Bucket[] = [];
+  private limits: RateLimits = {};
+  private queue: Waiter[] = [];
+  private inFlight = 0;
+  private pausedUntil = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private refilledAt = Date.now();
+  private totalRequests = 0;
+  private totalQueueTime = 0;
+  private maxQueueTime = 0;
+  private lastRequestAt?: number;
+
+  constructor(
+    readonly key: string,
+    readonly integration: string,
+    readonly credentialId: string | undefined,
+    limits: RateLimits
+  ) {
+    this.configure(limits);
+  }
+
+  /**
+   * Replace the limits, keeping the tokens already spent in each window
+   */
+  configure(limits: RateLimits): void {
+    this.refill();
+    const previous = new Map(this.buckets.map(bucket => [bucket.window, bucket]));
+
+    this.limits = { ...limits };
+    this.buckets = (Object.keys(WINDOW_LIMITS) as RateLimitWindow[])
+      .filter(window => (limits[WINDOW_LIMITS[window]] || 0) > 0)
+      .map(window => {
+        const capacity = limits[WINDOW_LIMITS[window]]!;
+        const spent = previous.has(window) ? previous.get(window)!.capacity - previous.get(window)!.tokens : 0;
+        return {
+          window,
+          capacity,
+          tokens: Math.max(0, capacity - spent),
+          refill_per_ms: capacity / WINDOW_MS[window]
+        };
+      });
+
+    this.drain();
+  }
+
+  /**
+   * Run an operation once the limits admit it
+   */
+  async execute<T>(operation: () => Promise<T>, options: RateLimitOptions = {}): Promise<T> {
+    const queueTimeMs = await this.acquire(options.signal);
+    options.onQueued?.(queueTimeMs);
+
+    try {
+      return await operation();
+    } catch (error: any) {
+      // The server says we're over its limit: hold everyone back until it says so
+      const retryAfter = errorCode(error) === 'RATE_LIMIT' ? getRetryAfter(error) : undefined;
+      if (retryAfter) {
+        this.pause(retryAfter);
+      }
+      throw error;
+    } finally {
+      this.inFlight--;
+      this.drain();
+    }
+  }
+
+  /**
+   * Stop admitting requests for a while (e.g., the server returned 429)
+   */
+  pause(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+    console.log(`[RateLimiter] ${this.key} paused for ${ms}ms`);
+    this.drain();
+  }
+
+  /**
+   * Current state for dashboards
+   */
+  status(): RateLimiterState {
+    this.refill();
+
+    return {
+      key: this.key,
+      integration: this.integration,
+      credential_id: this.credentialId,
+      limits: { ...this.limits },
+      available: Object.fromEntries(this.buckets.map(bucket => [bucket.window, Math.floor(bucket.tokens)])),
+      in_flight: this.inFlight,
+      queued: this.queue.length,
+      paused_until: this.pausedUntil > Date.now() ? this.pausedUntil : undefined,
+      total_requests: this.totalRequests,
+      total_queue_time_ms: this.totalQueueTime,
+      max_queue_time_ms: this.maxQueueTime,
+      last_request_at: this.lastRequestAt
+    };
+  }
+
+  /**
+   * Fail queued requests and stop the refill timer
+   */
+  dispose(reason: any): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+
+    const waiting = this.queue;
+    this.queue = [];
+    waiting.forEach(waiter => {
+      waiter.cleanup();
+      waiter.reject(reason);
+    });
+  }
+
+  /**
+   * Wait for a slot in FIFO order; resolves with the time spent queued
+   */
+  private acquire(signal?: AbortSignal): Promise<number> {
+    if (signal?.aborted) {
+      return Promise.reject(signal.reason);
+    }
+
+    return new Promise<number>((resolve, reject) => {
+      const onAbort = () => {
+        this.queue = this.queue.filter(queued => queued !== waiter);
+        reject(signal!.reason);
+        this.drain();
+      };
+
+      const waiter: Waiter = {
+        enqueued_at: Date.now(),
+        resolve,
+        reject,
+        cleanup: () => signal?.removeEventListener('abort', onAbort)
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.queue.push(waiter);
+      this.drain();
+    });
+  }
+
+  /**
+   * Admit queued requests while the limits allow, else wait for the next token
+   */
+  private drain(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    while (this.queue.length > 0) {
+      const concurrent = this.limits.concurrentRequests;
+      if (concurrent && this.inFlight >= concurrent) {
+        return; // The next release drains again
+      }
+
+      const wait = this.waitTime();
+      if (wait > 0) {
+        this.timer = setTimeout(() => this.drain(), wait);
+        return;
+      }
+
+      const waiter = this.queue.shift()!;
+      this.buckets.forEach(bucket => bucket.tokens -= 1);
+      this.inFlight++;
+
+      const now = Date.now();
+      const queueTimeMs = now - waiter.enqueued_at;
+      this.totalRequests++;
+      this.totalQueueTime += queueTimeMs;
+      this.maxQueueTime = Math.max(this.maxQueueTime, queueTimeMs);
+      this.lastRequestAt = now;
+
+      waiter.cleanup();
+      waiter.resolve(queueTimeMs);
+    }
+  }
+
+  /**
+   * ms until every bucket has a whole token and any pause is over
+   */
+  private waitTime(): number {
+    this.refill();
+
+    const now = Date.now();
+    let wait = Math.max(0, this.pausedUntil - now);
+
+    for (const bucket of this.buckets) {
+      if (bucket.tokens < 1) {
+        wait = Math.max(wait, Math.ceil((1 - bucket.tokens) / bucket.refill_per_ms));
+      }
+    }
+
+    return wait;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    const elapsed = now - this.refilledAt;
+    this.refilledAt = now;
+
+    for (const bucket of this.buckets) {
+      bucket.tokens = Math.min(bucket.capacity, bucket.tokens + elapsed * bucket.refill_per_ms);
+    }
+  }
+}
+
+// ============= RATE LIMITER REGISTRY =============
+
+class RateLimiterRegistry {
+  private limiters: Map<string, RateLimiter>; // Map<integration:credential, RateLimiter>
+  private overrides: Map<string, RateLimits>; // Map<integration, RateLimits override>
+
+  constructor() {
+    this.limiters = new Map();
+    this.overrides = new Map();
+  }
+
+  /**
+   * Run a request to an integration within its limits, queueing if needed
+   */
+  async execute<T>(integration: string, operation: () => Promise<T>, options: RateLimitOptions = {}): Promise<T> {
+    return this.get(integration, options).execute(operation, options);
+  }
+
+  /**
+   * Override an integration's declared limits (all credentials)
+   */
+  configure(integration: string, limits: RateLimits): void {
+    this.overrides.set(integration, limits);
+    this.limiters.forEach(limiter => {
+      if (limiter.integration === integration) limiter.configure(limits);
+    });
+  }
+
+  /**
+   * Hold back an integration's requests, e.g. after a 429 seen elsewhere
+   */
+  pause(integration: string, ms: number, credentialId?: string): void {
+    this.get(integration, { credential_id: credentialId }).pause(ms);
+  }
+
+  /**
+   * State of one limiter
+   */
+  getStatus(integration: string, credentialId?: string): RateLimiterState | undefined {
+    return this.limiters.get(limiterKey(integration, credentialId))?.status();
+  }
+
+  /**
+   * States of every limiter used so far, optionally for one integration
+   */
+  list(integration?: string): RateLimiterState[] {
+    return Array.from(this.limiters.values())
+      .filter(limiter => !integration || limiter.integration === integration)
+      .map(limiter => limiter.status());
+  }
+
+  /**
+   * Drop all limiters and overrides, failing queued requests (for testing)
+   */
+  clear(): void {
+    const error: any = new Error('Rate limiter cleared');
+    error.code = 'CANCELLED';
+    this.limiters.forEach(limiter => limiter.dispose(error));
+    this.limiters.clear();
+    this.overrides.clear();
+  }
+
+  private get(integration: string, options: RateLimitOptions): RateLimiter {
+    const key = limiterKey(integration, options.credential_id);
+    const limits = this.overrides.get(integration) || options.limits || {};
+
+    let limiter = this.limiters.get(key);
+    if (!limiter) {
+      limiter = new RateLimiter(key, integration, options.credential_id, limits);
+      this.limiters.set(key, limiter);
+    } else if (!this.overrides.has(integration) && options.limits && !sameLimits(limiter.status().limits, options.limits)) {
+      limiter.configure(options.limits); // Declaration changed (e.g., integration reloaded)
+    }
+    return limiter;
+  }
+}
+
+// ============= UTILITIES =============
+
+function limiterKey(integration: string, credentialId?: string): string {
+  return `${integration}:${credentialId || 'default'}`;
+}
+
+function sameLimits(a: RateLimits, b: RateLimits): boolean {
+  const fields: (keyof RateLimits)[] = [...Object.values(WINDOW_LIMITS), 'concurrentRequests'];
+  return fields.every(field => (a[field] || 0) === (b[field] || 0));
+}
+
+// ============= SINGLETON INSTANCE =============
+
+export const rateLimiter = new RateLimiterRegistry();
+
+// ============= HELPER FUNCTIONS =============
+
+/**
+ * Run a request to an integration within its rate limits
+ */
+export async function withRateLimit<T>(
+  integration: string,
+  operation: () => Promise<T>,
+  options?: RateLimitOptions
+): Promise<T> {
+  return rateLimiter.execute(integration, operation, options);
+}
+
+/**
+ * Current limiter states (for dashboards)
+ */
+export function getRateLimiterStates(integration?: string): RateLimiterState[] {
+  return rateLimiter.list(integration);
+}
+
+/**
+ * Export for testing
+ */
+export { RateLimiterRegistry };
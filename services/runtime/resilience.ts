@@ -0,0 +1,453 @@
+/**
+ * Resilience - Shared Retry and Circuit Breaker Logic
+ *
+ * Provides failure handling for the runtime executor, APIExecutor and the
+ * debugger agent with:
+ * - Full-jitter exponential backoff (random delay in [0, backoff])
+ * - Server retry hints (Retry-After, retry_after_ms) honored over backoff
+ * - Error codes derived from http_status (429 → RATE_LIMIT, 5xx → SERVICE_UNAVAILABLE)
+ * - Per-integration circuit breakers (closed → open → half-open probe → closed)
+ * - Listeners for breaker state changes
+ *
+ * An open breaker fails calls immediately with CIRCUIT_OPEN instead of
+ * sending more traffic to an integration that is down.
+ */
+
+// ============= TYPES =============
+
+export interface BackoffPolicy {
+  initial_delay: number; // ms
+  max_delay: number; // ms
+  multiplier: number;
+  strategy?: 'exponential' | 'linear' | 'constant'; // Default: exponential
+  jitter?: boolean; // Full jitter (default: true)
+}
+
+export interface RetryOptions extends BackoffPolicy {
+  max_attempts: number; // Including the first attempt
+  retryable: string[] | ((error: any) => boolean); // Error codes / HTTP statuses, or a predicate
+  signal?: AbortSignal; // Stops retrying (the last error is thrown)
+  onFailure?: (error: any, attempt: number, willRetry: boolean) => void | Promise<void>;
+  onRetry?: (nextAttempt: number, delay: number, error: any) => void | Promise<void>;
+}
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreakerOptions {
+  failure_threshold: number; // Consecutive failures that open the breaker
+  reset_timeout: number; // ms open before a half-open probe is allowed
+  trip_on: string[]; // Error codes that count as the integration being down
+}
+
+export interface CircuitChange {
+  name: string;
+  from: CircuitState;
+  to: CircuitState;
+  failures: number;
+  retry_at?: number; // When an opened breaker allows a probe
+  timestamp: number;
+}
+
+export type CircuitListener = (change: CircuitChange) => void;
+
+export interface CircuitStatus {
+  name: string;
+  state: CircuitState;
+  failures: number;
+  opened_at?: number;
+  retry_at?: number;
+}
+
+export const DEFAULT_CIRCUIT_BREAKER_OPTIONS: CircuitBreakerOptions = {
+  failure_threshold: 5,
+  reset_timeout: 30000, // 30 seconds
+  trip_on: [
+    'TIMEOUT',
+    'NETWORK_ERROR',
+    'SERVICE_UNAVAILABLE',
+    'TEMPORARY_FAILURE',
+    'RATE_LIMIT',
+    'ETIMEDOUT',
+    'ECONNRESET',
+    'ECONNREFUSED'
+  ]
+};
+
+// ============= ERROR CLASSIFICATION =============
+
+/**
+ * Error code for retry decisions: the error's own code, else one derived
+ * from its HTTP status
+ */
+export function errorCode(error: any): string {
+  if (typeof error?.code === 'string' && error.code) return error.code;
+
+  const status = httpStatus(error);
+  if (status === 429) return 'RATE_LIMIT';
+  if (status === 408) return 'TIMEOUT';
+  if (status !== undefined && status >= 500) return 'SERVICE_UNAVAILABLE';
+  if (error?.name === 'AbortError') return 'TIMEOUT';
+
+  return 'UNKNOWN_ERROR';
+}
+
+/**
+ * HTTP status carried by a ToolError, fetch/SDK error or response
+ */
+export function httpStatus(error: any): number | undefined {
+  const status = error?.http_status ?? error?.status ?? error?.response?.status;
+  return typeof status === 'number' ? status : undefined;
+}
+
+/**
+ * Whether an error matches a list of codes or HTTP statuses (e.g., 'RATE_LIMIT', '503')
+ */
+export function isRetryable(error: any, retryable: string[]): boolean {
+  const status = httpStatus(error);
+  return retryable.includes(errorCode(error)) ||
+    (status !== undefined && retryable.includes(String(status)));
+}
+
+/**
+ * Server retry hint in ms: retry_after_ms, retry_after (seconds) or a
+ * Retry-After header (seconds or HTTP date)
+ */
+export function getRetryAfter(error: any): number | undefined {
+  if (typeof error?.retry_after_ms === 'number') return Math.max(0, error.retry_after_ms);
+  if (typeof error?.retry_after === 'number') return Math.max(0, error.retry_after * 1000);
+
+  const headers = error?.headers ?? error?.response?.headers;
+  const header = typeof headers?.get === 'function'
+    ? headers.get('retry-after')
+    : headers?.['retry-after'] ?? headers?.['Retry-After'];
+
+  return parseRetryAfter(header);
+}
+
+/**
+ * Parse a Retry-After header value into ms
+ */
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (value === null || value === undefined || value === '') return undefined;
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// ============= BACKOFF & RETRY =============
+
+/**
+ * Delay before retry number `retry` (1 = first retry). A server hint wins
+ * when it asks for longer than the backoff.
+ */
+export function calculateBackoff(retry: number, policy: BackoffPolicy, retryAfter?: number): number {
+  let ceiling: number;
+
+  switch (policy.strategy || 'exponential') {
+    case 'exponential':
+      ceiling = policy.initial_delay * Math.pow(policy.multiplier, retry - 1);
+      break;
+    case 'linear':
+      ceiling = policy.initial_delay * retry;
+      break;
+    case 'constant':
+    default:
+      ceiling = policy.initial_delay;
+  }
+
+  ceiling = Math.min(ceiling, policy.max_delay);
+  const delay = policy.jitter === false ? ceiling : Math.random() * ceiling;
+
+  return Math.round(retryAfter !== undefined ? Math.max(retryAfter, delay) : delay);
+}
+
+/**
+ * Run an operation, retrying retryable failures with backoff
+ */
+export async function retryWithBackoff<T>(
+  operation: (attempt: number) => Promise<T>,
+  options: RetryOptions
+): Promise<T> {
+  const shouldRetry = typeof options.retryable === 'function'
+    ? options.retryable
+    : (error: any) => isRetryable(error, options.retryable as string[]);
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error: any) {
+      const willRetry = attempt < options.max_attempts && !options.signal?.aborted && shouldRetry(error);
+      await options.onFailure?.(error, attempt, willRetry);
+
+      if (!willRetry) {
+        throw error;
+      }
+
+      const delay = calculateBackoff(attempt, options, getRetryAfter(error));
+      await options.onRetry?.(attempt + 1, delay, error);
+      await sleep(delay, options.signal);
+
+      if (options.signal?.aborted) {
+        throw error;
+      }
+    }
+  }
+}
+
+/**
+ * Sleep, waking early if the signal aborts
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    if (signal?.aborted) onAbort();
+    else signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// ============= CIRCUIT BREAKER =============
+
+/**
+ * One integration's breaker. Trip-class failures (see trip_on) count toward
+ * opening it; any other outcome except a cancelled call means the
+ * integration answered and resets the count. After reset_timeout one probe
+ * call is let through (half-open): success closes the breaker, a
+ * trip-class failure opens it again.
+ */
+class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private failures = 0;
+  private openedAt?: number;
+  private probing = false;
+
+  constructor(
+    readonly name: string,
+    private options: CircuitBreakerOptions,
+    private notify: (change: CircuitChange) => void
+  ) {}
+
+  async execute<T>(operation: () => Promise<T>, onChange?: CircuitListener): Promise<T> {
+    const probe = this.admit(onChange);
+
+    try {
+      const result = await operation();
+      this.recordSuccess(onChange);
+      return result;
+    } catch (error: any) {
+      const code = errorCode(error);
+      if (this.options.trip_on.includes(code)) {
+        this.recordFailure(onChange);
+      } else if (code !== 'CANCELLED') {
+        this.recordSuccess(onChange);
+      }
+      throw error;
+    } finally {
+      if (probe) this.probing = false;
+    }
+  }
+
+  status(): CircuitStatus {
+    return {
+      name: this.name,
+      state: this.state,
+      failures: this.failures,
+      opened_at: this.openedAt,
+      retry_at: this.openedAt !== undefined ? this.openedAt + this.options.reset_timeout : undefined
+    };
+  }
+
+  configure(options: CircuitBreakerOptions): void {
+    this.options = options;
+  }
+
+  reset(): void {
+    this.state = 'closed';
+    this.failures = 0;
+    this.openedAt = undefined;
+    this.probing = false;
+  }
+
+  /**
+   * Let the call through (returns whether it is the half-open probe), or
+   * fail fast with CIRCUIT_OPEN
+   */
+  private admit(onChange?: CircuitListener): boolean {
+    if (this.state === 'closed') return false;
+
+    const retryAt = this.openedAt! + this.options.reset_timeout;
+    if (this.state === 'open' && Date.now() >= retryAt) {
+      this.transition('half_open', onChange);
+    }
+
+    if (this.state === 'half_open' && !this.probing) {
+      this.probing = true;
+      console.log(`[Resilience] Probing ${this.name} (half-open)`);
+      return true;
+    }
+
+    const error: any = new Error(`Circuit open for ${this.name}: ${this.failures} consecutive failures`);
+    error.code = 'CIRCUIT_OPEN';
+    error.retry_after_ms = Math.max(0, retryAt - Date.now());
+    throw error;
+  }
+
+  private recordSuccess(onChange?: CircuitListener): void {
+    this.failures = 0;
+    if (this.state !== 'closed') {
+      this.openedAt = undefined;
+      this.transition('closed', onChange);
+    }
+  }
+
+  private recordFailure(onChange?: CircuitListener): void {
+    this.failures++;
+    if (this.state === 'half_open' || (this.state === 'closed' && this.failures >= this.options.failure_threshold)) {
+      this.openedAt = Date.now();
+      this.transition('open', onChange);
+    }
+  }
+
+  private transition(to: CircuitState, onChange?: CircuitListener): void {
+    const change: CircuitChange = {
+      name: this.name,
+      from: this.state,
+      to,
+      failures: this.failures,
+      retry_at: to === 'open' ? this.openedAt! + this.options.reset_timeout : undefined,
+      timestamp: Date.now()
+    };
+    this.state = to;
+
+    console.log(`[Resilience] Circuit ${this.name}: ${change.from} → ${to}`);
+    onChange?.(change);
+    this.notify(change);
+  }
+}
+
+// ============= CIRCUIT BREAKER REGISTRY =============
+
+class CircuitBreakerRegistry {
+  private breakers: Map<string, CircuitBreaker>; // Map<integration, CircuitBreaker>
+  private options: Map<string, CircuitBreakerOptions>; // Map<integration, options override>
+  private listeners: CircuitListener[];
+
+  constructor() {
+    this.breakers = new Map();
+    this.options = new Map();
+    this.listeners = [];
+  }
+
+  /**
+   * Run an operation through an integration's breaker. `onChange` sees the
+   * state changes this call causes (e.g., to record them on a run).
+   */
+  async execute<T>(name: string, operation: () => Promise<T>, onChange?: CircuitListener): Promise<T> {
+    return this.get(name).execute(operation, onChange);
+  }
+
+  /**
+   * Override breaker options for one integration
+   */
+  configure(name: string, options: Partial<CircuitBreakerOptions>): void {
+    const merged = { ...DEFAULT_CIRCUIT_BREAKER_OPTIONS, ...this.options.get(name), ...options };
+    this.options.set(name, merged);
+    this.breakers.get(name)?.configure(merged);
+  }
+
+  /**
+   * Current state of one breaker
+   */
+  getStatus(name: string): CircuitStatus {
+    return this.get(name).status();
+  }
+
+  /**
+   * States of every breaker used so far
+   */
+  list(): CircuitStatus[] {
+    return Array.from(this.breakers.values()).map(breaker => breaker.status());
+  }
+
+  /**
+   * Subscribe to breaker state changes; returns an unsubscribe function
+   */
+  subscribe(listener: CircuitListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  /**
+   * Close one breaker, or all of them
+   */
+  reset(name?: string): void {
+    if (name) {
+      this.breakers.get(name)?.reset();
+    } else {
+      this.breakers.forEach(breaker => breaker.reset());
+    }
+  }
+
+  /**
+   * Drop all breakers, overrides and listeners (for testing)
+   */
+  clear(): void {
+    this.breakers.clear();
+    this.options.clear();
+    this.listeners = [];
+  }
+
+  private get(name: string): CircuitBreaker {
+    let breaker = this.breakers.get(name);
+    if (!breaker) {
+      breaker = new CircuitBreaker(
+        name,
+        this.options.get(name) || DEFAULT_CIRCUIT_BREAKER_OPTIONS,
+        change => this.listeners.forEach(listener => listener(change))
+      );
+      this.breakers.set(name, breaker);
+    }
+    return breaker;
+  }
+}
+
+// ============= SINGLETON INSTANCE =============
+
+export const circuitBreakers = new CircuitBreakerRegistry();
+
+// ============= HELPER FUNCTIONS =============
+
+/**
+ * Run an operation through an integration's circuit breaker
+ */
+export async function withCircuitBreaker<T>(
+  name: string,
+  operation: () => Promise<T>,
+  onChange?: CircuitListener
+): Promise<T> {
+  return circuitBreakers.execute(name, operation, onChange);
+}
+
+/**
+ * Subscribe to circuit breaker state changes
+ */
+export function onCircuitChange(listener: CircuitListener): () => void {
+  return circuitBreakers.subscribe(listener);
+}
+
+/**
+ * Export for testing
+ */
+export { CircuitBreakerRegistry };
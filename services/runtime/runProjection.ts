@@ -0,0 +1,527 @@
+/**
+ * Run Projection - Read Models Folded from the Event Log
+ *
+ * Provides run state derived from events alone with:
+ * - Complete Run, Step, ToolCall and Artifact read models
+ * - Incremental updates: each appended event is applied as it arrives
+ * - Point-in-time reconstruction ("state as of event N") for time travel,
+ *   replay and debugging
+ * - Run metrics maintained alongside the models
+ *
+ * Events record ids, timings, costs and outcomes but not every payload:
+ * a tool call's response is taken from its step's output, and artifact
+ * content (which lives only in the executor) stays unset.
+ */
+
+import {
+  Artifact,
+  Event,
+  Run,
+  RunMetrics,
+  Step,
+  ToolCall
+} from '../../types/advanced';
+import { DEFAULT_TENANT_ID } from './eventSchema';
+
+// ============= TYPES =============
+
+export interface RunReadModel {
+  run: Run; // run.events holds the events applied so far
+  steps: Step[]; // In start order
+  tool_calls: ToolCall[]; // In call order
+  artifacts: Artifact[]; // Same objects as run.artifacts
+  metrics: RunMetrics;
+  position: number; // Number of events applied
+  last_event_id?: string;
+}
+
+export interface ProjectionOptions {
+  position?: number; // Stop after the first N events
+  until_event_id?: string; // Stop after this event (inclusive)
+}
+
+/**
+ * Where live projections load and follow events (the EventStore)
+ */
+export interface ProjectionSource {
+  getRunEvents(run_id: string): Promise<Event[]>;
+  subscribe(run_id: string, callback: (event: Event) => void): () => void;
+}
+
+// ============= RUN PROJECTOR =============
+
+/**
+ * Folds one run's events into read models, one event at a time
+ */
+class RunProjector {
+  private run: Run;
+  private steps: Map<string, Step>; // Map<step_id, Step>
+  private toolCalls: Map<string, ToolCall>; // Map<tool_call_id, ToolCall>
+  private artifacts: Map<string, Artifact>; // Map<artifact_id, Artifact>
+  private applied: Set<string>; // Event ids already folded in
+  private retries = 0;
+  private endedAt?: number;
+
+  constructor(readonly run_id: string) {
+    this.run = {
+      id: run_id,
+      tenant_id: DEFAULT_TENANT_ID,
+      project_id: '',
+      user_id: '',
+      intent: undefined,
+      plan: undefined,
+      status: 'pending',
+      started_at: 0,
+      cost: 0,
+      artifacts: [],
+      events: [],
+      metadata: { source: 'api' }
+    };
+    this.steps = new Map();
+    this.toolCalls = new Map();
+    this.artifacts = new Map();
+    this.applied = new Set();
+  }
+
+  /**
+   * Apply the next event. Returns false for events of other runs and
+   * events already applied (e.g., seen both on load and via subscribe).
+   */
+  apply(event: Event): boolean {
+    if (event.run_id !== this.run_id || this.applied.has(event.id)) {
+      return false;
+    }
+    this.applied.add(event.id);
+    this.run.events.push(event);
+
+    const run = this.run;
+    run.tenant_id = event.tenant_id; // Every event of a run carries its tenant
+
+    switch (event.type) {
+      // Run lifecycle
+      case 'run.started': {
+        const metadata = event.metadata || {};
+        run.status = 'running';
+        run.started_at = event.timestamp;
+        run.plan = event.plan;
+        run.intent = event.plan.intent;
+        run.project_id = metadata.project_id || run.project_id;
+        run.user_id = metadata.user_id || run.user_id;
+        run.metadata = { ...run.metadata, source: metadata.source || run.metadata.source };
+        break;
+      }
+
+      case 'run.approved':
+        run.status = 'approved';
+        if (run.plan) {
+          run.plan = { ...run.plan, approved_by: event.approved_by, approved_at: event.timestamp };
+        }
+        break;
+
+      case 'run.paused':
+        run.status = 'paused';
+        run.paused_at = event.timestamp;
+        break;
+
+      case 'run.resumed':
+        run.status = 'running';
+        run.paused_at = undefined;
+        run.completed_at = undefined;
+        run.error = undefined;
+        this.endedAt = undefined;
+        break;
+
+      case 'run.completed':
+        run.status = 'completed';
+        run.completed_at = event.timestamp;
+        run.cost = event.cost;
+        this.endedAt = event.timestamp;
+        break;
+
+      case 'run.failed':
+        run.status = 'failed';
+        run.completed_at = event.timestamp;
+        run.error = event.error;
+        this.endedAt = event.timestamp;
+        break;
+
+      case 'run.cancelled':
+        run.status = 'cancelled';
+        run.completed_at = event.timestamp;
+        this.endedAt = event.timestamp;
+        this.steps.forEach(step => {
+          if (step.status === 'running' || step.status === 'retrying') {
+            step.status = 'cancelled';
+            step.completed_at = event.timestamp;
+          }
+        });
+        break;
+
+      case 'snapshot.created':
+        run.current_snapshot = event.snapshot;
+        break;
+
+      // Steps
+      case 'step.started':
+        this.steps.set(event.step_id, {
+          id: event.step_id,
+          run_id: this.run_id,
+          node_id: event.node_id,
+          status: 'running',
+          started_at: event.timestamp,
+          attempt: event.attempt,
+          max_attempts: event.attempt,
+          tool_calls: [],
+          cost: 0
+        });
+        break;
+
+      case 'step.retrying': {
+        const step = this.steps.get(event.step_id);
+        if (step) {
+          step.status = 'retrying';
+          step.attempt = event.attempt;
+          step.max_attempts = event.max_attempts;
+        }
+        this.retries++;
+        break;
+      }
+
+      case 'step.failed': {
+        const step = this.steps.get(event.step_id);
+        if (step) {
+          step.error = event.error;
+          if (!event.will_retry) {
+            step.status = 'failed';
+            step.completed_at = event.timestamp;
+          }
+        }
+        break;
+      }
+
+      case 'step.completed': {
+        const step = this.steps.get(event.step_id);
+        if (step) {
+          step.status = 'completed';
+          step.completed_at = event.timestamp;
+          step.output = event.output;
+          step.cost = event.cost || 0;
+          step.usage = event.usage;
+          step.error = undefined;
+
+          // The step's output is the response of its successful call
+          const call = [...step.tool_calls].reverse().find(toolCall => !toolCall.error);
+          if (call && call.response === undefined) {
+            call.response = event.output;
+          }
+        }
+
+        // Running total until run.completed reports the final cost
+        run.cost += event.cost || 0;
+        break;
+      }
+
+      case 'step.skipped':
+        this.steps.set(event.id, {
+          id: event.id,
+          run_id: this.run_id,
+          node_id: event.node_id,
+          status: 'skipped',
+          started_at: event.timestamp,
+          completed_at: event.timestamp,
+          attempt: 0,
+          max_attempts: 0,
+          tool_calls: [],
+          cost: 0
+        });
+        break;
+
+      // Tool calls
+      case 'tool.called': {
+        const toolCall: ToolCall = {
+          id: event.tool_call_id,
+          step_id: event.step_id || '',
+          tool: event.tool,
+          params: event.params,
+          started_at: event.timestamp,
+          cached: false
+        };
+        this.toolCalls.set(toolCall.id, toolCall);
+        this.steps.get(toolCall.step_id)?.tool_calls.push(toolCall);
+        break;
+      }
+
+      case 'tool.completed': {
+        const toolCall = this.toolCalls.get(event.tool_call_id);
+        if (toolCall) {
+          toolCall.completed_at = event.timestamp;
+          toolCall.cached = event.cached;
+          // Request counts and payload sizes aren't recorded in events
+          toolCall.metrics = {
+            durationMs: event.duration,
+            apiCalls: 0,
+            bytesSent: 0,
+            bytesReceived: 0,
+            queueTimeMs: event.queue_time_ms,
+            executionTimeMs: Math.max(0, event.duration - (event.queue_time_ms || 0))
+          };
+        }
+        break;
+      }
+
+      case 'tool.failed': {
+        const toolCall = this.toolCalls.get(event.tool_call_id);
+        if (toolCall) {
+          toolCall.completed_at = event.timestamp;
+          toolCall.error = event.error;
+        }
+        break;
+      }
+
+      // Artifacts
+      case 'artifact.created': {
+        const artifact: Artifact = {
+          id: event.artifact_id,
+          run_id: this.run_id,
+          type: event.artifact_type,
+          content: undefined,
+          hash: event.hash,
+          verification: { status: 'warning', score: 0, checks: [], verified_at: 0, verifier_version: '' },
+          provenance: { evidence_ids: [], tool_calls: [], input_artifact_ids: [], memory_context: [] },
+          created_at: event.timestamp
+        };
+        this.artifacts.set(artifact.id, artifact);
+        run.artifacts.push(artifact);
+        break;
+      }
+
+      case 'verification.completed': {
+        const artifact = this.artifacts.get(event.artifact_id);
+        if (artifact) artifact.verification = event.result;
+        break;
+      }
+
+      case 'verification.failed': {
+        const artifact = this.artifacts.get(event.artifact_id);
+        if (artifact) {
+          artifact.verification = {
+            ...artifact.verification,
+            status: 'failed',
+            checks: event.checks_failed.map(name => ({ type: 'custom' as const, name, passed: false })),
+            verified_at: event.timestamp
+          };
+        }
+        break;
+      }
+
+      case 'artifact.verified': {
+        const artifact = this.artifacts.get(event.artifact_id);
+        if (artifact) artifact.verification = { ...artifact.verification, score: event.verification_score };
+        break;
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * Current read models (live objects: treat as read-only)
+   */
+  view(): RunReadModel {
+    const events = this.run.events;
+
+    return {
+      run: this.run,
+      steps: Array.from(this.steps.values()),
+      tool_calls: Array.from(this.toolCalls.values()),
+      artifacts: this.run.artifacts,
+      metrics: this.metrics(),
+      position: events.length,
+      last_event_id: events[events.length - 1]?.id
+    };
+  }
+
+  private metrics(): RunMetrics {
+    const steps = Array.from(this.steps.values()).filter(step => step.status !== 'skipped');
+    const toolCalls = Array.from(this.toolCalls.values());
+    const scored = this.run.artifacts.filter(artifact => artifact.verification.verified_at > 0);
+
+    return {
+      run_id: this.run_id,
+      total_steps: steps.length,
+      completed_steps: steps.filter(step => step.status === 'completed').length,
+      failed_steps: steps.filter(step => step.status === 'failed').length,
+      total_duration: this.endedAt && this.run.started_at ? this.endedAt - this.run.started_at : 0,
+      total_cost: this.run.cost,
+      verification_score: scored.length > 0
+        ? scored.reduce((sum, artifact) => sum + artifact.verification.score, 0) / scored.length
+        : undefined,
+      retry_count: this.retries,
+      cache_hit_rate: toolCalls.length > 0
+        ? toolCalls.filter(toolCall => toolCall.cached).length / toolCalls.length
+        : 0,
+      events_emitted: this.run.events.length
+    };
+  }
+}
+
+// ============= LIVE PROJECTIONS =============
+
+/**
+ * Read models kept current for runs being watched (dashboards, debugger)
+ */
+class RunProjections {
+  private source: ProjectionSource;
+  private live: Map<string, { projector: RunProjector; loaded: Promise<void>; unsubscribe: () => void }>; // Map<run_id, live projection>
+  private listeners: Map<string, ((model: RunReadModel, event: Event) => void)[]>; // Map<run_id, callbacks>
+
+  constructor(source: ProjectionSource) {
+    this.source = source;
+    this.live = new Map();
+    this.listeners = new Map();
+  }
+
+  /**
+   * Current read models for a run, or null if it has no events. The first
+   * call loads the run's events; later events are applied as they arrive.
+   */
+  async get(run_id: string): Promise<RunReadModel | null> {
+    const entry = this.follow(run_id);
+    await entry.loaded;
+
+    const model = entry.projector.view();
+    return model.position > 0 ? model : null;
+  }
+
+  /**
+   * The run as it stood after its first `position` events (or through an event id)
+   */
+  async at(run_id: string, options: ProjectionOptions): Promise<RunReadModel | null> {
+    const events = this.live.has(run_id)
+      ? (await this.get(run_id))?.run.events || []
+      : await this.source.getRunEvents(run_id);
+
+    return events.length > 0 ? projectRun(events, options) : null;
+  }
+
+  /**
+   * Be notified with the updated read models after each event. Starts
+   * following the run if it isn't already.
+   */
+  onChange(run_id: string, callback: (model: RunReadModel, event: Event) => void): () => void {
+    this.follow(run_id);
+    if (!this.listeners.has(run_id)) {
+      this.listeners.set(run_id, []);
+    }
+    this.listeners.get(run_id)!.push(callback);
+
+    return () => {
+      const callbacks = this.listeners.get(run_id);
+      if (callbacks) {
+        const index = callbacks.indexOf(callback);
+        if (index > -1) {
+          callbacks.splice(index, 1);
+        }
+      }
+    };
+  }
+
+  /**
+   * Stop following a run and drop its read models
+   */
+  release(run_id: string): void {
+    this.live.get(run_id)?.unsubscribe();
+    this.live.delete(run_id);
+    this.listeners.delete(run_id);
+  }
+
+  /**
+   * Release every run (for testing)
+   */
+  clear(): void {
+    Array.from(this.live.keys()).forEach(run_id => this.release(run_id));
+  }
+
+  private follow(run_id: string) {
+    const existing = this.live.get(run_id);
+    if (existing) return existing;
+
+    const projector = new RunProjector(run_id);
+
+    // Subscribe before loading so nothing appended in between is missed;
+    // events seen twice are ignored by the projector
+    let loading = true;
+    const pending: Event[] = [];
+    const unsubscribe = this.source.subscribe(run_id, event => {
+      if (loading) pending.push(event);
+      else this.applyLive(run_id, projector, event);
+    });
+
+    // Live delivery takes over in the same tick the backlog is drained
+    // (including events listeners append while it drains), so none can
+    // land in `pending` after it was read
+    const loaded = this.source.getRunEvents(run_id).then(events => {
+      events.forEach(event => projector.apply(event));
+      while (pending.length > 0) {
+        this.applyLive(run_id, projector, pending.shift()!);
+      }
+      loading = false;
+    }, error => {
+      pending.length = 0;
+      loading = false;
+      throw error;
+    });
+
+    const entry = { projector, loaded, unsubscribe };
+    this.live.set(run_id, entry);
+
+    // A failed load is retried by the next get()
+    loaded.catch(() => {
+      if (this.live.get(run_id) === entry) {
+        unsubscribe();
+        this.live.delete(run_id);
+      }
+    });
+
+    return entry;
+  }
+
+  private applyLive(run_id: string, projector: RunProjector, event: Event): void {
+    if (!projector.apply(event)) return;
+
+    const callbacks = this.listeners.get(run_id) || [];
+    if (callbacks.length === 0) return;
+
+    const model = projector.view();
+    callbacks.forEach(cb => {
+      try {
+        cb(model, event);
+      } catch (err) {
+        console.error('[RunProjections] Listener error:', err);
+      }
+    });
+  }
+}
+
+// ============= HELPER FUNCTIONS =============
+
+/**
+ * Fold a run's events into read models, optionally stopping early for a
+ * point-in-time view. Events must belong to one run and be in log order.
+ */
+export function projectRun(events: Event[], options: ProjectionOptions = {}): RunReadModel {
+  const projector = new RunProjector(events[0]?.run_id || '');
+  const limit = options.position ?? events.length;
+
+  for (const event of events.slice(0, Math.max(0, limit))) {
+    projector.apply(event);
+    if (options.until_event_id && event.id === options.until_event_id) break;
+  }
+
+  return projector.view();
+}
+
+/**
+ * Export for testing
+ */
+export { RunProjector, RunProjections };
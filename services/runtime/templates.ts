@@ -0,0 +1,346 @@
+/**
+ * Templates - Parameter Templates Shared by the Runtime and Workflow Engines
+ *
+ * Resolves `{{ expression | filter }}` placeholders in step parameters:
+ * - Nested paths:    {{ research.findings[0].title }}
+ * - Interpolation:   "PRD: {{ run.intent.parsed.goal }} ({{ step1.count }} items)"
+ * - Defaults:        {{ research.title | default('Untitled') }} or {{ a ?? b }}
+ * - Filters:         default, join, json, lowercase, uppercase, trim, first, last, length
+ * - Namespaces:      run, memory, secrets (whatever the engine puts in scope)
+ * - Secrets:         only AURA_SECRET_* environment variables unless a
+ *                    provider is installed with setSecretProvider
+ * - Legacy refs:     a whole-string "$step1" or "$step1.output.items"
+ *
+ * A placeholder that fills the whole string keeps its value's type (objects,
+ * arrays, numbers); inside a larger string values are stringified (objects
+ * as JSON). Expressions use the safe evaluator in ./expressions.
+ *
+ * A reference that resolves to undefined (without a default) throws a
+ * TemplateError naming the first missing segment, e.g.
+ *   Missing reference "research.findings[0]" in {{ research.findings[0].title }} (research.findings has 0 items)
+ */
+
+import { evaluateExpression } from './expressions';
+
+// ============= TYPES =============
+
+export class TemplateError extends Error {
+  constructor(
+    message: string,
+    public template: string,
+    public code: 'MISSING_REFERENCE' | 'TEMPLATE_ERROR' = 'TEMPLATE_ERROR'
+  ) {
+    super(message);
+    this.name = 'TemplateError';
+  }
+}
+
+/**
+ * Lazily loaded namespace (e.g., memory, secrets). Receives the expressions
+ * that mention it and is only called when at least one does.
+ */
+export type NamespaceLoader = (expressions: string[]) => Promise<any>;
+
+export interface TemplateScope {
+  values: Record<string, any>;
+  loaders?: Record<string, NamespaceLoader>;
+}
+
+export type SecretProvider = (name: string) => Promise<string | undefined>;
+
+type Filter = (value: any, arg: any) => any;
+
+// ============= CONSTANTS =============
+
+const PLACEHOLDER = /\{\{([\s\S]*?)\}\}/g;
+const WHOLE_PLACEHOLDER = /^\s*\{\{([\s\S]*?)\}\}\s*$/;
+const LEGACY_REFERENCE = /^\$([A-Za-z_][A-Za-z0-9_]*(?:\.[A-Za-z_$][A-Za-z0-9_$]*|\[\d+\])*)$/;
+const PATH_SEGMENT = /\.?([A-Za-z_$][A-Za-z0-9_$]*)|\[(\d+)\]|\['([^']*)'\]|\["([^"]*)"\]/g;
+const SIMPLE_PATH = /^[A-Za-z_$][A-Za-z0-9_$]*(?:\.[A-Za-z_$][A-Za-z0-9_$]*|\[\d+\]|\['[^']*'\]|\["[^"]*"\])*$/;
+const SECRET_REFERENCE = /\bsecrets(?:\.([A-Za-z_$][A-Za-z0-9_$]*)|\[\s*['"]([^'"]+)['"]\s*\])/g;
+const SECRET_ENV_PREFIX = 'AURA_SECRET_';
+
+const FILTERS: Record<string, Filter> = {
+  default: (value, fallback) => (value === undefined || value === null || value === '' ? fallback : value),
+  join: (value, separator = ', ') => (Array.isArray(value) ? value.join(separator) : value),
+  json: value => JSON.stringify(value),
+  lowercase: value => String(value).toLowerCase(),
+  uppercase: value => String(value).toUpperCase(),
+  trim: value => String(value).trim(),
+  first: value => (Array.isArray(value) || typeof value === 'string' ? value[0] : value),
+  last: value => (Array.isArray(value) || typeof value === 'string' ? value[value.length - 1] : value),
+  length: value => (Array.isArray(value) || typeof value === 'string' ? value.length : Object.keys(value ?? {}).length)
+};
+
+// ============= SECRETS =============
+
+/**
+ * Default secrets: AURA_SECRET_* environment variables only. Plans come from
+ * the LLM planner, so templates must not reach API keys or other env vars.
+ */
+let secretProvider: SecretProvider = async name => {
+  if (!name.startsWith(SECRET_ENV_PREFIX)) return undefined;
+  const env = typeof process !== 'undefined' ? process.env : undefined;
+  return env?.[name];
+};
+
+/**
+ * Replace where `{{ secrets.NAME }}` values come from (e.g., a vault). The
+ * provider decides which names templates may read.
+ */
+export function setSecretProvider(provider: SecretProvider): void {
+  secretProvider = provider;
+}
+
+/**
+ * Namespace loader for `secrets`: fetches only the names referenced
+ */
+export async function loadSecrets(expressions: string[]): Promise<Record<string, string>> {
+  const secrets: Record<string, string> = {};
+
+  for (const expression of expressions) {
+    for (const match of expression.matchAll(SECRET_REFERENCE)) {
+      const name = match[1] || match[2];
+      if (name in secrets) continue;
+
+      const value = await secretProvider(name);
+      if (value === undefined) {
+        throw new TemplateError(`Secret "${name}" is not configured`, expression, 'MISSING_REFERENCE');
+      }
+      secrets[name] = value;
+    }
+  }
+
+  return secrets;
+}
+
+/**
+ * Replace secret values in strings (for events and logs)
+ */
+export function redactSecrets<T>(value: T, secrets: string[]): T {
+  const active = secrets.filter(secret => secret.length > 0);
+  if (active.length === 0) return value;
+
+  const redact = (current: any): any => {
+    if (typeof current === 'string') {
+      return active.reduce((text, secret) => text.split(secret).join('[REDACTED]'), current);
+    }
+    if (Array.isArray(current)) return current.map(redact);
+    if (current && typeof current === 'object') {
+      return Object.fromEntries(Object.entries(current).map(([key, item]) => [key, redact(item)]));
+    }
+    return current;
+  };
+
+  return redact(value);
+}
+
+// ============= RESOLUTION =============
+
+/**
+ * Resolve every template string in a value (strings, arrays and objects,
+ * recursively), loading referenced namespaces first
+ */
+export async function resolveTemplates<T = any>(value: T, scope: TemplateScope): Promise<T> {
+  const values = { ...scope.values };
+
+  // Load namespaces the templates actually reference
+  const expressions = collectExpressions(value);
+  for (const [name, loader] of Object.entries(scope.loaders || {})) {
+    const pattern = new RegExp(`(^|[^A-Za-z0-9_$.])${name}\\b`);
+    const referencing = expressions.filter(expression => pattern.test(expression));
+    if (referencing.length > 0) {
+      values[name] = await loader(referencing);
+    }
+  }
+
+  return resolveValue(value, values);
+}
+
+/**
+ * Resolve a single template string against plain values (no loaders)
+ */
+export function renderTemplate(template: string, values: Record<string, any>): any {
+  const legacy = template.match(LEGACY_REFERENCE);
+  if (legacy) {
+    return evaluatePlaceholder(legacy[1], values, template);
+  }
+
+  const whole = template.match(WHOLE_PLACEHOLDER);
+  if (whole && !whole[1].includes('{{')) {
+    return evaluatePlaceholder(whole[1], values, template);
+  }
+
+  return template.replace(PLACEHOLDER, (_, body: string) => {
+    const result = evaluatePlaceholder(body, values, template);
+    if (result === undefined || result === null) return '';
+    return typeof result === 'string' ? result : JSON.stringify(result);
+  });
+}
+
+function resolveValue(value: any, values: Record<string, any>): any {
+  if (typeof value === 'string') {
+    return renderTemplate(value, values);
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => resolveValue(item, values));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, resolveValue(item, values)]));
+  }
+  return value;
+}
+
+/**
+ * Evaluate `expression | filter | filter(arg)`
+ */
+function evaluatePlaceholder(body: string, values: Record<string, any>, template: string): any {
+  const [expression, ...filters] = splitPipes(body).map(part => part.trim());
+  if (!expression) {
+    throw new TemplateError(`Empty placeholder in "${template}"`, template);
+  }
+
+  let value: any;
+  try {
+    value = evaluateExpression(expression, values);
+  } catch (error: any) {
+    throw new TemplateError(`Invalid template "${template}": ${error.message}`, template);
+  }
+
+  let hasDefault = false;
+  for (const filter of filters) {
+    const match = filter.match(/^([A-Za-z_]+)\s*(?:\(([\s\S]*)\))?$/);
+    const apply = match && Object.prototype.hasOwnProperty.call(FILTERS, match[1]) ? FILTERS[match[1]] : undefined;
+    if (!match || !apply) {
+      throw new TemplateError(
+        `Unknown filter "${filter}" in "${template}" (available: ${Object.keys(FILTERS).join(', ')})`,
+        template
+      );
+    }
+
+    let arg: any;
+    if (match[2] !== undefined && match[2].trim()) {
+      try {
+        arg = evaluateExpression(match[2], values);
+      } catch (error: any) {
+        throw new TemplateError(`Invalid argument to ${match[1]} in "${template}": ${error.message}`, template);
+      }
+    }
+
+    if (match[1] === 'default') {
+      hasDefault = true;
+    } else if (value === undefined) {
+      continue; // Let a later default fill it in
+    }
+    value = apply(value, arg);
+  }
+
+  if (value === undefined && !hasDefault) {
+    throw new TemplateError(describeMissing(expression, values, template), template, 'MISSING_REFERENCE');
+  }
+
+  return value;
+}
+
+/**
+ * Split on `|` filters, ignoring `||` and pipes inside quotes
+ */
+function splitPipes(body: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  let quote: string | null = null;
+
+  for (let i = 0; i < body.length; i++) {
+    const ch = body[i];
+
+    if (quote) {
+      if (ch === '\\') {
+        current += ch + (body[i + 1] ?? '');
+        i++;
+        continue;
+      }
+      if (ch === quote) quote = null;
+      current += ch;
+      continue;
+    }
+
+    if (ch === '"' || ch === "'") {
+      quote = ch;
+      current += ch;
+    } else if (ch === '|' && body[i + 1] === '|') {
+      current += '||';
+      i++;
+    } else if (ch === '|') {
+      parts.push(current);
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+
+  parts.push(current);
+  return parts;
+}
+
+/**
+ * Explain which part of a path is missing, with what was there instead
+ */
+function describeMissing(expression: string, values: Record<string, any>, template: string): string {
+  const where = `in "${template.trim()}"`;
+  if (!SIMPLE_PATH.test(expression)) {
+    return `Expression "${expression}" evaluated to undefined ${where}`;
+  }
+
+  let current: any = values;
+  let path = '';
+  for (const match of expression.matchAll(PATH_SEGMENT)) {
+    const segment = match[1] ?? match[2] ?? match[3] ?? match[4];
+    const parentPath = path;
+    path += match[2] !== undefined ? `[${segment}]` : match[0].startsWith('[') ? match[0] : (path ? `.${segment}` : segment);
+
+    const next = current !== null && typeof current === 'object' && Object.prototype.hasOwnProperty.call(current, segment)
+      ? current[segment]
+      : undefined;
+
+    if (next === undefined) {
+      if (!parentPath) {
+        return `Missing reference "${path}" ${where} (available: ${listKeys(values)})`;
+      }
+      if (Array.isArray(current)) {
+        return `Missing reference "${path}" ${where} (${parentPath} has ${current.length} item${current.length === 1 ? '' : 's'})`;
+      }
+      if (current !== null && typeof current === 'object') {
+        return `Missing reference "${path}" ${where} (${parentPath} has: ${listKeys(current)})`;
+      }
+      return `Missing reference "${path}" ${where} (${parentPath} is ${current === null ? 'null' : typeof current})`;
+    }
+
+    current = next;
+  }
+
+  return `Missing reference "${expression}" ${where}`;
+}
+
+function listKeys(value: Record<string, any>): string {
+  const keys = Object.keys(value);
+  if (keys.length === 0) return 'nothing';
+  return keys.length > 10 ? `${keys.slice(0, 10).join(', ')}, ...` : keys.join(', ');
+}
+
+/**
+ * All placeholder expressions in a value (legacy refs included)
+ */
+function collectExpressions(value: any): string[] {
+  if (typeof value === 'string') {
+    const legacy = value.match(LEGACY_REFERENCE);
+    if (legacy) return [legacy[1]];
+    return Array.from(value.matchAll(PLACEHOLDER), match => match[1]);
+  }
+  if (Array.isArray(value)) {
+    return value.flatMap(collectExpressions);
+  }
+  if (value && typeof value === 'object') {
+    return Object.values(value).flatMap(collectExpressions);
+  }
+  return [];
+}
@@ -0,0 +1,278 @@
+/**
+ * Tenant Service - Tenant Registry and Quotas for the Runtime
+ *
+ * Provides multi-tenant isolation with:
+ * - A registry of tenants (the `default` tenant always exists, unlimited)
+ * - Plan limits (TenantLimits) filled in from the tenant's plan, with overrides
+ * - Run admission: suspended tenants and tenants that have used up
+ *   maxExecutionsPerMonth are refused before the run starts
+ * - Monthly usage counted from run.started events in the tenant's partition
+ *
+ * Runs, events, memories and idempotency keys carry tenant_id; the event
+ * store, memory service and idempotency service partition by it.
+ *
+ * Usage counts are per process (seeded from the event store), and months
+ * are calendar months in UTC.
+ */
+
+import { Tenant, TenantLimits, TenantSettings } from '../../types/aura-os';
+import { eventStore } from './eventStore';
+import { DEFAULT_TENANT_ID } from './eventSchema';
+
+export { DEFAULT_TENANT_ID };
+
+// ============= TYPES =============
+
+export class QuotaExceededError extends Error {
+  readonly code = 'QUOTA_EXCEEDED';
+
+  constructor(
+    public tenant_id: string,
+    public limit: keyof TenantLimits,
+    public used: number,
+    public allowed: number,
+    public resets_at: number
+  ) {
+    super(
+      `Tenant ${tenant_id} has used ${used} of ${allowed} executions this month ` +
+      `(${limit}); the quota resets ${new Date(resets_at).toISOString()}`
+    );
+    this.name = 'QuotaExceededError';
+  }
+}
+
+export interface TenantUsage {
+  tenant_id: string;
+  period_start: number; // Start of the current month (UTC)
+  period_end: number; // Start of next month; the quota resets then
+  executions: number; // Runs started this month
+}
+
+export type NewTenant = Pick<Tenant, 'id' | 'name'> &
+  Partial<Pick<Tenant, 'plan' | 'status'>> & {
+    limits?: Partial<TenantLimits>; // Overrides on top of the plan's limits
+    settings?: Partial<TenantSettings>;
+  };
+
+const PLAN_LIMITS: Record<Tenant['plan'], TenantLimits> = {
+  free: {
+    maxFlows: 5,
+    maxExecutionsPerMonth: 100,
+    maxIntegrations: 3,
+    maxTeamMembers: 3,
+    maxStorageMb: 100
+  },
+  pro: {
+    maxFlows: 50,
+    maxExecutionsPerMonth: 10000,
+    maxIntegrations: 25,
+    maxTeamMembers: 25,
+    maxStorageMb: 10000
+  },
+  enterprise: {
+    maxFlows: Infinity,
+    maxExecutionsPerMonth: Infinity,
+    maxIntegrations: Infinity,
+    maxTeamMembers: Infinity,
+    maxStorageMb: Infinity
+  }
+};
+
+const DEFAULT_SETTINGS: TenantSettings = {
+  timezone: 'UTC',
+  selfHealingEnabled: true,
+  optimizationEnabled: true,
+  auditLogRetentionDays: 90
+};
+
+// ============= TENANT SERVICE =============
+
+class TenantService {
+  private tenants: Map<string, Tenant>; // Map<tenant_id, Tenant>
+  private usage: Map<string, { period_start: number; usage: Promise<TenantUsage> }>; // Map<tenant_id, current month>
+
+  constructor() {
+    this.tenants = new Map();
+    this.usage = new Map();
+    this.registerDefault();
+  }
+
+  /**
+   * Add a tenant. Limits come from its plan (default: free) unless overridden.
+   */
+  register(input: NewTenant): Tenant {
+    if (this.tenants.has(input.id)) {
+      const error: any = new Error(`Tenant ${input.id} already exists`);
+      error.code = 'TENANT_EXISTS';
+      throw error;
+    }
+
+    const plan = input.plan || 'free';
+    const tenant: Tenant = {
+      id: input.id,
+      name: input.name,
+      plan,
+      limits: { ...PLAN_LIMITS[plan], ...input.limits },
+      settings: { ...DEFAULT_SETTINGS, ...input.settings },
+      createdAt: Date.now(),
+      status: input.status || 'active'
+    };
+
+    this.tenants.set(tenant.id, tenant);
+    console.log(`[Tenants] Registered ${tenant.id} (${plan})`);
+    return tenant;
+  }
+
+  /**
+   * Change a tenant's plan, status, limits or settings. A new plan resets
+   * limits to that plan's, plus any overrides given here.
+   */
+  update(tenant_id: string, changes: Partial<Omit<NewTenant, 'id'>>): Tenant {
+    const tenant = this.require(tenant_id);
+    const plan = changes.plan || tenant.plan;
+    const limits = changes.plan && changes.plan !== tenant.plan ? PLAN_LIMITS[plan] : tenant.limits;
+
+    const updated: Tenant = {
+      ...tenant,
+      name: changes.name ?? tenant.name,
+      plan,
+      status: changes.status || tenant.status,
+      limits: { ...limits, ...changes.limits },
+      settings: { ...tenant.settings, ...changes.settings }
+    };
+
+    this.tenants.set(tenant_id, updated);
+    return updated;
+  }
+
+  get(tenant_id: string): Tenant | undefined {
+    return this.tenants.get(tenant_id);
+  }
+
+  list(): Tenant[] {
+    return Array.from(this.tenants.values());
+  }
+
+  /**
+   * Get a tenant, throwing TENANT_NOT_FOUND if it isn't registered
+   */
+  require(tenant_id: string): Tenant {
+    const tenant = this.tenants.get(tenant_id);
+    if (!tenant) {
+      const error: any = new Error(`Tenant ${tenant_id} not found`);
+      error.code = 'TENANT_NOT_FOUND';
+      throw error;
+    }
+    return tenant;
+  }
+
+  /**
+   * Runs the tenant has started this month
+   */
+  async getUsage(tenant_id: string): Promise<TenantUsage> {
+    this.require(tenant_id);
+    return { ...await this.currentUsage(tenant_id) };
+  }
+
+  /**
+   * Count a run against the tenant's monthly quota, or refuse it: unknown
+   * tenants with TENANT_NOT_FOUND, suspended ones with TENANT_SUSPENDED and
+   * exhausted quotas with a QuotaExceededError.
+   */
+  async admitRun(tenant_id: string): Promise<TenantUsage> {
+    const tenant = this.require(tenant_id);
+    if (tenant.status === 'suspended') {
+      const error: any = new Error(`Tenant ${tenant_id} is suspended`);
+      error.code = 'TENANT_SUSPENDED';
+      throw error;
+    }
+
+    const usage = await this.currentUsage(tenant_id);
+    const allowed = this.require(tenant_id).limits.maxExecutionsPerMonth;
+
+    // Check and count without awaiting in between, so concurrent starts can't share the last slot
+    if (usage.executions >= allowed) {
+      throw new QuotaExceededError(tenant_id, 'maxExecutionsPerMonth', usage.executions, allowed, usage.period_end);
+    }
+
+    usage.executions++;
+    return { ...usage };
+  }
+
+  /**
+   * Give back an admitted run that never started
+   */
+  releaseRun(tenant_id: string): void {
+    this.usage.get(tenant_id)?.usage
+      .then(usage => { usage.executions = Math.max(0, usage.executions - 1); })
+      .catch(() => undefined);
+  }
+
+  /**
+   * Reset to just the default tenant (for testing)
+   */
+  clear(): void {
+    this.tenants.clear();
+    this.usage.clear();
+    this.registerDefault();
+  }
+
+  private registerDefault(): void {
+    this.register({ id: DEFAULT_TENANT_ID, name: 'Default', plan: 'enterprise' });
+  }
+
+  /**
+   * This month's usage, loaded from the event store once per month
+   */
+  private currentUsage(tenant_id: string): Promise<TenantUsage> {
+    const now = new Date();
+    const period_start = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1);
+
+    const cached = this.usage.get(tenant_id);
+    if (cached && cached.period_start === period_start) {
+      return cached.usage;
+    }
+
+    const entry = {
+      period_start,
+      usage: eventStore.query({ tenant_id, event_types: ['run.started'], start_time: period_start })
+        .then(events => ({
+          tenant_id,
+          period_start,
+          period_end: Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1),
+          executions: events.length
+        }))
+    };
+
+    this.usage.set(tenant_id, entry);
+    entry.usage.catch(() => {
+      if (this.usage.get(tenant_id) === entry) this.usage.delete(tenant_id);
+    });
+    return entry.usage;
+  }
+}
+
+// ============= SINGLETON INSTANCE =============
+
+export const tenantService = new TenantService();
+
+// ============= HELPER FUNCTIONS =============
+
+/**
+ * Register a tenant, e.g. `{ id: 'acme', name: 'Acme', plan: 'pro' }`
+ */
+export function registerTenant(input: NewTenant): Tenant {
+  return tenantService.register(input);
+}
+
+/**
+ * Runs a tenant has started this month, and when the count resets
+ */
+export async function getTenantUsage(tenant_id: string): Promise<TenantUsage> {
+  return tenantService.getUsage(tenant_id);
+}
+
+/**
+ * Export for testing
+ */
+export { TenantService };
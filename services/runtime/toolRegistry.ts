@@ -0,0 +1,470 @@
+/**
+ * Tool Registry - Typed Tools for the Runtime Executor
+ *
+ * Provides tool execution with:
+ * - Named tools (e.g., 'web.scrape', 'slack.post_message', 'shopify.get_orders')
+ * - Input/output JSON schemas, validated on every call
+ * - Declared cost, idempotency and timeout per tool
+ * - A circuit breaker per integration (see integrationOf)
+ * - Rate limits per integration and credential: API and Shopify tools queue
+ *   inside APIExecutor/ShopifyClient, other tools here when limits are
+ *   configured for them (rateLimiter.configure)
+ * - Built-in sources: API integrations (via APIExecutor), Shopify actions
+ *   and MCP server tools (via mcpClient)
+ *
+ * The executor resolves PlanNode.tool here; events, retries and idempotency
+ * caching stay in the executor.
+ */
+
+import { APIIntegration, APIAction, APIParameter, APICredential } from '../../types/advanced';
+import { API_INTEGRATIONS, APIExecutor, DEFAULT_RETRY_POLICY } from '../apiIntegrations';
+import { ShopifyClient, shopifyActions } from '../integrations/shopify';
+import { MCPClient, mcpClient } from '../mcp/mcpClient';
+import { JSONSchema, validateSchema, applySchemaDefaults } from './jsonSchema';
+import { circuitBreakers, CircuitListener, parseRetryAfter } from './resilience';
+import { rateLimiter } from './rateLimiter';
+
+// ============= TYPES =============
+
+export type ToolSource = 'builtin' | 'api' | 'shopify' | 'mcp' | 'custom';
+
+export interface ToolContext {
+  run_id: string;
+  step_id: string;
+  signal: AbortSignal; // Aborted when the call times out
+  onQueued?: (queueTimeMs: number) => void; // Report time a request waited on rate limits
+}
+
+export type ToolHandler = (params: Record<string, any>, context: ToolContext) => Promise<any>;
+
+export interface ToolDefinition {
+  name: string; // e.g., 'jira.create_issue'
+  description: string;
+  source: ToolSource;
+  input_schema: JSONSchema;
+  output_schema?: JSONSchema;
+  cost: number; // Charged per uncached call
+  idempotent: boolean; // Safe to repeat; side-effecting tools are deduplicated by the executor
+  timeout: number; // ms
+  handler: ToolHandler;
+}
+
+export interface ToolExecuteOptions {
+  run_id: string;
+  step_id: string;
+  timeout?: number; // Overrides the tool's timeout
+  signal?: AbortSignal; // Aborts the call early (e.g., the run was cancelled)
+  onCircuitChange?: CircuitListener; // Breaker state changes caused by this call
+  onQueued?: (queueTimeMs: number) => void; // Time each request waited on rate limits
+}
+
+// Sources whose clients apply rate limits per request (APIExecutor, ShopifyClient)
+const LIMITED_BY_CLIENT: ToolSource[] = ['api', 'shopify'];
+
+const DEFAULT_TOOL_COST = 10;
+const DEFAULT_TOOL_TIMEOUT = 30000; // 30 seconds
+const MAX_SCRAPE_LENGTH = 100000; // Characters of page content kept by web.scrape
+
+// ============= TOOL REGISTRY =============
+
+class ToolRegistry {
+  private tools: Map<string, ToolDefinition>; // Map<tool_name, ToolDefinition>
+
+  constructor() {
+    this.tools = new Map();
+
+    this.registerBuiltinTools();
+    this.registerAPIIntegrations(API_INTEGRATIONS);
+    this.registerShopifyActions();
+  }
+
+  /**
+   * Add or replace a tool
+   */
+  register(definition: ToolDefinition): void {
+    this.tools.set(definition.name, definition);
+  }
+
+  /**
+   * Remove a tool
+   */
+  unregister(name: string): boolean {
+    return this.tools.delete(name);
+  }
+
+  /**
+   * Get a tool definition
+   */
+  get(name: string): ToolDefinition | undefined {
+    return this.tools.get(name);
+  }
+
+  /**
+   * Get a tool definition or fail with TOOL_NOT_FOUND
+   */
+  require(name: string): ToolDefinition {
+    const definition = this.tools.get(name);
+    if (!definition) {
+      throw toolError('TOOL_NOT_FOUND', `Unknown tool: ${name}`);
+    }
+    return definition;
+  }
+
+  /**
+   * List registered tools, optionally by source
+   */
+  list(source?: ToolSource): ToolDefinition[] {
+    const tools = Array.from(this.tools.values());
+    return source ? tools.filter(tool => tool.source === source) : tools;
+  }
+
+  /**
+   * Validate params against a tool's input schema (after defaults)
+   */
+  validateParams(name: string, params: Record<string, any>): string[] {
+    const definition = this.require(name);
+    return validateSchema(applySchemaDefaults(params, definition.input_schema), definition.input_schema, 'params');
+  }
+
+  /**
+   * Validate params, run the handler with a timeout and validate its output
+   */
+  async execute(name: string, params: Record<string, any>, options: ToolExecuteOptions): Promise<any> {
+    const definition = this.require(name);
+    const input = applySchemaDefaults(params, definition.input_schema);
+
+    const inputErrors = validateSchema(input, definition.input_schema, 'params');
+    if (inputErrors.length > 0) {
+      throw toolError('INVALID_PARAMS', `Invalid params for ${name}: ${inputErrors.join('; ')}`, { errors: inputErrors });
+    }
+
+    const timeout = options.timeout || definition.timeout;
+    const controller = new AbortController();
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+    let onAbort: (() => void) | undefined;
+
+    const stopped = new Promise<never>((_, reject) => {
+      timeoutId = setTimeout(() => {
+        controller.abort();
+        reject(toolError('TIMEOUT', `Tool ${name} timed out after ${timeout}ms`));
+      }, timeout);
+
+      // Caller aborts pass through to the handler with the caller's reason
+      const signal = options.signal;
+      if (signal) {
+        onAbort = () => {
+          controller.abort(signal.reason);
+          reject(signal.reason);
+        };
+        if (signal.aborted) onAbort();
+        else signal.addEventListener('abort', onAbort, { once: true });
+      }
+    });
+    // The race below reports it; an open breaker may refuse the call before the race starts
+    stopped.catch(() => undefined);
+
+    const integration = integrationOf(definition);
+    const context: ToolContext = {
+      run_id: options.run_id,
+      step_id: options.step_id,
+      signal: controller.signal,
+      onQueued: options.onQueued
+    };
+    const run = LIMITED_BY_CLIENT.includes(definition.source)
+      ? () => definition.handler(input, context)
+      : () => rateLimiter.execute(integration, () => definition.handler(input, context), {
+          signal: controller.signal,
+          onQueued: options.onQueued
+        });
+
+    try {
+      const output = await circuitBreakers.execute(
+        integration,
+        () => Promise.race([run(), stopped]),
+        options.onCircuitChange
+      );
+
+      if (definition.output_schema) {
+        const outputErrors = validateSchema(output, definition.output_schema, 'output');
+        if (outputErrors.length > 0) {
+          throw toolError('INVALID_OUTPUT', `Invalid output from ${name}: ${outputErrors.join('; ')}`, { errors: outputErrors });
+        }
+      }
+
+      return output;
+    } finally {
+      clearTimeout(timeoutId);
+      if (onAbort) options.signal!.removeEventListener('abort', onAbort);
+    }
+  }
+
+  /**
+   * Register every action of the given API integrations as
+   * '<integration>.<action>' tools executed through APIExecutor.
+   * Credentials are looked up when the tool runs.
+   */
+  registerAPIIntegrations(
+    integrations: APIIntegration[],
+    getCredential: (integrationId: string) => Promise<APICredential | null> = findCredential
+  ): void {
+    for (const integration of integrations) {
+      if (integration.id === 'shopify') continue; // Registered from shopifyActions
+
+      for (const action of integration.actions) {
+        const name = `${integration.id}.${action.id.replace(`${integration.id}_`, '')}`;
+
+        this.register({
+          name,
+          description: action.description,
+          source: 'api',
+          input_schema: parametersToSchema([...action.parameters, ...(action.requestBody || [])]),
+          cost: DEFAULT_TOOL_COST,
+          idempotent: action.method === 'GET',
+          timeout: DEFAULT_RETRY_POLICY.timeout,
+          handler: async (params, context) => {
+            const credential = await getCredential(integration.id);
+            if (action.requiresAuth && !credential) {
+              throw toolError('MISSING_CREDENTIALS', `No credentials configured for ${integration.name}`);
+            }
+
+            // Retries are owned by the runtime executor, the breaker by execute()
+            const executor = new APIExecutor(credential || undefined);
+            return executor.execute(integration, action, params, { ...DEFAULT_RETRY_POLICY, maxRetries: 0 }, {
+              circuitBreaker: false,
+              signal: context.signal,
+              onQueued: context.onQueued
+            });
+          }
+        });
+      }
+    }
+  }
+
+  /**
+   * Register shopifyActions as 'shopify.<action>' tools. The client is built
+   * from the stored Shopify credential unless one is provided.
+   */
+  registerShopifyActions(getClient: (context: ToolContext) => Promise<ShopifyClient> = createShopifyClient): void {
+    for (const [action, run] of Object.entries(shopifyActions)) {
+      this.register({
+        name: `shopify.${action}`,
+        description: `Shopify: ${action.replace(/_/g, ' ')}`,
+        source: 'shopify',
+        input_schema: SHOPIFY_INPUT_SCHEMAS[action] || { type: 'object' },
+        cost: DEFAULT_TOOL_COST,
+        idempotent: action.startsWith('get_') || action.startsWith('search_'),
+        timeout: DEFAULT_TOOL_TIMEOUT,
+        handler: async (params, context) => run(await getClient(context), params as any)
+      });
+    }
+  }
+
+  /**
+   * Register the tools of connected MCP servers as 'mcp.<server>.<tool>'.
+   * Call again after connecting or disconnecting servers.
+   */
+  registerMCPTools(client: MCPClient = mcpClient): number {
+    for (const tool of this.list('mcp')) {
+      this.tools.delete(tool.name);
+    }
+
+    const tools = client.getAllTools();
+    for (const tool of tools) {
+      this.register({
+        name: `mcp.${tool.serverId}.${tool.name}`,
+        description: tool.description,
+        source: 'mcp',
+        input_schema: tool.inputSchema,
+        cost: DEFAULT_TOOL_COST,
+        idempotent: false,
+        timeout: DEFAULT_TOOL_TIMEOUT,
+        handler: async params => {
+          const result = await client.callTool(tool.serverId, { name: tool.name, arguments: params });
+          if (result.isError) {
+            const message = result.content.map(part => part.text).filter(Boolean).join('\n');
+            throw toolError('TOOL_ERROR', `MCP tool ${tool.name} failed: ${message || 'unknown error'}`);
+          }
+          return result;
+        }
+      });
+    }
+
+    console.log(`[ToolRegistry] Registered ${tools.length} MCP tools`);
+    return tools.length;
+  }
+
+  /**
+   * Register tools implemented in the runtime itself
+   */
+  private registerBuiltinTools(): void {
+    this.register({
+      name: 'web.scrape',
+      description: 'Fetch a web page and return its text content',
+      source: 'builtin',
+      input_schema: {
+        type: 'object',
+        properties: {
+          url: { type: 'string', pattern: '^https?://' }
+        },
+        required: ['url']
+      },
+      output_schema: {
+        type: 'object',
+        properties: {
+          url: { type: 'string' },
+          status: { type: 'integer' },
+          content: { type: 'string' }
+        },
+        required: ['url', 'status', 'content']
+      },
+      cost: DEFAULT_TOOL_COST,
+      idempotent: true,
+      timeout: DEFAULT_TOOL_TIMEOUT,
+      handler: async (params, context) => {
+        const response = await fetch(params.url, { signal: context.signal });
+        if (!response.ok) {
+          const error = toolError(
+            response.status === 429 ? 'RATE_LIMIT' : response.status >= 500 ? 'SERVICE_UNAVAILABLE' : 'TOOL_ERROR',
+            `Fetching ${params.url} failed: ${response.status} ${response.statusText}`
+          );
+          error.http_status = response.status;
+          error.retry_after_ms = parseRetryAfter(response.headers.get('retry-after'));
+          throw error;
+        }
+
+        const text = await response.text();
+        return {
+          url: params.url,
+          status: response.status,
+          content_type: response.headers.get('content-type') || undefined,
+          content: text.slice(0, MAX_SCRAPE_LENGTH),
+          truncated: text.length > MAX_SCRAPE_LENGTH
+        };
+      }
+    });
+  }
+
+  /**
+   * Reset to the default tools (for testing)
+   */
+  clear(): void {
+    this.tools.clear();
+    this.registerBuiltinTools();
+    this.registerAPIIntegrations(API_INTEGRATIONS);
+    this.registerShopifyActions();
+  }
+}
+
+// ============= SHOPIFY SCHEMAS =============
+
+const SHOPIFY_ORDER_ID = { orderId: { type: 'integer' } } as const;
+const SHOPIFY_PRODUCT_ID = { productId: { type: 'integer' } } as const;
+const SHOPIFY_INVENTORY = { inventoryItemId: { type: 'integer' }, locationId: { type: 'integer' } } as const;
+
+const SHOPIFY_INPUT_SCHEMAS: Record<string, JSONSchema> = {
+  get_order: { type: 'object', properties: { ...SHOPIFY_ORDER_ID }, required: ['orderId'] },
+  cancel_order: { type: 'object', properties: { ...SHOPIFY_ORDER_ID, reason: { type: 'string' } }, required: ['orderId'] },
+  get_product: { type: 'object', properties: { ...SHOPIFY_PRODUCT_ID }, required: ['productId'] },
+  create_product: { type: 'object', properties: { product: { type: 'object' } }, required: ['product'] },
+  update_product: { type: 'object', properties: { ...SHOPIFY_PRODUCT_ID, product: { type: 'object' } }, required: ['productId', 'product'] },
+  get_customer: { type: 'object', properties: { customerId: { type: 'integer' } }, required: ['customerId'] },
+  search_customers: { type: 'object', properties: { query: { type: 'string', minLength: 1 } }, required: ['query'] },
+  get_inventory: { type: 'object', properties: { ...SHOPIFY_INVENTORY }, required: ['inventoryItemId', 'locationId'] },
+  set_inventory: {
+    type: 'object',
+    properties: { ...SHOPIFY_INVENTORY, available: { type: 'integer' } },
+    required: ['inventoryItemId', 'locationId', 'available']
+  }
+};
+
+// ============= UTILITIES =============
+
+/**
+ * Convert APIParameter definitions to an object schema
+ */
+function parametersToSchema(parameters: APIParameter[]): JSONSchema {
+  const properties: Record<string, JSONSchema> = {};
+
+  for (const parameter of parameters) {
+    properties[parameter.name] = {
+      type: parameter.type === 'file' ? 'string' : parameter.type,
+      description: parameter.description,
+      enum: parameter.enum,
+      default: parameter.default,
+      minimum: parameter.validation?.min,
+      maximum: parameter.validation?.max,
+      pattern: parameter.validation?.pattern
+    };
+  }
+
+  return {
+    type: 'object',
+    properties,
+    required: parameters.filter(parameter => parameter.required).map(parameter => parameter.name)
+  };
+}
+
+/**
+ * First stored credential for an integration. The credential manager is
+ * browser-only (localStorage), so it is loaded on first use.
+ */
+async function findCredential(integrationId: string): Promise<APICredential | null> {
+  const { credentialManager } = await import('../credentialManager');
+  return credentialManager.getCredentialsByIntegration(integrationId)[0] || null;
+}
+
+/**
+ * Shopify client from the stored Shopify credential, reporting queue time
+ * to the tool call
+ */
+async function createShopifyClient(context: ToolContext): Promise<ShopifyClient> {
+  const credential = await findCredential('shopify');
+  const { shop, accessToken, apiKey, apiSecret } = (credential?.credentials || {}) as Record<string, string | undefined>;
+
+  if (!shop || !accessToken) {
+    throw toolError('MISSING_CREDENTIALS', 'Shopify credentials not found: shop and accessToken required');
+  }
+
+  return new ShopifyClient({
+    shop,
+    apiKey: apiKey || '',
+    apiSecret: apiSecret || '',
+    accessToken,
+    scopes: [],
+    credentialId: credential!.id
+  }, { signal: context.signal, onQueued: context.onQueued });
+}
+
+/**
+ * Circuit breaker name for a tool: its integration ('slack.post_message' →
+ * 'slack'), or the server for MCP tools ('mcp.github.search' → 'mcp.github')
+ */
+function integrationOf(definition: ToolDefinition): string {
+  const parts = definition.name.split('.');
+  return definition.source === 'mcp' ? parts.slice(0, 2).join('.') : parts[0];
+}
+
+function toolError(code: string, message: string, details?: any): any {
+  const error: any = new Error(message);
+  error.code = code;
+  error.details = details;
+  return error;
+}
+
+// ============= SINGLETON INSTANCE =============
+
+export const toolRegistry = new ToolRegistry();
+
+// ============= HELPER FUNCTIONS =============
+
+/**
+ * Register a tool with the shared registry
+ */
+export function registerTool(definition: ToolDefinition): void {
+  toolRegistry.register(definition);
+}
+
+/**
+ * Export for testing
+ */
+export { ToolRegistry };
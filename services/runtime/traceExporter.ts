@@ -0,0 +1,548 @@
+/**
+ * Trace Exporter - Run Events as OpenTelemetry Traces
+ *
+ * Provides trace export with:
+ * - A run's event log converted to spans: run → steps → tool calls
+ * - Cost, attempts, cached flags, token usage and errors as span attributes
+ * - Other events (policies, verification, approvals, circuits, ...) as span events
+ * - OTLP/JSON output, appended to a file or POSTed to an OTLP/HTTP endpoint
+ *   (Jaeger, Tempo and the OpenTelemetry Collector accept it on :4318)
+ * - Automatic export when a run completes, fails or is cancelled (once configured)
+ *
+ * IDs are derived from the run, step and tool call IDs, so a UUID run ID is
+ * also its trace ID and exporting the same run twice produces the same spans.
+ */
+
+import { Event, Plan, PlanNode } from '../../types/advanced';
+import { eventStore } from './eventStore';
+
+// ============= TYPES =============
+
+export type OtlpValue =
+  | { stringValue: string }
+  | { boolValue: boolean }
+  | { intValue: string }
+  | { doubleValue: number };
+
+export interface OtlpAttribute {
+  key: string;
+  value: OtlpValue;
+}
+
+export interface OtlpSpanEvent {
+  timeUnixNano: string;
+  name: string;
+  attributes: OtlpAttribute[];
+}
+
+export interface OtlpSpan {
+  traceId: string; // 32 hex chars
+  spanId: string; // 16 hex chars
+  parentSpanId?: string;
+  name: string;
+  kind: number; // SpanKind: 1 internal, 3 client
+  startTimeUnixNano: string;
+  endTimeUnixNano: string;
+  attributes: OtlpAttribute[];
+  events: OtlpSpanEvent[];
+  status: { code: number; message?: string }; // 0 unset, 1 ok, 2 error
+}
+
+export interface OtlpTraceRequest {
+  resourceSpans: {
+    resource: { attributes: OtlpAttribute[] };
+    scopeSpans: {
+      scope: { name: string; version: string };
+      spans: OtlpSpan[];
+    }[];
+  }[];
+}
+
+export interface TraceOptions {
+  service_name?: string; // Default: 'aura-os'
+}
+
+export type TraceExportConfig =
+  | ({ target: 'file'; path: string } & TraceOptions)
+  | ({ target: 'otlp'; endpoint: string; headers?: Record<string, string> } & TraceOptions);
+
+export const TRACE_EXPORTER_VERSION = '1.0.0';
+
+const SPAN_KIND_INTERNAL = 1;
+const SPAN_KIND_CLIENT = 3;
+
+const STATUS_UNSET = 0;
+const STATUS_OK = 1;
+const STATUS_ERROR = 2;
+
+const TERMINAL_EVENTS = ['run.completed', 'run.failed', 'run.cancelled'];
+
+// Event fields that are identifiers, payloads or already on the span
+const SKIPPED_EVENT_FIELDS = ['id', 'run_id', 'type', 'timestamp', 'metadata', 'plan', 'snapshot', 'output', 'params', 'result', 'rule', 'error'];
+
+interface SpanBuilder {
+  span: OtlpSpan;
+  attributes: Record<string, any>;
+  node_id?: string;
+  attempts: number;
+  open: boolean;
+}
+
+// ============= TRACE BUILDER =============
+
+/**
+ * Convert one run's events (log order) into an OTLP/JSON trace request
+ */
+export function buildRunTrace(events: Event[], options: TraceOptions = {}): OtlpTraceRequest {
+  const spans: SpanBuilder[] = [];
+  const steps = new Map<string, SpanBuilder>(); // Map<step_id, SpanBuilder>
+  const tools = new Map<string, SpanBuilder>(); // Map<tool_call_id, SpanBuilder>
+
+  if (events.length > 0) {
+    const runId = events[0].run_id;
+    const traceId = hexId(runId, 32);
+    const last = events[events.length - 1].timestamp;
+
+    const start = (name: string, id: string, parent: SpanBuilder | undefined, timestamp: number, kind = SPAN_KIND_INTERNAL): SpanBuilder => {
+      const builder: SpanBuilder = {
+        span: {
+          traceId,
+          spanId: hexId(id, 16),
+          parentSpanId: parent?.span.spanId,
+          name,
+          kind,
+          startTimeUnixNano: toNanos(timestamp),
+          endTimeUnixNano: toNanos(timestamp),
+          attributes: [],
+          events: [],
+          status: { code: STATUS_UNSET }
+        },
+        attributes: {},
+        attempts: 1,
+        open: true
+      };
+      spans.push(builder);
+      return builder;
+    };
+
+    const end = (builder: SpanBuilder, timestamp: number, code: number, message?: string) => {
+      builder.span.endTimeUnixNano = toNanos(timestamp);
+      builder.span.status = message ? { code, message } : { code };
+      builder.open = false;
+    };
+
+    const run = start('run', `run:${runId}`, undefined, events[0].timestamp);
+    run.attributes['aura.run.id'] = runId;
+    run.attributes['aura.tenant.id'] = events[0].tenant_id;
+    run.attributes['aura.run.status'] = 'running';
+
+    let plan: Plan | undefined;
+    let stepCost = 0;
+
+    // Span of the step running a node (policy and approval events name the node)
+    const openStep = (nodeId?: string) => Array.from(steps.values())
+      .reverse()
+      .find(step => step.open && (!nodeId || step.node_id === nodeId));
+
+    for (const event of events as any[]) {
+      switch (event.type) {
+        case 'run.started': {
+          plan = event.plan;
+          run.attributes['aura.plan.id'] = plan?.id;
+          run.attributes['aura.plan.nodes'] = plan?.dag.nodes.length;
+          run.attributes['aura.intent.type'] = plan?.intent.parsed.type;
+          run.attributes['aura.intent.goal'] = plan?.intent.parsed.goal;
+          break;
+        }
+
+        case 'run.completed':
+          run.attributes['aura.run.status'] = 'completed';
+          run.attributes['aura.cost_cents'] = event.cost;
+          end(run, event.timestamp, STATUS_OK);
+          break;
+
+        case 'run.failed':
+          run.attributes['aura.run.status'] = 'failed';
+          run.attributes['error.type'] = event.error?.code;
+          end(run, event.timestamp, STATUS_ERROR, event.error?.message);
+          break;
+
+        case 'run.cancelled':
+          run.attributes['aura.run.status'] = 'cancelled';
+          run.attributes['aura.run.cancelled_by'] = event.cancelled_by;
+          end(run, event.timestamp, STATUS_UNSET);
+          addEvent(run, event);
+          break;
+
+        case 'run.paused':
+          run.attributes['aura.run.status'] = 'paused';
+          addEvent(run, event);
+          break;
+
+        case 'run.resumed':
+          run.attributes['aura.run.status'] = 'running';
+          addEvent(run, event);
+          break;
+
+        case 'step.started': {
+          const node = plan?.dag.nodes.find((candidate: PlanNode) => candidate.id === event.node_id);
+          const step = start(`step ${event.node_id}`, `step:${event.step_id}`, run, event.timestamp);
+          step.node_id = event.node_id;
+          step.attempts = event.attempt || 1;
+          step.attributes['aura.step.id'] = event.step_id;
+          step.attributes['aura.node.id'] = event.node_id;
+          step.attributes['aura.node.type'] = node?.type;
+          step.attributes['aura.node.tool'] = node?.tool;
+          steps.set(event.step_id, step);
+          break;
+        }
+
+        case 'step.completed': {
+          const step = steps.get(event.step_id);
+          if (!step) break;
+          step.attributes['aura.step.status'] = 'completed';
+          step.attributes['aura.cost_cents'] = event.cost || 0;
+          if (event.usage) {
+            step.attributes['gen_ai.request.model'] = event.usage.model;
+            step.attributes['gen_ai.usage.input_tokens'] = event.usage.prompt_tokens;
+            step.attributes['gen_ai.usage.output_tokens'] = event.usage.completion_tokens;
+          }
+          stepCost += event.cost || 0;
+          end(step, event.timestamp, STATUS_OK);
+          break;
+        }
+
+        case 'step.failed': {
+          const step = steps.get(event.step_id);
+          if (!step) break;
+          addEvent(step, event, { 'aura.step.attempt': step.attempts, 'error.type': event.error?.code, 'error.message': event.error?.message });
+          if (!event.will_retry) {
+            step.attributes['aura.step.status'] = 'failed';
+            step.attributes['error.type'] = event.error?.code;
+            end(step, event.timestamp, STATUS_ERROR, event.error?.message);
+          }
+          break;
+        }
+
+        case 'step.retrying': {
+          const step = steps.get(event.step_id);
+          if (!step) break;
+          step.attempts = event.attempt;
+          addEvent(step, event);
+          break;
+        }
+
+        case 'step.skipped': {
+          const step = start(`step ${event.node_id}`, `skipped:${event.node_id}:${event.id}`, run, event.timestamp);
+          step.node_id = event.node_id;
+          step.attributes['aura.node.id'] = event.node_id;
+          step.attributes['aura.step.status'] = 'skipped';
+          step.attributes['aura.step.skip_reason'] = event.reason;
+          end(step, event.timestamp, STATUS_UNSET);
+          break;
+        }
+
+        case 'tool.called': {
+          // Older events don't name their step: use the step that was running
+          const step = (event.step_id && steps.get(event.step_id)) || openStep();
+          const tool = start(`tool ${event.tool}`, `tool:${event.tool_call_id}`, step || run, event.timestamp, SPAN_KIND_CLIENT);
+          tool.attributes['aura.tool.name'] = event.tool;
+          tool.attributes['aura.tool.call_id'] = event.tool_call_id;
+          tool.attributes['aura.tool.attempt'] = step?.attempts || 1;
+          tools.set(event.tool_call_id, tool);
+          break;
+        }
+
+        case 'tool.completed': {
+          const tool = tools.get(event.tool_call_id);
+          if (!tool) break;
+          tool.attributes['aura.tool.cached'] = event.cached;
+          tool.attributes['aura.tool.queue_time_ms'] = event.queue_time_ms;
+          end(tool, event.timestamp, STATUS_OK);
+          break;
+        }
+
+        case 'tool.failed': {
+          const tool = tools.get(event.tool_call_id);
+          if (!tool) break;
+          tool.attributes['aura.tool.cached'] = false;
+          tool.attributes['error.type'] = event.error?.code;
+          tool.attributes['http.response.status_code'] = event.error?.http_status;
+          end(tool, event.timestamp, STATUS_ERROR, event.error?.message);
+          break;
+        }
+
+        default:
+          addEvent(openStep(event.node_id) || run, event);
+      }
+    }
+
+    if (run.attributes['aura.cost_cents'] === undefined) {
+      run.attributes['aura.cost_cents'] = stepCost;
+    }
+
+    // Spans still open (run paused or in progress) end at the last event
+    for (const builder of spans) {
+      if (builder.open) {
+        builder.span.endTimeUnixNano = toNanos(last);
+      }
+      if (builder !== run && builder.node_id && builder.attributes['aura.step.status'] !== 'skipped') {
+        builder.attributes['aura.step.attempts'] = builder.attempts;
+      }
+      builder.span.attributes = toAttributes(builder.attributes);
+    }
+  }
+
+  return {
+    resourceSpans: [{
+      resource: {
+        attributes: toAttributes({ 'service.name': options.service_name || 'aura-os' })
+      },
+      scopeSpans: [{
+        scope: { name: 'aura-os.runtime', version: TRACE_EXPORTER_VERSION },
+        spans: spans.map(builder => builder.span)
+      }]
+    }]
+  };
+}
+
+/**
+ * Record an event on a span with its scalar fields as attributes
+ */
+function addEvent(builder: SpanBuilder, event: Record<string, any>, extra: Record<string, any> = {}): void {
+  const attributes: Record<string, any> = {};
+  for (const [key, value] of Object.entries(event)) {
+    if (!SKIPPED_EVENT_FIELDS.includes(key)) {
+      attributes[`aura.${key}`] = value;
+    }
+  }
+
+  builder.span.events.push({
+    timeUnixNano: toNanos(event.timestamp),
+    name: event.type,
+    attributes: toAttributes({ ...attributes, ...extra })
+  });
+}
+
+// ============= TRACE EXPORTER =============
+
+class TraceExporter {
+  private config: TraceExportConfig | null = null;
+  private unsubscribe: (() => void) | null = null;
+  private writeChain: Promise<void> = Promise.resolve();
+
+  constructor(config: TraceExportConfig | null) {
+    this.configure(config);
+  }
+
+  /**
+   * Set where traces go; finished runs are exported automatically while set.
+   * Pass null to stop exporting.
+   */
+  configure(config: TraceExportConfig | null): void {
+    this.config = config;
+
+    if (config && !this.unsubscribe) {
+      this.unsubscribe = eventStore.subscribe('*', event => {
+        if (TERMINAL_EVENTS.includes(event.type)) {
+          this.exportRun(event.run_id).catch(error => {
+            console.error(`[TraceExporter] Failed to export run ${event.run_id}:`, error.message);
+          });
+        }
+      });
+    } else if (!config && this.unsubscribe) {
+      this.unsubscribe();
+      this.unsubscribe = null;
+    }
+
+    if (config) {
+      console.log(`[TraceExporter] Exporting traces to ${config.target === 'file' ? config.path : config.endpoint}`);
+    }
+  }
+
+  /**
+   * Current export configuration (null when not exporting)
+   */
+  getConfig(): TraceExportConfig | null {
+    return this.config;
+  }
+
+  /**
+   * Build a run's trace from the event store
+   */
+  async buildTrace(run_id: string, options: TraceOptions = {}): Promise<OtlpTraceRequest> {
+    const events = await eventStore.getRunEvents(run_id);
+    if (events.length === 0) {
+      throw Object.assign(new Error(`No events for run ${run_id}`), { code: 'RUN_NOT_FOUND' });
+    }
+    return buildRunTrace(events, { service_name: options.service_name ?? this.config?.service_name });
+  }
+
+  /**
+   * Export a run's trace to the configured (or given) target; returns the span count
+   */
+  async exportRun(run_id: string, config: TraceExportConfig | null = this.config): Promise<number> {
+    if (!config) {
+      throw Object.assign(new Error('Trace export is not configured'), { code: 'NOT_CONFIGURED' });
+    }
+
+    const trace = await this.buildTrace(run_id, config);
+    const spans = trace.resourceSpans[0].scopeSpans[0].spans.length;
+
+    if (config.target === 'file') {
+      await this.appendToFile(config.path, trace);
+    } else {
+      await this.send(config.endpoint, trace, config.headers);
+    }
+
+    console.log(`[TraceExporter] Exported run ${run_id} (${spans} spans)`);
+    return spans;
+  }
+
+  /**
+   * One OTLP/JSON request per line, the OpenTelemetry file exporter format.
+   * Node only (fs is loaded lazily so the browser bundle never pulls it in).
+   */
+  private appendToFile(path: string, trace: OtlpTraceRequest): Promise<void> {
+    const next = this.writeChain.then(async () => {
+      const fs = await import('node:fs/promises');
+      await fs.appendFile(path, JSON.stringify(trace) + '\n', 'utf8');
+    });
+    this.writeChain = next.catch(() => undefined);
+    return next;
+  }
+
+  /**
+   * POST to an OTLP/HTTP traces endpoint (e.g., http://localhost:4318/v1/traces)
+   */
+  private async send(endpoint: string, trace: OtlpTraceRequest, headers: Record<string, string> = {}): Promise<void> {
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(trace)
+    });
+
+    if (!response.ok) {
+      const error: any = new Error(`OTLP export failed: ${response.status} ${response.statusText}`);
+      error.http_status = response.status;
+      throw error;
+    }
+  }
+}
+
+// ============= UTILITIES =============
+
+function toNanos(ms: number): string {
+  return `${Math.round(ms)}000000`;
+}
+
+function toAttributes(values: Record<string, any>): OtlpAttribute[] {
+  const attributes: OtlpAttribute[] = [];
+
+  for (const [key, value] of Object.entries(values)) {
+    if (value === undefined || value === null) continue;
+
+    if (typeof value === 'boolean') {
+      attributes.push({ key, value: { boolValue: value } });
+    } else if (typeof value === 'number') {
+      attributes.push({ key, value: Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value } });
+    } else if (typeof value === 'string') {
+      attributes.push({ key, value: { stringValue: value } });
+    } else {
+      attributes.push({ key, value: { stringValue: JSON.stringify(value) } });
+    }
+  }
+
+  return attributes;
+}
+
+/**
+ * Hex ID of the given length: the ID itself when it is already hex (e.g., a
+ * UUID), otherwise a hash of it (FNV-1a, varied per 8-char block)
+ */
+function hexId(id: string, length: number): string {
+  const hex = id.replace(/-/g, '').toLowerCase();
+  if (/^[0-9a-f]+$/.test(hex) && hex.length === length && !/^0+$/.test(hex)) {
+    return hex;
+  }
+
+  let result = '';
+  for (let block = 0; result.length < length; block++) {
+    let hash = 2166136261 ^ block;
+    for (let i = 0; i < id.length; i++) {
+      hash ^= id.charCodeAt(i);
+      hash = Math.imul(hash, 16777619);
+    }
+    result += (hash >>> 0).toString(16).padStart(8, '0');
+  }
+  return result.slice(0, length);
+}
+
+// ============= CONFIGURATION =============
+
+/**
+ * Read export configuration from the environment (Node only).
+ * TRACE_EXPORT_TARGET=file TRACE_EXPORT_PATH=./aura-traces.jsonl, or
+ * TRACE_EXPORT_TARGET=otlp OTEL_EXPORTER_OTLP_ENDPOINT=http://localhost:4318
+ */
+export function getTraceExportConfigFromEnv(): TraceExportConfig | null {
+  const env = typeof process !== 'undefined' ? process.env : undefined;
+  const service_name = env?.OTEL_SERVICE_NAME || undefined;
+
+  if (env?.TRACE_EXPORT_TARGET === 'file') {
+    return { target: 'file', path: env.TRACE_EXPORT_PATH || './aura-traces.jsonl', service_name };
+  }
+
+  if (env?.TRACE_EXPORT_TARGET === 'otlp') {
+    const base = (env.OTEL_EXPORTER_OTLP_ENDPOINT || 'http://localhost:4318').replace(/\/$/, '');
+    return {
+      target: 'otlp',
+      endpoint: base.endsWith('/v1/traces') ? base : `${base}/v1/traces`,
+      headers: parseHeaders(env.OTEL_EXPORTER_OTLP_HEADERS),
+      service_name
+    };
+  }
+
+  return null;
+}
+
+/**
+ * OTEL_EXPORTER_OTLP_HEADERS format: "key1=value1,key2=value2"
+ */
+function parseHeaders(value?: string): Record<string, string> | undefined {
+  if (!value) return undefined;
+
+  const headers: Record<string, string> = {};
+  for (const pair of value.split(',')) {
+    const index = pair.indexOf('=');
+    if (index > 0) {
+      headers[pair.slice(0, index).trim()] = decodeURIComponent(pair.slice(index + 1).trim());
+    }
+  }
+  return headers;
+}
+
+// ============= SINGLETON INSTANCE =============
+
+export const traceExporter = new TraceExporter(getTraceExportConfigFromEnv());
+
+// ============= HELPER FUNCTIONS =============
+
+/**
+ * Export finished runs to a file or OTLP endpoint (null stops exporting)
+ */
+export function configureTraceExport(config: TraceExportConfig | null): void {
+  traceExporter.configure(config);
+}
+
+/**
+ * Export one run's trace now
+ */
+export async function exportRunTrace(run_id: string, config?: TraceExportConfig): Promise<number> {
+  return traceExporter.exportRun(run_id, config);
+}
+
+/**
+ * Export for testing
+ */
+export { TraceExporter };
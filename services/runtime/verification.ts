@@ -0,0 +1,364 @@
+/**
+ * Verification Service - Artifact Verification Pipeline for AURA OS
+ *
+ * Provides artifact verification with:
+ * - Verifier registry keyed by ArtifactType
+ * - Schema checks (required fields, optional schema.safeParse)
+ * - Weighted LLM-judge quality criteria (QualityCriteria weights)
+ * - Policy checks at the artifact.created hook
+ * - A scored VerificationResult compared against a pass threshold
+ *
+ * The service only verifies; callers (the executor, workflows) record the
+ * verification.* events and decide whether a failed result fails the run.
+ */
+
+import {
+  Artifact,
+  ArtifactType,
+  Run,
+  SchemaVerifier,
+  LLMQualityCheck,
+  QualityCriteria,
+  VerificationResult,
+  VerificationCheck
+} from '../../types/advanced';
+import { policyEngine, PolicyDecision } from './policyEngine';
+import { llmService } from './llmProvider';
+
+// ============= TYPES =============
+
+export interface ArtifactVerifier {
+  schema?: SchemaVerifier;
+  quality?: LLMQualityCheck;
+  threshold: number; // Minimum overall score (0-100) to pass
+}
+
+export interface QualityJudgement {
+  score: number; // 0-100
+  reasoning?: string;
+  cost?: number; // US cents spent judging
+}
+
+export type QualityJudge = (
+  artifact: Artifact,
+  criteria: QualityCriteria,
+  model: string
+) => Promise<QualityJudgement>;
+
+export interface VerifyOptions {
+  threshold?: number; // Overrides the verifier's threshold
+  run?: Pick<Run, 'project_id' | 'user_id'>; // Scope for policy checks
+  evaluatePolicies?: (artifact: Artifact) => Promise<PolicyDecision>; // Replaces the default policy check
+}
+
+export const VERIFIER_VERSION = '1.0.0';
+
+const DEFAULT_THRESHOLD = 70;
+
+// Share of the overall score taken by quality when both schema and quality ran
+const QUALITY_WEIGHT = 0.7;
+
+// ============= DEFAULT VERIFIERS =============
+
+const PRD_VERIFIER: ArtifactVerifier = {
+  schema: {
+    artifact_type: 'prd',
+    schema: null,
+    required_fields: ['title', 'problem', 'target_users', 'user_stories', 'success_metrics'],
+    optional_fields: ['technical_considerations', 'timeline', 'constraints']
+  },
+  quality: {
+    model: 'llama-3.3-70b-versatile',
+    threshold: 70,
+    criteria: [
+      { dimension: 'completeness', weight: 0.3, prompt: 'Does the PRD cover the problem, target users, user stories and measurable success metrics?' },
+      { dimension: 'clarity', weight: 0.25, prompt: 'Could an engineer read this PRD once and know what to build?' },
+      { dimension: 'specificity', weight: 0.25, prompt: 'Are user stories and metrics concrete (named users, numbers, targets) rather than generic?' },
+      { dimension: 'feasibility', weight: 0.2, prompt: 'Is the scope realistic, with technical considerations and constraints acknowledged?' }
+    ]
+  },
+  threshold: DEFAULT_THRESHOLD
+};
+
+// ============= VERIFICATION SERVICE =============
+
+class VerificationService {
+  private verifiers: Map<ArtifactType, ArtifactVerifier>; // Map<artifact_type, ArtifactVerifier>
+  private judge: QualityJudge;
+
+  constructor() {
+    this.verifiers = new Map();
+    this.judge = llmJudge;
+
+    this.verifiers.set('prd', PRD_VERIFIER);
+  }
+
+  /**
+   * Add or replace the verifier for an artifact type
+   */
+  registerVerifier(type: ArtifactType, verifier: ArtifactVerifier): void {
+    this.verifiers.set(type, verifier);
+  }
+
+  /**
+   * Get the verifier for an artifact type
+   */
+  getVerifier(type: ArtifactType): ArtifactVerifier | undefined {
+    return this.verifiers.get(type);
+  }
+
+  /**
+   * Replace the LLM judge used for quality criteria
+   */
+  setJudge(judge: QualityJudge): void {
+    this.judge = judge;
+  }
+
+  /**
+   * Verify an artifact and return the result (does not modify the artifact)
+   *
+   * Fails on a missing required field, a schema error, a blocking policy or a
+   * score below threshold. Passes with a warning when a quality criterion
+   * scored below the quality threshold, the judge was unavailable, or a
+   * policy warned.
+   */
+  async verify(artifact: Artifact, options: VerifyOptions = {}): Promise<VerificationResult> {
+    const verifier = this.verifiers.get(artifact.type);
+    const threshold = options.threshold ?? verifier?.threshold ?? DEFAULT_THRESHOLD;
+    const checks: VerificationCheck[] = [];
+
+    // Schema
+    let schemaScore: number | undefined;
+    if (verifier?.schema) {
+      const schemaChecks = this.checkSchema(artifact.content, verifier.schema);
+      checks.push(...schemaChecks);
+      schemaScore = schemaChecks[0].score;
+    }
+
+    // Quality
+    let qualityScore: number | undefined;
+    let judgeUnavailable = false;
+    if (verifier?.quality) {
+      const qualityChecks = await this.checkQuality(artifact, verifier.quality);
+      checks.push(...qualityChecks);
+
+      const judged = qualityChecks.filter(check => check.score !== undefined);
+      judgeUnavailable = judged.length < qualityChecks.length;
+
+      const totalWeight = judged.reduce((sum, check) => sum + check.details.weight, 0);
+      if (totalWeight > 0) {
+        qualityScore = judged.reduce((sum, check) => sum + check.score! * check.details.weight, 0) / totalWeight;
+      }
+    }
+
+    const score = Math.round(
+      schemaScore !== undefined && qualityScore !== undefined
+        ? schemaScore * (1 - QUALITY_WEIGHT) + qualityScore * QUALITY_WEIGHT
+        : qualityScore ?? schemaScore ?? 100
+    );
+
+    // Policies see the artifact with its schema/quality result attached
+    const result: VerificationResult = {
+      status: 'passed',
+      score,
+      checks,
+      verified_at: Date.now(),
+      verifier_version: VERIFIER_VERSION
+    };
+    const decision = options.evaluatePolicies
+      ? await options.evaluatePolicies({ ...artifact, verification: result })
+      : this.evaluatePolicies({ ...artifact, verification: result }, options.run);
+    checks.push(...this.policyChecks(decision));
+
+    const hardFailure = checks.some(check => !check.passed && (check.type === 'schema' || check.type === 'policy'));
+    const softFailure = judgeUnavailable || checks.some(check =>
+      (!check.passed && check.type === 'llm_quality') ||
+      (check.type === 'policy' && check.details?.action !== 'allow')
+    );
+
+    result.status = hardFailure || score < threshold
+      ? 'failed'
+      : softFailure ? 'warning' : 'passed';
+    result.verified_at = Date.now();
+
+    console.log(`[Verification] ${artifact.type} ${artifact.id}: ${result.status} (score ${score}, threshold ${threshold})`);
+
+    return result;
+  }
+
+  /**
+   * Required fields must be present and non-empty; the schema itself is
+   * applied when it exposes safeParse (e.g., a Zod schema)
+   */
+  private checkSchema(content: any, verifier: SchemaVerifier): VerificationCheck[] {
+    const missing = verifier.required_fields.filter(field => isEmpty(getPath(content, field)));
+    const present = verifier.required_fields.length - missing.length;
+
+    const checks: VerificationCheck[] = [{
+      type: 'schema',
+      name: 'Required fields',
+      passed: missing.length === 0,
+      score: verifier.required_fields.length > 0
+        ? Math.round((present / verifier.required_fields.length) * 100)
+        : 100,
+      message: missing.length > 0 ? `Missing: ${missing.join(', ')}` : undefined,
+      details: { missing }
+    }];
+
+    if (verifier.schema && typeof verifier.schema.safeParse === 'function') {
+      const parsed = verifier.schema.safeParse(content);
+      checks.push({
+        type: 'schema',
+        name: 'Schema',
+        passed: parsed.success,
+        message: parsed.success ? undefined : parsed.error?.message,
+        details: parsed.success ? undefined : parsed.error?.issues
+      });
+    }
+
+    return checks;
+  }
+
+  /**
+   * Score each criterion with the judge. A judge error leaves the criterion
+   * unscored rather than failing the artifact.
+   */
+  private async checkQuality(artifact: Artifact, quality: LLMQualityCheck): Promise<VerificationCheck[]> {
+    return Promise.all(quality.criteria.map(async (criteria): Promise<VerificationCheck> => {
+      try {
+        const judgement = await this.judge(artifact, criteria, quality.model);
+        const score = Math.max(0, Math.min(100, Math.round(judgement.score)));
+
+        return {
+          type: 'llm_quality',
+          name: criteria.dimension,
+          passed: score >= quality.threshold,
+          score,
+          message: judgement.reasoning,
+          details: { weight: criteria.weight, model: quality.model, cost: judgement.cost || 0 }
+        };
+      } catch (error: any) {
+        console.error(`[Verification] Judge failed for ${criteria.dimension}:`, error.message);
+
+        return {
+          type: 'llm_quality',
+          name: criteria.dimension,
+          passed: false,
+          message: `Judge unavailable: ${error.message}`,
+          details: { weight: criteria.weight, model: quality.model, error: error.message }
+        };
+      }
+    }));
+  }
+
+  /**
+   * Default policy check: artifact.created rules with the artifact in scope
+   */
+  private evaluatePolicies(artifact: Artifact, run?: Pick<Run, 'project_id' | 'user_id'>): PolicyDecision {
+    return policyEngine.evaluate(
+      'artifact.created',
+      run || { project_id: '', user_id: '' },
+      { run, artifact }
+    );
+  }
+
+  /**
+   * One check per matched rule; blocking rules fail the verification
+   */
+  private policyChecks(decision: PolicyDecision): VerificationCheck[] {
+    if (decision.violations.length === 0) {
+      return decision.policy_ids.length > 0
+        ? [{ type: 'policy', name: 'Policies', passed: true, details: { action: 'allow', policy_ids: decision.policy_ids } }]
+        : [];
+    }
+
+    return decision.violations.map(violation => ({
+      type: 'policy' as const,
+      name: violation.policy.name,
+      passed: violation.rule.action !== 'block',
+      message: violation.rule.message,
+      details: {
+        action: violation.rule.action === 'notify' ? 'allow' : violation.rule.action,
+        policy_id: violation.policy.id,
+        condition_error: violation.error
+      }
+    }));
+  }
+
+  /**
+   * Reset to the built-in verifiers and judge (for testing)
+   */
+  clear(): void {
+    this.verifiers.clear();
+    this.verifiers.set('prd', PRD_VERIFIER);
+    this.judge = llmJudge;
+  }
+}
+
+// ============= LLM JUDGE =============
+
+/**
+ * Default judge: ask the runtime LLM provider for a 0-100 score on one criterion
+ */
+async function llmJudge(artifact: Artifact, criteria: QualityCriteria, model: string): Promise<QualityJudgement> {
+  const { text, cost } = await llmService.complete({
+    model,
+    temperature: 0,
+    max_tokens: 300,
+    messages: [{
+      role: 'system',
+      content: `You are a strict reviewer scoring a ${artifact.type} artifact on ${criteria.dimension}. ` +
+        'Respond with JSON only: {"score": <0-100>, "reasoning": "<one sentence>"}'
+    },
+    {
+      role: 'user',
+      content: `${criteria.prompt}\n\nArtifact:\n${JSON.stringify(artifact.content, null, 2)}`
+    }]
+  });
+
+  const match = text.match(/\{[\s\S]*\}/);
+  const parsed = match ? JSON.parse(match[0]) : null;
+  if (!parsed || typeof parsed.score !== 'number') {
+    throw new Error(`Judge (${model}) returned no score`);
+  }
+
+  return { score: parsed.score, reasoning: parsed.reasoning, cost };
+}
+
+// ============= UTILITIES =============
+
+function getPath(value: any, path: string): any {
+  return path.split('.').reduce((current, key) => current?.[key], value);
+}
+
+function isEmpty(value: any): boolean {
+  if (value === undefined || value === null) return true;
+  if (typeof value === 'string') return value.trim().length === 0;
+  if (Array.isArray(value)) return value.length === 0;
+  return false;
+}
+
+// ============= SINGLETON INSTANCE =============
+
+export const verificationService = new VerificationService();
+
+// ============= HELPER FUNCTIONS =============
+
+/**
+ * Verify an artifact with the shared service
+ */
+export async function verifyArtifact(artifact: Artifact, options?: VerifyOptions): Promise<VerificationResult> {
+  return verificationService.verify(artifact, options);
+}
+
+/**
+ * Register a verifier for an artifact type
+ */
+export function registerVerifier(type: ArtifactType, verifier: ArtifactVerifier): void {
+  verificationService.registerVerifier(type, verifier);
+}
+
+/**
+ * Export for testing
+ */
+export { VerificationService };
@@ -3,9 +3,22 @@ import { WorkflowDefinition, WorkflowNode } from '../types';
 import { APIExecutor, DEFAULT_RETRY_POLICY, getIntegrationById, getActionById } from './apiIntegrations';
 import { credentialManager } from './credentialManager';
 import { executeAgentStep, fixWorkflowError } from './llm';
+import { resolveTemplates, loadSecrets } from './runtime/templates';
 
 // ============= WORKFLOW EXECUTION ENGINE =============
 
+/**
+ * Lets a caller (e.g., replayService) steer an execution
+ */
+export interface WorkflowRunOptions {
+  parentExecutionId?: string;
+  metadata?: Record<string, any>;
+  // Return a finished step to record instead of executing the node
+  interceptStep?: (node: WorkflowNode, state: Record<string, any>, index: number) => ExecutionStepDetail | undefined;
+  // Return the id of the node to go to instead of following the edges
+  routeFrom?: (node: WorkflowNode, step: ExecutionStepDetail) => string | undefined;
+}
+
 export class WorkflowEngine {
   private executionHistory: Map<string, WorkflowExecution> = new Map();
   private activeExecutions: Set<string> = new Set();
@@ -18,9 +31,10 @@ export class WorkflowEngine {
     workflow: WorkflowDefinition,
     input: Record<string, any>,
     trigger: {
-      type: 'manual' | 'webhook' | 'schedule' | 'api';
+      type: 'manual' | 'webhook' | 'schedule' | 'api' | 'replay';
       source?: string;
-    }
+    },
+    options: WorkflowRunOptions = {}
   ): Promise<WorkflowExecution> {
     const executionId = this.generateExecutionId();
 
@@ -40,7 +54,9 @@ export class WorkflowEngine {
       input,
       retryCount: 0,
       maxRetries: 3,
-      metadata: {}
+      parentExecutionId: options.parentExecutionId,
+      // The definition is kept so the execution can be replayed later
+      metadata: { ...options.metadata, workflow: { ...workflow, files: [] } }
     };
 
     this.activeExecutions.add(executionId);
@@ -55,7 +71,7 @@ export class WorkflowEngine {
       let stepCount = 0;
 
       while (currentNode && stepCount < maxSteps && currentNode.type !== 'end') {
-        const step = await this.executeStep(
+        const step = options.interceptStep?.(currentNode, currentState, stepCount) || await this.executeStep(
           currentNode,
           currentState,
           execution,
@@ -77,7 +93,10 @@ export class WorkflowEngine {
         }
 
         // Find next node
-        const nextNode = this.getNextNode(workflow, currentNode, step, currentState);
+        const routedId = options.routeFrom?.(currentNode, step);
+        const nextNode = routedId
+          ? workflow.nodes.find(n => n.id === routedId) || null
+          : this.getNextNode(workflow, currentNode, step, currentState);
         if (!nextNode) break;
 
         currentNode = nextNode;
@@ -254,7 +273,7 @@ export class WorkflowEngine {
     const executor = new APIExecutor(credential);
 
     // Resolve parameters from state
-    const resolvedParams = this.resolveParameters(parameters, state);
+    const resolvedParams = await this.resolveParameters(parameters, state);
 
     this.logStep(step, 'debug', `Calling ${integration.name} API: ${action.name}`);
 
@@ -385,24 +404,19 @@ export class WorkflowEngine {
     return {
       integrationId,
       actionId,
-      parameters: {} // Would extract from node.data
+      parameters: node.data.params || {}
     };
   }
 
-  private resolveParameters(params: Record<string, any>, state: Record<string, any>): Record<string, any> {
-    const resolved: Record<string, any> = {};
-
-    for (const [key, value] of Object.entries(params)) {
-      if (typeof value === 'string' && value.startsWith('{{') && value.endsWith('}}')) {
-        // Variable reference: {{variable_name}}
-        const varName = value.slice(2, -2).trim();
-        resolved[key] = state[varName] || value;
-      } else {
-        resolved[key] = value;
-      }
-    }
-
-    return resolved;
+  /**
+   * Resolve {{ }} templates (see runtime/templates) against workflow state,
+   * e.g. {{ research.findings[0].title }} or {{ secrets.AURA_SECRET_STRIPE_KEY }}
+   */
+  private async resolveParameters(params: Record<string, any>, state: Record<string, any>): Promise<Record<string, any>> {
+    return resolveTemplates(params, {
+      values: { ...state, state },
+      loaders: { secrets: loadSecrets }
+    });
   }
 
   private logStep(step: ExecutionStepDetail, level: 'debug' | 'info' | 'warn' | 'error', message: string, data?: any): void {
@@ -471,21 +485,31 @@ export class WorkflowEngine {
 
   // ============= REPLAY CAPABILITY =============
 
-  async replayExecution(executionId: string, workflow: WorkflowDefinition): Promise<WorkflowExecution> {
+  /**
+   * Re-run an execution with the same input. For replays that fork from a
+   * step or change nodes, use replayService.
+   */
+  async replayExecution(executionId: string, workflow?: WorkflowDefinition): Promise<WorkflowExecution> {
     const original = this.getExecutionById(executionId);
 
     if (!original) {
       throw new Error(`Execution ${executionId} not found`);
     }
 
+    const definition = workflow || original.metadata.workflow;
+    if (!definition) {
+      throw new Error(`Execution ${executionId} has no stored workflow definition`);
+    }
+
     // Replay with same input
     return await this.executeWorkflow(
-      workflow,
+      definition,
       original.input,
       {
-        type: 'manual',
+        type: 'replay',
         source: `replay_of_${executionId}`
-      }
+      },
+      { parentExecutionId: executionId }
     );
   }
 }
@@ -12,6 +12,8 @@
 
 import { v4 as uuidv4 } from 'uuid';
 import { eventStore } from '../runtime/eventStore';
+import { hashContent } from '../runtime/idempotency';
+import { verifyArtifact, VERIFIER_VERSION } from '../runtime/verification';
 import { Artifact, Intent } from '../../types/advanced';
 import {
   initializeMemorySystem,
@@ -57,7 +59,7 @@ async function extractEntities(rawIntent: string, runId: string): Promise<Extrac
     step_id: 'extract',
     node_id: 'extract_entities',
     attempt: 1
-  } as any);
+  });
 
   // Simple regex extraction (no LLM for now - Anthropic principle: start simple)
   const featureMatch = rawIntent.match(/(?:for|create|build|implement)\s+(.+?)(?:\s+feature|\s+that|\s+to|$)/i);
@@ -92,7 +94,7 @@ async function extractEntities(rawIntent: string, runId: string): Promise<Extrac
     step_id: 'extract',
     duration: 10,
     output: entities
-  } as any);
+  });
 
   return entities;
 }
@@ -112,7 +114,7 @@ async function generateUserStories(entities: ExtractedEntities, runId: string):
     step_id: 'stories',
     node_id: 'generate_stories',
     attempt: 1
-  } as any);
+  });
 
   // Template-based generation (simple for now)
   const stories = [
@@ -136,7 +138,7 @@ async function generateUserStories(entities: ExtractedEntities, runId: string):
     step_id: 'stories',
     duration: 50,
     output: { count: stories.length }
-  } as any);
+  });
 
   return stories;
 }
@@ -152,7 +154,7 @@ async function generateSuccessMetrics(entities: ExtractedEntities, runId: string
     step_id: 'metrics',
     node_id: 'generate_metrics',
     attempt: 1
-  } as any);
+  });
 
   const metrics = [
     `90%+ of users successfully complete ${entities.feature_name.toLowerCase()} within first session`,
@@ -170,7 +172,7 @@ async function generateSuccessMetrics(entities: ExtractedEntities, runId: string
     step_id: 'metrics',
     duration: 30,
     output: { count: metrics.length }
-  } as any);
+  });
 
   return metrics;
 }
@@ -186,7 +188,7 @@ async function generateTechnicalConsiderations(entities: ExtractedEntities, runI
     step_id: 'technical',
     node_id: 'generate_technical',
     attempt: 1
-  } as any);
+  });
 
   const technical = [
     `**Frontend**: React components with TypeScript for type safety`,
@@ -205,7 +207,7 @@ async function generateTechnicalConsiderations(entities: ExtractedEntities, runI
     step_id: 'technical',
     duration: 40,
     output: { count: technical.length }
-  } as any);
+  });
 
   return technical;
 }
@@ -231,7 +233,7 @@ async function writePRD(
     step_id: 'write',
     node_id: 'write_prd',
     attempt: 1
-  } as any);
+  });
 
   const prd: PRDContent = {
     title: entities.feature_name,
@@ -260,7 +262,7 @@ async function writePRD(
     step_id: 'write',
     duration: 20,
     output: { sections: Object.keys(prd).length }
-  } as any);
+  });
 
   return prd;
 }
@@ -312,7 +314,7 @@ export async function generatePRD(intent: Intent, userId?: string): Promise<Arti
       requires_approval: false,
       created_at: startTime
     }
-  } as any);
+  });
 
   try {
     // Step 1: Extract entities
@@ -336,17 +338,13 @@ export async function generatePRD(intent: Intent, userId?: string): Promise<Arti
       run_id: runId,
       type: 'prd',
       content: prd,
-      hash: `${Date.now()}-${runId}`,
+      hash: hashContent(prd),
       verification: {
-        status: 'passed',
-        score: 85,
-        checks: [
-          { type: 'schema', name: 'Required sections', passed: true, score: 100 },
-          { type: 'schema', name: 'User stories count', passed: true, score: 100, message: `${stories.length} stories generated` },
-          { type: 'schema', name: 'Success metrics', passed: true, score: 100, message: `${metrics.length} metrics defined` }
-        ],
-        verified_at: Date.now(),
-        verifier_version: '1.0.0'
+        status: 'warning',
+        score: 0,
+        checks: [],
+        verified_at: 0,
+        verifier_version: VERIFIER_VERSION
       },
       provenance: {
         evidence_ids: [],
@@ -366,7 +364,41 @@ export async function generatePRD(intent: Intent, userId?: string): Promise<Arti
       artifact_id: artifact.id,
       artifact_type: 'prd',
       hash: artifact.hash
-    } as any);
+    });
+
+    // Verify PRD (schema, LLM quality, policies)
+    await eventStore.append({
+      id: uuidv4(),
+      run_id: runId,
+      type: 'verification.started',
+      timestamp: Date.now(),
+      artifact_id: artifact.id,
+      verifier_type: 'prd'
+    });
+
+    artifact.verification = await verifyArtifact(artifact, {
+      run: { project_id: '', user_id: userId || '' }
+    });
+
+    if (artifact.verification.status === 'failed') {
+      await eventStore.append({
+        id: uuidv4(),
+        run_id: runId,
+        type: 'verification.failed',
+        timestamp: Date.now(),
+        artifact_id: artifact.id,
+        checks_failed: artifact.verification.checks.filter(check => !check.passed).map(check => check.name)
+      });
+    } else {
+      await eventStore.append({
+        id: uuidv4(),
+        run_id: runId,
+        type: 'verification.completed',
+        timestamp: Date.now(),
+        artifact_id: artifact.id,
+        result: artifact.verification
+      });
+    }
 
     // Emit run completed
     const endTime = Date.now();
@@ -378,7 +410,7 @@ export async function generatePRD(intent: Intent, userId?: string): Promise<Arti
       duration: endTime - startTime,
       cost: 100,
       artifact_ids: [artifact.id]
-    } as any);
+    });
 
     // Record memories from this run (if userId provided)
     if (userId) {
@@ -407,7 +439,7 @@ export async function generatePRD(intent: Intent, userId?: string): Promise<Arti
         timestamp: Date.now()
       },
       final_status: 'failed'
-    } as any);
+    });
 
     // Record failure as experiential memory (if userId provided)
     if (userId) {
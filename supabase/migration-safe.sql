@@ -26,6 +26,8 @@ DROP TRIGGER IF EXISTS update_capabilities_updated_at ON capabilities;
 -- Drop functions
 DROP FUNCTION IF EXISTS calculate_success_rate(capabilities);
 DROP FUNCTION IF EXISTS update_updated_at_column();
+DROP FUNCTION IF EXISTS search_factual_memories(UUID, vector, FLOAT, INT);
+DROP FUNCTION IF EXISTS search_factual_memories(UUID, vector, FLOAT, INT, BOOLEAN);
 
 -- Drop tables (CASCADE will drop RLS policies automatically)
 DROP TABLE IF EXISTS factual_memory CASCADE;
@@ -56,6 +58,10 @@ CREATE TABLE factual_memory (
   tags TEXT[] DEFAULT '{}',
   embedding vector(1536),
   metadata JSONB DEFAULT '{}',
+  version INT NOT NULL DEFAULT 1,
+  previous_version_id UUID,
+  superseded_by UUID,
+  superseded_at TIMESTAMPTZ,
   created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
   updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
 );
@@ -140,6 +146,7 @@ CREATE INDEX idx_factual_memory_type ON factual_memory(type);
 CREATE INDEX idx_factual_memory_created_at ON factual_memory(created_at DESC);
 CREATE INDEX idx_factual_memory_tags ON factual_memory USING GIN(tags);
 CREATE INDEX idx_factual_memory_embedding ON factual_memory USING ivfflat(embedding vector_cosine_ops) WITH (lists = 100);
+CREATE INDEX idx_factual_memory_current ON factual_memory(user_id) WHERE superseded_by IS NULL;
 
 -- Experiential memory indexes
 CREATE INDEX idx_experiential_memory_user_id ON experiential_memory(user_id);
@@ -278,6 +285,44 @@ BEGIN
 END;
 $$ LANGUAGE plpgsql;
 
+CREATE OR REPLACE FUNCTION search_factual_memories(
+  query_user_id UUID,
+  query_embedding vector(1536),
+  match_threshold FLOAT,
+  match_count INT,
+  include_superseded BOOLEAN DEFAULT FALSE
+)
+RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  type TEXT,
+  content TEXT,
+  source TEXT,
+  confidence FLOAT,
+  tags TEXT[],
+  embedding vector(1536),
+  metadata JSONB,
+  version INT,
+  previous_version_id UUID,
+  superseded_by UUID,
+  superseded_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ,
+  similarity FLOAT
+) AS $$
+  SELECT
+    m.id, m.user_id, m.type, m.content, m.source, m.confidence, m.tags,
+    m.embedding, m.metadata, m.version, m.previous_version_id, m.superseded_by, m.superseded_at,
+    m.created_at,
+    1 - (m.embedding <=> query_embedding) AS similarity
+  FROM factual_memory m
+  WHERE m.user_id = query_user_id
+    AND m.embedding IS NOT NULL
+    AND (include_superseded OR m.superseded_by IS NULL)
+    AND 1 - (m.embedding <=> query_embedding) >= match_threshold
+  ORDER BY m.embedding <=> query_embedding
+  LIMIT match_count;
+$$ LANGUAGE sql STABLE;
+
 -- ============================================================================
 -- STEP 7: Create triggers
 -- ============================================================================
@@ -33,6 +33,12 @@ CREATE TABLE factual_memory (
   -- Metadata
   metadata JSONB DEFAULT '{}',
 
+  -- Version history: a newer fact that contradicts this one supersedes it
+  version INT NOT NULL DEFAULT 1,
+  previous_version_id UUID, -- The fact this one superseded
+  superseded_by UUID, -- NULL while current
+  superseded_at TIMESTAMPTZ,
+
   -- Timestamps
   created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
   updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
@@ -44,6 +50,7 @@ CREATE INDEX idx_factual_memory_type ON factual_memory(type);
 CREATE INDEX idx_factual_memory_created_at ON factual_memory(created_at DESC);
 CREATE INDEX idx_factual_memory_tags ON factual_memory USING GIN(tags);
 CREATE INDEX idx_factual_memory_embedding ON factual_memory USING ivfflat(embedding vector_cosine_ops);
+CREATE INDEX idx_factual_memory_current ON factual_memory(user_id) WHERE superseded_by IS NULL;
 
 -- RLS Policies for factual_memory
 ALTER TABLE factual_memory ENABLE ROW LEVEL SECURITY;
@@ -330,6 +337,45 @@ BEGIN
 END;
 $$ LANGUAGE plpgsql;
 
+-- Function for semantic search over factual memories (cosine similarity)
+CREATE OR REPLACE FUNCTION search_factual_memories(
+  query_user_id UUID,
+  query_embedding vector(1536),
+  match_threshold FLOAT,
+  match_count INT,
+  include_superseded BOOLEAN DEFAULT FALSE
+)
+RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  type TEXT,
+  content TEXT,
+  source TEXT,
+  confidence FLOAT,
+  tags TEXT[],
+  embedding vector(1536),
+  metadata JSONB,
+  version INT,
+  previous_version_id UUID,
+  superseded_by UUID,
+  superseded_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ,
+  similarity FLOAT
+) AS $$
+  SELECT
+    m.id, m.user_id, m.type, m.content, m.source, m.confidence, m.tags,
+    m.embedding, m.metadata, m.version, m.previous_version_id, m.superseded_by, m.superseded_at,
+    m.created_at,
+    1 - (m.embedding <=> query_embedding) AS similarity
+  FROM factual_memory m
+  WHERE m.user_id = query_user_id
+    AND m.embedding IS NOT NULL
+    AND (include_superseded OR m.superseded_by IS NULL)
+    AND 1 - (m.embedding <=> query_embedding) >= match_threshold
+  ORDER BY m.embedding <=> query_embedding
+  LIMIT match_count;
+$$ LANGUAGE sql STABLE;
+
 -- Triggers to auto-update updated_at
 CREATE TRIGGER update_factual_memory_updated_at
   BEFORE UPDATE ON factual_memory
@@ -11,6 +11,7 @@ export interface WorkflowNode {
     description?: string;
     codeSnippet?: string;
     tools?: string[];
+    params?: Record<string, any>; // Tool parameters; may use {{ }} templates
   };
   // Visual coordinates
   x?: number;
@@ -1,5 +1,7 @@
 // Advanced Types for Production-Grade Automation Platform
 
+import { NodeRunMetrics, RateLimits } from './aura-os';
+
 // ============= API INTEGRATIONS =============
 
 export interface APICredential {
@@ -31,11 +33,7 @@ export interface APIIntegration {
   connected: boolean;
   credentialId?: string;
   baseUrl: string;
-  rateLimits?: {
-    requestsPerSecond?: number;
-    requestsPerMinute?: number;
-    requestsPerHour?: number;
-  };
+  rateLimits?: RateLimits;
   actions: APIAction[];
   triggers: APITrigger[];
   authType: 'oauth2' | 'api_key' | 'basic_auth' | 'bearer_token';
@@ -97,13 +95,13 @@ export interface WorkflowExecution {
   error?: ExecutionError;
   retryCount: number;
   maxRetries: number;
-  parentExecutionId?: string; // For sub-workflows
+  parentExecutionId?: string; // For sub-workflows and replays
   cost?: number; // AI token cost
   metadata: Record<string, any>;
 }
 
 export interface ExecutionTrigger {
-  type: 'manual' | 'webhook' | 'schedule' | 'api' | 'event';
+  type: 'manual' | 'webhook' | 'schedule' | 'api' | 'event' | 'replay';
   source?: string;
   triggeredBy?: string;
   payload?: Record<string, any>;
@@ -535,7 +533,7 @@ export interface Intent {
       deadline?: string;
     };
     constraints?: {
-      budget?: number; // Token budget
+      budget?: number; // Cost budget in US cents (same units as Run.cost)
       max_duration?: number; // ms
       approval_required?: boolean;
     };
@@ -567,12 +565,12 @@ export interface DAG {
 export interface PlanNode {
   id: string;
   type: 'tool_call' | 'llm_call' | 'verification' | 'approval_gate' | 'parallel_group';
-  tool?: string; // e.g., 'jira.create_issue', 'web.scrape', 'llm.gpt4'
+  tool?: string; // e.g., 'jira.create_issue', 'web.scrape', 'llm.llama'
   params: Record<string, any>;
   depends_on: string[]; // Node IDs
   retry_policy: RetryConfig;
   timeout: number; // ms
-  idempotency_key?: string;
+  idempotency_key?: string; // Shared across runs, e.g. 'welcome-{{ run.intent.parsed.entities.email }}'
 }
 
 export interface PlanEdge {
@@ -590,6 +588,7 @@ export interface EdgeCondition {
 
 export interface Run {
   id: string;
+  tenant_id: string; // Owning tenant; its events, memories and quota (see services/runtime/tenants)
   project_id: string;
   user_id: string;
   intent: Intent;
@@ -598,7 +597,7 @@ export interface Run {
   started_at: number;
   completed_at?: number;
   paused_at?: number;
-  cost: number; // Cumulative token cost
+  cost: number; // Cumulative cost in US cents (LLM tokens priced per model, tool calls)
   artifacts: Artifact[];
   events: Event[];
   current_snapshot?: Snapshot;
@@ -633,16 +632,25 @@ export interface Step {
   output?: any;
   error?: StepError;
   cost: number;
+  usage?: TokenUsage; // LLM token usage (llm_call nodes)
   idempotency_key?: string;
 }
 
+export interface TokenUsage {
+  model: string;
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
 export type StepStatus =
   | 'pending'
   | 'running'
   | 'completed'
   | 'failed'
   | 'retrying'
-  | 'skipped';
+  | 'skipped'
+  | 'cancelled'; // Run cancelled while the step was in flight
 
 export interface ToolCall {
   id: string;
@@ -655,6 +663,7 @@ export interface ToolCall {
   error?: ToolError;
   cached: boolean; // Was result cached?
   cache_key?: string;
+  metrics?: NodeRunMetrics; // queueTimeMs: time spent waiting on rate limits
 }
 
 // ============= ARTIFACTS & EVIDENCE =============
@@ -727,7 +736,7 @@ export interface SchemaVerifier {
 // LLM Quality Verification
 export interface LLMQualityCheck {
   criteria: QualityCriteria[];
-  model: string; // e.g., 'gpt-4o-mini'
+  model: string; // e.g., 'llama-3.1-8b-instant'
   threshold: number; // 0-100
 }
 
@@ -752,12 +761,21 @@ export interface PolicyRule {
   condition: string; // Expression: e.g., "artifact.type === 'prd' && run.cost > 1000"
   action: 'block' | 'warn' | 'require_approval' | 'notify';
   message: string;
+  hooks?: PolicyHook[]; // Where the rule is checked (default: every hook)
 }
 
+export type PolicyHook =
+  | 'run.start'         // Before the first step (scope: run)
+  | 'step.before'       // Before a node starts (scope: run, step)
+  | 'tool.before'       // Before a tool call node starts (scope: run, step, tool)
+  | 'step.after'        // After a node completes (scope: run, step, output)
+  | 'artifact.created'; // When an artifact is produced (scope: run, artifact)
+
 // ============= MEMORY SYSTEM =============
 
 export interface Memory {
   id: string;
+  tenant_id: string;
   scope: MemoryScope;
   scope_id: string; // user_id, org_id, project_id, or run_id
   key: string;
@@ -795,10 +813,12 @@ export type Event =
   | RunFailedEvent
   | RunPausedEvent
   | RunCancelledEvent
+  | RunResumedEvent
   | StepStartedEvent
   | StepCompletedEvent
   | StepFailedEvent
   | StepRetryingEvent
+  | StepSkippedEvent
   | ToolCalledEvent
   | ToolCompletedEvent
   | ToolFailedEvent
@@ -814,18 +834,34 @@ export type Event =
   | MemoryAccessedEvent
   | MemoryCreatedEvent
   | PolicyViolationEvent
+  | PolicyEvaluatedEvent
   | CostLimitWarningEvent
+  | CircuitOpenedEvent
+  | CircuitClosedEvent
   | ReplanTriggeredEvent
   | SnapshotCreatedEvent;
 
 export interface BaseEvent {
   id: string;
   run_id: string;
+  tenant_id: string; // Tenant that owns the run; storage is partitioned by it
   type: string;
   timestamp: number;
+  schema_version: number; // Event shape version (see services/runtime/eventSchema)
   metadata?: Record<string, any>;
 }
 
+// Fields the event store fills in on append when absent
+export type EventEnvelopeField = 'id' | 'timestamp' | 'schema_version' | 'tenant_id';
+
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+
+// An event as emitted by a run (the executor adds run_id and tenant_id)
+export type EventBody = DistributiveOmit<Event, EventEnvelopeField | 'run_id'>;
+
+// An event as passed to EventStore.append
+export type NewEvent = DistributiveOmit<Event, EventEnvelopeField> & Partial<Pick<BaseEvent, EventEnvelopeField>>;
+
 export interface RunStartedEvent extends BaseEvent {
   type: 'run.started';
   plan: Plan;
@@ -852,7 +888,7 @@ export interface RunFailedEvent extends BaseEvent {
 export interface RunPausedEvent extends BaseEvent {
   type: 'run.paused';
   reason: 'approval_gate' | 'error' | 'user_action';
-  pausedAt: string; // Node ID
+  node_id?: string; // Node the run paused at, absent for plan-level approval (schema v1: pausedAt)
 }
 
 export interface RunCancelledEvent extends BaseEvent {
@@ -861,6 +897,12 @@ export interface RunCancelledEvent extends BaseEvent {
   reason?: string;
 }
 
+export interface RunResumedEvent extends BaseEvent {
+  type: 'run.resumed';
+  snapshot_id: string;
+  pending_node_ids: string[]; // Nodes that will (re-)run
+}
+
 export interface StepStartedEvent extends BaseEvent {
   type: 'step.started';
   step_id: string;
@@ -873,6 +915,8 @@ export interface StepCompletedEvent extends BaseEvent {
   step_id: string;
   duration: number;
   output: any;
+  cost?: number;
+  usage?: TokenUsage;
 }
 
 export interface StepFailedEvent extends BaseEvent {
@@ -890,9 +934,16 @@ export interface StepRetryingEvent extends BaseEvent {
   next_retry_at: number;
 }
 
+export interface StepSkippedEvent extends BaseEvent {
+  type: 'step.skipped';
+  node_id: string;
+  reason: string; // e.g., no incoming edge was taken
+}
+
 export interface ToolCalledEvent extends BaseEvent {
   type: 'tool.called';
   tool_call_id: string;
+  step_id?: string; // Absent on events recorded before tool calls named their step
   tool: string;
   params: Record<string, any>;
 }
@@ -901,6 +952,7 @@ export interface ToolCompletedEvent extends BaseEvent {
   type: 'tool.completed';
   tool_call_id: string;
   duration: number;
+  queue_time_ms?: number; // Part of duration spent waiting on rate limits
   cached: boolean;
 }
 
@@ -945,22 +997,27 @@ export interface EvidenceCollectedEvent extends BaseEvent {
   type: 'evidence.collected';
   evidence_id: string;
   source: string;
-  type: string;
+  evidence_type: string; // e.g., 'web_page', 'document'
 }
 
 export interface ApprovalRequestedEvent extends BaseEvent {
   type: 'approval.requested';
   artifact_id?: string;
+  node_id?: string; // Approval gate node; absent for plan-level approval
+  approver?: string; // Only this person may decide, if set
+  expires_at?: number; // Auto-denied after this time
   reason: string;
 }
 
 export interface ApprovalGrantedEvent extends BaseEvent {
   type: 'approval.granted';
+  node_id?: string;
   approved_by: string;
 }
 
 export interface ApprovalDeniedEvent extends BaseEvent {
   type: 'approval.denied';
+  node_id?: string;
   denied_by: string;
   reason: string;
 }
@@ -983,6 +1040,17 @@ export interface PolicyViolationEvent extends BaseEvent {
   policy_id: string;
   rule: PolicyRule;
   action_taken: string;
+  hook?: PolicyHook;
+  node_id?: string;
+}
+
+export interface PolicyEvaluatedEvent extends BaseEvent {
+  type: 'policy.evaluated';
+  hook: PolicyHook;
+  node_id?: string;
+  policy_ids: string[]; // Policies that applied at this hook
+  decision: 'allow' | 'warn' | 'require_approval' | 'block';
+  violations: number;
 }
 
 export interface CostLimitWarningEvent extends BaseEvent {
@@ -992,6 +1060,18 @@ export interface CostLimitWarningEvent extends BaseEvent {
   percentage: number;
 }
 
+export interface CircuitOpenedEvent extends BaseEvent {
+  type: 'circuit.opened';
+  integration: string; // e.g., 'slack', 'mcp.github'
+  failures: number;
+  retry_at: number; // When a half-open probe is allowed
+}
+
+export interface CircuitClosedEvent extends BaseEvent {
+  type: 'circuit.closed';
+  integration: string;
+}
+
 export interface ReplanTriggeredEvent extends BaseEvent {
   type: 'replan.triggered';
   reason: string;
@@ -1002,6 +1082,7 @@ export interface ReplanTriggeredEvent extends BaseEvent {
 export interface SnapshotCreatedEvent extends BaseEvent {
   type: 'snapshot.created';
   snapshot_id: string;
+  snapshot: Snapshot; // Full snapshot, so it is as durable as the event log
 }
 
 // ============= ERRORS =============
@@ -1027,6 +1108,7 @@ export interface ToolError {
   code: string;
   message: string;
   http_status?: number;
+  retry_after_ms?: number; // Server retry hint (Retry-After)
   api_error?: any;
   timestamp: number;
 }
@@ -1039,10 +1121,12 @@ export interface RetryConfig {
   max_delay: number; // ms
   backoff_multiplier: number; // 2.0 for exponential
   retryable_errors: string[]; // Error codes
+  jitter?: boolean; // Full jitter on backoff delays (default: true)
 }
 
 export interface IdempotencyKey {
   key: string;
+  tenant_id?: string; // Absent on keys stored before tenancy (default tenant)
   run_id: string;
   step_id: string;
   tool: string;
@@ -1065,6 +1149,11 @@ export interface Snapshot {
     variables: Record<string, any>;
     memory_snapshot: Memory[];
     events_count: number;
+    skipped_steps?: string[];
+    failed_steps?: string[]; // Failed but routed along a failure edge
+    taken_edges?: number[]; // Indexes into plan.dag.edges
+    cost?: number;
+    budget_remaining?: number;
   };
 }
 
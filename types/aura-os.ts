@@ -33,6 +33,7 @@ export interface Goal {
 
 export interface AgentState {
   flowRunId: string;
+  tenantId?: string; // Defaults to the default tenant
   currentNodeId?: string;
   goal: Goal;
   history: AgentAction[];
@@ -487,7 +488,40 @@ export interface ReplayModification {
   nodeId: string;
   description: string;
   oldValue?: any;
-  newValue?: any;
+  newValue?: any; // config_change: node data fields; decision_override: output; force_branch: target node id or edge label
+}
+
+export interface ReplayDiff {
+  sessionId: string;
+  originalFlowRunId: string;
+  newFlowRunId: string;
+  forkNodeId?: string; // First node run live (undefined: nothing was re-run)
+  steps: ReplayStepDiff[]; // Replayed order, then steps only the original ran
+  outputChanges: ReplayValueChange[]; // Final output, by path
+  statusChanged: boolean;
+}
+
+export interface ReplayStepDiff {
+  nodeId: string;
+  nodeName: string;
+  original?: ReplayStepSide;
+  replayed?: ReplayStepSide;
+  reused: boolean; // Output taken from the original execution
+  modification?: ReplayModification['type'];
+  changed: boolean;
+}
+
+export interface ReplayStepSide {
+  stepId: string;
+  status: string;
+  output?: Record<string, any>;
+  durationMs?: number;
+}
+
+export interface ReplayValueChange {
+  path: string; // e.g., 'agentOutput.summary'
+  original?: any;
+  replayed?: any;
 }
 
 // ============= MARKETPLACE =============